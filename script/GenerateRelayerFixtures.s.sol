@@ -0,0 +1,269 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import {Script, console} from "forge-std/Script.sol";
+import {IBatchAuction} from "../contracts/interfaces/IBatchAuction.sol";
+import {MerkleProof} from "../contracts/libraries/MerkleProof.sol";
+import {CompactEncoding} from "../contracts/libraries/CompactEncoding.sol";
+
+/// @title GenerateRelayerFixtures
+/// @notice Generates the test vectors the relayer's and the SDK's TypeScript tests check against
+/// @dev Leaves, roots and commitments come straight from the contract libraries, so any drift
+///      between BatchAuction and the TypeScript code shows up as a failing TypeScript test.
+///      Usage: forge script script/GenerateRelayerFixtures.s.sol
+contract GenerateRelayerFixtures is Script {
+    string constant MERKLE_FIXTURE_PATH = "script/relayer/test/fixtures/merkle-vectors.json";
+    string constant HASH_FIXTURE_PATH = "script/sdk/test/fixtures/hash-vectors.json";
+
+    uint256 constant BUY_COUNT = 4;
+    uint256 constant SELL_COUNT = 3;
+
+    function run() external {
+        (IBatchAuction.Order[] memory buyOrders, IBatchAuction.Order[] memory sellOrders) = fixtureOrders();
+
+        // (buyCount, sellCount) pairs covering single leaves, even and odd layers
+        uint256[2][6] memory shapes = [
+            [uint256(1), uint256(0)],
+            [uint256(1), uint256(1)],
+            [uint256(2), uint256(1)],
+            [uint256(2), uint256(2)],
+            [uint256(3), uint256(2)],
+            [uint256(4), uint256(3)]
+        ];
+
+        string memory vectors = "";
+        for (uint256 i = 0; i < shapes.length; i++) {
+            vectors = string.concat(
+                vectors,
+                _vectorJson(buyOrders, sellOrders, shapes[i][0], shapes[i][1]),
+                i + 1 < shapes.length ? ",\n" : "\n"
+            );
+        }
+
+        string memory json = string.concat(
+            "{\n",
+            '  "buyOrders": [\n', _ordersJson(buyOrders), "  ],\n",
+            '  "sellOrders": [\n', _ordersJson(sellOrders), "  ],\n",
+            '  "vectors": [\n', vectors, "  ]\n",
+            "}\n"
+        );
+
+        vm.writeFile(MERKLE_FIXTURE_PATH, json);
+        console.log("Merkle vectors written to:", MERKLE_FIXTURE_PATH);
+
+        vm.writeFile(HASH_FIXTURE_PATH, _hashVectorsJson());
+        console.log("Hash vectors written to:", HASH_FIXTURE_PATH);
+    }
+
+    /// @notice Orders and salts for the commitment vectors: the merkle fixture orders plus the field bounds
+    function hashFixtureOrders() public pure returns (IBatchAuction.Order[] memory orders, bytes32[] memory salts) {
+        (IBatchAuction.Order[] memory buyOrders, IBatchAuction.Order[] memory sellOrders) = fixtureOrders();
+
+        orders = new IBatchAuction.Order[](BUY_COUNT + SELL_COUNT + 2);
+        salts = new bytes32[](orders.length);
+
+        for (uint256 i = 0; i < BUY_COUNT; i++) {
+            orders[i] = buyOrders[i];
+        }
+
+        for (uint256 i = 0; i < SELL_COUNT; i++) {
+            orders[BUY_COUNT + i] = sellOrders[i];
+        }
+
+        orders[orders.length - 2] = IBatchAuction.Order({nonce: 0, expiry: 0, amount: 0, limitPrice: 0, side: 0});
+        orders[orders.length - 1] = IBatchAuction.Order({
+            nonce: type(uint64).max,
+            expiry: type(uint64).max,
+            amount: type(uint128).max,
+            limitPrice: type(uint128).max,
+            side: 1
+        });
+
+        for (uint256 i = 0; i < orders.length; i++) {
+            salts[i] = keccak256(abi.encodePacked("salt", i));
+        }
+    }
+
+    /// @notice Commitment as BatchAuction._hashOrder computes it when an order is revealed
+    function fixtureCommitment(IBatchAuction.Order memory order, bytes32 salt) public pure returns (bytes32) {
+        return CompactEncoding.hashOrder(
+            CompactEncoding.CompactOrder({
+                nonce: order.nonce,
+                expiry: order.expiry,
+                amount: order.amount,
+                limitPrice: order.limitPrice,
+                side: order.side
+            }),
+            salt
+        );
+    }
+
+    /// @notice Deterministic orders used by every vector
+    function fixtureOrders()
+        public
+        pure
+        returns (IBatchAuction.Order[] memory buyOrders, IBatchAuction.Order[] memory sellOrders)
+    {
+        buyOrders = new IBatchAuction.Order[](BUY_COUNT);
+        sellOrders = new IBatchAuction.Order[](SELL_COUNT);
+
+        for (uint256 i = 0; i < BUY_COUNT; i++) {
+            buyOrders[i] = IBatchAuction.Order({
+                nonce: uint64(i + 1),
+                expiry: uint64(1_700_000_000 + i * 3600),
+                amount: uint128((i + 1) * 1e18),
+                limitPrice: uint128(2000e18 - i * 10e18),
+                side: 0
+            });
+        }
+
+        for (uint256 i = 0; i < SELL_COUNT; i++) {
+            sellOrders[i] = IBatchAuction.Order({
+                nonce: uint64(100 + i),
+                expiry: uint64(1_700_000_000 + i * 7200),
+                amount: uint128((i + 2) * 5e17),
+                limitPrice: uint128(1990e18 + i * 5e18),
+                side: 1
+            });
+        }
+    }
+
+    /// @notice Leaves in the order BatchAuction._buildAndVerifyMerkleTree builds them
+    function fixtureLeaves(
+        IBatchAuction.Order[] memory buyOrders,
+        IBatchAuction.Order[] memory sellOrders,
+        uint256 buyCount,
+        uint256 sellCount
+    ) public pure returns (bytes32[] memory leaves) {
+        leaves = new bytes32[](buyCount + sellCount);
+
+        for (uint256 i = 0; i < buyCount; i++) {
+            leaves[i] = keccak256(abi.encode(buyOrders[i]));
+        }
+
+        for (uint256 i = 0; i < sellCount; i++) {
+            leaves[buyCount + i] = keccak256(abi.encode(sellOrders[i]));
+        }
+    }
+
+    /// @notice Builds a proof for a leaf using the same layering as MerkleProof.computeRoot
+    /// @dev Pairs are hashed in sorted order and the last node of an odd layer is promoted
+    function proofFor(bytes32[] memory leaves, uint256 index) public pure returns (bytes32[] memory proof) {
+        bytes32[] memory layer = _copy(leaves);
+        bytes32[] memory siblings = new bytes32[](256);
+        uint256 depth = 0;
+
+        while (layer.length > 1) {
+            uint256 sibling = index ^ 1;
+            if (sibling < layer.length) {
+                siblings[depth++] = layer[sibling];
+            }
+
+            bytes32[] memory next = new bytes32[]((layer.length + 1) / 2);
+            for (uint256 i = 0; i < layer.length / 2; i++) {
+                next[i] = _hashPair(layer[i * 2], layer[i * 2 + 1]);
+            }
+            if (layer.length % 2 == 1) {
+                next[next.length - 1] = layer[layer.length - 1];
+            }
+
+            layer = next;
+            index /= 2;
+        }
+
+        proof = new bytes32[](depth);
+        for (uint256 i = 0; i < depth; i++) {
+            proof[i] = siblings[i];
+        }
+    }
+
+    function _vectorJson(
+        IBatchAuction.Order[] memory buyOrders,
+        IBatchAuction.Order[] memory sellOrders,
+        uint256 buyCount,
+        uint256 sellCount
+    ) internal pure returns (string memory) {
+        bytes32[] memory leaves = fixtureLeaves(buyOrders, sellOrders, buyCount, sellCount);
+        bytes32 root = MerkleProof.computeRoot(_copy(leaves));
+
+        string memory proofs = "";
+        for (uint256 i = 0; i < leaves.length; i++) {
+            proofs = string.concat(
+                proofs,
+                "        ", _bytes32ArrayJson(proofFor(leaves, i)),
+                i + 1 < leaves.length ? ",\n" : "\n"
+            );
+        }
+
+        return string.concat(
+            "    {\n",
+            '      "buyCount": ', vm.toString(buyCount), ",\n",
+            '      "sellCount": ', vm.toString(sellCount), ",\n",
+            '      "leaves": ', _bytes32ArrayJson(leaves), ",\n",
+            '      "root": "', vm.toString(root), '",\n',
+            '      "proofs": [\n', proofs, "      ]\n",
+            "    }"
+        );
+    }
+
+    function _hashVectorsJson() internal pure returns (string memory json) {
+        (IBatchAuction.Order[] memory orders, bytes32[] memory salts) = hashFixtureOrders();
+
+        json = '{\n  "vectors": [\n';
+        for (uint256 i = 0; i < orders.length; i++) {
+            json = string.concat(
+                json,
+                "    {\n",
+                '      "order": ', _orderJson(orders[i]), ",\n",
+                '      "salt": "', vm.toString(salts[i]), '",\n',
+                '      "commitment": "', vm.toString(fixtureCommitment(orders[i], salts[i])), '",\n',
+                '      "orderHash": "', vm.toString(keccak256(abi.encode(orders[i]))), '"\n',
+                i + 1 < orders.length ? "    },\n" : "    }\n"
+            );
+        }
+        json = string.concat(json, "  ]\n}\n");
+    }
+
+    function _orderJson(IBatchAuction.Order memory order) internal pure returns (string memory) {
+        return string.concat(
+            '{ "nonce": "', vm.toString(uint256(order.nonce)),
+            '", "expiry": "', vm.toString(uint256(order.expiry)),
+            '", "amount": "', vm.toString(uint256(order.amount)),
+            '", "limitPrice": "', vm.toString(uint256(order.limitPrice)),
+            '", "side": ', vm.toString(uint256(order.side)), " }"
+        );
+    }
+
+    function _ordersJson(IBatchAuction.Order[] memory orders) internal pure returns (string memory json) {
+        for (uint256 i = 0; i < orders.length; i++) {
+            json = string.concat(
+                json,
+                '    { "nonce": "', vm.toString(uint256(orders[i].nonce)),
+                '", "expiry": "', vm.toString(uint256(orders[i].expiry)),
+                '", "amount": "', vm.toString(uint256(orders[i].amount)),
+                '", "limitPrice": "', vm.toString(uint256(orders[i].limitPrice)),
+                '", "side": ', vm.toString(uint256(orders[i].side)),
+                i + 1 < orders.length ? " },\n" : " }\n"
+            );
+        }
+    }
+
+    function _bytes32ArrayJson(bytes32[] memory values) internal pure returns (string memory json) {
+        json = "[";
+        for (uint256 i = 0; i < values.length; i++) {
+            json = string.concat(json, i == 0 ? '"' : ', "', vm.toString(values[i]), '"');
+        }
+        json = string.concat(json, "]");
+    }
+
+    function _copy(bytes32[] memory values) internal pure returns (bytes32[] memory copy) {
+        copy = new bytes32[](values.length);
+        for (uint256 i = 0; i < values.length; i++) {
+            copy[i] = values[i];
+        }
+    }
+
+    function _hashPair(bytes32 a, bytes32 b) internal pure returns (bytes32) {
+        return a < b ? keccak256(abi.encodePacked(a, b)) : keccak256(abi.encodePacked(b, a));
+    }
+}
@@ -1,17 +1,11 @@
 import { ethers } from "ethers";
-
-// Example ABI (simplified)
-const AUCTION_ABI = [
-	"function commitOrder(bytes32 commitment) external",
-	"function revealOrder(tuple(uint64 nonce, uint64 expiry, uint128 amount, uint128 limitPrice, uint8 side) order, bytes32 salt) external",
-	"function settleBatch(uint256 batchId, uint256 clearingPrice, bytes32 ordersRoot) external",
-];
+import { BatchAuctionClient, BatchState, OrderSide } from "./sdk/src";
 
 async function main() {
 	const provider = new ethers.JsonRpcProvider("http://localhost:8545");
 	const wallet = new ethers.Wallet("YOUR_PRIVATE_KEY", provider);
 	const auctionAddress = "YOUR_AUCTION_ADDRESS";
-	const auction = new ethers.Contract(auctionAddress, AUCTION_ABI, wallet);
+	const auction = new BatchAuctionClient(auctionAddress, wallet);
 
 	// 1. Create Order
 	const order = {
@@ -19,28 +13,20 @@ async function main() {
 		expiry: Math.floor(Date.now() / 1000) + 3600,
 		amount: ethers.parseEther("1.0"),
 		limitPrice: ethers.parseUnits("1500", 6), // USDC price
-		side: 0, // Buy
+		side: OrderSide.Buy,
 	};
 
-	const salt = ethers.randomBytes(32);
-
-	// 2. Hash Order (Commitment)
-	// Note: In real app use proper encoding matching Solidity
-	const packed = ethers.solidityPacked(
-		["uint64", "uint64", "uint128", "uint128", "uint8", "bytes32"],
-		[order.nonce, order.expiry, order.amount, order.limitPrice, order.side, salt]
-	);
-	const commitment = ethers.keccak256(packed);
-
-	console.log("Committing order:", commitment);
-	await auction.commitOrder(commitment);
+	// 2. Commit (the SDK hashes the order exactly like CompactEncoding.hashOrder)
+	const committed = await auction.commit(order);
+	console.log("Committed order:", committed.commitment, "in batch", committed.batchId.toString());
 
-	// 3. Wait for batch to close (simulate wait)
+	// 3. Wait for batch to close
 	console.log("Waiting for batch...");
+	await auction.waitForBatchState(committed.batchId, BatchState.Revealing);
 
 	// 4. Reveal
 	console.log("Revealing order...");
-	await auction.revealOrder(order, salt);
+	await auction.reveal(committed.order, committed.salt);
 
 	// 5. Relayer settles (if authorized)
 	// await auction.settleBatch(...);
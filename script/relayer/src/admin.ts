@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { logger } from './logger';
+import { db, Page, SettlementStatus } from './db';
+import { SettlementPreview } from './settlement';
+import { AuctionParameters, formatParameters } from './parameters';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const SETTLEMENT_STATUSES: SettlementStatus[] = ['pending', 'confirmed', 'failed', 'replaced'];
+
+/**
+ * Relayer operations exposed to operators
+ */
+export interface AdminController {
+  isPaused(): boolean;
+  pause(): void;
+  resume(): void;
+  getAuctions(): string[];
+  getAuctionParameters(auction: string): AuctionParameters | null;
+  previewSettlement(auction: string, batchId: number): Promise<SettlementPreview | null>;
+  settleBatch(auction: string, batchId: number): Promise<string | null>;
+}
+
+/**
+ * Thrown by controllers for requests that cannot be served in the current state
+ */
+export class AdminError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'AdminError';
+    this.status = status;
+  }
+}
+
+type Handler = (req: Request, res: Response) => Promise<void> | void;
+
+/**
+ * Admin routes, authenticated with a bearer token
+ */
+export function createAdminRouter(controller: AdminController, token: string): Router {
+  const router = express.Router();
+
+  router.use(authenticate(token));
+  router.use(express.json());
+
+  router.get('/status', route((req, res) => {
+    const auctions = controller.getAuctions();
+    
+    res.json({
+      paused: controller.isPaused(),
+      auctions,
+      // Values each pipeline currently schedules, validates and clears with
+      parameters: Object.fromEntries(auctions.map(auction => {
+        const parameters = controller.getAuctionParameters(auction);
+        return [auction, parameters && formatParameters(parameters)];
+      })),
+    });
+  }));
+
+  router.post('/pause', route((req, res) => {
+    controller.pause();
+    logger.warn('Settlement loop paused by operator');
+    res.json({ paused: true });
+  }));
+
+  router.post('/resume', route((req, res) => {
+    controller.resume();
+    logger.warn('Settlement loop resumed by operator');
+    res.json({ paused: false });
+  }));
+
+  router.get('/batches', route(async (req, res) => {
+    res.json(await db.listBatches({
+      auction: stringParam(req, 'auction'),
+      settled: booleanParam(req, 'settled'),
+      skipped: booleanParam(req, 'skipped'),
+    }, pageParams(req)));
+  }));
+
+  router.get('/batches/:auction/:batchId', route(async (req, res) => {
+    const { auction, batchId } = batchParams(req);
+    const batch = await db.getBatch(auction, batchId);
+
+    if (!batch) {
+      throw new AdminError(404, `Batch ${batchId} of ${auction} not found`);
+    }
+
+    const page = { limit: MAX_PAGE_SIZE, offset: 0 };
+
+    res.json({
+      batch,
+      // Only batches that still have unexecuted revealed orders can be cleared
+      clearing: batch.settled ? null : await controller.previewSettlement(auction, batchId),
+      revealStats: await db.getRevealStats(auction, batchId),
+      orders: await db.listOrders({ auction, batchId }, page),
+      fills: await db.listFills({ auction, batchId }, page),
+      settlements: await db.listSettlements({ auction, batchId }, page),
+    });
+  }));
+
+  router.post('/batches/:auction/:batchId/settle', route(async (req, res) => {
+    const { auction, batchId } = batchParams(req);
+    logger.warn({ auction, batchId }, 'Settlement forced by operator');
+
+    const txHash = await controller.settleBatch(auction, batchId);
+    res.status(txHash ? 200 : 422).json({ settled: txHash !== null, txHash });
+  }));
+
+  router.post('/batches/:auction/:batchId/skip', route(async (req, res) => {
+    const { auction, batchId } = batchParams(req);
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+
+    if (!await db.setBatchSkipped(auction, batchId, true, reason)) {
+      throw new AdminError(404, `Batch ${batchId} of ${auction} not found`);
+    }
+
+    logger.warn({ auction, batchId, reason }, 'Batch marked as skipped by operator');
+    res.json({ skipped: true });
+  }));
+
+  router.delete('/batches/:auction/:batchId/skip', route(async (req, res) => {
+    const { auction, batchId } = batchParams(req);
+
+    if (!await db.setBatchSkipped(auction, batchId, false)) {
+      throw new AdminError(404, `Batch ${batchId} of ${auction} not found`);
+    }
+
+    logger.warn({ auction, batchId }, 'Batch skip mark cleared by operator');
+    res.json({ skipped: false });
+  }));
+
+  router.get('/orders', route(async (req, res) => {
+    res.json(await db.listOrders({
+      auction: stringParam(req, 'auction'),
+      batchId: integerParam(req, 'batchId'),
+      trader: stringParam(req, 'trader'),
+      revealed: booleanParam(req, 'revealed'),
+      executed: booleanParam(req, 'executed'),
+    }, pageParams(req)));
+  }));
+
+  router.get('/fills', route(async (req, res) => {
+    res.json(await db.listFills({
+      auction: stringParam(req, 'auction'),
+      batchId: integerParam(req, 'batchId'),
+      orderHash: stringParam(req, 'orderHash'),
+      trader: stringParam(req, 'trader'),
+    }, pageParams(req)));
+  }));
+
+  router.get('/settlements', route(async (req, res) => {
+    const status = stringParam(req, 'status');
+
+    if (status !== undefined && !SETTLEMENT_STATUSES.includes(status as SettlementStatus)) {
+      throw new AdminError(400, `status must be one of ${SETTLEMENT_STATUSES.join(', ')}`);
+    }
+
+    res.json(await db.listSettlements({
+      auction: stringParam(req, 'auction'),
+      batchId: integerParam(req, 'batchId'),
+      status: status as SettlementStatus | undefined,
+    }, pageParams(req)));
+  }));
+
+  return router;
+}
+
+/**
+ * Reject requests without the expected bearer token
+ */
+function authenticate(token: string) {
+  const expected = Buffer.from(token);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.headers.authorization || '';
+    const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '');
+
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Turn thrown errors into JSON responses
+ */
+function route(handler: Handler) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      await handler(req, res);
+    } catch (error: any) {
+      if (error instanceof AdminError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+
+      logger.error({ error, path: req.path }, 'Admin request failed');
+      res.status(500).json({ error: error?.message || 'Internal error' });
+    }
+  };
+}
+
+function stringParam(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function integerParam(req: Request, name: string): number | undefined {
+  const value = stringParam(req, name);
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new AdminError(400, `${name} must be a non-negative integer`);
+  }
+
+  return parseInt(value);
+}
+
+function booleanParam(req: Request, name: string): boolean | undefined {
+  const value = stringParam(req, name);
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value !== 'true' && value !== 'false') {
+    throw new AdminError(400, `${name} must be true or false`);
+  }
+
+  return value === 'true';
+}
+
+function pageParams(req: Request): Page {
+  return {
+    limit: Math.min(integerParam(req, 'limit') ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    offset: integerParam(req, 'offset') ?? 0,
+  };
+}
+
+function batchParams(req: Request): { auction: string; batchId: number } {
+  const { auction, batchId } = req.params;
+
+  if (!/^0x[0-9a-fA-F]{40}$/.test(auction)) {
+    throw new AdminError(400, 'auction must be an address');
+  }
+
+  if (!/^\d+$/.test(batchId)) {
+    throw new AdminError(400, 'batchId must be a non-negative integer');
+  }
+
+  return { auction: auction.toLowerCase(), batchId: parseInt(batchId) };
+}
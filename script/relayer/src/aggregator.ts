@@ -1,60 +1,89 @@
-import { ethers, Contract, EventLog } from 'ethers';
-import { logger } from './logger';
+import { ethers, Contract, Log } from 'ethers';
+import { logger as rootLogger } from './logger';
 import { db, Order } from './db';
 import { config } from './config';
+import { metrics } from './metrics';
+import { alerts } from './alerts';
+import { RevealDecoder } from './reveal';
+import { EventIndexer, IndexedEvent } from './indexer';
+import { AuctionState, LockedBalance, validateOrders } from './validation';
+import { expectedFill, reconcileFills } from './fills';
+import { AuctionParameterCache, AuctionParameters, readAuctionParameters } from './parameters';
 
 // Minimal ABI for BatchAuction events
 const BATCH_AUCTION_ABI = [
-  'event CommitmentSubmitted(address indexed trader, bytes32 indexed commitment, uint256 indexed batchId)',
-  'event OrderRevealed(address indexed trader, bytes32 indexed commitment, uint256 indexed batchId)',
+  'event CommitmentSubmitted(address indexed trader, bytes32 commitment, uint256 batchId)',
+  'event OrderRevealed(address indexed trader, bytes32 commitment, uint256 batchId)',
   'event BatchSettled(uint256 indexed batchId, uint256 clearingPrice, uint256 totalVolume)',
+  'event OrderExecuted(bytes32 indexed orderHash, address indexed trader, uint128 filledAmount, uint128 receivedAmount, uint256 clearingPrice)',
   'function getCurrentBatchId() external view returns (uint256)',
   'function getBatchState(uint256 batchId) external view returns (uint8)',
+  'function userBalances(address user) external view returns (uint256 locked0, uint256 locked1)',
+  'function TOKEN0() external view returns (address)',
+  'function TOKEN1() external view returns (address)',
+  'function getOrderExecution(bytes32 orderHash) external view returns (tuple(bool executed, uint128 filledAmount, uint128 receivedAmount) execution)',
 ];
 
-export interface RevealedOrder {
-  orderHash: string;
-  batchId: number;
-  trader: string;
-  nonce: number;
-  expiry: number;
-  amount: bigint;
-  limitPrice: bigint;
-  side: number;
-}
+const ERC20_ABI = [
+  'function balanceOf(address account) external view returns (uint256)',
+  'function allowance(address owner, address spender) external view returns (uint256)',
+];
 
 export class OrderAggregator {
   private provider: ethers.JsonRpcProvider;
+  private auctionAddress: string;
+  private logger: typeof rootLogger;
   private auction: Contract;
+  private decoder: RevealDecoder;
+  private indexer: EventIndexer;
+  private parameters: AuctionParameterCache;
+  private revealFailures = new Map<string, number>();
+  // TOKEN0 and TOKEN1, read once as they never change
+  private tokens?: [Contract, Contract];
   private isRunning: boolean = false;
   
-  constructor(provider: ethers.JsonRpcProvider, auctionAddress: string) {
+  constructor(
+    provider: ethers.JsonRpcProvider,
+    auctionAddress: string,
+    indexer: EventIndexer,
+    parameters: AuctionParameterCache
+  ) {
     this.provider = provider;
+    this.auctionAddress = auctionAddress.toLowerCase();
+    this.logger = rootLogger.child({ auction: this.auctionAddress });
     this.auction = new Contract(auctionAddress, BATCH_AUCTION_ABI, provider);
+    this.decoder = new RevealDecoder(provider, auctionAddress);
+    this.indexer = indexer;
+    this.parameters = parameters;
   }
   
   /**
-   * Start listening for order events
+   * Register order event handlers with the indexer
    */
   async start(): Promise<void> {
     if (this.isRunning) {
-      logger.warn('Aggregator already running');
+      this.logger.warn('Aggregator already running');
       return;
     }
     
     this.isRunning = true;
-    logger.info('Starting order aggregator');
+    this.logger.info('Starting order aggregator');
+    
+    const events = this.auction.interface;
+    
+    // Commitment events
+    this.indexer.on(events.getEvent('CommitmentSubmitted')!, this.handleCommitment.bind(this));
     
-    // Listen for commitment events
-    this.auction.on('CommitmentSubmitted', this.handleCommitment.bind(this));
+    // Reveal events
+    this.indexer.on(events.getEvent('OrderRevealed')!, this.handleReveal.bind(this));
     
-    // Listen for reveal events
-    this.auction.on('OrderRevealed', this.handleReveal.bind(this));
+    // Settlement events
+    this.indexer.on(events.getEvent('BatchSettled')!, this.handleSettlement.bind(this));
     
-    // Listen for settlement events
-    this.auction.on('BatchSettled', this.handleSettlement.bind(this));
+    // Per-order execution events
+    this.indexer.on(events.getEvent('OrderExecuted')!, this.handleExecution.bind(this));
     
-    logger.info('Order aggregator started');
+    this.logger.info('Order aggregator started');
   }
   
   /**
@@ -66,195 +95,438 @@ export class OrderAggregator {
     }
     
     this.isRunning = false;
-    this.auction.removeAllListeners();
-    logger.info('Order aggregator stopped');
+    this.logger.info('Order aggregator stopped');
   }
   
   /**
    * Handle commitment event
    */
-  private async handleCommitment(
-    trader: string,
-    commitment: string,
-    batchId: bigint,
-    event: EventLog
-  ): Promise<void> {
-    logger.info({
+  private async handleCommitment({ args, log }: IndexedEvent): Promise<void> {
+    const [trader, commitment, batchId] = args;
+    
+    this.logger.info({
       trader,
       commitment,
       batchId: Number(batchId),
-      blockNumber: event.blockNumber,
+      blockNumber: log.blockNumber,
     }, 'Commitment received');
     
-    // Store commitment for tracking
-    // In a full implementation, you'd track commitments to ensure they're revealed
+    // Store commitment for lifecycle tracking
+    await db.insertCommitment({
+      auction: this.auctionAddress,
+      commitment,
+      batchId: Number(batchId),
+      trader,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      revealed: false,
+      executed: false,
+      createdAt: Date.now(),
+    });
   }
   
   /**
    * Handle order reveal event
    */
-  private async handleReveal(
-    trader: string,
-    commitment: string,
-    batchId: bigint,
-    event: EventLog
-  ): Promise<void> {
-    logger.info({
+  private async handleReveal({ args, log }: IndexedEvent): Promise<void> {
+    const [trader, commitment, batchId] = args;
+    
+    this.logger.info({
       trader,
       commitment,
       batchId: Number(batchId),
-      blockNumber: event.blockNumber,
+      blockNumber: log.blockNumber,
     }, 'Order revealed');
     
-    // In a full implementation, you'd parse the order details from the transaction
-    // For now, we'll note that this would require decoding the revealOrder transaction
+    // RPC failures and decoding failures with attempts left propagate so the indexer retries this log
+    await this.ingestReveal(trader, commitment, Number(batchId), log);
   }
   
   /**
-   * Handle batch settlement event
+   * Decode the order behind an OrderRevealed log and persist it
+   *
+   * A reveal that cannot be decoded is retried up to REVEAL_DECODE_ATTEMPTS times, as the node may
+   * not have the transaction yet. After that the commitment is recorded as undecodable and alerted
+   * on, so the order is left out of settlements but the indexer moves on.
+   * @returns The stored order, or null once the reveal is given up as undecodable
+   * @throws If decoding fails and attempts remain, or on RPC errors
+   */
+  private async ingestReveal(
+    trader: string,
+    commitment: string,
+    batchId: number,
+    log: Log
+  ): Promise<Order | null> {
+    const reveal = await this.decoder.decode(log.transactionHash, commitment);
+    
+    if (!reveal) {
+      const attempts = (this.revealFailures.get(commitment) ?? 0) + 1;
+      const message = `No revealOrder call matching commitment ${commitment} in ${log.transactionHash}`;
+      
+      if (attempts < config.revealDecodeAttempts) {
+        this.revealFailures.set(commitment, attempts);
+        this.logger.error({
+          commitment,
+          txHash: log.transactionHash,
+          attempts,
+        }, 'Could not decode revealOrder call matching commitment');
+        throw new Error(message);
+      }
+      
+      this.revealFailures.delete(commitment);
+      await this.recordUndecodable(commitment, batchId, log, message, attempts);
+      return null;
+    }
+    
+    this.revealFailures.delete(commitment);
+    
+    const order: Order = {
+      auction: this.auctionAddress,
+      orderHash: reveal.orderHash,
+      commitment,
+      salt: reveal.salt,
+      batchId,
+      trader,
+      nonce: reveal.order.nonce.toString(),
+      expiry: Number(reveal.order.expiry),
+      amount: reveal.order.amount.toString(),
+      limitPrice: reveal.order.limitPrice.toString(),
+      side: reveal.order.side,
+      revealed: true,
+      executed: false,
+      revealTxHash: log.transactionHash,
+      revealBlock: log.blockNumber,
+      createdAt: Date.now(),
+    };
+    
+    await db.insertOrder(order);
+    await db.markCommitmentRevealed(this.auctionAddress, commitment, order.orderHash, log.transactionHash, log.blockNumber);
+    
+    this.logger.debug({
+      orderHash: order.orderHash,
+      commitment,
+      source: reveal.source,
+    }, 'Revealed order stored');
+    
+    return order;
+  }
+  
+  /**
+   * Give up on a reveal: mark its commitment undecodable and raise an alert
    */
-  private async handleSettlement(
-    batchId: bigint,
-    clearingPrice: bigint,
-    totalVolume: bigint,
-    event: EventLog
+  private async recordUndecodable(
+    commitment: string,
+    batchId: number,
+    log: Log,
+    error: string,
+    attempts: number
   ): Promise<void> {
-    logger.info({
+    await db.markCommitmentUndecodable(this.auctionAddress, commitment, log.transactionHash, log.blockNumber, error);
+    
+    this.logger.error({
+      commitment,
+      batchId,
+      txHash: log.transactionHash,
+      attempts,
+    }, 'Reveal recorded as undecodable, its order is left out of settlements');
+    
+    await alerts.raise({
+      type: 'reveal_undecodable',
+      severity: 'critical',
+      scope: `${this.auctionAddress}:${commitment}`,
+      message: `Reveal of commitment ${commitment} in batch ${batchId} could not be decoded after ${attempts} attempts`,
+      details: { auction: this.auctionAddress, batchId, commitment, txHash: log.transactionHash, error },
+    });
+  }
+  
+  /**
+   * Handle batch settlement event
+   */
+  private async handleSettlement({ args, log }: IndexedEvent): Promise<void> {
+    const [batchId, clearingPrice, totalVolume] = args;
+    
+    this.logger.info({
       batchId: Number(batchId),
       clearingPrice: clearingPrice.toString(),
       totalVolume: totalVolume.toString(),
-      blockNumber: event.blockNumber,
+      blockNumber: log.blockNumber,
     }, 'Batch settled');
     
     // Mark batch as settled in database
-    db.markBatchSettled(
+    await db.markBatchSettled(
+      this.auctionAddress,
       Number(batchId),
-      event.transactionHash,
+      log.transactionHash,
       clearingPrice.toString(),
-      '' // ordersRoot would come from transaction data
+      '', // ordersRoot would come from transaction data
+      log.blockNumber
     );
+    
+    // Whoever settled it, the batch no longer needs attention
+    await alerts.resolve('settlement_failed', `${this.auctionAddress}:${Number(batchId)}`);
+    await alerts.resolve('batch_stuck', `${this.auctionAddress}:${Number(batchId)}`);
+    
+    // The settlement's OrderExecuted logs come before its BatchSettled log, so its fills are all indexed;
+    // they are reconciled once the settlement is final
+    await db.linkFillsToBatch(this.auctionAddress, log.transactionHash, Number(batchId));
+    
+    const stats = await db.getRevealStats(this.auctionAddress, Number(batchId));
+    const unrevealed = await db.getUnrevealedCommitments(this.auctionAddress, Number(batchId));
+    
+    this.logger.info({
+      batchId: Number(batchId),
+      ...stats,
+      unrevealed: unrevealed.map(c => c.commitment),
+    }, 'Batch commitment summary');
+  }
+  
+  /**
+   * Handle order execution event
+   */
+  private async handleExecution({ args, log }: IndexedEvent): Promise<void> {
+    const [orderHash, trader, filledAmount, receivedAmount, clearingPrice] = args;
+    
+    this.logger.debug({
+      orderHash,
+      trader,
+      filledAmount: filledAmount.toString(),
+      receivedAmount: receivedAmount.toString(),
+    }, 'Order executed');
+    
+    // Linked to its batch when the settlement's BatchSettled log is handled
+    await db.insertFill({
+      auction: this.auctionAddress,
+      orderHash,
+      batchId: null,
+      trader,
+      filledAmount: filledAmount.toString(),
+      receivedAmount: receivedAmount.toString(),
+      clearingPrice: clearingPrice.toString(),
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      createdAt: Date.now(),
+    });
+    
+    await db.markOrderExecuted(this.auctionAddress, orderHash);
+    await db.markCommitmentExecuted(this.auctionAddress, orderHash, {
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      filledAmount: filledAmount.toString(),
+      receivedAmount: receivedAmount.toString(),
+    });
+  }
+  
+  /**
+   * Reconcile the fills of the relayer's settlements whose block can no longer be reorged
+   */
+  async reconcileFinalSettlements(): Promise<void> {
+    for (const batch of await db.getUnreconciledBatches(this.auctionAddress, this.indexer.getFinalizedBlock())) {
+      await this.reconcileFills(batch.batchId, batch.txHash!, BigInt(batch.clearingPrice!), batch.settledBlock!);
+    }
+  }
+  
+  /**
+   * Compare a settlement's fills with the orders the relayer settled the batch with
+   * Expected amounts use the fee in force at the settlement's block, not the cached one.
+   */
+  private async reconcileFills(batchId: number, txHash: string, clearingPrice: bigint, blockNumber: number): Promise<void> {
+    const settled = await db.getSettledOrders(this.auctionAddress, batchId);
+    
+    const { feeBps } = await readAuctionParameters(this.provider, this.auctionAddress, blockNumber);
+    const expected = settled.flatMap(order => expectedFill(order, clearingPrice, feeBps) ?? []);
+    const fills = await db.getFillsByBatch(this.auctionAddress, batchId);
+    const mismatches = reconcileFills(expected, fills);
+    const scope = `${this.auctionAddress}:${batchId}`;
+    
+    await db.saveFillReconciliation(this.auctionAddress, batchId, mismatches);
+    
+    if (mismatches.length === 0) {
+      this.logger.info({ batchId, fills: fills.length }, 'Fills match settlement');
+      await alerts.resolve('fill_mismatch', scope);
+      return;
+    }
+    
+    for (const mismatch of mismatches) {
+      metrics.fillMismatches.inc({ auction: this.auctionAddress, kind: mismatch.kind });
+    }
+    
+    this.logger.warn({ batchId, txHash, mismatches }, 'Fills differ from settlement');
+    
+    await alerts.raise({
+      type: 'fill_mismatch',
+      severity: 'critical',
+      scope,
+      message: `Fills of batch ${batchId} differ from the settlement the relayer sent (${mismatches.length} mismatches)`,
+      details: { auction: this.auctionAddress, batchId, txHash, mismatches },
+    });
   }
   
   /**
    * Fetch all revealed orders for a batch
+   * @param includeExecuted Also return orders already executed, for settlements simulated at a past block
    */
-  async getRevealedOrders(batchId: number): Promise<Order[]> {
+  async getRevealedOrders(batchId: number, includeExecuted: boolean = false): Promise<Order[]> {
     // First check database
-    const dbOrders = db.getOrdersByBatch(batchId, true);
+    const stored = (await db.getOrdersByBatch(this.auctionAddress, batchId, false)).filter(order => order.revealed);
+    const dbOrders = stored.filter(order => includeExecuted || !order.executed);
     
     if (dbOrders.length > 0) {
-      logger.info({ batchId, count: dbOrders.length }, 'Loaded orders from database');
+      this.logger.info({ batchId, count: dbOrders.length }, 'Loaded orders from database');
+      metrics.ordersPerBatch.set({ auction: this.auctionAddress }, dbOrders.length);
       return dbOrders;
     }
     
     // If not in database, fetch from events
-    logger.info({ batchId }, 'Fetching orders from blockchain events');
+    this.logger.info({ batchId }, 'Fetching orders from blockchain events');
+    
+    // batchId is not indexed, so filter by the batch start block and match client-side
+    const fromBlock = (await db.getBatch(this.auctionAddress, batchId))?.startBlock || 0;
+    const events = await this.indexer.queryEvents(this.auction.interface.getEvent('OrderRevealed')!, fromBlock);
+    const batchEvents = events.filter(({ args }) => Number(args[2]) === batchId);
     
-    const filter = this.auction.filters.OrderRevealed(null, null, batchId);
-    const events = await this.auction.queryFilter(filter);
+    this.logger.info({ batchId, count: batchEvents.length }, 'Found reveal events');
     
-    logger.info({ batchId, count: events.length }, 'Found reveal events');
+    // Reveals already stored (including executed orders and undecodable ones) are never ingested again
+    const known = new Set([
+      ...stored.map(order => order.commitment),
+      ...(await db.getCommitmentsByBatch(this.auctionAddress, batchId)).filter(c => c.revealed).map(c => c.commitment),
+    ]);
     
-    // Parse events and store in database
-    // Note: This is simplified - in production you'd decode transaction data
     const orders: Order[] = [];
     
-    for (const event of events) {
-      if (event instanceof EventLog) {
-        // In production, decode the revealOrder transaction to get order details
-        // For now, this is a placeholder
-        const order: Order = {
-          orderHash: event.args![1] as string, // commitment
-          batchId,
-          trader: event.args![0] as string,
-          nonce: 0,
-          expiry: 0,
-          amount: '0',
-          limitPrice: '0',
-          side: 0,
-          revealed: true,
-          executed: false,
-          createdAt: Date.now(),
-        };
-        
-        db.insertOrder(order);
+    for (const event of batchEvents) {
+      if (known.has(event.args[1])) {
+        continue;
+      }
+      
+      const order = await this.ingestReveal(event.args[0], event.args[1], batchId, event.log);
+      if (order) {
         orders.push(order);
       }
     }
     
+    metrics.ordersPerBatch.set({ auction: this.auctionAddress }, orders.length);
+    
     return orders;
   }
   
   /**
-   * Validate orders before settlement
+   * Validate orders against the auction's state at the block a settlement is prepared at
+   * @param record Store each order's exclusion reason, or null for included orders
+   * @param parameters Auction parameters in force at the block, the cached latest ones by default
+   * @returns The orders the settlement can include, in input order
    */
-  validateOrders(orders: Order[]): Order[] {
-    const now = Math.floor(Date.now() / 1000);
-    
-    return orders.filter(order => {
-      // Check expiry
-      if (order.expiry < now) {
-        logger.warn({ orderHash: order.orderHash }, 'Order expired');
-        return false;
-      }
-      
-      // Check amount
-      if (BigInt(order.amount) === 0n) {
-        logger.warn({ orderHash: order.orderHash }, 'Order amount is zero');
-        return false;
-      }
+  async validateOrders(
+    orders: Order[],
+    block: ethers.Block,
+    record: boolean = false,
+    parameters: AuctionParameters = this.parameters.get()
+  ): Promise<Order[]> {
+    const count = (outcome: string) => metrics.orders.inc({ auction: this.auctionAddress, outcome });
+    const { valid, excluded } = validateOrders(orders, await this.readAuctionState(orders, block, parameters.minOrderSize));
+    
+    for (const { order, reason } of excluded) {
+      this.logger.warn({ orderHash: order.orderHash, trader: order.trader, reason, blockNumber: block.number },
+        'Order excluded from settlement');
+      count(reason);
+    }
+    
+    valid.forEach(() => count('valid'));
+    
+    if (record) {
+      // Orders are stored by hash, so a duplicate must not overwrite the outcome of the order it repeats
+      const reasons = new Map<Order, string>(excluded.map(({ order, reason }) => [order, reason]));
+      const outcomes = new Map<string, string | null>();
       
-      // Check price
-      if (BigInt(order.limitPrice) === 0n) {
-        logger.warn({ orderHash: order.orderHash }, 'Order price is zero');
-        return false;
+      for (const order of orders) {
+        if (!outcomes.has(order.orderHash)) {
+          outcomes.set(order.orderHash, reasons.get(order) ?? null);
+        }
       }
       
-      return true;
-    });
+      await db.recordOrderValidation(this.auctionAddress, block.number,
+        [...outcomes].map(([orderHash, exclusionReason]) => ({ orderHash, exclusionReason })));
+    }
+    
+    return valid;
   }
   
   /**
-   * Separate orders into buy and sell
+   * Read the contract state validation needs, all at one block
+   * minOrderSize comes from the auction parameters, which are read separately.
    */
-  separateOrders(orders: Order[]): { buyOrders: Order[]; sellOrders: Order[] } {
-    const buyOrders = orders.filter(o => o.side === 0);
-    const sellOrders = orders.filter(o => o.side === 1);
-    
-    // Sort buy orders by price descending (highest price first)
-    buyOrders.sort((a, b) => {
-      const priceA = BigInt(a.limitPrice);
-      const priceB = BigInt(b.limitPrice);
-      return priceB > priceA ? 1 : priceB < priceA ? -1 : 0;
-    });
+  private async readAuctionState(orders: Order[], block: ethers.Block, minOrderSize: bigint): Promise<AuctionState> {
+    const overrides = { blockTag: block.number };
+    const traders = [...new Set(orders.map(order => order.trader.toLowerCase()))];
+    const orderHashes = [...new Set(orders.map(order => order.orderHash.toLowerCase()))];
     
-    // Sort sell orders by price ascending (lowest price first)
-    sellOrders.sort((a, b) => {
-      const priceA = BigInt(a.limitPrice);
-      const priceB = BigInt(b.limitPrice);
-      return priceA > priceB ? 1 : priceA < priceB ? -1 : 0;
-    });
+    const [balances, wallets, executions] = await Promise.all([
+      Promise.all(traders.map(trader => this.auction.userBalances(trader, overrides))),
+      Promise.all(traders.map(trader => this.readWalletFunds(trader, block.number))),
+      Promise.all(orderHashes.map(orderHash => this.auction.getOrderExecution(orderHash, overrides))),
+    ]);
     
-    return { buyOrders, sellOrders };
+    return {
+      blockNumber: block.number,
+      timestamp: block.timestamp,
+      minOrderSize,
+      lockedBalances: new Map(traders.map((trader, i) => [trader, { locked0: balances[i].locked0, locked1: balances[i].locked1 }])),
+      walletFunds: new Map(traders.map((trader, i) => [trader, wallets[i]])),
+      executed: new Set(orderHashes.filter((_, i) => executions[i].executed)),
+    };
   }
   
   /**
-   * Calculate clearing price using uniform price auction
+   * What the auction can pull from a trader's wallet with transferFrom: the lower of balance and allowance
    */
-  calculateClearingPrice(buyOrders: Order[], sellOrders: Order[]): bigint {
-    if (buyOrders.length === 0 || sellOrders.length === 0) {
-      return 0n;
-    }
-    
-    // Find the price where supply meets demand
-    const maxBuyPrice = BigInt(buyOrders[0].limitPrice);
-    const minSellPrice = BigInt(sellOrders[0].limitPrice);
+  private async readWalletFunds(trader: string, blockNumber: number): Promise<LockedBalance> {
+    const overrides = { blockTag: blockNumber };
     
-    // Clearing price is the midpoint of the overlap
-    if (maxBuyPrice >= minSellPrice) {
-      return (maxBuyPrice + minSellPrice) / 2n;
+    if (!this.tokens) {
+      const [token0, token1] = await Promise.all([this.auction.TOKEN0(), this.auction.TOKEN1()]);
+      this.tokens = [new Contract(token0, ERC20_ABI, this.provider), new Contract(token1, ERC20_ABI, this.provider)];
     }
     
-    return 0n;
+    const [locked0, locked1] = await Promise.all(this.tokens.map(async token => {
+      const [balance, allowance] = await Promise.all([
+        token.balanceOf(trader, overrides),
+        token.allowance(trader, this.auctionAddress, overrides),
+      ]);
+      return balance < allowance ? balance : allowance;
+    }));
+    
+    return { locked0, locked1 };
+  }
+  
+  /**
+   * Separate orders into buy and sell
+   */
+  separateOrders(orders: Order[]): { buyOrders: Order[]; sellOrders: Order[] } {
+    return separateOrders(orders);
   }
 }
+
+/**
+ * Split orders by side, in the order they are settled: buys by price descending, sells ascending
+ */
+export function separateOrders(orders: Order[]): { buyOrders: Order[]; sellOrders: Order[] } {
+  const buyOrders = orders.filter(o => o.side === 0);
+  const sellOrders = orders.filter(o => o.side === 1);
+  
+  // Sort buy orders by price descending (highest price first)
+  buyOrders.sort((a, b) => {
+    const priceA = BigInt(a.limitPrice);
+    const priceB = BigInt(b.limitPrice);
+    return priceB > priceA ? 1 : priceB < priceA ? -1 : 0;
+  });
+  
+  // Sort sell orders by price ascending (lowest price first)
+  sellOrders.sort((a, b) => {
+    const priceA = BigInt(a.limitPrice);
+    const priceB = BigInt(b.limitPrice);
+    return priceA > priceB ? 1 : priceA < priceB ? -1 : 0;
+  });
+  
+  return { buyOrders, sellOrders };
+}
@@ -0,0 +1,244 @@
+import fs from 'fs';
+import path from 'path';
+import { FetchRequest } from 'ethers';
+import { logger } from './logger';
+import { config } from './config';
+import { db, AlertRecord, AlertSeverity, AlertStatus } from './db';
+
+export interface Alert {
+  type: string;
+  severity: AlertSeverity;
+  message: string;
+  // Tells alerts of one type apart, e.g. `${auction}:${batchId}`
+  scope?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AlertNotification {
+  status: AlertStatus;
+  alert: AlertRecord;
+}
+
+/**
+ * Destination for alert notifications
+ */
+export interface AlertSink {
+  readonly name: string;
+  send(notification: AlertNotification): Promise<void>;
+}
+
+export interface AlertManagerOptions {
+  // Minimum time between notifications for an alert that keeps firing
+  repeatIntervalMs: number;
+  // Notifications sent across all alerts per minute; the rest wait for the alert's next raise
+  maxPerMinute: number;
+}
+
+/**
+ * Posts every notification as JSON
+ */
+export class WebhookSink implements AlertSink {
+  readonly name = 'webhook';
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number = 10000) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    await postJson(this.url, notification, this.timeoutMs);
+  }
+}
+
+/**
+ * Posts a text message to a Slack-compatible incoming webhook
+ */
+export class SlackSink implements AlertSink {
+  readonly name = 'slack';
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number = 10000) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async send({ status, alert }: AlertNotification): Promise<void> {
+    const title = status === 'resolved'
+      ? `:white_check_mark: *Resolved: ${alert.type}*`
+      : `:rotating_light: *[${alert.severity.toUpperCase()}] ${alert.type}*`;
+    const details = alert.details
+      ? '\n' + Object.entries(alert.details).map(([key, value]) => `• ${key}: \`${String(value)}\``).join('\n')
+      : '';
+
+    await postJson(this.url, { text: `${title}\n${alert.message}${details}` }, this.timeoutMs);
+  }
+}
+
+/**
+ * Appends every notification to a file as a JSON line
+ */
+export class FileSink implements AlertSink {
+  readonly name = 'file';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    await fs.promises.appendFile(this.filePath, JSON.stringify({ time: Date.now(), ...notification }) + '\n');
+  }
+}
+
+/**
+ * Raises and resolves alerts, notifying every sink
+ *
+ * Alert state lives in the database, keyed by type and scope, so an alert that keeps firing
+ * is only announced again after `repeatIntervalMs` (also across restarts) and a resolution is
+ * only sent for alerts that were announced. Raising and resolving wait for the state to be
+ * stored but never for delivery.
+ */
+export class AlertManager {
+  private sinks: AlertSink[];
+  private options: AlertManagerOptions;
+  private sentAt: number[] = [];
+  private inflight: Set<Promise<void>> = new Set();
+
+  constructor(sinks: AlertSink[], options: AlertManagerOptions) {
+    this.sinks = sinks;
+    this.options = options;
+  }
+
+  /**
+   * Record that an alert condition holds
+   */
+  async raise(alert: Alert): Promise<void> {
+    const key = alertKey(alert.type, alert.scope);
+    const now = Date.now();
+    const existing = await db.getAlert(key);
+    const firing = existing?.status === 'firing';
+
+    const record: AlertRecord = {
+      key,
+      type: alert.type,
+      severity: alert.severity,
+      status: 'firing',
+      message: alert.message,
+      details: alert.details,
+      count: firing ? existing.count + 1 : 1,
+      firstSeenAt: firing ? existing.firstSeenAt : now,
+      lastSeenAt: now,
+      lastNotifiedAt: firing ? existing.lastNotifiedAt : undefined,
+    };
+
+    if (!firing) {
+      logger[alert.severity === 'critical' ? 'error' : 'warn']({ key, details: alert.details }, `Alert: ${alert.message}`);
+    }
+
+    const due = record.lastNotifiedAt === undefined || now - record.lastNotifiedAt >= this.options.repeatIntervalMs;
+
+    if (due && this.takeSlot(now)) {
+      record.lastNotifiedAt = now;
+      this.dispatch({ status: 'firing', alert: record });
+    } else if (due) {
+      logger.warn({ key }, 'Alert notification rate limited');
+    }
+
+    await db.saveAlert(record);
+  }
+
+  /**
+   * Record that an alert condition no longer holds
+   */
+  async resolve(type: string, scope?: string): Promise<void> {
+    const existing = await db.getAlert(alertKey(type, scope));
+
+    if (existing?.status !== 'firing') {
+      return;
+    }
+
+    const record: AlertRecord = { ...existing, status: 'resolved', resolvedAt: Date.now() };
+    await db.saveAlert(record);
+
+    logger.info({ key: record.key }, `Alert resolved: ${record.message}`);
+
+    if (existing.lastNotifiedAt !== undefined) {
+      this.dispatch({ status: 'resolved', alert: record });
+    }
+  }
+
+  /**
+   * Wait for notifications still being delivered
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.inflight]);
+  }
+
+  private takeSlot(now: number): boolean {
+    this.sentAt = this.sentAt.filter(time => now - time < 60000);
+
+    if (this.sentAt.length >= this.options.maxPerMinute) {
+      return false;
+    }
+
+    this.sentAt.push(now);
+    return true;
+  }
+
+  private dispatch(notification: AlertNotification): void {
+    for (const sink of this.sinks) {
+      const delivery: Promise<void> = sink.send(notification)
+        .catch(error => {
+          logger.error({ error, sink: sink.name, key: notification.alert.key }, 'Failed to deliver alert');
+        })
+        .finally(() => this.inflight.delete(delivery));
+
+      this.inflight.add(delivery);
+    }
+  }
+}
+
+/**
+ * Sinks enabled by configuration
+ */
+export function createSinks(): AlertSink[] {
+  const sinks: AlertSink[] = [];
+
+  if (config.alertWebhookUrl) {
+    sinks.push(new WebhookSink(config.alertWebhookUrl));
+  }
+
+  if (config.slackWebhookUrl) {
+    sinks.push(new SlackSink(config.slackWebhookUrl));
+  }
+
+  if (config.alertFilePath) {
+    sinks.push(new FileSink(config.alertFilePath));
+  }
+
+  return sinks;
+}
+
+function alertKey(type: string, scope?: string): string {
+  return scope ? `${type}:${scope}` : type;
+}
+
+async function postJson(url: string, body: unknown, timeoutMs: number): Promise<void> {
+  const request = new FetchRequest(url);
+  request.method = 'POST';
+  request.timeout = timeoutMs;
+  request.setHeader('Content-Type', 'application/json');
+  request.body = JSON.stringify(body);
+
+  const response = await request.send();
+  response.assertOk();
+}
+
+export const alerts = new AlertManager(createSinks(), {
+  repeatIntervalMs: config.alertRepeatMinutes * 60 * 1000,
+  maxPerMinute: config.alertRateLimitPerMinute,
+});
@@ -0,0 +1,237 @@
+import http from 'http';
+import express, { Request, Response, Router } from 'express';
+import { ethers, Contract } from 'ethers';
+import { logger } from './logger';
+import { db, Order } from './db';
+
+const BATCH_AUCTION_ABI = [
+  'function getOrderExecution(bytes32 orderHash) external view returns (tuple(bool executed, uint128 filledAmount, uint128 receivedAmount) execution)',
+];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * On-chain execution of an order, as returned by BatchAuction.getOrderExecution
+ */
+export interface OrderExecution {
+  executed: boolean;
+  filledAmount: string;
+  receivedAmount: string;
+}
+
+/**
+ * Thrown by route handlers for requests that cannot be served
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+type Handler = (req: Request, res: Response) => Promise<void>;
+
+/**
+ * Read-only lookups for traders, served on their own port
+ *
+ * Proofs are the ones recorded when the batch was settled, so a client can check them
+ * against the batch's `ordersRoot` on chain without trusting the relayer.
+ */
+export class ApiServer {
+  private app: express.Application;
+  private server?: http.Server;
+
+  constructor(provider: ethers.Provider) {
+    this.app = express();
+    this.app.use('/', createApiRouter(provider));
+  }
+
+  /**
+   * Start listening
+   */
+  async start(port: number): Promise<void> {
+    await new Promise<void>(resolve => {
+      this.server = this.app.listen(port, () => resolve());
+    });
+
+    logger.info({ port }, 'Public API started');
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+}
+
+/**
+ * Batch, order, proof and fill routes
+ */
+export function createApiRouter(provider: ethers.Provider): Router {
+  const router = express.Router();
+
+  // Everything is public and read-only, so browsers may call it from any origin
+  router.use((req, res, next) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    next();
+  });
+
+  const getExecution = async (auction: string, orderHash: string): Promise<OrderExecution> => {
+    const execution = await new Contract(auction, BATCH_AUCTION_ABI, provider).getOrderExecution(orderHash).catch(error => {
+      logger.warn({ auction, orderHash, error }, 'Failed to read order execution');
+      throw new ApiError(502, 'Order execution could not be read from the chain');
+    });
+
+    return {
+      executed: execution.executed,
+      filledAmount: execution.filledAmount.toString(),
+      receivedAmount: execution.receivedAmount.toString(),
+    };
+  };
+
+  router.get('/batches/:auction/:batchId', route(async (req, res) => {
+    const auction = addressParam(req.params.auction);
+    const batchId = integerParam(req.params.batchId, 'batchId');
+    const batch = await db.getBatch(auction, batchId);
+
+    if (!batch) {
+      throw new ApiError(404, `Batch ${batchId} of ${auction} not found`);
+    }
+
+    res.json({
+      // Operator notes such as skip reasons stay on the admin API
+      batch: {
+        auction: batch.auction,
+        batchId: batch.batchId,
+        startBlock: batch.startBlock,
+        endBlock: batch.endBlock,
+        settled: batch.settled,
+        clearingPrice: batch.clearingPrice,
+        ordersRoot: batch.ordersRoot,
+        txHash: batch.txHash,
+        settledBlock: batch.settledBlock,
+      },
+      // Leaf order, i.e. the order the contract rebuilt the root in
+      orders: (await db.getOrderProofs(auction, batchId)).map(proof => proof.orderHash),
+    });
+  }));
+
+  router.get('/orders/:orderHash', route(async (req, res) => {
+    const order = await findOrder(req);
+
+    res.json({
+      order,
+      execution: await getExecution(order.auction, order.orderHash),
+    });
+  }));
+
+  router.get('/orders/:orderHash/proof', route(async (req, res) => {
+    const order = await findOrder(req);
+    const proof = await db.getOrderProof(order.auction, order.orderHash);
+
+    if (!proof) {
+      throw new ApiError(404, `Order ${order.orderHash} has no settlement proof`);
+    }
+
+    res.json({
+      order,
+      leaf: proof.leaf,
+      leafIndex: proof.leafIndex,
+      proof: proof.proof,
+      root: proof.root,
+      txHash: proof.txHash,
+      execution: await getExecution(order.auction, order.orderHash),
+    });
+  }));
+
+  router.get('/traders/:trader/fills', route(async (req, res) => {
+    const trader = req.params.trader;
+
+    if (!ethers.isAddress(trader)) {
+      throw new ApiError(400, 'trader must be an address');
+    }
+
+    const auction = typeof req.query.auction === 'string' ? addressParam(req.query.auction) : undefined;
+
+    res.json(await db.listFills({ auction, trader }, {
+      limit: Math.min(queryInteger(req, 'limit') ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+      offset: queryInteger(req, 'offset') ?? 0,
+    }));
+  }));
+
+  return router;
+}
+
+/**
+ * Order named by the `orderHash` route parameter, in the auction given by `?auction=` if any
+ */
+async function findOrder(req: Request): Promise<Order> {
+  const orderHash = req.params.orderHash;
+
+  if (!ethers.isHexString(orderHash, 32)) {
+    throw new ApiError(400, 'orderHash must be a 32-byte hex string');
+  }
+
+  const auction = typeof req.query.auction === 'string' ? addressParam(req.query.auction) : undefined;
+  const { items, total } = await db.listOrders({ auction, orderHash }, { limit: 1, offset: 0 });
+
+  if (total === 0) {
+    throw new ApiError(404, `Order ${orderHash} not found`);
+  }
+
+  if (total > 1) {
+    throw new ApiError(409, `Order ${orderHash} exists in ${total} auctions, pass ?auction=`);
+  }
+
+  return items[0];
+}
+
+/**
+ * Turn thrown errors into JSON responses
+ */
+function route(handler: Handler) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      await handler(req, res);
+    } catch (error: any) {
+      if (error instanceof ApiError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+
+      logger.error({ error, path: req.path }, 'API request failed');
+      res.status(500).json({ error: 'Internal error' });
+    }
+  };
+}
+
+function addressParam(value: string): string {
+  if (!ethers.isAddress(value)) {
+    throw new ApiError(400, 'auction must be an address');
+  }
+
+  return value.toLowerCase();
+}
+
+function integerParam(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new ApiError(400, `${name} must be a non-negative integer`);
+  }
+
+  return parseInt(value);
+}
+
+function queryInteger(req: Request, name: string): number | undefined {
+  const value = req.query[name];
+  return typeof value === 'string' ? integerParam(value, name) : undefined;
+}
@@ -0,0 +1,252 @@
+/**
+ * Uniform price clearing for batch auctions
+ *
+ * Picks the price that maximises matched volume, restricted to prices BatchAuction
+ * will accept, and the orders to submit at it. The contract has no partial fills,
+ * so only orders that execute in full and balance each other are submitted.
+ */
+
+import { expectedFill } from './fills';
+
+const BPS = 10000n;
+
+export interface ClearingOrder {
+  orderHash: string;
+  amount: string | bigint;
+  limitPrice: string | bigint;
+  side: number;
+}
+
+export interface ClearingResult<T extends ClearingOrder = ClearingOrder> {
+  clearingPrice: bigint;
+  // Reference price the contract computes from the submitted orders
+  referencePrice: bigint;
+  deviationBps: bigint;
+  // Volume executed on each side, equal by construction
+  matchedVolume: bigint;
+  // Cumulative demand and supply of the whole book at the clearing price
+  demand: bigint;
+  supply: bigint;
+  // Orders to submit, in input order; every one of them is filled in full
+  buyOrders: T[];
+  sellOrders: T[];
+  // Filled amount per input order hash, 0 for orders left out
+  fills: Map<string, bigint>;
+}
+
+interface Candidate<T extends ClearingOrder> {
+  price: bigint;
+  reference: bigint;
+  volume: bigint;
+  buyOrders: T[];
+  sellOrders: T[];
+}
+
+/**
+ * Replicates BatchAuction._calculateClearingPrice
+ * @returns Midpoint of the best bid and best ask, or 0 if they do not cross
+ */
+export function referenceClearingPrice(buyOrders: ClearingOrder[], sellOrders: ClearingOrder[]): bigint {
+  if (buyOrders.length === 0 || sellOrders.length === 0) {
+    return 0n;
+  }
+
+  const maxBuy = buyOrders.reduce((max, o) => (BigInt(o.limitPrice) > max ? BigInt(o.limitPrice) : max), 0n);
+  const minSell = sellOrders.reduce(
+    (min, o) => (min === -1n || BigInt(o.limitPrice) < min ? BigInt(o.limitPrice) : min),
+    -1n
+  );
+
+  return maxBuy >= minSell ? (maxBuy + minSell) / 2n : 0n;
+}
+
+/**
+ * Replicates BatchAuction._calculateDeviation
+ * @param price Submitted clearing price
+ * @param reference Price computed by the contract
+ * @returns Deviation in basis points (integer division, as on-chain)
+ */
+export function priceDeviationBps(price: bigint, reference: bigint): bigint {
+  if (price === reference) {
+    return 0n;
+  }
+
+  return price > reference
+    ? ((price - reference) * BPS) / reference
+    : ((reference - price) * BPS) / price;
+}
+
+/**
+ * Computes the volume-maximising clearing price and the orders to submit at it
+ *
+ * BatchAuction fills every submitted order that crosses the submitted price in full, so orders
+ * cannot be partially filled. At each candidate price whole orders are taken from both sides in
+ * price priority until their volumes balance exactly, and the price is kept within the limits of
+ * every order taken so all of them execute.
+ * @param buyOrders Valid buy orders of the batch
+ * @param sellOrders Valid sell orders of the batch
+ * @param maxPriceDeviationBps The auction's maxPriceDeviationBps
+ * @returns Clearing result, or null if nothing can be matched within tolerance
+ */
+export function computeClearing<T extends ClearingOrder>(
+  buyOrders: T[],
+  sellOrders: T[],
+  maxPriceDeviationBps: number | bigint
+): ClearingResult<T> | null {
+  // The contract cannot evaluate deviation against a zero reference
+  if (referenceClearingPrice(buyOrders, sellOrders) === 0n) {
+    return null;
+  }
+
+  const tolerance = BigInt(maxPriceDeviationBps);
+  const prices = new Set([...buyOrders, ...sellOrders].map(o => BigInt(o.limitPrice)));
+  let best: Candidate<T> | null = null;
+
+  for (const price of prices) {
+    const candidate = evaluate(price, buyOrders, sellOrders, tolerance);
+
+    if (candidate && (!best || isBetter(candidate, best))) {
+      best = candidate;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const submitted = new Set([...best.buyOrders, ...best.sellOrders]);
+  const fills = new Map<string, bigint>();
+
+  // Fills as _executeOrders produces them; only submitted orders execute
+  for (const order of [...buyOrders, ...sellOrders]) {
+    const fill = submitted.has(order) ? expectedFill(order, best.price, 0) : null;
+    fills.set(order.orderHash, fill ? BigInt(fill.filledAmount) : 0n);
+  }
+
+  return {
+    clearingPrice: best.price,
+    referencePrice: best.reference,
+    deviationBps: priceDeviationBps(best.price, best.reference),
+    matchedVolume: best.volume,
+    demand: totalAmount(buyOrders.filter(o => BigInt(o.limitPrice) >= best!.price)),
+    supply: totalAmount(sellOrders.filter(o => BigInt(o.limitPrice) <= best!.price)),
+    buyOrders: buyOrders.filter(o => submitted.has(o)),
+    sellOrders: sellOrders.filter(o => submitted.has(o)),
+    fills,
+  };
+}
+
+/**
+ * Largest balanced settlement among the orders crossing a price
+ * When no balanced set exists or the contract would reject its price, the best-priced order furthest
+ * from the candidate price is left out (it moves the reference most) and the rest is tried again.
+ */
+function evaluate<T extends ClearingOrder>(
+  price: bigint,
+  buyOrders: T[],
+  sellOrders: T[],
+  tolerance: bigint
+): Candidate<T> | null {
+  let buys = buyOrders
+    .filter(o => BigInt(o.limitPrice) >= price)
+    .sort((a, b) => compareBigInt(BigInt(b.limitPrice), BigInt(a.limitPrice)) || a.orderHash.localeCompare(b.orderHash));
+  let sells = sellOrders
+    .filter(o => BigInt(o.limitPrice) <= price)
+    .sort((a, b) => compareBigInt(BigInt(a.limitPrice), BigInt(b.limitPrice)) || a.orderHash.localeCompare(b.orderHash));
+
+  while (buys.length > 0 && sells.length > 0) {
+    const taken = balance(buys, sells);
+
+    if (taken) {
+      const reference = referenceClearingPrice(taken.buys, taken.sells);
+
+      // Every taken order must cross: no higher than the lowest buy limit, no lower than the highest sell limit
+      const lowest = BigInt(taken.sells[taken.sells.length - 1].limitPrice);
+      const highest = BigInt(taken.buys[taken.buys.length - 1].limitPrice);
+      const clamped = reference < lowest ? lowest : reference > highest ? highest : reference;
+
+      if (reference > 0n && clamped > 0n && priceDeviationBps(clamped, reference) <= tolerance) {
+        return { price: clamped, reference, volume: taken.volume, buyOrders: taken.buys, sellOrders: taken.sells };
+      }
+    }
+
+    if (abs(BigInt(buys[0].limitPrice) - price) >= abs(BigInt(sells[0].limitPrice) - price)) {
+      buys = buys.slice(1);
+    } else {
+      sells = sells.slice(1);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whole orders from each side, in priority, whose volumes are equal
+ * Each side takes every order that still fits under a target volume; the target starts at the
+ * smaller side and drops to the smaller of the two sums until they meet.
+ */
+function balance<T extends ClearingOrder>(buys: T[], sells: T[]): { buys: T[]; sells: T[]; volume: bigint } | null {
+  let target = min(totalAmount(buys), totalAmount(sells));
+
+  while (target > 0n) {
+    const takenBuys = fitWithin(buys, target);
+    const takenSells = fitWithin(sells, target);
+    const buyVolume = totalAmount(takenBuys);
+    const sellVolume = totalAmount(takenSells);
+
+    if (buyVolume === sellVolume) {
+      return { buys: takenBuys, sells: takenSells, volume: buyVolume };
+    }
+
+    target = min(buyVolume, sellVolume);
+  }
+
+  return null;
+}
+
+function fitWithin<T extends ClearingOrder>(orders: T[], target: bigint): T[] {
+  const taken: T[] = [];
+  let volume = 0n;
+
+  for (const order of orders) {
+    if (volume + BigInt(order.amount) <= target) {
+      taken.push(order);
+      volume += BigInt(order.amount);
+    }
+  }
+
+  return taken;
+}
+
+/**
+ * Tie-breaking: volume, then smallest deviation from the contract reference, then lowest price
+ */
+function isBetter<T extends ClearingOrder>(candidate: Candidate<T>, best: Candidate<T>): boolean {
+  if (candidate.volume !== best.volume) {
+    return candidate.volume > best.volume;
+  }
+
+  const deviation = priceDeviationBps(candidate.price, candidate.reference);
+  const bestDeviation = priceDeviationBps(best.price, best.reference);
+  if (deviation !== bestDeviation) {
+    return deviation < bestDeviation;
+  }
+
+  return candidate.price < best.price;
+}
+
+function totalAmount(orders: ClearingOrder[]): bigint {
+  return orders.reduce((sum, o) => sum + BigInt(o.amount), 0n);
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+  return a > b ? 1 : a < b ? -1 : 0;
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
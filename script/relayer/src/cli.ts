@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+import { ConfigError, loadConfig, LoadConfigOptions, redactConfig } from './configuration';
+import type { RelayerOperator } from './operator';
+
+const USAGE = `Usage: relayer <command> [options]
+
+Commands:
+  config print                     Print the resolved configuration with secrets redacted
+  config check                     Validate the configuration and report every invalid field
+  status                           Current batch, state, parameters and indexer lag of each auction
+  batch show <id>                  A batch with its orders, fills and settlement attempts
+  orders <batchId>                 Orders indexed for a batch
+  fills <trader>                   Executions of a trader's orders, newest first
+  proof <orderHash>                Merkle proof an order was settled with
+  settle <id> [--dry-run]          Settle a batch now, or simulate its settlement
+  db cleanup --older-than <days>   Delete settled batches older than a number of days (e.g. 30 or 30d)
+  replay --from-block <n>          Roll back and re-index auction events (stop the relayer first)
+
+Options:
+  --config <file>     JSON or YAML config file (default: CONFIG_FILE)
+  --network <name>    Network profile (default: NETWORK, then the file's network)
+  --auction <addr>    Auction to act on (default: BATCH_AUCTION_ADDRESS, or every indexed auction)
+  --log-level <lvl>   Log level (default: warn)`;
+
+// Options that take no value
+const FLAGS = new Set(['dry-run']);
+
+export class UsageError extends Error {}
+
+interface ParsedArgs {
+  command: string[];
+  options: Record<string, string>;
+}
+
+/**
+ * Split arguments into the command words, `--name value` options and flags
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const command: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith('--')) {
+      command.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    const value = inline ?? (FLAGS.has(name) ? 'true' : argv[++i]);
+
+    if (value === undefined) {
+      throw new UsageError(`Option --${name} needs a value`);
+    }
+
+    options[name] = value;
+  }
+
+  return { command, options };
+}
+
+function configOptions(options: Record<string, string>): LoadConfigOptions {
+  return { file: options.config, network: options.network };
+}
+
+function integerArg(value: string | undefined, name: string): number {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new UsageError(`${name} must be a non-negative integer`);
+  }
+
+  return Number(value);
+}
+
+/**
+ * Parse an age such as `30` or `30d` into days
+ */
+export function parseDays(value: string | undefined): number {
+  const match = value?.match(/^(\d+)d?$/);
+
+  if (!match) {
+    throw new UsageError('--older-than must be a number of days, such as 30 or 30d');
+  }
+
+  return Number(match[1]);
+}
+
+function print(result: unknown): void {
+  console.log(JSON.stringify(result, (_key, value) => typeof value === 'bigint' ? value.toString() : value, 2));
+}
+
+/**
+ * Run an operator command against the database and chain the relayer uses
+ */
+async function operate<T>(options: Record<string, string>, fn: (operator: RelayerOperator) => Promise<T>): Promise<number> {
+  // The shared modules load their configuration on import, so it is selected first
+  if (options.config) process.env.CONFIG_FILE = options.config;
+  if (options.network) process.env.NETWORK = options.network;
+  process.env.LOG_LEVEL = options['log-level'] ?? 'warn';
+
+  const { RelayerOperator } = await import('./operator');
+  const operator = new RelayerOperator();
+  await operator.open();
+
+  try {
+    print(await fn(operator));
+    return 0;
+  } finally {
+    await operator.close();
+  }
+}
+
+/**
+ * Run a command and return the process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  const { command, options } = parseArgs(argv);
+  const [name, ...args] = command;
+  const auction = options.auction;
+
+  switch (`${name} ${args.length}`) {
+    case 'config 1':
+      if (args[0] === 'print') {
+        const config = loadConfig(configOptions(options));
+        console.log(JSON.stringify(redactConfig(config), null, 2));
+        return 0;
+      }
+
+      if (args[0] === 'check') {
+        const config = loadConfig(configOptions(options));
+        console.log(`Configuration is valid (network ${config.network}, chain ${config.chainId})`);
+        return 0;
+      }
+      break;
+
+    case 'status 0':
+      return operate(options, operator => operator.status(auction));
+
+    case 'batch 2':
+      if (args[0] === 'show') {
+        const batchId = integerArg(args[1], 'Batch id');
+        return operate(options, operator => operator.showBatch(batchId, auction));
+      }
+      break;
+
+    case 'orders 1': {
+      const batchId = integerArg(args[0], 'Batch id');
+      return operate(options, operator => operator.listOrders(batchId, auction));
+    }
+
+    case 'fills 1':
+      return operate(options, operator => operator.listFills(args[0], auction));
+
+    case 'proof 1':
+      return operate(options, operator => operator.getProof(args[0], auction));
+
+    case 'settle 1': {
+      const batchId = integerArg(args[0], 'Batch id');
+      const dryRun = options['dry-run'] === 'true';
+      return operate(options, operator => operator.settle(batchId, { auction, dryRun }));
+    }
+
+    case 'db 1':
+      if (args[0] === 'cleanup') {
+        const days = parseDays(options['older-than']);
+        return operate(options, operator => operator.cleanup(days));
+      }
+      break;
+
+    case 'replay 0': {
+      const fromBlock = integerArg(options['from-block'], '--from-block');
+      return operate(options, operator => operator.replay(fromBlock, auction));
+    }
+  }
+
+  throw new UsageError(command.length > 0 ? `Unknown command: ${command.join(' ')}` : 'No command given');
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+      if (error instanceof UsageError) {
+        console.error(`${error.message}\n\n${USAGE}`);
+        process.exit(2);
+      }
+
+      // Expected failures (bad configuration, a held lease, a missing batch) carry a readable message
+      const expected = error instanceof ConfigError || ['OperatorError', 'LeaseHeldError'].includes(error?.name);
+      console.error(expected ? error.message : error);
+      process.exit(1);
+    }
+  );
+}
@@ -0,0 +1,358 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+
+dotenv.config();
+
+/*////// FIELD TYPES //////*/
+
+// Environment variables and hand-written files hold numbers, flags and lists as strings
+function toNumber(value: unknown): unknown {
+  return typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value.trim()) ? Number(value) : value;
+}
+
+function toBoolean(value: unknown): unknown {
+  return value === 'true' ? true : value === 'false' ? false : value;
+}
+
+function toList(value: unknown): unknown {
+  return typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(item => item.length > 0) : value;
+}
+
+const integer = (min: number = 0) => z.preprocess(toNumber, z.number().int().min(min));
+const decimal = (min: number = 0) => z.preprocess(toNumber, z.number().min(min));
+const flag = z.preprocess(toBoolean, z.boolean());
+const url = z.string().url();
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected a 20-byte hex address');
+const port = integer(1).pipe(z.number().max(65535));
+
+/*////// SCHEMA //////*/
+
+const SETTINGS = z.object({
+  // Network
+  network: z.string().min(1).default('localhost'),
+  rpcUrl: url.default('http://localhost:8545'),
+  backupRpcUrl: url.optional(),
+  // Ordered endpoint list; rpcUrl and backupRpcUrl are used when it is not set
+  rpcUrls: z.preprocess(toList, z.array(url).min(1)).optional(),
+  rpcQuorum: integer(1).default(1),
+  rpcMaxHeadLag: integer().default(5),
+  rpcTimeoutMs: integer(1).default(10000),
+  rpcProbeIntervalMs: integer(1).default(15000),
+  chainId: integer(1).default(31337),
+
+  // Contracts
+  factoryAddress: address.optional(),
+  factoryStartBlock: integer().default(0),
+  batchAuctionAddress: address.optional(),
+
+  // Relayer; the signer backend is inferred from whichever one is configured unless set
+  signerType: z.enum(['keystore', 'remote', 'raw']).optional(),
+  relayerPrivateKey: z.string().regex(/^(0x)?[0-9a-fA-F]{64}$/, 'Expected a 32-byte hex private key').optional(),
+  relayerAddress: address.or(z.literal('')).default(''),
+  keystorePath: z.string().optional(),
+  keystorePasswordFile: z.string().optional(),
+  remoteSignerUrl: url.optional(),
+  remoteSignerPublicKey: z.string().optional(),
+
+  // Gas
+  maxGasPriceGwei: decimal().default(100),
+  maxPriorityFeeGwei: decimal().default(2),
+  gasLimit: integer(21000).default(500000),
+  txReplaceBlocks: integer(1).default(3),
+  // Fee bumps before a stuck transaction is cancelled, and then given up on
+  txMaxReplacements: integer().default(10),
+  feeBumpPercent: integer()
+    .pipe(z.number().min(10, 'Nodes reject replacements that raise fees by less than 10%'))
+    .default(15),
+
+  // Dry run
+  dryRun: flag.default(false),
+  dryRunBlock: integer().optional(),
+  dryRunFrom: address.optional(),
+
+  // Database; the PostgreSQL URL takes precedence over the SQLite file
+  databasePath: z.string().min(1).default('./relayer.db'),
+  databaseUrl: z.string().regex(/^postgres(ql)?:\/\//, 'Expected a postgres:// URL').optional(),
+
+  // Monitoring
+  enableMetrics: flag.default(false),
+  metricsPort: port.default(9090),
+  healthCheckPort: port.default(8080),
+  // Readiness thresholds
+  minBalanceEth: decimal().default(0.01),
+  maxIndexerLag: integer().default(50),
+
+  // Admin API
+  adminApiToken: z.string().min(1).optional(),
+
+  // Public API
+  enableApi: flag.default(false),
+  apiPort: port.default(8000),
+
+  // Alerting
+  alertWebhookUrl: url.optional(),
+  slackWebhookUrl: url.optional(),
+  alertFilePath: z.string().optional(),
+  alertRepeatMinutes: decimal().default(60),
+  alertRateLimitPerMinute: integer(1).default(10),
+  alertStuckBatchBlocks: integer(1).default(50),
+  alertRpcDownMinutes: decimal().default(5),
+
+  // Logging
+  logLevel: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent']).default('info'),
+  logPretty: flag.default(false),
+
+  // Retry
+  maxRetries: integer().default(3),
+  retryDelayMs: integer().default(5000),
+  retryBackoffMultiplier: decimal(1).default(2),
+
+  // Batch
+  pollIntervalMs: integer(100).default(12000),
+  settlementDelayBlocks: integer().default(2),
+
+  // Indexer
+  indexerStartBlock: integer().optional(),
+  logChunkSize: integer(1).default(2000),
+  confirmations: integer().default(12),
+  // Attempts at decoding a reveal before its commitment is recorded as undecodable and skipped
+  revealDecodeAttempts: integer(1).default(5),
+});
+
+const CONFIG_SCHEMA = SETTINGS.extend({
+  factoryAddress: address.optional().refine(value => value !== undefined, {
+    message: 'Factory address not configured. Set FACTORY_ADDRESS or deploy contracts first.',
+  }),
+}).transform(settings => ({
+  ...settings,
+  factoryAddress: settings.factoryAddress!,
+  rpcUrls: settings.rpcUrls ?? [settings.rpcUrl, ...(settings.backupRpcUrl ? [settings.backupRpcUrl] : [])],
+  signerType: settings.signerType
+    ?? (settings.keystorePath ? 'keystore' : settings.remoteSignerUrl ? 'remote' : 'raw') as 'keystore' | 'remote' | 'raw',
+}));
+
+export type RelayerConfig = z.output<typeof CONFIG_SCHEMA>;
+
+type Settings = Partial<Record<keyof z.input<typeof SETTINGS>, unknown>>;
+
+const FIELDS = Object.keys(SETTINGS.shape) as (keyof Settings)[];
+
+/**
+ * Defaults for well-known networks, applied under the config file and the environment
+ */
+export const NETWORK_PROFILES: Record<string, Settings> = {
+  localhost: { chainId: 31337, rpcUrl: 'http://localhost:8545' },
+  sepolia: { chainId: 11155111 },
+  mainnet: { chainId: 1 },
+};
+
+/*////// LOADING //////*/
+
+export interface ConfigIssue {
+  field: string;
+  source: string;
+  message: string;
+}
+
+/**
+ * Configuration that failed validation, with one issue per offending field
+ */
+export class ConfigError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(['Invalid configuration:', ...issues.map(i => `  ${i.field} (${i.source}): ${i.message}`)].join('\n'));
+    this.name = 'ConfigError';
+  }
+}
+
+export interface LoadConfigOptions {
+  /** JSON or YAML file; CONFIG_FILE when not given */
+  file?: string;
+  /** Network profile; NETWORK, then the file's `network`, when not given */
+  network?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Load and validate the relayer configuration
+ *
+ * Each layer overrides the ones before it: schema defaults, the built-in profile of the
+ * network, the top level of the config file, the file's `networks.<name>` section, and
+ * finally environment variables named after the fields (`pollIntervalMs` is read from
+ * `POLL_INTERVAL_MS`).
+ */
+export function loadConfig(options: LoadConfigOptions = {}): RelayerConfig {
+  const env = options.env ?? process.env;
+  const file = options.file ?? (env.CONFIG_FILE || undefined);
+  const contents = file ? readConfigFile(file) : {};
+  const { networks = {}, ...fileSettings } = contents;
+  const network = options.network ?? (env.NETWORK || undefined) ?? (fileSettings.network as string | undefined) ?? 'localhost';
+
+  const layers: [string, Settings][] = [
+    [`network profile "${network}"`, NETWORK_PROFILES[network] ?? {}],
+    ...(file ? [[file, fileSettings], [`${file} networks.${network}`, networks[network] ?? {}]] as [string, Settings][] : []),
+    ['environment', readEnv(env)],
+    ...(options.network ? [['--network', { network: options.network }]] as [string, Settings][] : []),
+  ];
+
+  const settings: Settings = {};
+  const sources: Record<string, string> = {};
+  const issues: ConfigIssue[] = [];
+
+  for (const [source, layer] of layers) {
+    for (const [field, value] of Object.entries(layer)) {
+      if (!FIELDS.includes(field as keyof Settings)) {
+        issues.push({ field, source, message: 'Unknown setting' });
+        continue;
+      }
+
+      settings[field as keyof Settings] = value;
+      sources[field] = source === 'environment' ? envName(field) : source;
+    }
+  }
+
+  // Auctions are discovered from the factory's AuctionCreated events, so only its address is read
+  if (settings.factoryAddress === undefined) {
+    const deploymentPath = path.join(__dirname, '../../../deployments', `${network}.json`);
+
+    if (fs.existsSync(deploymentPath)) {
+      settings.factoryAddress = JSON.parse(fs.readFileSync(deploymentPath, 'utf-8')).contracts?.factory;
+      sources.factoryAddress = deploymentPath;
+    } else {
+      sources.factoryAddress = 'FACTORY_ADDRESS';
+    }
+  }
+
+  const result = CONFIG_SCHEMA.safeParse(settings);
+
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const [field] = issue.path as string[];
+      const value = settings[field as keyof Settings];
+      const shown = value === undefined || SECRET_FIELDS.includes(field) ? '' : ` (got ${JSON.stringify(redactSetting(field, value))})`;
+
+      issues.push({ field: formatPath(issue.path), source: sources[field] ?? 'default', message: issue.message + shown });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+
+  return result.data!;
+}
+
+// Settings are validated once every layer is merged, so a file is only checked for its shape here
+const CONFIG_FILE = z.object({
+  networks: z.record(z.record(z.unknown()).nullable()).optional(),
+}).passthrough();
+
+function readConfigFile(file: string): Settings & { networks?: Record<string, Settings | null> } {
+  let contents: unknown;
+
+  try {
+    const text = fs.readFileSync(file, 'utf-8');
+    contents = /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError([{ field: '(file)', source: file, message: (error as Error).message }]);
+  }
+
+  const result = CONFIG_FILE.safeParse(contents);
+
+  if (!result.success) {
+    throw new ConfigError([{ field: '(file)', source: file, message: 'Expected an object of settings with optional networks.<name> sections' }]);
+  }
+
+  return result.data;
+}
+
+function readEnv(env: NodeJS.ProcessEnv): Settings {
+  const settings: Settings = {};
+
+  for (const field of FIELDS) {
+    // Empty values, as in `BACKUP_RPC_URL=`, leave the setting unset
+    const value = env[envName(field)];
+
+    if (value !== undefined && value !== '') {
+      settings[field] = value;
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Environment variable a field is read from
+ */
+export function envName(field: string): string {
+  return field.replace(/([A-Z])/g, '_$1').toUpperCase();
+}
+
+function formatPath(segments: (string | number)[]): string {
+  return segments.map((segment, i) => (typeof segment === 'number' ? `[${segment}]` : i > 0 ? `.${segment}` : segment)).join('');
+}
+
+/*////// REDACTION //////*/
+
+const SECRET_FIELDS = ['relayerPrivateKey', 'adminApiToken'];
+
+// Provider API keys and webhook tokens live in the path or query
+const SECRET_PATH_FIELDS = ['rpcUrl', 'backupRpcUrl', 'rpcUrls', 'alertWebhookUrl', 'slackWebhookUrl'];
+
+const REDACTED = '[redacted]';
+
+/**
+ * Copy of the configuration that is safe to log
+ */
+export function redactConfig(config: RelayerConfig): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...config };
+
+  for (const [field, value] of Object.entries(config)) {
+    if (value !== undefined) {
+      redacted[field] = redactSetting(field, value);
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Value of a setting that is safe to log, whether or not it passed validation
+ */
+function redactSetting(field: string, value: unknown): unknown {
+  if (SECRET_FIELDS.includes(field)) {
+    return REDACTED;
+  }
+
+  const hidePath = SECRET_PATH_FIELDS.includes(field);
+
+  if (!hidePath && field !== 'databaseUrl' && field !== 'remoteSignerUrl') {
+    return value;
+  }
+
+  // A value that does not parse as a URL may still hold credentials, so it is hidden whole
+  const redact = (item: unknown) => {
+    try {
+      return redactUrl(String(item), hidePath);
+    } catch {
+      return REDACTED;
+    }
+  };
+
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  // Lists read from the environment are still comma-separated strings
+  return typeof value === 'string' ? value.split(',').map(redact).join(',') : redact(value);
+}
+
+function redactUrl(value: string, hidePath: boolean): string {
+  const parsed = new URL(value);
+  const credentials = parsed.username ? `${parsed.username}${parsed.password ? `:${REDACTED}` : ''}@` : '';
+  const location = parsed.pathname === '/' ? parsed.search : parsed.pathname + parsed.search;
+
+  return `${parsed.protocol}//${credentials}${parsed.host}${hidePath && location ? `/${REDACTED}` : location}`;
+}
@@ -0,0 +1,1487 @@
+import type { FillMismatch } from './fills';
+import { migrate, MigrationResult } from './migrations';
+import { SqlClient, SqlDialect } from './sql';
+
+export interface Auction {
+  address: string;
+  token0: string;
+  token1: string;
+  createdBlock: number;
+  txHash: string;
+  createdAt: number;
+}
+
+export interface Order {
+  auction: string;
+  orderHash: string;
+  commitment: string;
+  salt: string;
+  batchId: number;
+  trader: string;
+  nonce: string;
+  expiry: number;
+  amount: string;
+  limitPrice: string;
+  side: number;
+  revealed: boolean;
+  executed: boolean;
+  revealTxHash?: string;
+  revealBlock?: number;
+  createdAt: number;
+  // Why the last pre-settlement validation left the order out, null if it was included
+  exclusionReason?: string | null;
+  validatedBlock?: number | null;
+}
+
+export interface Batch {
+  auction: string;
+  batchId: number;
+  startBlock: number;
+  endBlock?: number;
+  clearingPrice?: string;
+  ordersRoot?: string;
+  settled: boolean;
+  txHash?: string;
+  createdAt: number;
+  settledAt?: number;
+  settledBlock?: number;
+  skipped?: boolean;
+  skipReason?: string;
+  // Set once the settlement's fills were reconciled with the orders the relayer settled the batch with
+  fillMismatches?: FillMismatch[] | null;
+  fillsReconciledAt?: number | null;
+}
+
+export interface OrderProof {
+  auction: string;
+  orderHash: string;
+  batchId: number;
+  leafIndex: number;
+  leaf: string;
+  proof: string[];
+  root: string;
+  txHash: string;
+  createdAt: number;
+}
+
+/**
+ * An order's `OrderExecuted` result
+ */
+export interface Fill {
+  auction: string;
+  orderHash: string;
+  // Null until the settlement's BatchSettled log is indexed
+  batchId: number | null;
+  trader: string;
+  filledAmount: string;
+  receivedAmount: string;
+  clearingPrice: string;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  createdAt: number;
+}
+
+export type SettlementStatus = 'pending' | 'confirmed' | 'failed' | 'replaced';
+
+export type SettlementKind = 'settlement' | 'cancellation';
+
+export interface Settlement {
+  id?: number;
+  auction: string;
+  batchId: number;
+  txHash: string;
+  status: SettlementStatus;
+  kind?: SettlementKind;
+  nonce?: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  replaces?: string;
+  replacedBy?: string;
+  gasUsed?: number;
+  error?: string;
+  blockNumber?: number;
+  blockHash?: string;
+  createdAt: number;
+  confirmedAt?: number;
+}
+
+export interface SettlementReport {
+  auction: string;
+  batchId: number;
+  blockTag: string;
+  from: string;
+  success: boolean;
+  clearingPrice?: string;
+  totalVolume?: string;
+  ordersRoot?: string;
+  orderCount: number;
+  fills: Record<string, string>;
+  gasEstimate?: string;
+  revert?: string;
+  onChainTxHash?: string;
+  onChainClearingPrice?: string;
+  onChainTotalVolume?: string;
+  onChainOrdersRoot?: string;
+  onChainFills?: Record<string, string>;
+  mismatches?: string[];
+  comparedAt?: number;
+  createdAt: number;
+}
+
+export type SettlementComparison = Required<Pick<SettlementReport,
+  'onChainTxHash' | 'onChainClearingPrice' | 'onChainTotalVolume' | 'onChainOrdersRoot' | 'onChainFills' | 'mismatches'
+>>;
+
+export type CommitmentStage = 'committed' | 'revealed' | 'executed' | 'unrevealed' | 'unexecuted' | 'undecodable';
+
+export interface Commitment {
+  auction: string;
+  commitment: string;
+  batchId: number;
+  trader: string;
+  blockNumber: number;
+  txHash: string;
+  revealed: boolean;
+  orderHash?: string;
+  revealTxHash?: string;
+  revealBlock?: number;
+  revealError?: string;
+  executed: boolean;
+  filledAmount?: string;
+  receivedAmount?: string;
+  executionTxHash?: string;
+  executionBlock?: number;
+  createdAt: number;
+  stage?: CommitmentStage;
+}
+
+export interface CommitmentExecution {
+  txHash: string;
+  blockNumber: number;
+  filledAmount: string;
+  receivedAmount: string;
+}
+
+export interface RevealStats {
+  committed: number;
+  revealed: number;
+  executed: number;
+  revealRate: number;
+}
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export type AlertStatus = 'firing' | 'resolved';
+
+export interface AlertRecord {
+  key: string;
+  type: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  message: string;
+  details?: Record<string, unknown>;
+  count: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  lastNotifiedAt?: number;
+  resolvedAt?: number;
+}
+
+export interface Checkpoint {
+  name: string;
+  blockNumber: number;
+  logIndex: number;
+  updatedAt: number;
+}
+
+export interface IndexedBlock {
+  name: string;
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface LeaseRecord {
+  name: string;
+  owner: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export interface PageResult<T> extends Page {
+  items: T[];
+  total: number;
+}
+
+export interface BatchFilter {
+  auction?: string;
+  settled?: boolean;
+  skipped?: boolean;
+}
+
+export interface OrderFilter {
+  auction?: string;
+  batchId?: number;
+  orderHash?: string;
+  trader?: string;
+  revealed?: boolean;
+  executed?: boolean;
+}
+
+export interface FillFilter {
+  auction?: string;
+  batchId?: number;
+  orderHash?: string;
+  trader?: string;
+}
+
+export interface SettlementFilter {
+  auction?: string;
+  batchId?: number;
+  status?: SettlementStatus;
+}
+
+export interface AuctionStats {
+  auction: string;
+  totalSettlements: number;
+  successfulSettlements: number;
+  failedSettlements: number;
+  pendingSettlements: number;
+  totalOrders: number;
+  executedOrders: number;
+  totalBatches: number;
+  settledBatches: number;
+}
+
+export interface SettlementAverages {
+  settlementTimeMs: number;
+  gasUsed: number;
+}
+
+export interface CleanupSummary {
+  orders: number;
+  proofs: number;
+  batches: number;
+  settlements: number;
+  commitments: number;
+  fills: number;
+  alerts: number;
+}
+
+export interface RollbackSummary {
+  orders: number;
+  commitments: number;
+  batches: number;
+  unsettledBatches: number[];
+  settlements: number;
+  fills: number;
+}
+
+/**
+ * Relayer state, stored in SQLite or PostgreSQL depending on the client
+ *
+ * Every method is written once against `SqlClient`, so both backends run the same queries.
+ */
+export class Database {
+  private client: SqlClient;
+  
+  constructor(client: SqlClient) {
+    this.client = client;
+  }
+  
+  /**
+   * Backend the state is stored in
+   */
+  get dialect(): SqlDialect {
+    return this.client.dialect;
+  }
+  
+  /**
+   * Bring the schema up to date
+   */
+  async initialize(): Promise<MigrationResult> {
+    return migrate(this.client);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                         AUCTION OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Record an auction created by the factory
+   */
+  async insertAuction(auction: Auction): Promise<void> {
+    await this.client.run(`
+      INSERT INTO auctions (address, token0, token1, createdBlock, txHash, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT DO NOTHING
+    `, [
+      auction.address.toLowerCase(),
+      auction.token0,
+      auction.token1,
+      auction.createdBlock,
+      auction.txHash,
+      auction.createdAt,
+    ]);
+  }
+  
+  /**
+   * Get all known auctions, oldest first
+   */
+  async getAuctions(): Promise<Auction[]> {
+    return this.client.query<Auction>('SELECT * FROM auctions ORDER BY createdBlock ASC');
+  }
+  
+  /**
+   * Forget auctions created at or after a block (after a factory reorg)
+   * @returns Addresses of the removed auctions
+   */
+  async deleteAuctionsFrom(fromBlock: number): Promise<string[]> {
+    const rows = await this.client.query('DELETE FROM auctions WHERE createdBlock >= ? RETURNING address', [fromBlock]);
+    return rows.map(row => row.address);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                          ORDER OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Insert or update an order
+   */
+  async insertOrder(order: Order): Promise<void> {
+    await this.client.run(upsert('orders', ['auction', 'orderHash'], [
+      'commitment', 'salt', 'batchId', 'trader', 'nonce', 'expiry', 'amount', 'limitPrice', 'side', 'revealed',
+      'executed', 'revealTxHash', 'revealBlock', 'createdAt',
+    ]), [
+      order.auction.toLowerCase(),
+      order.orderHash,
+      order.commitment,
+      order.salt,
+      order.batchId,
+      order.trader,
+      order.nonce,
+      order.expiry,
+      order.amount,
+      order.limitPrice,
+      order.side,
+      order.revealed ? 1 : 0,
+      order.executed ? 1 : 0,
+      order.revealTxHash,
+      order.revealBlock,
+      order.createdAt,
+    ]);
+  }
+  
+  /**
+   * Get orders by batch ID
+   */
+  async getOrdersByBatch(auction: string, batchId: number, revealedOnly: boolean = true): Promise<Order[]> {
+    const query = revealedOnly
+      ? 'SELECT * FROM orders WHERE auction = ? AND batchId = ? AND revealed = 1 AND executed = 0'
+      : 'SELECT * FROM orders WHERE auction = ? AND batchId = ?';
+    
+    const rows = await this.client.query(query, [auction.toLowerCase(), batchId]);
+    
+    return rows.map(toOrder);
+  }
+  
+  /**
+   * Mark order as executed
+   */
+  async markOrderExecuted(auction: string, orderHash: string): Promise<void> {
+    await this.client.run('UPDATE orders SET executed = 1 WHERE auction = ? AND orderHash = ?', [
+      auction.toLowerCase(),
+      orderHash,
+    ]);
+  }
+  
+  /**
+   * Record the outcome of pre-settlement validation at a block
+   * @param outcomes Exclusion reason of each order, null for the orders that were included
+   */
+  async recordOrderValidation(
+    auction: string,
+    blockNumber: number,
+    outcomes: { orderHash: string; exclusionReason: string | null }[]
+  ): Promise<void> {
+    const key = auction.toLowerCase();
+    
+    await this.client.transaction(async tx => {
+      for (const outcome of outcomes) {
+        await tx.run('UPDATE orders SET exclusionReason = ?, validatedBlock = ? WHERE auction = ? AND orderHash = ?', [
+          outcome.exclusionReason,
+          blockNumber,
+          key,
+          outcome.orderHash,
+        ]);
+      }
+    });
+  }
+  
+  /**
+   * List orders, newest batch first
+   */
+  async listOrders(filter: OrderFilter, page: Page): Promise<PageResult<Order>> {
+    const where = whereClause({
+      auction: filter.auction?.toLowerCase(),
+      batchId: filter.batchId,
+      orderHash: filter.orderHash?.toLowerCase(),
+      'LOWER(trader)': filter.trader?.toLowerCase(),
+      revealed: toFlag(filter.revealed),
+      executed: toFlag(filter.executed),
+    });
+    
+    return this.paginate(`FROM orders ${where.sql}`, where.params, 'batchId DESC, orderHash ASC', page, toOrder);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                          BATCH OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Insert or update a batch
+   */
+  async insertBatch(batch: Batch): Promise<void> {
+    await this.client.run(upsert('batches', ['auction', 'batchId'], [
+      'startBlock', 'endBlock', 'clearingPrice', 'ordersRoot', 'settled', 'txHash', 'createdAt', 'settledAt',
+    ]), [
+      batch.auction.toLowerCase(),
+      batch.batchId,
+      batch.startBlock,
+      batch.endBlock,
+      batch.clearingPrice,
+      batch.ordersRoot,
+      batch.settled ? 1 : 0,
+      batch.txHash,
+      batch.createdAt,
+      batch.settledAt,
+    ]);
+  }
+  
+  /**
+   * Get batch by ID
+   */
+  async getBatch(auction: string, batchId: number): Promise<Batch | null> {
+    const [row] = await this.client.query('SELECT * FROM batches WHERE auction = ? AND batchId = ?', [
+      auction.toLowerCase(),
+      batchId,
+    ]);
+    
+    if (!row) return null;
+    
+    return toBatch(row);
+  }
+  
+  /**
+   * Get unsettled batches, leaving out batches an operator marked as skipped
+   */
+  async getUnsettledBatches(auction: string): Promise<Batch[]> {
+    const rows = await this.client.query(
+      'SELECT * FROM batches WHERE auction = ? AND settled = 0 AND skipped = 0 ORDER BY batchId ASC',
+      [auction.toLowerCase()]
+    );
+    
+    return rows.map(toBatch);
+  }
+  
+  /**
+   * List batches, newest first
+   */
+  async listBatches(filter: BatchFilter, page: Page): Promise<PageResult<Batch>> {
+    const where = whereClause({
+      auction: filter.auction?.toLowerCase(),
+      settled: toFlag(filter.settled),
+      skipped: toFlag(filter.skipped),
+    });
+    
+    return this.paginate(`FROM batches ${where.sql}`, where.params, 'auction ASC, batchId DESC', page, toBatch);
+  }
+  
+  /**
+   * Mark a batch to be skipped by the settlement loop, or clear the mark
+   * @returns Whether the batch exists
+   */
+  async setBatchSkipped(auction: string, batchId: number, skipped: boolean, reason?: string): Promise<boolean> {
+    const changes = await this.client.run(
+      'UPDATE batches SET skipped = ?, skipReason = ? WHERE auction = ? AND batchId = ?',
+      [skipped ? 1 : 0, skipped ? reason ?? null : null, auction.toLowerCase(), batchId]
+    );
+    
+    return changes > 0;
+  }
+  
+  /**
+   * Mark batch as settled
+   * Empty values leave previously recorded settlement details untouched
+   */
+  async markBatchSettled(
+    auction: string,
+    batchId: number,
+    txHash: string,
+    clearingPrice: string,
+    ordersRoot: string,
+    settledBlock?: number
+  ): Promise<void> {
+    await this.client.run(`
+      UPDATE batches 
+      SET settled = 1,
+        txHash = COALESCE(NULLIF(?, ''), txHash),
+        clearingPrice = COALESCE(NULLIF(?, ''), clearingPrice),
+        ordersRoot = COALESCE(NULLIF(?, ''), ordersRoot),
+        settledAt = COALESCE(settledAt, ?),
+        settledBlock = COALESCE(?, settledBlock)
+      WHERE auction = ? AND batchId = ?
+    `, [txHash, clearingPrice, ordersRoot, Date.now(), settledBlock, auction.toLowerCase(), batchId]);
+  }
+  
+  /**
+   * Record the Merkle proofs of a batch's settlement, replacing any recorded before
+   */
+  async saveOrderProofs(auction: string, batchId: number, proofs: OrderProof[]): Promise<void> {
+    const key = auction.toLowerCase();
+    
+    await this.client.transaction(async tx => {
+      await tx.run('DELETE FROM order_proofs WHERE auction = ? AND batchId = ?', [key, batchId]);
+      
+      for (const proof of proofs) {
+        await tx.run(upsert('order_proofs', ['auction', 'orderHash'], [
+          'batchId', 'leafIndex', 'leaf', 'proof', 'root', 'txHash', 'createdAt',
+        ]), [
+          key,
+          proof.orderHash.toLowerCase(),
+          batchId,
+          proof.leafIndex,
+          proof.leaf,
+          JSON.stringify(proof.proof),
+          proof.root,
+          proof.txHash,
+          proof.createdAt,
+        ]);
+      }
+    });
+  }
+  
+  /**
+   * Merkle proof an order was settled with
+   */
+  async getOrderProof(auction: string, orderHash: string): Promise<OrderProof | null> {
+    const [row] = await this.client.query(
+      'SELECT * FROM order_proofs WHERE auction = ? AND orderHash = ?',
+      [auction.toLowerCase(), orderHash.toLowerCase()]
+    );
+    return row ? toOrderProof(row) : null;
+  }
+  
+  /**
+   * Merkle proofs of a batch's settlement, in leaf order
+   */
+  async getOrderProofs(auction: string, batchId: number): Promise<OrderProof[]> {
+    const rows = await this.client.query(
+      'SELECT * FROM order_proofs WHERE auction = ? AND batchId = ? ORDER BY leafIndex ASC',
+      [auction.toLowerCase(), batchId]
+    );
+    return rows.map(toOrderProof);
+  }
+  
+  /**
+   * Orders of a batch's recorded settlement, in leaf order
+   * Empty when the relayer has no proofs for the batch, e.g. because someone else settled it.
+   */
+  async getSettledOrders(auction: string, batchId: number): Promise<Order[]> {
+    const rows = await this.client.query(`
+      SELECT o.* FROM order_proofs p
+      JOIN orders o ON o.auction = p.auction AND o.orderHash = p.orderHash
+      WHERE p.auction = ? AND p.batchId = ?
+      ORDER BY p.leafIndex ASC
+    `, [auction.toLowerCase(), batchId]);
+  
+    return rows.map(toOrder);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                            FILL OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Insert or update the fill of an order
+   */
+  async insertFill(fill: Fill): Promise<void> {
+    await this.client.run(upsert('fills', ['auction', 'orderHash'], [
+      'batchId', 'trader', 'filledAmount', 'receivedAmount', 'clearingPrice', 'txHash', 'blockNumber', 'logIndex',
+      'createdAt',
+    ]), [
+      fill.auction.toLowerCase(),
+      fill.orderHash.toLowerCase(),
+      fill.batchId,
+      fill.trader.toLowerCase(),
+      fill.filledAmount,
+      fill.receivedAmount,
+      fill.clearingPrice,
+      fill.txHash,
+      fill.blockNumber,
+      fill.logIndex,
+      fill.createdAt,
+    ]);
+  }
+  
+  /**
+   * Assign the fills of a settlement transaction to the batch it settled
+   * @returns Number of fills linked
+   */
+  async linkFillsToBatch(auction: string, txHash: string, batchId: number): Promise<number> {
+    return this.client.run('UPDATE fills SET batchId = ? WHERE auction = ? AND txHash = ?', [
+      batchId,
+      auction.toLowerCase(),
+      txHash,
+    ]);
+  }
+  
+  /**
+   * Fills of a batch, in log order
+   */
+  async getFillsByBatch(auction: string, batchId: number): Promise<Fill[]> {
+    return this.client.query<Fill>(
+      'SELECT * FROM fills WHERE auction = ? AND batchId = ? ORDER BY blockNumber ASC, logIndex ASC',
+      [auction.toLowerCase(), batchId]
+    );
+  }
+  
+  /**
+   * List fills, newest first
+   */
+  async listFills(filter: FillFilter, page: Page): Promise<PageResult<Fill>> {
+    const where = whereClause({
+      auction: filter.auction?.toLowerCase(),
+      batchId: filter.batchId,
+      orderHash: filter.orderHash?.toLowerCase(),
+      trader: filter.trader?.toLowerCase(),
+    });
+  
+    return this.paginate(`FROM fills ${where.sql}`, where.params, 'blockNumber DESC, logIndex DESC', page, row => row as Fill);
+  }
+  
+  /**
+   * Settled batches with proofs of ours whose fills are not reconciled yet, oldest first
+   * @param maxBlock Only batches settled at or below this block
+   */
+  async getUnreconciledBatches(auction: string, maxBlock: number): Promise<Batch[]> {
+    const rows = await this.client.query(`
+      SELECT * FROM batches b
+      WHERE b.auction = ? AND b.settled = 1 AND b.fillsReconciledAt IS NULL AND b.settledBlock <= ?
+        AND EXISTS (SELECT 1 FROM order_proofs p WHERE p.auction = b.auction AND p.batchId = b.batchId)
+      ORDER BY b.batchId ASC
+    `, [auction.toLowerCase(), maxBlock]);
+  
+    return rows.map(toBatch);
+  }
+  
+  /**
+   * Record the outcome of reconciling a batch's fills, an empty list when they all matched
+   */
+  async saveFillReconciliation(auction: string, batchId: number, mismatches: FillMismatch[]): Promise<void> {
+    await this.client.run('UPDATE batches SET fillMismatches = ?, fillsReconciledAt = ? WHERE auction = ? AND batchId = ?', [
+      JSON.stringify(mismatches),
+      Date.now(),
+      auction.toLowerCase(),
+      batchId,
+    ]);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                        SETTLEMENT OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Insert a settlement record
+   */
+  async insertSettlement(settlement: Settlement): Promise<number> {
+    const [row] = await this.client.query(`
+      INSERT INTO settlements
+      (auction, batchId, txHash, status, kind, nonce, maxFeePerGas, maxPriorityFeePerGas, replaces, gasUsed, error,
+       createdAt, confirmedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `, [
+      settlement.auction.toLowerCase(),
+      settlement.batchId,
+      settlement.txHash,
+      settlement.status,
+      settlement.kind || 'settlement',
+      settlement.nonce,
+      settlement.maxFeePerGas,
+      settlement.maxPriorityFeePerGas,
+      settlement.replaces,
+      settlement.gasUsed,
+      settlement.error,
+      settlement.createdAt,
+      settlement.confirmedAt,
+    ]);
+    
+    return row.id;
+  }
+  
+  /**
+   * Update settlement status
+   */
+  async updateSettlementStatus(
+    txHash: string,
+    status: 'confirmed' | 'failed',
+    gasUsed?: number,
+    error?: string,
+    blockNumber?: number,
+    blockHash?: string
+  ): Promise<void> {
+    await this.client.run(`
+      UPDATE settlements 
+      SET status = ?, gasUsed = ?, error = ?, blockNumber = ?, blockHash = ?, confirmedAt = ?
+      WHERE txHash = ?
+    `, [status, gasUsed, error, blockNumber, blockHash, Date.now(), txHash]);
+  }
+  
+  /**
+   * Mark a pending transaction as replaced by a fee-bumped or cancelling version
+   */
+  async markSettlementReplaced(txHash: string, replacedBy: string): Promise<void> {
+    await this.client.run(`
+      UPDATE settlements SET status = 'replaced', replacedBy = ?, confirmedAt = ? WHERE txHash = ? AND status = 'pending'
+    `, [replacedBy, Date.now(), txHash]);
+  }
+  
+  /**
+   * Get pending settlements for a batch
+   */
+  async getPendingSettlements(auction: string, batchId: number): Promise<Settlement[]> {
+    return this.client.query<Settlement>(`
+      SELECT * FROM settlements WHERE auction = ? AND batchId = ? AND status = 'pending' ORDER BY createdAt ASC
+    `, [auction.toLowerCase(), batchId]);
+  }
+  
+  /**
+   * Batches of an auction with settlement transactions still pending
+   */
+  async getPendingSettlementBatches(auction: string): Promise<number[]> {
+    const rows = await this.client.query<{ batchId: number }>(`
+      SELECT DISTINCT batchId FROM settlements WHERE auction = ? AND status = 'pending' ORDER BY batchId ASC
+    `, [auction.toLowerCase()]);
+    
+    return rows.map(row => row.batchId);
+  }
+  
+  /**
+   * List settlement transactions, newest first
+   */
+  async listSettlements(filter: SettlementFilter, page: Page): Promise<PageResult<Settlement>> {
+    const where = whereClause({
+      auction: filter.auction?.toLowerCase(),
+      batchId: filter.batchId,
+      status: filter.status,
+    });
+    
+    return this.paginate(`FROM settlements ${where.sql}`, where.params, 'createdAt DESC, id DESC', page, row => row);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                     SETTLEMENT REPORT OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Save a dry run settlement report, replacing any earlier one for the batch
+   */
+  async saveSettlementReport(report: SettlementReport): Promise<void> {
+    // The replaced report's on-chain comparison no longer applies
+    await this.client.run(upsert('settlement_reports', ['auction', 'batchId'], [
+      'blockTag', '"from"', 'success', 'clearingPrice', 'totalVolume', 'ordersRoot', 'orderCount', 'fills',
+      'gasEstimate', 'revert', 'onChainTxHash', 'onChainClearingPrice', 'onChainTotalVolume', 'onChainOrdersRoot',
+      'onChainFills', 'mismatches', 'comparedAt', 'createdAt',
+    ]), [
+      report.auction.toLowerCase(),
+      report.batchId,
+      report.blockTag,
+      report.from,
+      report.success ? 1 : 0,
+      report.clearingPrice,
+      report.totalVolume,
+      report.ordersRoot,
+      report.orderCount,
+      JSON.stringify(report.fills),
+      report.gasEstimate,
+      report.revert,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      report.createdAt,
+    ]);
+  }
+  
+  /**
+   * Record how a report compares with the settlement that landed on chain
+   */
+  async saveReportComparison(auction: string, batchId: number, comparison: SettlementComparison): Promise<void> {
+    await this.client.run(`
+      UPDATE settlement_reports
+      SET onChainTxHash = ?, onChainClearingPrice = ?, onChainTotalVolume = ?, onChainOrdersRoot = ?,
+        onChainFills = ?, mismatches = ?, comparedAt = ?
+      WHERE auction = ? AND batchId = ?
+    `, [
+      comparison.onChainTxHash,
+      comparison.onChainClearingPrice,
+      comparison.onChainTotalVolume,
+      comparison.onChainOrdersRoot,
+      JSON.stringify(comparison.onChainFills),
+      JSON.stringify(comparison.mismatches),
+      Date.now(),
+      auction.toLowerCase(),
+      batchId,
+    ]);
+  }
+  
+  /**
+   * Get the dry run report of a batch
+   */
+  async getSettlementReport(auction: string, batchId: number): Promise<SettlementReport | null> {
+    const [row] = await this.client.query('SELECT * FROM settlement_reports WHERE auction = ? AND batchId = ?', [
+      auction.toLowerCase(),
+      batchId,
+    ]);
+    
+    return row ? toSettlementReport(row) : null;
+  }
+  
+  /**
+   * Batches without a dry run report yet
+   */
+  async getUnreportedBatches(auction: string): Promise<Batch[]> {
+    const rows = await this.client.query(`
+      SELECT b.* FROM batches b
+      LEFT JOIN settlement_reports r ON r.auction = b.auction AND r.batchId = b.batchId
+      WHERE b.auction = ? AND r.batchId IS NULL
+      ORDER BY b.batchId ASC
+    `, [auction.toLowerCase()]);
+    
+    return rows.map(toBatch);
+  }
+  
+  /**
+   * Reports of batches that have since been settled on chain but not compared yet
+   */
+  async getUncomparedReports(auction: string): Promise<SettlementReport[]> {
+    const rows = await this.client.query(`
+      SELECT r.* FROM settlement_reports r
+      JOIN batches b ON b.auction = r.auction AND b.batchId = r.batchId
+      WHERE r.auction = ? AND r.comparedAt IS NULL AND b.settled = 1 AND b.txHash IS NOT NULL
+      ORDER BY r.batchId ASC
+    `, [auction.toLowerCase()]);
+    
+    return rows.map(toSettlementReport);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                          NONCE OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Get the next nonce the relayer intends to use for an address
+   */
+  async getNextNonce(address: string): Promise<number | null> {
+    const [row] = await this.client.query('SELECT nextNonce FROM nonces WHERE address = ?', [address.toLowerCase()]);
+    return row ? row.nextNonce : null;
+  }
+  
+  /**
+   * Persist the next nonce for an address
+   */
+  async saveNextNonce(address: string, nextNonce: number): Promise<void> {
+    await this.client.run(upsert('nonces', ['address'], ['nextNonce', 'updatedAt']), [
+      address.toLowerCase(),
+      nextNonce,
+      Date.now(),
+    ]);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                          ALERT OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Get the state of an alert
+   */
+  async getAlert(key: string): Promise<AlertRecord | null> {
+    const [row] = await this.client.query('SELECT * FROM alerts WHERE key = ?', [key]);
+    return row ? toAlertRecord(row) : null;
+  }
+  
+  /**
+   * Insert or replace the state of an alert
+   */
+  async saveAlert(alert: AlertRecord): Promise<void> {
+    await this.client.run(upsert('alerts', ['key'], [
+      'type', 'severity', 'status', 'message', 'details', 'count', 'firstSeenAt', 'lastSeenAt', 'lastNotifiedAt',
+      'resolvedAt',
+    ]), [
+      alert.key,
+      alert.type,
+      alert.severity,
+      alert.status,
+      alert.message,
+      alert.details ? JSON.stringify(alert.details) : null,
+      alert.count,
+      alert.firstSeenAt,
+      alert.lastSeenAt,
+      alert.lastNotifiedAt ?? null,
+      alert.resolvedAt ?? null,
+    ]);
+  }
+  
+  /**
+   * Alerts that are currently firing, oldest first
+   */
+  async getFiringAlerts(): Promise<AlertRecord[]> {
+    const rows = await this.client.query(`SELECT * FROM alerts WHERE status = 'firing' ORDER BY firstSeenAt ASC`);
+    return rows.map(toAlertRecord);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                        COMMITMENT OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Record a submitted commitment
+   */
+  async insertCommitment(commitment: Commitment): Promise<void> {
+    await this.client.run(`
+      INSERT INTO commitments
+      (auction, commitment, batchId, trader, blockNumber, txHash, revealed, executed, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, 0, 0, ?)
+      ON CONFLICT DO NOTHING
+    `, [
+      commitment.auction.toLowerCase(),
+      commitment.commitment,
+      commitment.batchId,
+      commitment.trader,
+      commitment.blockNumber,
+      commitment.txHash,
+      commitment.createdAt,
+    ]);
+  }
+  
+  /**
+   * Link a commitment to the order it was revealed as
+   */
+  async markCommitmentRevealed(
+    auction: string,
+    commitment: string,
+    orderHash: string,
+    revealTxHash: string,
+    revealBlock: number
+  ): Promise<void> {
+    await this.client.run(`
+      UPDATE commitments
+      SET revealed = 1, orderHash = ?, revealTxHash = ?, revealBlock = ?, revealError = NULL
+      WHERE auction = ? AND commitment = ?
+    `, [orderHash, revealTxHash, revealBlock, auction.toLowerCase(), commitment]);
+  }
+  
+  /**
+   * Record a reveal whose order could not be recovered, so the commitment stays revealed without an order
+   */
+  async markCommitmentUndecodable(
+    auction: string,
+    commitment: string,
+    revealTxHash: string,
+    revealBlock: number,
+    error: string
+  ): Promise<void> {
+    await this.client.run(`
+      UPDATE commitments
+      SET revealed = 1, orderHash = NULL, revealTxHash = ?, revealBlock = ?, revealError = ?
+      WHERE auction = ? AND commitment = ?
+    `, [revealTxHash, revealBlock, error, auction.toLowerCase(), commitment]);
+  }
+  
+  /**
+   * Link a revealed commitment to its OrderExecuted result
+   */
+  async markCommitmentExecuted(auction: string, orderHash: string, execution: CommitmentExecution): Promise<void> {
+    await this.client.run(`
+      UPDATE commitments
+      SET executed = 1, filledAmount = ?, receivedAmount = ?, executionTxHash = ?, executionBlock = ?
+      WHERE auction = ? AND orderHash = ?
+    `, [
+      execution.filledAmount,
+      execution.receivedAmount,
+      execution.txHash,
+      execution.blockNumber,
+      auction.toLowerCase(),
+      orderHash,
+    ]);
+  }
+  
+  /**
+   * Get commitments by batch ID
+   */
+  async getCommitmentsByBatch(auction: string, batchId: number): Promise<Commitment[]> {
+    const rows = await this.client.query(`
+      ${COMMITMENT_SELECT}
+      WHERE c.auction = ? AND c.batchId = ?
+      ORDER BY c.blockNumber ASC
+    `, [auction.toLowerCase(), batchId]);
+    
+    return rows.map(toCommitment);
+  }
+  
+  /**
+   * Get commitments in a batch that were never revealed
+   */
+  async getUnrevealedCommitments(auction: string, batchId: number): Promise<Commitment[]> {
+    const rows = await this.client.query(`
+      ${COMMITMENT_SELECT}
+      WHERE c.auction = ? AND c.batchId = ? AND c.revealed = 0
+      ORDER BY c.blockNumber ASC
+    `, [auction.toLowerCase(), batchId]);
+    
+    return rows.map(toCommitment);
+  }
+  
+  /**
+   * Get a trader's commitments with the lifecycle stage each one reached
+   */
+  async getCommitmentsByTrader(trader: string, limit: number = 100): Promise<Commitment[]> {
+    const rows = await this.client.query(`
+      ${COMMITMENT_SELECT}
+      WHERE LOWER(c.trader) = ?
+      ORDER BY c.blockNumber DESC
+      LIMIT ?
+    `, [trader.toLowerCase(), limit]);
+    
+    return rows.map(toCommitment);
+  }
+  
+  /**
+   * Get reveal and execution counts, for one auction, one batch or everything
+   */
+  async getRevealStats(auction?: string, batchId?: number): Promise<RevealStats> {
+    const where = whereClause({ auction: auction?.toLowerCase(), batchId });
+    
+    const [row] = await this.client.query(`
+      SELECT COUNT(*) as committed, SUM(revealed) as revealed, SUM(executed) as executed
+      FROM commitments
+      ${where.sql}
+    `, where.params);
+    
+    const committed = row?.committed || 0;
+    const revealed = row?.revealed || 0;
+    
+    return {
+      committed,
+      revealed,
+      executed: row?.executed || 0,
+      revealRate: committed > 0 ? revealed / committed : 0,
+    };
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                        CHECKPOINT OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Get the last processed log position of an indexer
+   */
+  async getCheckpoint(name: string): Promise<Checkpoint | null> {
+    const [row] = await this.client.query<Checkpoint>('SELECT * FROM checkpoints WHERE name = ?', [name]);
+    return row || null;
+  }
+  
+  /**
+   * Persist the last processed log position of an indexer
+   */
+  async saveCheckpoint(name: string, blockNumber: number, logIndex: number): Promise<void> {
+    await this.client.run(upsert('checkpoints', ['name'], ['blockNumber', 'logIndex', 'updatedAt']), [
+      name,
+      blockNumber,
+      logIndex,
+      Date.now(),
+    ]);
+  }
+  
+  /**
+   * Record the hash of an indexed block
+   */
+  async saveIndexedBlock(name: string, blockNumber: number, blockHash: string): Promise<void> {
+    await this.client.run(upsert('indexed_blocks', ['name', 'blockNumber'], ['blockHash']), [
+      name,
+      blockNumber,
+      blockHash,
+    ]);
+  }
+  
+  /**
+   * Get tracked block hashes of an indexer, newest first
+   */
+  async getIndexedBlocks(name: string): Promise<IndexedBlock[]> {
+    return this.client.query<IndexedBlock>(
+      'SELECT * FROM indexed_blocks WHERE name = ? ORDER BY blockNumber DESC',
+      [name]
+    );
+  }
+  
+  /**
+   * Forget tracked block hashes from a block onwards (after a reorg)
+   */
+  async deleteIndexedBlocksFrom(name: string, fromBlock: number): Promise<void> {
+    await this.client.run('DELETE FROM indexed_blocks WHERE name = ? AND blockNumber >= ?', [name, fromBlock]);
+  }
+  
+  /**
+   * Stop tracking block hashes that are below the confirmation depth
+   */
+  async pruneIndexedBlocks(name: string, belowBlock: number): Promise<void> {
+    await this.client.run('DELETE FROM indexed_blocks WHERE name = ? AND blockNumber < ?', [name, belowBlock]);
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                            REORG ROLLBACK
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Undo everything derived from an auction's blocks at or above a fork point
+   * Settlements mined in those blocks go back to pending so they are re-checked and re-submitted
+   */
+  async rollbackFromBlock(auction: string, fromBlock: number): Promise<RollbackSummary> {
+    const key = auction.toLowerCase();
+    const block = fromBlock;
+    
+    return this.client.transaction(async tx => {
+      const unsettledBatches = (await tx.query(
+        'SELECT batchId FROM batches WHERE auction = ? AND settledBlock >= ?',
+        [key, block]
+      )).map(row => row.batchId as number);
+      
+      const orders = await tx.run('DELETE FROM orders WHERE auction = ? AND revealBlock >= ?', [key, block]);
+      
+      await tx.run(`
+        UPDATE orders SET executed = 0
+        WHERE auction = ? AND batchId IN (SELECT batchId FROM batches WHERE auction = ? AND settledBlock >= ?)
+      `, [key, key, block]);
+      
+      await tx.run(`
+        UPDATE commitments
+        SET executed = 0, filledAmount = NULL, receivedAmount = NULL, executionTxHash = NULL, executionBlock = NULL
+        WHERE auction = ? AND executionBlock >= ?
+      `, [key, block]);
+      
+      await tx.run(`
+        UPDATE commitments
+        SET revealed = 0, orderHash = NULL, revealTxHash = NULL, revealBlock = NULL, revealError = NULL
+        WHERE auction = ? AND revealBlock >= ?
+      `, [key, block]);
+      
+      const commitments = await tx.run('DELETE FROM commitments WHERE auction = ? AND blockNumber >= ?', [key, block]);
+      
+      // Reports compared against a reorged settlement are compared again once it is re-mined
+      await tx.run(`
+        UPDATE settlement_reports
+        SET onChainTxHash = NULL, onChainClearingPrice = NULL, onChainTotalVolume = NULL,
+          onChainOrdersRoot = NULL, onChainFills = NULL, mismatches = NULL, comparedAt = NULL
+        WHERE auction = ? AND batchId IN (SELECT batchId FROM batches WHERE auction = ? AND settledBlock >= ?)
+      `, [key, key, block]);
+      
+      await tx.run(`
+        DELETE FROM order_proofs
+        WHERE auction = ? AND batchId IN (SELECT batchId FROM batches WHERE auction = ? AND settledBlock >= ?)
+      `, [key, key, block]);
+      
+      const fills = await tx.run('DELETE FROM fills WHERE auction = ? AND blockNumber >= ?', [key, block]);
+      
+      await tx.run(`
+        UPDATE batches
+        SET settled = 0, txHash = NULL, clearingPrice = NULL, ordersRoot = NULL,
+          settledAt = NULL, settledBlock = NULL, fillMismatches = NULL, fillsReconciledAt = NULL
+        WHERE auction = ? AND settledBlock >= ?
+      `, [key, block]);
+      
+      const batches = await tx.run('DELETE FROM batches WHERE auction = ? AND startBlock >= ?', [key, block]);
+      
+      const settlements = await tx.run(`
+        UPDATE settlements
+        SET status = 'pending', gasUsed = NULL, blockNumber = NULL, blockHash = NULL, confirmedAt = NULL
+        WHERE auction = ? AND blockNumber >= ?
+      `, [key, block]);
+      
+      return { orders, commitments, batches, unsettledBatches, settlements, fills };
+    });
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                            LEASE OPERATIONS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Take a lease, or extend it if the owner already holds it
+   * @returns False if another owner holds a lease that has not expired
+   */
+  async acquireLease(name: string, owner: string, ttlMs: number, now: number = Date.now()): Promise<boolean> {
+    const changes = await this.client.run(`
+      INSERT INTO leases (name, owner, acquiredAt, expiresAt) VALUES (?, ?, ?, ?)
+      ON CONFLICT (name) DO UPDATE SET
+        acquiredAt = CASE WHEN leases.owner = excluded.owner THEN leases.acquiredAt ELSE excluded.acquiredAt END,
+        owner = excluded.owner,
+        expiresAt = excluded.expiresAt
+      WHERE leases.owner = excluded.owner OR leases.expiresAt <= ?
+    `, [name, owner, now, now + ttlMs, now]);
+    
+    return changes > 0;
+  }
+  
+  /**
+   * Give up a lease; a no-op unless the owner holds it
+   */
+  async releaseLease(name: string, owner: string): Promise<void> {
+    await this.client.run('DELETE FROM leases WHERE name = ? AND owner = ?', [name, owner]);
+  }
+  
+  /**
+   * Current holder of a lease, if it has not expired
+   */
+  async getLease(name: string, now: number = Date.now()): Promise<LeaseRecord | null> {
+    const [row] = await this.client.query<LeaseRecord>('SELECT * FROM leases WHERE name = ? AND expiresAt > ?', [name, now]);
+    return row || null;
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                              METRICS
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Settlement, order and batch counts of every auction with recorded state
+   */
+  async getAuctionStats(): Promise<AuctionStats[]> {
+    const auctionRows = await this.client.query('SELECT address FROM auctions ORDER BY createdBlock ASC');
+    const settlements = await this.client.query(
+      'SELECT auction, status, COUNT(*) as count FROM settlements GROUP BY auction, status'
+    );
+    const orderStats = await this.client.query(
+      'SELECT auction, COUNT(*) as total, SUM(executed) as executed FROM orders GROUP BY auction'
+    );
+    const batchStats = await this.client.query(
+      'SELECT auction, COUNT(*) as total, SUM(settled) as settled FROM batches GROUP BY auction'
+    );
+    
+    const addresses = new Set<string>([
+      ...auctionRows.map(r => r.address),
+      ...settlements.map(r => r.auction),
+      ...orderStats.map(r => r.auction),
+      ...batchStats.map(r => r.auction),
+    ]);
+    
+    return [...addresses].map(auction => {
+      const statusCount = (status: string) =>
+        settlements.find(s => s.auction === auction && s.status === status)?.count || 0;
+      const orders = orderStats.find(o => o.auction === auction);
+      const batches = batchStats.find(b => b.auction === auction);
+      
+      return {
+        auction,
+        totalSettlements: settlements.filter(s => s.auction === auction).reduce((sum, s) => sum + s.count, 0),
+        successfulSettlements: statusCount('confirmed'),
+        failedSettlements: statusCount('failed'),
+        pendingSettlements: statusCount('pending'),
+        totalOrders: orders?.total || 0,
+        executedOrders: orders?.executed || 0,
+        totalBatches: batches?.total || 0,
+        settledBatches: batches?.settled || 0,
+      };
+    });
+  }
+  
+  /**
+   * Average confirmation time and gas of confirmed settlements
+   */
+  async getSettlementAverages(): Promise<SettlementAverages> {
+    const [row] = await this.client.query(`
+      SELECT AVG(confirmedAt - createdAt) as settlementTimeMs, AVG(gasUsed) as gasUsed
+      FROM settlements
+      WHERE status = 'confirmed' AND confirmedAt IS NOT NULL
+    `);
+    
+    return { settlementTimeMs: row?.settlementTimeMs || 0, gasUsed: row?.gasUsed || 0 };
+  }
+  
+  /*//////////////////////////////////////////////////////////////
+                            CLEANUP
+  //////////////////////////////////////////////////////////////*/
+  
+  /**
+   * Delete old settled batches and their orders
+   * @returns Number of deleted rows per table
+   */
+  async cleanup(olderThanDays: number = 30): Promise<CleanupSummary> {
+    const cutoffTime = Date.now() - (olderThanDays * 24 * 60 * 60 * 1000);
+    
+    return {
+      orders: await this.client.run('DELETE FROM orders WHERE createdAt < ? AND executed = 1', [cutoffTime]),
+      proofs: await this.client.run('DELETE FROM order_proofs WHERE createdAt < ?', [cutoffTime]),
+      batches: await this.client.run('DELETE FROM batches WHERE settledAt < ? AND settled = 1', [cutoffTime]),
+      settlements: await this.client.run('DELETE FROM settlements WHERE confirmedAt < ?', [cutoffTime]),
+      commitments: await this.client.run('DELETE FROM commitments WHERE createdAt < ?', [cutoffTime]),
+      fills: await this.client.run('DELETE FROM fills WHERE createdAt < ?', [cutoffTime]),
+      alerts: await this.client.run(`DELETE FROM alerts WHERE status = 'resolved' AND resolvedAt < ?`, [cutoffTime]),
+    };
+  }
+  
+  /**
+   * Run a filtered query one page at a time
+   * @param from FROM and WHERE clauses shared by the count and the page query
+   */
+  private async paginate<T>(
+    from: string,
+    params: unknown[],
+    orderBy: string,
+    page: Page,
+    map: (row: any) => T
+  ): Promise<PageResult<T>> {
+    const [{ total }] = await this.client.query<{ total: number }>(`SELECT COUNT(*) as total ${from}`, params);
+    const rows = await this.client.query(`SELECT * ${from} ORDER BY ${orderBy} LIMIT ? OFFSET ?`, [
+      ...params,
+      page.limit,
+      page.offset,
+    ]);
+    
+    return { items: rows.map(map), total, limit: page.limit, offset: page.offset };
+  }
+  
+  /**
+   * Make sure the database accepts writes; the probe write is rolled back
+   * @throws The error that made the probe write fail
+   */
+  async checkWritable(): Promise<void> {
+    try {
+      await this.client.transaction(async tx => {
+        await tx.run(upsert('checkpoints', ['name'], ['blockNumber', 'logIndex', 'updatedAt']), [
+          'writable_check',
+          0,
+          0,
+          Date.now(),
+        ]);
+        
+        throw PROBE_ROLLBACK;
+      });
+    } catch (error) {
+      if (error !== PROBE_ROLLBACK) {
+        throw error;
+      }
+    }
+  }
+  
+  /**
+   * Close database connection
+   */
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
+
+// Thrown to roll back the writability probe
+const PROBE_ROLLBACK = new Error('Rollback probe write');
+
+// Commitments joined with their batch to derive the lifecycle stage
+const COMMITMENT_SELECT = `
+  SELECT c.*,
+    CASE
+      WHEN c.executed = 1 THEN 'executed'
+      WHEN c.revealed = 0 AND b.settled = 1 THEN 'unrevealed'
+      WHEN c.revealed = 0 THEN 'committed'
+      WHEN c.orderHash IS NULL THEN 'undecodable'
+      WHEN b.settled = 1 THEN 'unexecuted'
+      ELSE 'revealed'
+    END as stage
+  FROM commitments c
+  LEFT JOIN batches b ON b.auction = c.auction AND b.batchId = c.batchId
+`;
+
+function toOrder(row: any): Order {
+  return {
+    ...row,
+    revealed: row.revealed === 1,
+    executed: row.executed === 1,
+  };
+}
+
+function toCommitment(row: any): Commitment {
+  return {
+    ...row,
+    revealed: row.revealed === 1,
+    executed: row.executed === 1,
+  };
+}
+
+function toBatch(row: any): Batch {
+  return {
+    ...row,
+    settled: row.settled === 1,
+    skipped: row.skipped === 1,
+    fillMismatches: row.fillMismatches ? JSON.parse(row.fillMismatches) : null,
+  };
+}
+
+function toSettlementReport(row: any): SettlementReport {
+  return {
+    ...row,
+    success: row.success === 1,
+    fills: JSON.parse(row.fills),
+    onChainFills: row.onChainFills ? JSON.parse(row.onChainFills) : undefined,
+    mismatches: row.mismatches ? JSON.parse(row.mismatches) : undefined,
+  };
+}
+
+function toOrderProof(row: any): OrderProof {
+  return {
+    ...row,
+    proof: JSON.parse(row.proof),
+  };
+}
+
+function toAlertRecord(row: any): AlertRecord {
+  return {
+    ...row,
+    details: row.details ? JSON.parse(row.details) : undefined,
+    lastNotifiedAt: row.lastNotifiedAt ?? undefined,
+    resolvedAt: row.resolvedAt ?? undefined,
+  };
+}
+
+function toFlag(value: boolean | undefined): number | undefined {
+  return value === undefined ? undefined : value ? 1 : 0;
+}
+
+/**
+ * INSERT that overwrites every other column when a row with the same key exists
+ */
+function upsert(table: string, key: string[], columns: string[]): string {
+  const all = [...key, ...columns];
+  
+  return `
+    INSERT INTO ${table} (${all.join(', ')}) VALUES (${all.map(() => '?').join(', ')})
+    ON CONFLICT (${key.join(', ')}) DO UPDATE SET ${columns.map(column => `${column} = excluded.${column}`).join(', ')}
+  `;
+}
+
+/**
+ * WHERE clause matching every defined value, keyed by column expression
+ */
+function whereClause(conditions: Record<string, unknown>): { sql: string; params: unknown[] } {
+  const defined = Object.entries(conditions).filter(([, value]) => value !== undefined);
+  
+  return {
+    sql: defined.length > 0 ? `WHERE ${defined.map(([column]) => `${column} = ?`).join(' AND ')}` : '',
+    params: defined.map(([, value]) => value),
+  };
+}
@@ -0,0 +1,199 @@
+import { ethers, Contract } from 'ethers';
+import { logger as rootLogger } from './logger';
+import { config } from './config';
+import { db, Batch, SettlementComparison, SettlementReport } from './db';
+import { SettlementService } from './settlement';
+import { BatchMonitor } from './monitor';
+
+// Minimal ABI for reading what a settlement did on chain
+const BATCH_AUCTION_ABI = [
+  'function batches(uint256 batchId) external view returns (uint256 startBlock, uint256 endBlock, bytes32 ordersRoot, uint256 clearingPrice, uint256 totalVolume, uint256 buyVolume, uint256 sellVolume, bool settled)',
+  'event BatchSettled(uint256 indexed batchId, uint256 clearingPrice, uint256 totalVolume)',
+  'event OrderExecuted(bytes32 indexed orderHash, address indexed trader, uint128 filledAmount, uint128 receivedAmount, uint256 clearingPrice)',
+];
+
+/**
+ * Shadow settlement for a single auction
+ *
+ * Every batch gets a settlement report from a simulated `settleBatchWithProof` call instead of
+ * a transaction. Once the batch is settled on chain by another relayer, the report is compared
+ * with the `BatchSettled` and `OrderExecuted` logs of that settlement.
+ */
+export class DryRunService {
+  private provider: ethers.JsonRpcProvider;
+  private auctionAddress: string;
+  private logger: typeof rootLogger;
+  private auction: Contract;
+  private settlement: SettlementService;
+  private monitor: BatchMonitor;
+  private from: string;
+
+  constructor(
+    provider: ethers.JsonRpcProvider,
+    auctionAddress: string,
+    settlement: SettlementService,
+    monitor: BatchMonitor,
+    from: string
+  ) {
+    this.provider = provider;
+    this.auctionAddress = auctionAddress.toLowerCase();
+    this.logger = rootLogger.child({ auction: this.auctionAddress, dryRun: true });
+    this.auction = new Contract(auctionAddress, BATCH_AUCTION_ABI, provider);
+    this.settlement = settlement;
+    this.monitor = monitor;
+    this.from = from;
+  }
+
+  /**
+   * Simulate batches that are ready and compare reports with settlements that have landed
+   */
+  async run(): Promise<void> {
+    for (const batch of await db.getUnreportedBatches(this.auctionAddress)) {
+      const blockTag = await this.getSimulationBlock(batch);
+
+      if (blockTag === null) {
+        continue;
+      }
+
+      const report = await this.settlement.simulateSettlement(batch.batchId, blockTag, this.from);
+      await db.saveSettlementReport(report);
+
+      this.logger.info({
+        batchId: report.batchId,
+        blockTag: report.blockTag,
+        success: report.success,
+        clearingPrice: report.clearingPrice,
+        totalVolume: report.totalVolume,
+        ordersRoot: report.ordersRoot,
+        orderCount: report.orderCount,
+        gasEstimate: report.gasEstimate,
+        revert: report.revert,
+      }, 'Settlement simulated');
+    }
+
+    for (const report of await db.getUncomparedReports(this.auctionAddress)) {
+      try {
+        await this.compare(report);
+      } catch (error) {
+        this.logger.error({ batchId: report.batchId, error }, 'Failed to compare settlement report, will retry');
+      }
+    }
+  }
+
+  /**
+   * Block to simulate a batch's settlement at, or null if it cannot be simulated yet
+   */
+  private async getSimulationBlock(batch: Batch): Promise<ethers.BlockTag | null> {
+    if (config.dryRunBlock !== undefined) {
+      return config.dryRunBlock;
+    }
+
+    // Already settled on chain: simulate against the state just before the settlement
+    if (batch.settled) {
+      return batch.settledBlock ? batch.settledBlock - 1 : null;
+    }
+
+    return (await this.monitor.isReadyForSettlement(batch.batchId)) ? 'latest' : null;
+  }
+
+  /**
+   * Compare a report with the settlement that landed on chain
+   */
+  private async compare(report: SettlementReport): Promise<void> {
+    const batch = (await db.getBatch(this.auctionAddress, report.batchId))!;
+    const receipt = await this.provider.getTransactionReceipt(batch.txHash!);
+
+    if (!receipt) {
+      return;
+    }
+
+    let settled: ethers.LogDescription | null = null;
+    const onChainFills: Record<string, string> = {};
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.auctionAddress) {
+        continue;
+      }
+
+      const parsed = this.auction.interface.parseLog(log);
+
+      if (parsed?.name === 'BatchSettled' && Number(parsed.args.batchId) === report.batchId) {
+        settled = parsed;
+      } else if (parsed?.name === 'OrderExecuted') {
+        onChainFills[parsed.args.orderHash] = parsed.args.filledAmount.toString();
+      }
+    }
+
+    if (!settled) {
+      this.logger.warn({ batchId: report.batchId, txHash: receipt.hash }, 'Settlement transaction has no BatchSettled log');
+      return;
+    }
+
+    const onChain = await this.auction.batches(report.batchId, { blockTag: receipt.blockNumber });
+    const comparison = compareSettlement(report, {
+      txHash: receipt.hash,
+      clearingPrice: settled.args.clearingPrice.toString(),
+      totalVolume: settled.args.totalVolume.toString(),
+      ordersRoot: onChain.ordersRoot as string,
+      fills: onChainFills,
+    });
+
+    await db.saveReportComparison(this.auctionAddress, report.batchId, comparison);
+
+    const summary = {
+      batchId: report.batchId,
+      txHash: receipt.hash,
+      mismatches: comparison.mismatches,
+    };
+
+    if (comparison.mismatches.length > 0) {
+      this.logger.warn(summary, 'Simulated settlement differs from on-chain settlement');
+    } else {
+      this.logger.info(summary, 'Simulated settlement matches on-chain settlement');
+    }
+  }
+}
+
+/**
+ * What a settlement did on chain, from its logs and the batch it settled
+ */
+export interface OnChainSettlement {
+  txHash: string;
+  clearingPrice: string;
+  totalVolume: string;
+  ordersRoot: string;
+  // Filled amount per executed order hash
+  fills: Record<string, string>;
+}
+
+/**
+ * Compare a simulated settlement with the one that landed on chain
+ * @returns The on-chain values with one mismatch per field or order fill that differs
+ */
+export function compareSettlement(report: SettlementReport, onChain: OnChainSettlement): SettlementComparison {
+  const comparison: SettlementComparison = {
+    onChainTxHash: onChain.txHash,
+    onChainClearingPrice: onChain.clearingPrice,
+    onChainTotalVolume: onChain.totalVolume,
+    onChainOrdersRoot: onChain.ordersRoot,
+    onChainFills: onChain.fills,
+    mismatches: [],
+  };
+
+  const check = (field: string, expected: string | undefined, actual: string) => {
+    if ((expected ?? '') !== actual) {
+      comparison.mismatches.push(`${field}: simulated ${expected ?? 'none'}, on chain ${actual}`);
+    }
+  };
+
+  check('clearingPrice', report.clearingPrice, onChain.clearingPrice);
+  check('totalVolume', report.totalVolume, onChain.totalVolume);
+  check('ordersRoot', report.ordersRoot, onChain.ordersRoot);
+
+  // Orders that do not execute on one side show up as a fill of 0
+  for (const orderHash of new Set([...Object.keys(report.fills), ...Object.keys(onChain.fills)])) {
+    check(`fill ${orderHash}`, report.fills[orderHash] ?? '0', onChain.fills[orderHash] ?? '0');
+  }
+
+  return comparison;
+}
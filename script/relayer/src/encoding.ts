@@ -0,0 +1,39 @@
+import { AbiCoder, keccak256 } from 'ethers';
+
+/**
+ * ABI type of IBatchAuction.Order
+ */
+export const ORDER_TUPLE = 'tuple(uint64 nonce, uint64 expiry, uint128 amount, uint128 limitPrice, uint8 side)';
+
+export interface OrderStruct {
+  nonce: bigint;
+  expiry: bigint;
+  amount: bigint;
+  limitPrice: bigint;
+  side: number;
+}
+
+const coder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Computes the commitment for an order, matching CompactEncoding.hashOrder
+ * @param order Order details
+ * @param salt Salt used when committing
+ * @returns keccak256(abi.encode(order, salt))
+ */
+export function hashCommitment(order: OrderStruct, salt: string): string {
+  return keccak256(coder.encode([ORDER_TUPLE, 'bytes32'], [toTuple(order), salt]));
+}
+
+/**
+ * Computes the order hash used by BatchAuction for execution tracking and merkle leaves
+ * @param order Order details
+ * @returns keccak256(abi.encode(order))
+ */
+export function hashOrder(order: OrderStruct): string {
+  return keccak256(coder.encode([ORDER_TUPLE], [toTuple(order)]));
+}
+
+function toTuple(order: OrderStruct): [bigint, bigint, bigint, bigint, number] {
+  return [order.nonce, order.expiry, order.amount, order.limitPrice, order.side];
+}
@@ -0,0 +1,83 @@
+import { Contract, ethers } from 'ethers';
+import { logger } from './logger';
+import { db, Auction } from './db';
+import { EventIndexer, IndexedEvent } from './indexer';
+
+// Minimal ABI for auction discovery
+const FACTORY_ABI = [
+  'event AuctionCreated(address indexed token0, address indexed token1, address auction)',
+];
+
+export type AuctionHandler = (auction: Auction) => Promise<void>;
+
+/**
+ * Discovers BatchAuctions from Factory.AuctionCreated events
+ */
+export class AuctionDiscovery {
+  private factory: Contract;
+  private indexer: EventIndexer;
+  private handlers: AuctionHandler[] = [];
+  private isRunning: boolean = false;
+
+  constructor(provider: ethers.JsonRpcProvider, factoryAddress: string, indexer: EventIndexer) {
+    this.factory = new Contract(factoryAddress, FACTORY_ABI, provider);
+    this.indexer = indexer;
+  }
+
+  /**
+   * Register a handler called for every newly discovered auction
+   */
+  onAuction(handler: AuctionHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Register the AuctionCreated handler with the factory indexer
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Auction discovery already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.indexer.on(this.factory.interface.getEvent('AuctionCreated')!, this.handleAuctionCreated.bind(this));
+
+    logger.info({ factory: await this.factory.getAddress() }, 'Auction discovery started');
+  }
+
+  /**
+   * Stop handling discovered auctions
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+  }
+
+  /**
+   * Handle auction created event
+   */
+  private async handleAuctionCreated({ args, log }: IndexedEvent): Promise<void> {
+    const [token0, token1, address] = args;
+
+    const auction: Auction = {
+      address: address.toLowerCase(),
+      token0,
+      token1,
+      createdBlock: log.blockNumber,
+      txHash: log.transactionHash,
+      createdAt: Date.now(),
+    };
+
+    logger.info({ auction: auction.address, token0, token1, blockNumber: log.blockNumber }, 'Auction discovered');
+
+    await db.insertAuction(auction);
+
+    if (!this.isRunning) {
+      return;
+    }
+
+    for (const handler of this.handlers) {
+      await handler(auction);
+    }
+  }
+}
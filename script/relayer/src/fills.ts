@@ -0,0 +1,92 @@
+/**
+ * Reconciliation of on-chain fills with a settlement
+ *
+ * `settleBatchWithProof` executes every order that crosses the clearing price in full and emits
+ * `OrderExecuted` for it. The fills the relayer expects are derived the same way from the orders
+ * it settled the batch with, so any difference means the chain did not do what was sent.
+ */
+
+const PRICE_SCALE = 10n ** 18n;
+const BPS = 10000n;
+
+/**
+ * How an on-chain fill differs from the settlement
+ * - `missing`: the order should have executed but has no `OrderExecuted` log
+ * - `unexpected`: an `OrderExecuted` log for an order that should not have executed
+ * - `amount_mismatch`: filled or received amount differs from the expected one
+ */
+export type FillMismatchKind = 'missing' | 'unexpected' | 'amount_mismatch';
+
+export interface FillAmounts {
+  orderHash: string;
+  filledAmount: string | bigint;
+  receivedAmount: string | bigint;
+}
+
+export interface FillMismatch {
+  orderHash: string;
+  kind: FillMismatchKind;
+  expected: { filledAmount: string; receivedAmount: string } | null;
+  actual: { filledAmount: string; receivedAmount: string } | null;
+}
+
+export interface SettledOrder {
+  orderHash: string;
+  amount: string | bigint;
+  limitPrice: string | bigint;
+  side: number;
+}
+
+/**
+ * Fill the contract produces for an order at a clearing price, or null if the order does not cross it
+ * Buy orders receive the quote amount less the fee; sell orders receive the full quote amount and pay
+ * their fee in TOKEN0.
+ */
+export function expectedFill(order: SettledOrder, clearingPrice: bigint, feeBps: number): FillAmounts | null {
+  const amount = BigInt(order.amount);
+  const limitPrice = BigInt(order.limitPrice);
+  const crosses = order.side === 0 ? limitPrice >= clearingPrice : limitPrice <= clearingPrice;
+
+  if (!crosses) {
+    return null;
+  }
+
+  const quoteAmount = (amount * clearingPrice) / PRICE_SCALE;
+  const receivedAmount = order.side === 0 ? quoteAmount - (quoteAmount * BigInt(feeBps)) / BPS : quoteAmount;
+
+  return { orderHash: order.orderHash, filledAmount: amount, receivedAmount };
+}
+
+/**
+ * Compare expected fills with the ones indexed on chain, by order hash
+ * @returns One mismatch per order that differs, expected orders first
+ */
+export function reconcileFills(expected: FillAmounts[], actual: FillAmounts[]): FillMismatch[] {
+  const mismatches: FillMismatch[] = [];
+  const onChain = new Map(actual.map(fill => [fill.orderHash.toLowerCase(), fill]));
+
+  for (const fill of expected) {
+    const orderHash = fill.orderHash.toLowerCase();
+    const match = onChain.get(orderHash);
+    onChain.delete(orderHash);
+
+    if (!match) {
+      mismatches.push({ orderHash, kind: 'missing', expected: amounts(fill), actual: null });
+    } else if (
+      BigInt(match.filledAmount) !== BigInt(fill.filledAmount) ||
+      BigInt(match.receivedAmount) !== BigInt(fill.receivedAmount)
+    ) {
+      mismatches.push({ orderHash, kind: 'amount_mismatch', expected: amounts(fill), actual: amounts(match) });
+    }
+  }
+
+  for (const [orderHash, fill] of onChain) {
+    mismatches.push({ orderHash, kind: 'unexpected', expected: null, actual: amounts(fill) });
+  }
+
+  return mismatches;
+}
+
+function amounts(fill: FillAmounts): { filledAmount: string; receivedAmount: string } {
+  return { filledAmount: fill.filledAmount.toString(), receivedAmount: fill.receivedAmount.toString() };
+}
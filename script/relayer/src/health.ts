@@ -0,0 +1,114 @@
+import http from 'http';
+import express, { Request, Response } from 'express';
+import { logger } from './logger';
+
+export interface ComponentStatus {
+  ok: boolean;
+  message?: string;
+  [detail: string]: unknown;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  components: Record<string, ComponentStatus>;
+}
+
+export type ReadinessCheck = () => Promise<ComponentStatus>;
+
+/**
+ * Liveness and readiness probes, served on their own port
+ *
+ * `/livez` only tells whether the process is responsive. `/readyz` runs every registered
+ * component check and answers 503 unless all of them pass, i.e. unless the relayer is able
+ * to settle right now.
+ */
+export class HealthServer {
+  private app: express.Application;
+  private server?: http.Server;
+  private checks: Map<string, ReadinessCheck> = new Map();
+  private startTime: number;
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    this.app = express();
+    this.startTime = Date.now();
+    this.timeoutMs = timeoutMs;
+
+    this.app.get('/livez', this.handleLiveness.bind(this));
+    this.app.get('/readyz', this.handleReadiness.bind(this));
+  }
+
+  /**
+   * Register a component check run on every `/readyz` request
+   */
+  register(name: string, check: ReadinessCheck): void {
+    this.checks.set(name, check);
+  }
+
+  /**
+   * Run every component check concurrently
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    const entries = await Promise.all([...this.checks].map(async ([name, check]) => {
+      try {
+        return [name, await withTimeout(check(), this.timeoutMs)] as const;
+      } catch (error: any) {
+        return [name, { ok: false, message: error?.shortMessage || error?.message || String(error) }] as const;
+      }
+    }));
+
+    const components = Object.fromEntries(entries);
+
+    return {
+      ready: entries.length > 0 && entries.every(([, status]) => status.ok),
+      components,
+    };
+  }
+
+  /**
+   * Start listening
+   */
+  async start(port: number): Promise<void> {
+    await new Promise<void>(resolve => {
+      this.server = this.app.listen(port, () => resolve());
+    });
+
+    logger.info({ port }, 'Health server started');
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  private handleLiveness(req: Request, res: Response): void {
+    res.json({ status: 'ok', uptime: Date.now() - this.startTime });
+  }
+
+  private async handleReadiness(req: Request, res: Response): Promise<void> {
+    const report = await this.checkReadiness();
+
+    if (!report.ready) {
+      logger.debug({ components: report.components }, 'Readiness check failed');
+    }
+
+    res.status(report.ready ? 200 : 503).json({ status: report.ready ? 'ready' : 'not ready', ...report });
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Check timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
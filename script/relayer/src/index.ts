@@ -1,23 +1,43 @@
-import { ethers, Wallet } from 'ethers';
+import { ethers } from 'ethers';
 import { logger } from './logger';
-import { config } from './config';
-import { db } from './db';
-import { OrderAggregator } from './aggregator';
-import { SettlementService } from './settlement';
-import { BatchMonitor, BatchState } from './monitor';
+import { config, redactConfig } from './config';
+import { db, initializeDatabase, Auction } from './db';
+import { AuctionDiscovery } from './factory';
+import { AuctionPipeline } from './pipeline';
+import { EventIndexer } from './indexer';
 import { metrics } from './metrics';
+import { FailoverProvider } from './provider';
+import { TransactionManager } from './txmanager';
+import { RelayerSigner } from './signer';
+import { connectRelayer } from './runtime';
+import { AdminController, AdminError, createAdminRouter } from './admin';
+import { SettlementPreview } from './settlement';
+import { AuctionParameters } from './parameters';
+import { HealthServer, ReadinessReport } from './health';
+import { alerts } from './alerts';
+import { ApiServer } from './api';
+import { Lease, leaseOwner, RELAYER_LEASE, SETTLEMENT_LEASE } from './lease';
+import { sleep } from './retry';
 
 /**
  * Main Relayer Service
  */
-class RelayerService {
-  private provider!: ethers.JsonRpcProvider;
-  private wallet!: Wallet;
-  private aggregator!: OrderAggregator;
-  private settlement!: SettlementService;
-  private monitor!: BatchMonitor;
+class RelayerService implements AdminController {
+  private provider!: FailoverProvider;
+  private signer!: RelayerSigner;
+  private address!: string;
+  private txManager!: TransactionManager;
+  private factoryIndexer!: EventIndexer;
+  private discovery!: AuctionDiscovery;
+  private pipelines: Map<string, AuctionPipeline> = new Map();
   private isRunning: boolean = false;
+  private isSettling: boolean = false;
+  private paused: boolean = false;
+  private rpcDownSince?: number;
   private settlementInterval?: NodeJS.Timeout;
+  private api?: ApiServer;
+  private relayerLease = new Lease(RELAYER_LEASE, leaseOwner('relayer'));
+  private settlementLease = new Lease(SETTLEMENT_LEASE, leaseOwner('relayer'));
   
   /**
    * Initialize the relayer service
@@ -25,34 +45,39 @@ class RelayerService {
   async initialize(): Promise<void> {
     logger.info('Initializing relayer service');
     
-    // Setup provider
-    this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    // Migrate the schema before any component reads state
+    await initializeDatabase();
     
-    // Setup wallet
-    this.wallet = new Wallet(config.relayerPrivateKey, this.provider);
-    logger.info({ address: this.wallet.address }, 'Relayer wallet initialized');
+    // One relayer per database; a second one waits as a standby
+    await this.acquireRelayerLease();
     
-    // Verify network
-    const network = await this.provider.getNetwork();
-    logger.info({
-      chainId: Number(network.chainId),
-      expectedChainId: config.chainId,
-    }, 'Connected to network');
+    // Provider, signer and transaction manager, checked against the configuration
+    const connection = await connectRelayer();
+    this.provider = connection.provider;
+    this.signer = connection.signer;
+    this.address = connection.address;
+    this.txManager = connection.txManager;
+    metrics.setProvider(this.provider);
     
-    if (Number(network.chainId) !== config.chainId) {
-      throw new Error(`Chain ID mismatch: expected ${config.chainId}, got ${network.chainId}`);
-    }
-    
-    // Get batch auction address from factory
-    const auctionAddress = await this.getBatchAuctionAddress();
-    logger.info({ auctionAddress }, 'Batch auction address loaded');
+    // Auctions are discovered from the factory's AuctionCreated events
+    this.factoryIndexer = new EventIndexer(
+      this.provider,
+      `factory:${config.factoryAddress.toLowerCase()}`,
+      config.factoryAddress,
+      { startBlock: config.factoryStartBlock }
+    );
+    this.discovery = new AuctionDiscovery(this.provider, config.factoryAddress, this.factoryIndexer);
     
-    // Initialize components
-    this.aggregator = new OrderAggregator(this.provider, auctionAddress);
-    this.settlement = new SettlementService(this.provider, this.wallet, auctionAddress, this.aggregator);
-    this.monitor = new BatchMonitor(this.provider, auctionAddress);
+    // Stop pipelines of auctions whose creation was reorged out
+    this.factoryIndexer.onReorg(async (forkBlock) => {
+      for (const address of await db.deleteAuctionsFrom(forkBlock)) {
+        logger.warn({ auction: address, forkBlock }, 'Auction creation reorged out');
+        await this.pipelines.get(address)?.stop();
+        this.pipelines.delete(address);
+      }
+    });
     
-    logger.info('Relayer service initialized');
+    logger.info({ factoryAddress: config.factoryAddress }, 'Relayer service initialized');
   }
   
   /**
@@ -67,19 +92,35 @@ class RelayerService {
     this.isRunning = true;
     logger.info('Starting relayer service');
     
+    // Admin routes share the metrics server
+    if (config.adminApiToken) {
+      metrics.mountAdmin(createAdminRouter(this, config.adminApiToken));
+      logger.info('Admin API enabled');
+    }
+    
     // Start metrics server
     await metrics.start();
     
-    // Start order aggregator
-    await this.aggregator.start();
+    // Proof and execution lookups for traders
+    if (config.enableApi) {
+      this.api = new ApiServer(this.provider);
+      await this.api.start(config.apiPort);
+    }
+    
+    // New auctions get a pipeline as soon as they are indexed
+    this.discovery.onAuction(auction => this.addAuction(auction));
+    await this.discovery.start();
     
-    // Start batch monitor
-    await this.monitor.start();
+    // Backfill AuctionCreated events, then tail new blocks
+    await this.factoryIndexer.start();
+    
+    // Auctions discovered by earlier runs are behind the factory checkpoint
+    await this.startMissingPipelines();
     
     // Start settlement loop
     this.startSettlementLoop();
     
-    logger.info('Relayer service started successfully');
+    logger.info({ auctions: this.pipelines.size }, 'Relayer service started successfully');
   }
   
   /**
@@ -100,15 +141,61 @@ class RelayerService {
     }
     
     // Stop components
-    await this.aggregator.stop();
-    await this.monitor.stop();
+    await this.api?.stop();
+    await this.factoryIndexer.stop();
+    await this.discovery.stop();
+    
+    for (const pipeline of this.pipelines.values()) {
+      await pipeline.stop();
+    }
+    
+    await this.settlementLease.release();
+    await this.relayerLease.release();
     
-    // Close database
-    db.close();
+    // Close database and RPC connections
+    await db.close();
+    this.provider.destroy();
+    logger.info('Database connection closed');
     
     logger.info('Relayer service stopped');
   }
   
+  /**
+   * Start serving an auction
+   * Failures are logged and retried from the settlement loop
+   */
+  private async addAuction(auction: Auction): Promise<void> {
+    const address = auction.address.toLowerCase();
+    
+    if (!this.isRunning || this.pipelines.has(address)) {
+      return;
+    }
+    
+    // Optionally restrict the relayer to a single auction
+    if (config.batchAuctionAddress && config.batchAuctionAddress.toLowerCase() !== address) {
+      logger.debug({ auction: address }, 'Auction not served, BATCH_AUCTION_ADDRESS is set');
+      return;
+    }
+    
+    const pipeline = new AuctionPipeline(this.provider, this.signer, this.txManager, this.settlementLease, address);
+    
+    try {
+      await pipeline.start();
+      this.pipelines.set(address, pipeline);
+    } catch (error) {
+      logger.error({ auction: address, error }, 'Failed to start auction pipeline, will retry');
+    }
+  }
+  
+  /**
+   * Start pipelines for known auctions that are not served yet
+   */
+  private async startMissingPipelines(): Promise<void> {
+    for (const auction of await db.getAuctions()) {
+      await this.addAuction(auction);
+    }
+  }
+  
   /**
    * Start the settlement loop
    */
@@ -123,81 +210,286 @@ class RelayerService {
   }
   
   /**
-   * Check for batches ready for settlement and settle them
+   * Check every auction for batches ready for settlement and settle them
+   * Auctions are handled one at a time so settlements never race for the relayer nonce
    */
   private async checkAndSettleBatches(): Promise<void> {
+    // Settlements wait for confirmation, which can outlast the poll interval
+    if (this.isSettling) {
+      return;
+    }
+    
+    this.isSettling = true;
+    
     try {
-      // Get unsettled batches from database
-      const unsettledBatches = db.getUnsettledBatches();
+      await this.startMissingPipelines();
       
-      for (const batch of unsettledBatches) {
-        // Check if batch is ready for settlement
-        const isReady = await this.monitor.isReadyForSettlement(batch.batchId);
-        
-        if (isReady) {
-          logger.info({ batchId: batch.batchId }, 'Attempting settlement');
-          
-          // Attempt settlement
-          const txHash = await this.settlement.settleBatch(batch.batchId);
-          
-          if (txHash) {
-            logger.info({ batchId: batch.batchId, txHash }, 'Batch settled successfully');
-          } else {
-            logger.warn({ batchId: batch.batchId }, 'Settlement failed or skipped');
-          }
+      if (this.paused) {
+        return;
+      }
+      
+      // The CLI settles with the same account, so the two never send at the same time
+      if (!await this.settlementLease.acquire()) {
+        logger.info({ holder: (await db.getLease(SETTLEMENT_LEASE))?.owner }, 'Settlement lease held elsewhere, skipping pass');
+        return;
+      }
+      
+      try {
+        for (const pipeline of this.pipelines.values()) {
+          await pipeline.checkAndSettleBatches();
         }
+      } finally {
+        await this.settlementLease.release();
+      }
+    } finally {
+      this.isSettling = false;
+    }
+  }
+  
+  /**
+   * Whether the settlement loop is paused by an operator
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+  
+  /**
+   * Stop settling batches; indexing carries on
+   */
+  pause(): void {
+    this.paused = true;
+  }
+  
+  /**
+   * Resume settling batches
+   */
+  resume(): void {
+    this.paused = false;
+  }
+  
+  /**
+   * Auctions with a running pipeline
+   */
+  getAuctions(): string[] {
+    return [...this.pipelines.keys()];
+  }
+  
+  /**
+   * Cached parameters of an auction, null until its pipeline has loaded them
+   */
+  getAuctionParameters(auction: string): AuctionParameters | null {
+    return this.getPipeline(auction).getParameters();
+  }
+  
+  /**
+   * Clearing data a batch would be settled with right now
+   */
+  async previewSettlement(auction: string, batchId: number): Promise<SettlementPreview | null> {
+    return this.getPipeline(auction).previewSettlement(batchId);
+  }
+  
+  /**
+   * Settle a batch now, even when the loop is paused or the batch is skipped
+   */
+  async settleBatch(auction: string, batchId: number): Promise<string | null> {
+    const pipeline = this.getPipeline(auction);
+    
+    if (config.dryRun) {
+      throw new AdminError(409, 'Relayer runs in dry-run mode');
+    }
+    
+    // Never settle alongside the loop, or both could submit for the same batch
+    if (this.isSettling) {
+      throw new AdminError(409, 'Settlement loop is busy, try again shortly');
+    }
+    
+    this.isSettling = true;
+    
+    try {
+      if (!await this.settlementLease.acquire()) {
+        throw new AdminError(409, 'Settlement lease is held by another process, try again shortly');
       }
       
-    } catch (error) {
-      logger.error({ error }, 'Error in settlement loop');
+      try {
+        return await pipeline.settleBatch(batchId);
+      } finally {
+        await this.settlementLease.release();
+      }
+    } finally {
+      this.isSettling = false;
     }
   }
   
   /**
-   * Get batch auction address from factory
+   * Wait until no other relayer (or a CLI replay) holds the relayer lease, then take it
    */
-  private async getBatchAuctionAddress(): Promise<string> {
-    // If configured directly, use it
-    if (config.batchAuctionAddress) {
-      return config.batchAuctionAddress;
+  private async acquireRelayerLease(): Promise<void> {
+    while (!await this.relayerLease.acquire()) {
+      const holder = await db.getLease(RELAYER_LEASE);
+      logger.warn({ holder: holder?.owner, expiresAt: holder?.expiresAt }, 'Another process holds the relayer lease, waiting');
+      await sleep(config.pollIntervalMs);
+    }
+  }
+  
+  private getPipeline(auction: string): AuctionPipeline {
+    const pipeline = this.pipelines.get(auction.toLowerCase());
+    
+    if (!pipeline) {
+      throw new AdminError(404, `Auction ${auction} is not served by this relayer`);
     }
     
-    // Otherwise, get from factory
-    // For simplicity, we'll require it to be configured
-    // In production, you'd query the factory for auction addresses
-    throw new Error('BATCH_AUCTION_ADDRESS not configured');
+    return pipeline;
   }
   
   /**
-   * Perform health check
+   * Raise or resolve the alerts that follow from a readiness report
    */
-  async healthCheck(): Promise<boolean> {
-    try {
-      // Check RPC connection
+  async checkHealthAlerts(report: ReadinessReport): Promise<void> {
+    const { rpc, chainId, balance } = report.components;
+    
+    if (rpc && !rpc.ok) {
+      this.rpcDownSince ??= Date.now();
+      const minutes = (Date.now() - this.rpcDownSince) / 60000;
+      
+      if (minutes >= config.alertRpcDownMinutes) {
+        await alerts.raise({
+          type: 'rpc_down',
+          severity: 'critical',
+          message: `RPC has been unreachable for ${Math.floor(minutes)} minutes`,
+          details: { since: new Date(this.rpcDownSince).toISOString(), error: rpc.message },
+        });
+      }
+    } else if (rpc) {
+      this.rpcDownSince = undefined;
+      await alerts.resolve('rpc_down');
+    }
+    
+    // Without a response there is nothing to compare
+    if (chainId?.chainId !== undefined) {
+      if (chainId.ok) {
+        await alerts.resolve('chain_id_changed');
+      } else {
+        await alerts.raise({
+          type: 'chain_id_changed',
+          severity: 'critical',
+          message: `RPC reports chain ID ${chainId.chainId}, expected ${config.chainId}`,
+          details: { chainId: chainId.chainId, expected: config.chainId },
+        });
+      }
+    }
+    
+    if (balance?.balance !== undefined) {
+      if (balance.ok) {
+        await alerts.resolve('low_balance');
+      } else {
+        await alerts.raise({
+          type: 'low_balance',
+          severity: 'warning',
+          message: `Relayer balance ${balance.balance} ETH is below ${config.minBalanceEth} ETH`,
+          details: { address: this.address, balance: balance.balance, minimum: config.minBalanceEth },
+        });
+      }
+    }
+  }
+  
+  /**
+   * Register the components `/readyz` reports on
+   */
+  registerHealthChecks(health: HealthServer): void {
+    // Account the settlement call is made from; a shadow relayer simulates from DRY_RUN_FROM
+    const settler = config.dryRun && config.dryRunFrom ? config.dryRunFrom : this.address;
+    
+    health.register('rpc', async () => {
       const blockNumber = await this.provider.getBlockNumber();
-      logger.debug({ blockNumber }, 'Health check: RPC connection OK');
+      const endpoints = this.provider.getHealth();
+      
+      return {
+        ok: true,
+        blockNumber,
+        healthyEndpoints: endpoints.filter(endpoint => endpoint.healthy).length,
+        endpoints: endpoints.length,
+      };
+    });
+    
+    // Asked on every probe, since the network of a long-lived provider is cached
+    health.register('chainId', async () => {
+      const chainId = Number(await this.provider.send('eth_chainId', []));
+      
+      return {
+        ok: chainId === config.chainId,
+        chainId,
+        expected: config.chainId,
+      };
+    });
+    
+    health.register('balance', async () => {
+      const balance = await this.provider.getBalance(this.address);
+      const balanceEth = Number(ethers.formatEther(balance));
+      metrics.walletBalance.set({ address: this.address }, balanceEth);
+      
+      // A shadow relayer never sends transactions, so it needs no ETH
+      return {
+        ok: config.dryRun || balanceEth >= config.minBalanceEth,
+        address: this.address,
+        balance: ethers.formatEther(balance),
+        minimum: config.dryRun ? 0 : config.minBalanceEth,
+      };
+    });
+    
+    health.register('database', async () => {
+      await db.checkWritable();
+      return { ok: true, backend: db.dialect };
+    });
+    
+    health.register('indexer', async () => {
+      const headBlock = await this.provider.getBlockNumber();
+      const lags: Record<string, number> = {
+        factory: Math.max(0, headBlock - this.factoryIndexer.getProcessedBlock()),
+      };
       
-      // Check wallet balance
-      const balance = await this.provider.getBalance(this.wallet.address);
-      logger.debug({ balance: ethers.formatEther(balance) }, 'Health check: Wallet balance OK');
+      for (const pipeline of this.pipelines.values()) {
+        lags[pipeline.auctionAddress] = pipeline.getIndexerLag(headBlock);
+      }
+      
+      return {
+        ok: Object.values(lags).every(lag => lag <= config.maxIndexerLag),
+        maxLag: config.maxIndexerLag,
+        lags,
+      };
+    });
+    
+    health.register('relayerRole', async () => {
+      const missing: string[] = [];
       
-      if (balance === 0n) {
-        logger.warn('Wallet balance is zero');
-        return false;
+      for (const pipeline of this.pipelines.values()) {
+        if (!(await pipeline.hasRelayerRole(settler))) {
+          missing.push(pipeline.auctionAddress);
+        }
       }
       
-      // Check monitor health
-      const monitorHealthy = await this.monitor.healthCheck();
-      if (!monitorHealthy) {
-        logger.warn('Monitor health check failed');
-        return false;
+      return {
+        ok: missing.length === 0,
+        account: settler,
+        ...(missing.length > 0 && { message: 'Account lacks RELAYER_ROLE', missing }),
+      };
+    });
+    
+    health.register('pipelines', async () => {
+      const stopped: string[] = [];
+      
+      for (const pipeline of this.pipelines.values()) {
+        if (!(await pipeline.healthCheck())) {
+          stopped.push(pipeline.auctionAddress);
+        }
       }
       
-      return true;
-    } catch (error) {
-      logger.error({ error }, 'Health check failed');
-      return false;
-    }
+      return {
+        ok: this.isRunning && stopped.length === 0,
+        auctions: this.pipelines.size,
+        paused: this.paused,
+        ...(stopped.length > 0 && { message: 'Auction pipelines not running', stopped }),
+      };
+    });
   }
 }
 
@@ -208,18 +500,18 @@ async function main() {
   logger.info('='.repeat(50));
   logger.info('DEX Relayer Service');
   logger.info('='.repeat(50));
-  logger.info({ config: {
-    network: config.network,
-    chainId: config.chainId,
-    relayerAddress: config.relayerAddress,
-    metricsPort: config.metricsPort,
-  }}, 'Configuration loaded');
+  logger.info({ config: redactConfig(config) }, 'Configuration loaded');
   
   const relayer = new RelayerService();
   
+  // Probes are served from the start; readiness fails until the relayer has registered its checks
+  const health = new HealthServer(config.rpcTimeoutMs);
+  await health.start(config.healthCheckPort);
+  
   try {
     // Initialize
     await relayer.initialize();
+    relayer.registerHealthChecks(health);
     
     // Start
     await relayer.start();
@@ -227,7 +519,16 @@ async function main() {
     // Graceful shutdown handling
     const shutdown = async (signal: string) => {
       logger.info({ signal }, 'Received shutdown signal');
-      await relayer.stop();
+      
+      try {
+        await health.stop();
+        await relayer.stop();
+        await alerts.flush();
+      } catch (error) {
+        logger.fatal({ signal, error }, 'Error during shutdown');
+        process.exit(1);
+      }
+      
       process.exit(0);
     };
     
@@ -236,9 +537,16 @@ async function main() {
     
     // Periodic health checks
     setInterval(async () => {
-      const healthy = await relayer.healthCheck();
-      if (!healthy) {
-        logger.error('Health check failed - service may be unhealthy');
+      try {
+        const report = await health.checkReadiness();
+        await relayer.checkHealthAlerts(report);
+        
+        if (!report.ready) {
+          const failing = Object.entries(report.components).filter(([, status]) => !status.ok);
+          logger.error({ components: Object.fromEntries(failing) }, 'Health check failed - service may be unhealthy');
+        }
+      } catch (error) {
+        logger.error({ error }, 'Periodic health check failed');
       }
     }, 60000); // Every minute
     
@@ -0,0 +1,428 @@
+import { ethers, EventFragment, Interface, Log, Result } from 'ethers';
+import { logger } from './logger';
+import { config } from './config';
+import { db, Checkpoint } from './db';
+
+// logIndex stored once every log of a block has been handled
+const BLOCK_COMPLETE = 2 ** 31 - 1;
+
+export interface IndexedEvent {
+  name: string;
+  args: Result;
+  log: Log;
+}
+
+export type EventHandler = (event: IndexedEvent) => Promise<void>;
+
+/**
+ * Called with the first block that is no longer canonical
+ */
+export type ReorgHandler = (forkBlock: number) => Promise<void>;
+
+export interface IndexerOptions {
+  startBlock: number;
+  chunkSize?: number;
+  pollIntervalMs?: number;
+  confirmations?: number;
+}
+
+interface Subscription {
+  fragment: EventFragment;
+  iface: Interface;
+  handlers: EventHandler[];
+}
+
+/**
+ * Checkpointed log indexer for a single contract
+ *
+ * Backfills from the last processed log using chunked getLogs ranges, then keeps
+ * polling the same way for new blocks. The checkpoint is advanced after every handled
+ * log, so a restart resumes exactly where processing stopped.
+ *
+ * Hashes of blocks within the confirmation depth are tracked; when one no longer matches
+ * the chain, reorg handlers roll back derived state and the affected range is re-ingested.
+ */
+export class EventIndexer {
+  private provider: ethers.JsonRpcProvider;
+  private name: string;
+  private address: string;
+  private options: Required<IndexerOptions>;
+  private subscriptions: Map<string, Subscription> = new Map();
+  private reorgHandlers: ReorgHandler[] = [];
+  private chunkSize: number;
+  private isRunning: boolean = false;
+  private isSyncing: boolean = false;
+  private pollInterval?: NodeJS.Timeout;
+  private headBlock: number = 0;
+  // The indexer is the only writer of its checkpoint, so it is read from the database once
+  private checkpoint: Checkpoint | null = null;
+
+  constructor(provider: ethers.JsonRpcProvider, name: string, address: string, options: IndexerOptions) {
+    this.provider = provider;
+    this.name = name;
+    this.address = address;
+    this.options = {
+      startBlock: options.startBlock,
+      chunkSize: options.chunkSize ?? config.logChunkSize,
+      pollIntervalMs: options.pollIntervalMs ?? config.pollIntervalMs,
+      confirmations: options.confirmations ?? config.confirmations,
+    };
+    this.chunkSize = this.options.chunkSize;
+  }
+
+  /**
+   * Register a handler for an event
+   * @param fragment Event fragment, e.g. from contract.interface.getEvent()
+   * @param handler Called once per log, in chain order
+   */
+  on(fragment: EventFragment, handler: EventHandler): void {
+    const existing = this.subscriptions.get(fragment.topicHash);
+
+    if (existing) {
+      existing.handlers.push(handler);
+      return;
+    }
+
+    this.subscriptions.set(fragment.topicHash, {
+      fragment,
+      iface: new Interface([fragment]),
+      handlers: [handler],
+    });
+  }
+
+  /**
+   * Register a handler that rolls back state derived from reorged blocks
+   * @param handler Called before the affected range is re-indexed
+   */
+  onReorg(handler: ReorgHandler): void {
+    this.reorgHandlers.push(handler);
+  }
+
+  /**
+   * Backfill missed logs, then start tailing new blocks
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn({ indexer: this.name }, 'Indexer already running');
+      return;
+    }
+
+    this.isRunning = true;
+
+    this.checkpoint = await db.getCheckpoint(this.name);
+    logger.info({
+      indexer: this.name,
+      checkpoint: this.checkpoint?.blockNumber ?? null,
+      startBlock: this.options.startBlock,
+    }, 'Starting indexer backfill');
+
+    await this.sync();
+
+    this.pollInterval = setInterval(() => this.sync(), this.options.pollIntervalMs);
+
+    logger.info({ indexer: this.name, block: this.getProcessedBlock() }, 'Indexer backfill complete, tailing new blocks');
+  }
+
+  /**
+   * Stop tailing
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+
+    logger.info({ indexer: this.name }, 'Indexer stopped');
+  }
+
+  /**
+   * Last block whose logs have all been handled
+   */
+  getProcessedBlock(): number {
+    return this.checkpoint ? checkpointBlock(this.checkpoint) : this.options.startBlock - 1;
+  }
+
+  /**
+   * Number of blocks between the chain head and the last processed block
+   */
+  getLag(): number {
+    return Math.max(0, this.headBlock - this.getProcessedBlock());
+  }
+
+  /**
+   * Last processed block that is at least `confirmations` deep
+   * State derived from later blocks can still be rolled back by a reorg, so consumers with effects
+   * that cannot be undone (alerts, reconciliation) wait for this block to pass theirs.
+   */
+  getFinalizedBlock(): number {
+    return Math.min(this.getProcessedBlock(), this.headBlock - this.options.confirmations);
+  }
+
+  /**
+   * Read past logs of one event in chunks, without handling them or moving the checkpoint
+   * @param toBlock Last block to read, the chain head by default
+   * @returns Decoded events in chain order
+   */
+  async queryEvents(fragment: EventFragment, fromBlock: number, toBlock?: number): Promise<IndexedEvent[]> {
+    const iface = new Interface([fragment]);
+    const lastBlock = toBlock ?? await this.provider.getBlockNumber();
+    const events: IndexedEvent[] = [];
+
+    while (fromBlock <= lastBlock) {
+      const chunkEnd = Math.min(fromBlock + this.chunkSize - 1, lastBlock);
+      const logs = await this.fetchLogs(fromBlock, chunkEnd, [fragment.topicHash]);
+
+      if (logs === null) {
+        continue;
+      }
+
+      for (const log of logs.filter(log => !log.removed)) {
+        events.push({ name: fragment.name, args: iface.decodeEventLog(fragment, log.data, log.topics), log });
+      }
+
+      fromBlock = chunkEnd + 1;
+    }
+
+    return events;
+  }
+
+  /**
+   * Process every log between the checkpoint and the chain head
+   */
+  private async sync(): Promise<void> {
+    // Never run two passes at once, or logs could be handled twice
+    if (this.isSyncing) {
+      return;
+    }
+
+    this.isSyncing = true;
+
+    try {
+      this.headBlock = await this.provider.getBlockNumber();
+      await this.detectReorg();
+
+      let fromBlock = this.getProcessedBlock() + 1;
+
+      while (this.isRunning && fromBlock <= this.headBlock) {
+        const toBlock = Math.min(fromBlock + this.chunkSize - 1, this.headBlock);
+
+        // Read the tip hash before the logs, so a reorg in between is caught on the next pass
+        const tip = this.isTracked(toBlock) ? await this.provider.getBlock(toBlock) : null;
+        const logs = await this.fetchLogs(fromBlock, toBlock);
+
+        if (logs === null) {
+          // Chunk shrunk, retry the same start block
+          continue;
+        }
+
+        await this.processLogs(logs);
+
+        if (tip?.hash) {
+          await db.saveIndexedBlock(this.name, tip.number, tip.hash);
+        }
+        await this.saveCheckpoint(toBlock, BLOCK_COMPLETE);
+
+        fromBlock = toBlock + 1;
+      }
+
+      await db.pruneIndexedBlocks(this.name, this.headBlock - this.options.confirmations);
+    } catch (error) {
+      logger.error({ indexer: this.name, error }, 'Indexer sync failed, will retry');
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  /**
+   * Compare tracked block hashes with the chain and roll back to the fork point if they differ
+   */
+  private async detectReorg(): Promise<void> {
+    const tracked = await db.getIndexedBlocks(this.name);
+
+    if (tracked.length === 0) {
+      return;
+    }
+
+    let forkBlock: number | null = null;
+
+    // Newest first: stop at the first block that is still canonical
+    for (const block of tracked) {
+      const current = await this.provider.getBlock(block.blockNumber);
+
+      if (current?.hash === block.blockHash) {
+        break;
+      }
+
+      forkBlock = block.blockNumber;
+    }
+
+    if (forkBlock === null) {
+      return;
+    }
+
+    const oldest = tracked[tracked.length - 1];
+    if (forkBlock === oldest.blockNumber) {
+      logger.error({
+        indexer: this.name,
+        forkBlock,
+        confirmations: this.options.confirmations,
+      }, 'Reorg reaches past every tracked block, rolling back the whole unconfirmed window');
+    }
+
+    // Untracked blocks below the first mismatch may have changed too, so roll back from just
+    // above the newest block known to still be canonical, or else from the start of the window
+    const canonical = tracked.find(block => block.blockNumber < forkBlock!);
+    const windowStart = Math.max(this.options.startBlock, this.headBlock - this.options.confirmations + 1);
+    const fromBlock = canonical ? canonical.blockNumber + 1 : Math.min(forkBlock, windowStart);
+
+    logger.warn({ indexer: this.name, fromBlock, processedBlock: this.getProcessedBlock() }, 'Chain reorg detected');
+
+    await this.rollBack(fromBlock);
+  }
+
+  /**
+   * Process logs again from a block, rolling back state derived from them like a reorg would
+   * Called before `start`, which then re-ingests the range.
+   */
+  async rewind(fromBlock: number): Promise<void> {
+    this.checkpoint = await db.getCheckpoint(this.name);
+
+    if (fromBlock > this.getProcessedBlock()) {
+      return;
+    }
+
+    logger.warn({ indexer: this.name, fromBlock, processedBlock: this.getProcessedBlock() }, 'Rewinding indexer');
+
+    await this.rollBack(fromBlock);
+  }
+
+  /**
+   * Run reorg handlers and move the checkpoint back to just before a block
+   */
+  private async rollBack(fromBlock: number): Promise<void> {
+    for (const handler of this.reorgHandlers) {
+      await handler(fromBlock);
+    }
+
+    await db.deleteIndexedBlocksFrom(this.name, fromBlock);
+    await this.saveCheckpoint(fromBlock - 1, BLOCK_COMPLETE);
+  }
+
+  /**
+   * Persist the last processed log position
+   */
+  private async saveCheckpoint(blockNumber: number, logIndex: number): Promise<void> {
+    await db.saveCheckpoint(this.name, blockNumber, logIndex);
+    this.checkpoint = { name: this.name, blockNumber, logIndex, updatedAt: Date.now() };
+  }
+
+  /**
+   * Whether a block is recent enough for its hash to be tracked
+   */
+  private isTracked(blockNumber: number): boolean {
+    return blockNumber > this.headBlock - this.options.confirmations;
+  }
+
+  /**
+   * Fetch logs for a range, shrinking the chunk size when the provider rejects it
+   * @param topics Event topics to match, every subscribed event by default
+   * @returns Logs sorted in chain order, or null if the range was too large
+   */
+  private async fetchLogs(
+    fromBlock: number,
+    toBlock: number,
+    topics: string[] = [...this.subscriptions.keys()]
+  ): Promise<Log[] | null> {
+    let logs: Log[];
+
+    try {
+      logs = await this.provider.getLogs({
+        address: this.address,
+        topics: [topics],
+        fromBlock,
+        toBlock,
+      });
+    } catch (error: any) {
+      if (!isRangeTooLargeError(error) || this.chunkSize === 1) {
+        throw error;
+      }
+
+      this.chunkSize = Math.max(1, Math.floor(this.chunkSize / 2));
+      logger.warn({ indexer: this.name, chunkSize: this.chunkSize }, 'getLogs range rejected, shrinking chunk size');
+      return null;
+    }
+
+    // Grow back towards the configured size after a successful request
+    this.chunkSize = Math.min(this.options.chunkSize, this.chunkSize * 2);
+
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+  }
+
+  /**
+   * Dispatch logs to handlers, checkpointing after each one
+   */
+  private async processLogs(logs: Log[]): Promise<void> {
+    const checkpoint = this.checkpoint;
+
+    for (const log of logs) {
+      // Skip logs handled before a restart in the middle of a block
+      if (
+        checkpoint &&
+        checkpoint.logIndex !== BLOCK_COMPLETE &&
+        log.blockNumber === checkpoint.blockNumber &&
+        log.index <= checkpoint.logIndex
+      ) {
+        continue;
+      }
+
+      if (log.removed) {
+        continue;
+      }
+
+      const subscription = this.subscriptions.get(log.topics[0]);
+
+      if (subscription) {
+        const args = subscription.iface.decodeEventLog(subscription.fragment, log.data, log.topics);
+        const event: IndexedEvent = { name: subscription.fragment.name, args, log };
+
+        for (const handler of subscription.handlers) {
+          await handler(event);
+        }
+      }
+
+      if (this.isTracked(log.blockNumber)) {
+        await db.saveIndexedBlock(this.name, log.blockNumber, log.blockHash);
+      }
+      await this.saveCheckpoint(log.blockNumber, log.index);
+    }
+  }
+}
+
+/**
+ * Last block whose logs have all been handled at a checkpoint
+ */
+export function checkpointBlock(checkpoint: Checkpoint): number {
+  return checkpoint.logIndex === BLOCK_COMPLETE ? checkpoint.blockNumber : checkpoint.blockNumber - 1;
+}
+
+/**
+ * Check if a getLogs error means the block range or result set was too large
+ */
+function isRangeTooLargeError(error: any): boolean {
+  const message = `${error?.message || ''} ${error?.error?.message || ''}`.toLowerCase();
+
+  return (
+    error?.error?.code === -32005 ||
+    message.includes('block range') ||
+    message.includes('range is too large') ||
+    message.includes('query returned more than') ||
+    message.includes('too many results') ||
+    message.includes('limit exceeded')
+  );
+}
@@ -0,0 +1,155 @@
+import os from 'os';
+import { logger } from './logger';
+import { db, LeaseRecord } from './db';
+
+// Held by the relayer service while it runs
+export const RELAYER_LEASE = 'relayer';
+
+// Held by whichever process is sending settlement transactions
+export const SETTLEMENT_LEASE = 'settlement';
+
+const DEFAULT_TTL_MS = 30000;
+
+/**
+ * Thrown when a lease is held by another process
+ */
+export class LeaseHeldError extends Error {
+  readonly holder: LeaseRecord;
+
+  constructor(holder: LeaseRecord) {
+    super(`Lease "${holder.name}" is held by ${holder.owner} until ${new Date(holder.expiresAt).toISOString()}`);
+    this.name = 'LeaseHeldError';
+    this.holder = holder;
+  }
+}
+
+/**
+ * Owner name identifying this process in lease records
+ */
+export function leaseOwner(role: string): string {
+  return `${role}@${os.hostname()}:${process.pid}`;
+}
+
+/**
+ * Lock held in the database, so processes sharing it (the relayer, the CLI) coordinate
+ *
+ * A held lease is renewed in the background; one left behind by a process that died
+ * expires after `ttlMs`. Renewal can fall behind (a stalled event loop, a database outage)
+ * and let another process take the lease over, so work that must not overlap checks
+ * `ensureHeld` right before it acts.
+ */
+export class Lease {
+  readonly name: string;
+  readonly owner: string;
+  private ttlMs: number;
+  private renewal?: NodeJS.Timeout;
+  // Until when the last successful acquire or renewal holds the lease
+  private heldUntil = 0;
+
+  constructor(name: string, owner: string, ttlMs: number = DEFAULT_TTL_MS) {
+    this.name = name;
+    this.owner = owner;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Take the lease if it is free
+   * @returns False if another process holds it
+   */
+  async acquire(): Promise<boolean> {
+    if (!await this.take()) {
+      return false;
+    }
+
+    if (!this.renewal) {
+      this.renewal = setInterval(() => this.renew(), this.ttlMs / 3);
+      this.renewal.unref();
+    }
+
+    return true;
+  }
+
+  /**
+   * Take the lease or fail with its current holder
+   * @throws LeaseHeldError if another process holds it
+   */
+  async acquireOrThrow(): Promise<void> {
+    if (await this.acquire()) {
+      return;
+    }
+
+    const holder = await db.getLease(this.name);
+
+    // Expired between the two reads, so it is free again
+    if (!holder) {
+      return this.acquireOrThrow();
+    }
+
+    throw new LeaseHeldError(holder);
+  }
+
+  /**
+   * Whether the lease is held, as of its last acquire or renewal
+   */
+  isHeld(): boolean {
+    return Date.now() < this.heldUntil;
+  }
+
+  /**
+   * Renew the lease now, taking it again if it lapsed and no other process claimed it
+   * @throws LeaseHeldError if another process took it over
+   */
+  async ensureHeld(): Promise<void> {
+    if (!this.isHeld()) {
+      logger.warn({ lease: this.name, owner: this.owner }, 'Lease lapsed, taking it again');
+    }
+
+    await this.acquireOrThrow();
+  }
+
+  /**
+   * Give the lease up
+   */
+  async release(): Promise<void> {
+    if (this.renewal) {
+      clearInterval(this.renewal);
+      this.renewal = undefined;
+    }
+
+    this.heldUntil = 0;
+
+    await db.releaseLease(this.name, this.owner);
+  }
+
+  /**
+   * Run `fn` while holding the lease
+   * @throws LeaseHeldError if another process holds it
+   */
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquireOrThrow();
+
+    try {
+      return await fn();
+    } finally {
+      await this.release();
+    }
+  }
+
+  private async renew(): Promise<void> {
+    try {
+      if (!await this.take()) {
+        logger.error({ lease: this.name, owner: this.owner }, 'Lease taken over by another process');
+      }
+    } catch (error) {
+      logger.error({ lease: this.name, error }, 'Failed to renew lease');
+    }
+  }
+
+  private async take(): Promise<boolean> {
+    const now = Date.now();
+    const taken = await db.acquireLease(this.name, this.owner, this.ttlMs, now);
+
+    this.heldUntil = taken ? now + this.ttlMs : 0;
+    return taken;
+  }
+}
@@ -1,9 +1,28 @@
-import { keccak256, concat, toBeHex } from 'ethers';
+import { keccak256, concat } from 'ethers';
+import { hashOrder } from './encoding';
+
+/**
+ * Tree construction rules
+ * - sorted: leaves are sorted before building the tree
+ * - contract: leaves keep their order, matching MerkleProof.computeRoot in BatchAuction
+ *
+ * Both flavours hash sorted pairs and promote the last node of odd-sized layers.
+ */
+export type MerkleFlavour = 'sorted' | 'contract';
 
 export interface MerkleTree {
   root: string;
   leaves: string[];
   layers: string[][];
+  flavour: MerkleFlavour;
+}
+
+export interface OrderLeafInput {
+  nonce: string | number | bigint;
+  expiry: string | number | bigint;
+  amount: string | bigint;
+  limitPrice: string | bigint;
+  side: number;
 }
 
 export interface MerkleProof {
@@ -12,20 +31,41 @@ export interface MerkleProof {
   index: number;
 }
 
+/**
+ * Computes the merkle leaf of an order as BatchAuction does
+ * @param order Order fields
+ * @returns keccak256(abi.encode(order))
+ */
+export function orderLeaf(order: OrderLeafInput): string {
+  return hashOrder({
+    nonce: BigInt(order.nonce),
+    expiry: BigInt(order.expiry),
+    amount: BigInt(order.amount),
+    limitPrice: BigInt(order.limitPrice),
+    side: order.side,
+  });
+}
+
 /**
  * Builds a Merkle tree from an array of leaves
  * @param leaves Array of leaf hashes
+ * @param flavour Tree construction rules
  * @returns Merkle tree with root and all layers
  */
-export function buildMerkleTree(leaves: string[]): MerkleTree {
+export function buildMerkleTree(leaves: string[], flavour: MerkleFlavour = 'sorted'): MerkleTree {
   if (leaves.length === 0) {
     throw new Error('Cannot build tree from empty leaves');
   }
   
-  // Sort leaves for deterministic tree construction
-  const sortedLeaves = [...leaves].sort();
+  // Lowercase so string comparison matches the numeric comparison used on-chain
+  const treeLeaves = leaves.map(leaf => leaf.toLowerCase());
+  
+  // Sort leaves for deterministic tree construction, unless the order is fixed by the contract
+  if (flavour === 'sorted') {
+    treeLeaves.sort();
+  }
   
-  const layers: string[][] = [sortedLeaves];
+  const layers: string[][] = [treeLeaves];
   
   // Build tree bottom-up
   while (layers[layers.length - 1].length > 1) {
@@ -50,8 +90,9 @@ export function buildMerkleTree(leaves: string[]): MerkleTree {
   
   return {
     root: layers[layers.length - 1][0],
-    leaves: sortedLeaves,
+    leaves: treeLeaves,
     layers,
+    flavour,
   };
 }
 
@@ -62,12 +103,26 @@ export function buildMerkleTree(leaves: string[]): MerkleTree {
  * @returns Merkle proof
  */
 export function generateProof(tree: MerkleTree, leaf: string): MerkleProof {
-  const index = tree.leaves.indexOf(leaf);
+  const index = tree.leaves.indexOf(leaf.toLowerCase());
   
   if (index === -1) {
     throw new Error('Leaf not found in tree');
   }
   
+  return generateProofAt(tree, index);
+}
+
+/**
+ * Generates a Merkle proof for the leaf at a position
+ * @param tree Merkle tree
+ * @param index Leaf position, needed when identical leaves appear more than once
+ * @returns Merkle proof
+ */
+export function generateProofAt(tree: MerkleTree, index: number): MerkleProof {
+  if (index < 0 || index >= tree.leaves.length) {
+    throw new Error('Leaf index out of range');
+  }
+  
   const proof: string[] = [];
   let currentIndex = index;
   
@@ -85,7 +140,7 @@ export function generateProof(tree: MerkleTree, leaf: string): MerkleProof {
   }
   
   return {
-    leaf,
+    leaf: tree.leaves[index],
     proof,
     index,
   };
@@ -98,22 +153,14 @@ export function generateProof(tree: MerkleTree, leaf: string): MerkleProof {
  * @returns True if proof is valid
  */
 export function verifyProof(proof: MerkleProof, root: string): boolean {
-  let computedHash = proof.leaf;
-  let index = proof.index;
+  // Pairs are sorted before hashing, so the position of each sibling does not matter (as in MerkleProof.verify)
+  let computedHash = proof.leaf.toLowerCase();
   
   for (const sibling of proof.proof) {
-    if (index % 2 === 0) {
-      // Current node is left
-      computedHash = hashPair(computedHash, sibling);
-    } else {
-      // Current node is right
-      computedHash = hashPair(sibling, computedHash);
-    }
-    
-    index = Math.floor(index / 2);
+    computedHash = hashPair(computedHash, sibling.toLowerCase());
   }
   
-  return computedHash === root;
+  return computedHash === root.toLowerCase();
 }
 
 /**
@@ -137,15 +184,16 @@ function hashPair(left: string, right: string): string {
  * @returns Array of proofs for each leaf
  */
 export function generateAllProofs(tree: MerkleTree): MerkleProof[] {
-  return tree.leaves.map(leaf => generateProof(tree, leaf));
+  return tree.leaves.map((_, index) => generateProofAt(tree, index));
 }
 
 /**
  * Computes root from leaves (utility function)
  * @param leaves Array of leaf hashes
+ * @param flavour Tree construction rules
  * @returns Root hash
  */
-export function computeRoot(leaves: string[]): string {
-  const tree = buildMerkleTree(leaves);
+export function computeRoot(leaves: string[], flavour: MerkleFlavour = 'sorted'): string {
+  const tree = buildMerkleTree(leaves, flavour);
   return tree.root;
 }
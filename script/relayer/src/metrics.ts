@@ -1,9 +1,15 @@
-import express, { Request, Response } from 'express';
+import express, { Request, Response, Router } from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
 import { logger } from './logger';
 import { config } from './config';
-import { db } from './db';
+import { db, AuctionStats } from './db';
+import { EndpointHealth, FailoverProvider } from './provider';
 
 export interface Metrics {
+  // Auctions discovered from the factory
+  totalAuctions: number;
+  auctions: AuctionStats[];
+  
   // Settlement metrics
   totalSettlements: number;
   successfulSettlements: number;
@@ -30,13 +36,147 @@ export interface Metrics {
 export class MetricsCollector {
   private app: express.Application;
   private startTime: number;
+  private provider?: FailoverProvider;
+  
+  readonly registry = new Registry();
+  
+  // Settlements
+  readonly settlementDuration = new Histogram({
+    name: 'relayer_settlement_duration_seconds',
+    help: 'Time from submitting a settlement to its confirmation',
+    labelNames: ['auction'] as const,
+    buckets: [5, 15, 30, 60, 120, 300, 600, 1800],
+    registers: [this.registry],
+  });
+  
+  readonly settlementGasUsed = new Histogram({
+    name: 'relayer_settlement_gas_used',
+    help: 'Gas used by mined settlement transactions',
+    labelNames: ['auction'] as const,
+    buckets: [100000, 200000, 400000, 800000, 1600000, 3200000, 6400000],
+    registers: [this.registry],
+  });
+  
+  readonly settlements = new Counter({
+    name: 'relayer_settlements_total',
+    help: 'Settlement attempts by outcome (confirmed, reverted, cancelled, dropped, error)',
+    labelNames: ['auction', 'outcome'] as const,
+    registers: [this.registry],
+  });
+  
+  readonly pendingTransactionAge = new Gauge({
+    name: 'relayer_pending_transaction_age_seconds',
+    help: 'Age of the oldest pending settlement transaction, 0 when none is pending',
+    labelNames: ['auction'] as const,
+    registers: [this.registry],
+  });
+  
+  // Orders and batches
+  readonly orders = new Counter({
+    name: 'relayer_orders_validated_total',
+    help: 'Revealed orders checked before settlement by outcome (valid, or the reason they were excluded)',
+    labelNames: ['auction', 'outcome'] as const,
+    registers: [this.registry],
+  });
+  
+  readonly fillMismatches = new Counter({
+    name: 'relayer_fill_mismatches_total',
+    help: 'On-chain fills that differ from the settlement the relayer sent, by kind (missing, unexpected, amount_mismatch)',
+    labelNames: ['auction', 'kind'] as const,
+    registers: [this.registry],
+  });
+
+  readonly ordersPerBatch = new Gauge({
+    name: 'relayer_batch_orders',
+    help: 'Revealed orders in the last batch prepared for settlement',
+    labelNames: ['auction'] as const,
+    registers: [this.registry],
+  });
+  
+  readonly headLag = new Gauge({
+    name: 'relayer_head_lag_blocks',
+    help: 'Blocks between the chain head and the last block indexed for the auction',
+    labelNames: ['auction'] as const,
+    registers: [this.registry],
+  });
+  
+  // Wallet
+  readonly walletBalance = new Gauge({
+    name: 'relayer_wallet_balance_eth',
+    help: 'ETH balance of the relayer account',
+    labelNames: ['address'] as const,
+    registers: [this.registry],
+  });
+  
+  // RPC
+  readonly rpcDuration = new Histogram({
+    name: 'relayer_rpc_request_duration_seconds',
+    help: 'Duration of JSON-RPC requests by method, endpoint and outcome (success, error)',
+    labelNames: ['method', 'endpoint', 'outcome'] as const,
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
   
   constructor() {
     this.app = express();
     this.startTime = Date.now();
+    this.setupRegistry();
     this.setupRoutes();
   }
   
+  /**
+   * Process metrics and series read from current state at scrape time
+   */
+  private setupRegistry(): void {
+    collectDefaultMetrics({ register: this.registry });
+    
+    const registers = [this.registry];
+    const startTime = this.startTime;
+    
+    new Gauge({
+      name: 'relayer_auctions',
+      help: 'Number of auctions discovered from the factory',
+      registers,
+      async collect() {
+        this.set((await db.getAuctions()).length);
+      },
+    });
+    
+    new Gauge({
+      name: 'relayer_uptime_seconds',
+      help: 'Relayer uptime in seconds',
+      registers,
+      collect() {
+        this.set(Math.floor((Date.now() - startTime) / 1000));
+      },
+    });
+    
+    // Per-endpoint RPC health as scored by the failover provider
+    const endpointGauge = (name: string, help: string, value: (e: EndpointHealth) => number) => {
+      const getHealth = () => this.provider?.getHealth() || [];
+      
+      new Gauge({
+        name,
+        help,
+        labelNames: ['endpoint', 'host'] as const,
+        registers,
+        collect() {
+          this.reset();
+          
+          for (const endpoint of getHealth()) {
+            this.set({ endpoint: String(endpoint.index), host: endpoint.host }, value(endpoint));
+          }
+        },
+      });
+    };
+    
+    endpointGauge('relayer_rpc_healthy', 'Whether the RPC endpoint is considered healthy', e => (e.healthy ? 1 : 0));
+    endpointGauge('relayer_rpc_active', 'Whether the RPC endpoint currently serves requests', e => (e.active ? 1 : 0));
+    endpointGauge('relayer_rpc_latency_ms', 'Moving average RPC latency in milliseconds', e => e.latencyMs);
+    endpointGauge('relayer_rpc_error_rate', 'Share of recent RPC requests that failed', e => e.errorRate);
+    endpointGauge('relayer_rpc_head_lag_blocks', 'Blocks the endpoint head trails the best endpoint', e => e.headLag);
+  }
+  
   /**
    * Setup HTTP routes
    */
@@ -51,6 +191,20 @@ export class MetricsCollector {
     this.app.get('/metrics/json', this.handleMetricsJson.bind(this));
   }
   
+  /**
+   * Report RPC endpoint health from this provider
+   */
+  setProvider(provider: FailoverProvider): void {
+    this.provider = provider;
+  }
+  
+  /**
+   * Serve the admin routes under /admin
+   */
+  mountAdmin(router: Router): void {
+    this.app.use('/admin', router);
+  }
+  
   /**
    * Start metrics server
    */
@@ -69,70 +223,25 @@ export class MetricsCollector {
    * Health check handler
    */
   private async handleHealthCheck(req: Request, res: Response): Promise<void> {
+    const rpcHealthy = this.provider ? this.provider.isHealthy() : true;
+    
     const health = {
-      status: 'healthy',
+      status: rpcHealthy ? 'healthy' : 'unhealthy',
       timestamp: Date.now(),
       uptime: Date.now() - this.startTime,
       version: '1.0.0',
+      rpc: this.provider?.getHealth() || [],
     };
     
-    res.json(health);
+    res.status(rpcHealthy ? 200 : 503).json(health);
   }
   
   /**
    * Metrics handler (Prometheus format)
    */
   private async handleMetrics(req: Request, res: Response): Promise<void> {
-    const metrics = await this.collectMetrics();
-    
-    const prometheusMetrics = `
-# HELP relayer_settlements_total Total number of settlement attempts
-# TYPE relayer_settlements_total counter
-relayer_settlements_total ${metrics.totalSettlements}
-
-# HELP relayer_settlements_successful Number of successful settlements
-# TYPE relayer_settlements_successful counter
-relayer_settlements_successful ${metrics.successfulSettlements}
-
-# HELP relayer_settlements_failed Number of failed settlements
-# TYPE relayer_settlements_failed counter
-relayer_settlements_failed ${metrics.failedSettlements}
-
-# HELP relayer_settlements_pending Number of pending settlements
-# TYPE relayer_settlements_pending gauge
-relayer_settlements_pending ${metrics.pendingSettlements}
-
-# HELP relayer_orders_total Total number of orders processed
-# TYPE relayer_orders_total counter
-relayer_orders_total ${metrics.totalOrders}
-
-# HELP relayer_orders_executed Number of executed orders
-# TYPE relayer_orders_executed counter
-relayer_orders_executed ${metrics.executedOrders}
-
-# HELP relayer_batches_total Total number of batches
-# TYPE relayer_batches_total counter
-relayer_batches_total ${metrics.totalBatches}
-
-# HELP relayer_batches_settled Number of settled batches
-# TYPE relayer_batches_settled counter
-relayer_batches_settled ${metrics.settledBatches}
-
-# HELP relayer_settlement_time_avg Average settlement time in milliseconds
-# TYPE relayer_settlement_time_avg gauge
-relayer_settlement_time_avg ${metrics.averageSettlementTimeMs}
-
-# HELP relayer_gas_used_avg Average gas used per settlement
-# TYPE relayer_gas_used_avg gauge
-relayer_gas_used_avg ${metrics.averageGasUsed}
-
-# HELP relayer_uptime_seconds Relayer uptime in seconds
-# TYPE relayer_uptime_seconds counter
-relayer_uptime_seconds ${metrics.uptimeSeconds}
-`;
-    
-    res.set('Content-Type', 'text/plain');
-    res.send(prometheusMetrics.trim());
+    res.set('Content-Type', this.registry.contentType);
+    res.send(await this.registry.metrics());
   }
   
   /**
@@ -140,52 +249,31 @@ relayer_uptime_seconds ${metrics.uptimeSeconds}
    */
   private async handleMetricsJson(req: Request, res: Response): Promise<void> {
     const metrics = await this.collectMetrics();
-    res.json(metrics);
+    res.json({ ...metrics, rpc: this.provider?.getHealth() || [] });
   }
   
   /**
    * Collect metrics from database
    */
   private async collectMetrics(): Promise<Metrics> {
-    // Get settlement counts
-    const settlements = db['db'].prepare('SELECT status, COUNT(*) as count FROM settlements GROUP BY status').all() as any[];
-    
-    const totalSettlements = settlements.reduce((sum, s) => sum + s.count, 0);
-    const successfulSettlements = settlements.find(s => s.status === 'confirmed')?.count || 0;
-    const failedSettlements = settlements.find(s => s.status === 'failed')?.count || 0;
-    const pendingSettlements = settlements.find(s => s.status === 'pending')?.count || 0;
-    
-    // Get order counts
-    const orderStats = db['db'].prepare('SELECT COUNT(*) as total, SUM(executed) as executed FROM orders').get() as any;
-    
-    // Get batch counts
-    const batchStats = db['db'].prepare('SELECT COUNT(*) as total, SUM(settled) as settled FROM batches').get() as any;
-    
-    // Calculate average settlement time
-    const avgSettlementTime = db['db'].prepare(`
-      SELECT AVG(confirmedAt - createdAt) as avg 
-      FROM settlements 
-      WHERE status = 'confirmed' AND confirmedAt IS NOT NULL
-    `).get() as any;
+    const auctions = await db.getAuctionStats();
+    const averages = await db.getSettlementAverages();
     
-    // Calculate average gas used
-    const avgGasUsed = db['db'].prepare(`
-      SELECT AVG(gasUsed) as avg 
-      FROM settlements 
-      WHERE status = 'confirmed' AND gasUsed IS NOT NULL
-    `).get() as any;
+    const sum = (field: keyof Omit<AuctionStats, 'auction'>) => auctions.reduce((total, a) => total + a[field], 0);
     
     return {
-      totalSettlements,
-      successfulSettlements,
-      failedSettlements,
-      pendingSettlements,
-      totalOrders: orderStats?.total || 0,
-      executedOrders: orderStats?.executed || 0,
-      totalBatches: batchStats?.total || 0,
-      settledBatches: batchStats?.settled || 0,
-      averageSettlementTimeMs: avgSettlementTime?.avg || 0,
-      averageGasUsed: avgGasUsed?.avg || 0,
+      totalAuctions: (await db.getAuctions()).length,
+      auctions,
+      totalSettlements: sum('totalSettlements'),
+      successfulSettlements: sum('successfulSettlements'),
+      failedSettlements: sum('failedSettlements'),
+      pendingSettlements: sum('pendingSettlements'),
+      totalOrders: sum('totalOrders'),
+      executedOrders: sum('executedOrders'),
+      totalBatches: sum('totalBatches'),
+      settledBatches: sum('settledBatches'),
+      averageSettlementTimeMs: averages.settlementTimeMs,
+      averageGasUsed: averages.gasUsed,
       uptimeSeconds: Math.floor((Date.now() - this.startTime) / 1000),
       startTime: this.startTime,
     };
@@ -0,0 +1,444 @@
+import { SqlClient, SqlDialect } from './sql';
+
+export interface Migration {
+  version: number;
+  description: string;
+  // One script for both backends, or one per backend where their SQL differs
+  up: string | Record<SqlDialect, string>;
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: Migration[];
+}
+
+/**
+ * Thrown when the database cannot be brought to the schema this relayer expects
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Schema changes in the order they are applied
+ *
+ * Never edit a migration that has been released: add a new one with the next version.
+ * SQLite only accepts indexes as separate `CREATE INDEX` statements, and index names are
+ * shared across tables, so they are prefixed with the table name. Postgres stores block
+ * numbers, batch ids and millisecond timestamps as BIGINT; flags stay 0/1 integers on
+ * both backends. Version 1 predates Postgres support and is translated, see `forDialect`.
+ */
+export const MIGRATIONS: Migration[] = [
+  // Unversioned databases got as far as the auctions table, hence IF NOT EXISTS
+  {
+    version: 1,
+    description: 'Initial schema',
+    up: `
+    -- Auctions
+    CREATE TABLE IF NOT EXISTS auctions (
+      address TEXT PRIMARY KEY,
+      token0 TEXT NOT NULL,
+      token1 TEXT NOT NULL,
+      createdBlock INTEGER NOT NULL,
+      txHash TEXT NOT NULL,
+      createdAt INTEGER NOT NULL
+    );
+
+    -- Orders
+    CREATE TABLE IF NOT EXISTS orders (
+      auction TEXT NOT NULL,
+      orderHash TEXT NOT NULL,
+      commitment TEXT NOT NULL,
+      salt TEXT NOT NULL,
+      batchId INTEGER NOT NULL,
+      trader TEXT NOT NULL,
+      nonce TEXT NOT NULL,
+      expiry INTEGER NOT NULL,
+      amount TEXT NOT NULL,
+      limitPrice TEXT NOT NULL,
+      side INTEGER NOT NULL,
+      revealed INTEGER DEFAULT 0,
+      executed INTEGER DEFAULT 0,
+      revealTxHash TEXT,
+      revealBlock INTEGER,
+      createdAt INTEGER NOT NULL,
+      PRIMARY KEY (auction, orderHash)
+    );
+    CREATE INDEX IF NOT EXISTS idx_orders_batch ON orders (auction, batchId);
+    CREATE INDEX IF NOT EXISTS idx_orders_trader ON orders (trader);
+    CREATE INDEX IF NOT EXISTS idx_orders_revealed ON orders (revealed);
+    CREATE INDEX IF NOT EXISTS idx_orders_executed ON orders (executed);
+
+    -- Batches
+    CREATE TABLE IF NOT EXISTS batches (
+      auction TEXT NOT NULL,
+      batchId INTEGER NOT NULL,
+      startBlock INTEGER NOT NULL,
+      endBlock INTEGER,
+      clearingPrice TEXT,
+      ordersRoot TEXT,
+      settled INTEGER DEFAULT 0,
+      txHash TEXT,
+      createdAt INTEGER NOT NULL,
+      settledAt INTEGER,
+      settledBlock INTEGER,
+      skipped INTEGER DEFAULT 0,
+      skipReason TEXT,
+      PRIMARY KEY (auction, batchId)
+    );
+    CREATE INDEX IF NOT EXISTS idx_batches_settled ON batches (settled);
+
+    -- Settlements
+    CREATE TABLE IF NOT EXISTS settlements (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      auction TEXT NOT NULL,
+      batchId INTEGER NOT NULL,
+      txHash TEXT NOT NULL,
+      status TEXT NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'settlement',
+      nonce INTEGER,
+      maxFeePerGas TEXT,
+      maxPriorityFeePerGas TEXT,
+      replaces TEXT,
+      replacedBy TEXT,
+      gasUsed INTEGER,
+      error TEXT,
+      blockNumber INTEGER,
+      blockHash TEXT,
+      createdAt INTEGER NOT NULL,
+      confirmedAt INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_settlements_batch ON settlements (auction, batchId);
+    CREATE INDEX IF NOT EXISTS idx_settlements_status ON settlements (status);
+
+    -- Commitments
+    CREATE TABLE IF NOT EXISTS commitments (
+      auction TEXT NOT NULL,
+      commitment TEXT NOT NULL,
+      batchId INTEGER NOT NULL,
+      trader TEXT NOT NULL,
+      blockNumber INTEGER NOT NULL,
+      txHash TEXT NOT NULL,
+      revealed INTEGER DEFAULT 0,
+      orderHash TEXT,
+      revealTxHash TEXT,
+      revealBlock INTEGER,
+      executed INTEGER DEFAULT 0,
+      filledAmount TEXT,
+      receivedAmount TEXT,
+      executionTxHash TEXT,
+      executionBlock INTEGER,
+      createdAt INTEGER NOT NULL,
+      PRIMARY KEY (auction, commitment)
+    );
+    CREATE INDEX IF NOT EXISTS idx_commitments_batch ON commitments (auction, batchId);
+    CREATE INDEX IF NOT EXISTS idx_commitments_trader ON commitments (trader);
+    CREATE INDEX IF NOT EXISTS idx_commitments_order ON commitments (auction, orderHash);
+
+    -- Dry run settlement reports
+    CREATE TABLE IF NOT EXISTS settlement_reports (
+      auction TEXT NOT NULL,
+      batchId INTEGER NOT NULL,
+      blockTag TEXT NOT NULL,
+      "from" TEXT NOT NULL,
+      success INTEGER NOT NULL,
+      clearingPrice TEXT,
+      totalVolume TEXT,
+      ordersRoot TEXT,
+      orderCount INTEGER NOT NULL,
+      fills TEXT NOT NULL,
+      gasEstimate TEXT,
+      revert TEXT,
+      onChainTxHash TEXT,
+      onChainClearingPrice TEXT,
+      onChainTotalVolume TEXT,
+      onChainOrdersRoot TEXT,
+      onChainFills TEXT,
+      mismatches TEXT,
+      comparedAt INTEGER,
+      createdAt INTEGER NOT NULL,
+      PRIMARY KEY (auction, batchId)
+    );
+
+    -- Nonce tracking
+    CREATE TABLE IF NOT EXISTS nonces (
+      address TEXT PRIMARY KEY,
+      nextNonce INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL
+    );
+
+    -- Alert state
+    CREATE TABLE IF NOT EXISTS alerts (
+      key TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      severity TEXT NOT NULL,
+      status TEXT NOT NULL,
+      message TEXT NOT NULL,
+      details TEXT,
+      count INTEGER NOT NULL,
+      firstSeenAt INTEGER NOT NULL,
+      lastSeenAt INTEGER NOT NULL,
+      lastNotifiedAt INTEGER,
+      resolvedAt INTEGER
+    );
+
+    -- Indexer checkpoints
+    CREATE TABLE IF NOT EXISTS checkpoints (
+      name TEXT PRIMARY KEY,
+      blockNumber INTEGER NOT NULL,
+      logIndex INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL
+    );
+
+    -- Indexed block hashes (unfinalized window only)
+    CREATE TABLE IF NOT EXISTS indexed_blocks (
+      name TEXT NOT NULL,
+      blockNumber INTEGER NOT NULL,
+      blockHash TEXT NOT NULL,
+      PRIMARY KEY (name, blockNumber)
+    );
+    `,
+  },
+  {
+    version: 2,
+    description: 'Add leases',
+    up: `
+    -- Locks shared by processes using the same database, e.g. the relayer and the CLI
+    CREATE TABLE leases (
+      name TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      acquiredAt BIGINT NOT NULL,
+      expiresAt BIGINT NOT NULL
+    );
+    `,
+  },
+  {
+    version: 3,
+    description: 'Add order proofs',
+    up: `
+    -- Merkle proofs of settled orders, served to traders as they were sent on chain
+    CREATE TABLE order_proofs (
+      auction TEXT NOT NULL,
+      orderHash TEXT NOT NULL,
+      batchId INTEGER NOT NULL,
+      leafIndex INTEGER NOT NULL,
+      leaf TEXT NOT NULL,
+      proof TEXT NOT NULL,
+      root TEXT NOT NULL,
+      txHash TEXT NOT NULL,
+      createdAt BIGINT NOT NULL,
+      PRIMARY KEY (auction, orderHash)
+    );
+    CREATE INDEX idx_order_proofs_batch ON order_proofs (auction, batchId);
+    `,
+  },
+  {
+    version: 4,
+    description: 'Add order exclusion reasons',
+    up: `
+    -- Why pre-settlement validation left an order out, and the block it was validated at
+    ALTER TABLE orders ADD COLUMN exclusionReason TEXT;
+    ALTER TABLE orders ADD COLUMN validatedBlock BIGINT;
+    `,
+  },
+  {
+    version: 5,
+    description: 'Add order fills',
+    up: `
+    -- OrderExecuted results, linked to their batch once the BatchSettled log of the settlement is indexed
+    CREATE TABLE fills (
+      auction TEXT NOT NULL,
+      orderHash TEXT NOT NULL,
+      batchId INTEGER,
+      trader TEXT NOT NULL,
+      filledAmount TEXT NOT NULL,
+      receivedAmount TEXT NOT NULL,
+      clearingPrice TEXT NOT NULL,
+      txHash TEXT NOT NULL,
+      blockNumber BIGINT NOT NULL,
+      logIndex INTEGER NOT NULL,
+      createdAt BIGINT NOT NULL,
+      PRIMARY KEY (auction, orderHash)
+    );
+    CREATE INDEX idx_fills_batch ON fills (auction, batchId);
+    CREATE INDEX idx_fills_trader ON fills (trader);
+    -- How the fills of a settled batch differ from the settlement the relayer sent
+    ALTER TABLE batches ADD COLUMN fillMismatches TEXT;
+    ALTER TABLE batches ADD COLUMN fillsReconciledAt BIGINT;
+    `,
+  },
+  {
+    version: 6,
+    description: 'Use BIGINT for numeric columns on Postgres',
+    up: {
+      sqlite: `
+    -- SQLite integers are 64 bit whatever the declared type
+      `,
+      postgres: `
+    -- Block numbers, batch ids, nonces and millisecond timestamps outgrow 32 bit integers
+    ALTER SEQUENCE settlements_id_seq AS BIGINT;
+    ALTER TABLE auctions
+      ALTER COLUMN createdBlock TYPE BIGINT,
+      ALTER COLUMN createdAt TYPE BIGINT;
+    ALTER TABLE orders
+      ALTER COLUMN batchId TYPE BIGINT,
+      ALTER COLUMN expiry TYPE BIGINT,
+      ALTER COLUMN revealBlock TYPE BIGINT,
+      ALTER COLUMN createdAt TYPE BIGINT;
+    ALTER TABLE batches
+      ALTER COLUMN batchId TYPE BIGINT,
+      ALTER COLUMN startBlock TYPE BIGINT,
+      ALTER COLUMN endBlock TYPE BIGINT,
+      ALTER COLUMN createdAt TYPE BIGINT,
+      ALTER COLUMN settledAt TYPE BIGINT,
+      ALTER COLUMN settledBlock TYPE BIGINT;
+    ALTER TABLE settlements
+      ALTER COLUMN id TYPE BIGINT,
+      ALTER COLUMN batchId TYPE BIGINT,
+      ALTER COLUMN nonce TYPE BIGINT,
+      ALTER COLUMN gasUsed TYPE BIGINT,
+      ALTER COLUMN blockNumber TYPE BIGINT,
+      ALTER COLUMN createdAt TYPE BIGINT,
+      ALTER COLUMN confirmedAt TYPE BIGINT;
+    ALTER TABLE commitments
+      ALTER COLUMN batchId TYPE BIGINT,
+      ALTER COLUMN blockNumber TYPE BIGINT,
+      ALTER COLUMN revealBlock TYPE BIGINT,
+      ALTER COLUMN executionBlock TYPE BIGINT,
+      ALTER COLUMN createdAt TYPE BIGINT;
+    ALTER TABLE settlement_reports
+      ALTER COLUMN batchId TYPE BIGINT,
+      ALTER COLUMN orderCount TYPE BIGINT,
+      ALTER COLUMN comparedAt TYPE BIGINT,
+      ALTER COLUMN createdAt TYPE BIGINT;
+    ALTER TABLE nonces
+      ALTER COLUMN nextNonce TYPE BIGINT,
+      ALTER COLUMN updatedAt TYPE BIGINT;
+    ALTER TABLE alerts
+      ALTER COLUMN count TYPE BIGINT,
+      ALTER COLUMN firstSeenAt TYPE BIGINT,
+      ALTER COLUMN lastSeenAt TYPE BIGINT,
+      ALTER COLUMN lastNotifiedAt TYPE BIGINT,
+      ALTER COLUMN resolvedAt TYPE BIGINT;
+    ALTER TABLE checkpoints
+      ALTER COLUMN blockNumber TYPE BIGINT,
+      ALTER COLUMN logIndex TYPE BIGINT,
+      ALTER COLUMN updatedAt TYPE BIGINT;
+    ALTER TABLE indexed_blocks
+      ALTER COLUMN blockNumber TYPE BIGINT;
+    ALTER TABLE order_proofs
+      ALTER COLUMN batchId TYPE BIGINT,
+      ALTER COLUMN leafIndex TYPE BIGINT;
+    ALTER TABLE fills
+      ALTER COLUMN batchId TYPE BIGINT,
+      ALTER COLUMN logIndex TYPE BIGINT;
+      `,
+    },
+  },
+  {
+    version: 7,
+    description: 'Add reveal decoding errors',
+    up: `
+    -- Why the order behind a reveal could not be recovered, for commitments revealed without an order
+    ALTER TABLE commitments ADD COLUMN revealError TEXT;
+    `,
+  },
+];
+
+/**
+ * Version of the database schema, 0 for a database that was never migrated
+ */
+export async function getSchemaVersion(client: SqlClient): Promise<number> {
+  await ensureVersionTable(client);
+
+  const [row] = await client.query<{ version: number | null }>('SELECT MAX(version) as version FROM schema_version');
+  return row.version ?? 0;
+}
+
+/**
+ * Apply every pending migration, each in its own transaction
+ *
+ * On Postgres each transaction first takes an advisory lock, so relayer replicas starting
+ * against the same database apply every migration exactly once.
+ * @throws MigrationError if the database was written by a newer relayer
+ */
+export async function migrate(client: SqlClient, migrations: Migration[] = MIGRATIONS): Promise<MigrationResult> {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  const latest = sorted.length > 0 ? sorted[sorted.length - 1].version : 0;
+  const applied: Migration[] = [];
+  let from: number | undefined;
+
+  for (;;) {
+    const next = await client.transaction(async tx => {
+      if (tx.dialect === 'postgres') {
+        await tx.query(`SELECT pg_advisory_xact_lock(hashtext('relayer_schema_migrations'))`);
+      }
+
+      const version = await getSchemaVersion(tx);
+      from ??= version;
+
+      if (version > latest) {
+        throw new MigrationError(
+          `Database schema version ${version} is newer than the latest version ${latest} this relayer supports`
+        );
+      }
+
+      const migration = sorted.find(m => m.version > version);
+
+      if (!migration) {
+        return null;
+      }
+
+      try {
+        await tx.exec(forDialect(migration, tx.dialect));
+      } catch (error: any) {
+        throw new MigrationError(`Migration ${migration.version} (${migration.description}) failed: ${error.message}`);
+      }
+
+      await tx.run(
+        'INSERT INTO schema_version (version, description, appliedAt) VALUES (?, ?, ?)',
+        [migration.version, migration.description, Date.now()]
+      );
+
+      return migration;
+    });
+
+    if (!next) {
+      break;
+    }
+
+    applied.push(next);
+  }
+
+  return { from: from!, to: Math.max(from!, latest), applied };
+}
+
+/**
+ * Script of a migration for a backend
+ *
+ * Shared scripts are SQLite, so the one clause Postgres lacks, the autoincrement key of
+ * version 1, becomes a serial column there.
+ */
+function forDialect(migration: Migration, dialect: SqlDialect): string {
+  if (typeof migration.up !== 'string') {
+    return migration.up[dialect];
+  }
+
+  return dialect === 'postgres'
+    ? migration.up.replace(/INTEGER PRIMARY KEY AUTOINCREMENT/g, 'SERIAL PRIMARY KEY')
+    : migration.up;
+}
+
+async function ensureVersionTable(client: SqlClient): Promise<void> {
+  await client.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      appliedAt BIGINT NOT NULL
+    )
+  `);
+}
@@ -1,7 +1,12 @@
 import { ethers, Contract } from 'ethers';
-import { logger } from './logger';
+import { logger as rootLogger } from './logger';
 import { config } from './config';
 import { db } from './db';
+import { metrics } from './metrics';
+import { alerts } from './alerts';
+import { EventIndexer, IndexedEvent } from './indexer';
+import { quorumRead } from './provider';
+import { AuctionParameterCache } from './parameters';
 
 // Minimal ABI for batch monitoring
 const BATCH_AUCTION_ABI = [
@@ -24,14 +29,28 @@ export interface BatchInfo {
 
 export class BatchMonitor {
   private provider: ethers.JsonRpcProvider;
+  private auctionAddress: string;
+  private logger: typeof rootLogger;
   private auction: Contract;
+  private indexer: EventIndexer;
+  private parameters: AuctionParameterCache;
   private isRunning: boolean = false;
   private currentBatchId: number = 0;
+  private revealingSince: Map<number, number> = new Map();
   private pollInterval?: NodeJS.Timeout;
   
-  constructor(provider: ethers.JsonRpcProvider, auctionAddress: string) {
+  constructor(
+    provider: ethers.JsonRpcProvider,
+    auctionAddress: string,
+    indexer: EventIndexer,
+    parameters: AuctionParameterCache
+  ) {
     this.provider = provider;
+    this.auctionAddress = auctionAddress.toLowerCase();
+    this.logger = rootLogger.child({ auction: this.auctionAddress });
     this.auction = new Contract(auctionAddress, BATCH_AUCTION_ABI, provider);
+    this.indexer = indexer;
+    this.parameters = parameters;
   }
   
   /**
@@ -39,19 +58,19 @@ export class BatchMonitor {
    */
   async start(): Promise<void> {
     if (this.isRunning) {
-      logger.warn('Monitor already running');
+      this.logger.warn('Monitor already running');
       return;
     }
     
     this.isRunning = true;
-    logger.info('Starting batch monitor');
+    this.logger.info('Starting batch monitor');
     
     // Get current batch ID
     this.currentBatchId = Number(await this.auction.getCurrentBatchId());
-    logger.info({ batchId: this.currentBatchId }, 'Current batch ID');
+    this.logger.info({ batchId: this.currentBatchId }, 'Current batch ID');
     
-    // Listen for new batch events
-    this.auction.on('BatchStarted', this.handleBatchStarted.bind(this));
+    // Index new batch events
+    this.indexer.on(this.auction.interface.getEvent('BatchStarted')!, this.handleBatchStarted.bind(this));
     
     // Start polling for batch state changes
     this.pollInterval = setInterval(
@@ -59,7 +78,7 @@ export class BatchMonitor {
       config.pollIntervalMs
     );
     
-    logger.info({ pollIntervalMs: config.pollIntervalMs }, 'Batch monitor started');
+    this.logger.info({ pollIntervalMs: config.pollIntervalMs }, 'Batch monitor started');
   }
   
   /**
@@ -77,23 +96,32 @@ export class BatchMonitor {
       this.pollInterval = undefined;
     }
     
-    this.auction.removeAllListeners();
-    logger.info('Batch monitor stopped');
+    this.logger.info('Batch monitor stopped');
   }
   
   /**
    * Handle new batch started event
    */
-  private async handleBatchStarted(batchId: bigint, startBlock: bigint): Promise<void> {
+  private async handleBatchStarted({ args }: IndexedEvent): Promise<void> {
+    const [batchId, startBlock] = args;
     const id = Number(batchId);
     const block = Number(startBlock);
     
-    logger.info({ batchId: id, startBlock: block }, 'New batch started');
+    this.logger.info({ batchId: id, startBlock: block }, 'New batch started');
     
-    this.currentBatchId = id;
+    // Backfilled events can be older than the batch we already track
+    this.currentBatchId = Math.max(this.currentBatchId, id);
+    
+    // A new batch only starts once the previous one is settled
+    for (const revealingId of this.revealingSince.keys()) {
+      if (revealingId < this.currentBatchId) {
+        this.revealingSince.delete(revealingId);
+      }
+    }
     
     // Store batch in database
-    db.insertBatch({
+    await db.insertBatch({
+      auction: this.auctionAddress,
       batchId: id,
       startBlock: block,
       settled: false,
@@ -106,10 +134,12 @@ export class BatchMonitor {
    */
   private async checkBatchState(): Promise<void> {
     try {
-      const state = Number(await this.auction.getBatchState(this.currentBatchId));
+      const state = await this.getBatchState(this.currentBatchId);
       const currentBlock = await this.provider.getBlockNumber();
       
-      logger.debug({
+      metrics.headLag.set({ auction: this.auctionAddress }, this.indexer.getLag());
+      
+      this.logger.debug({
         batchId: this.currentBatchId,
         state: BatchState[state],
         currentBlock,
@@ -123,7 +153,7 @@ export class BatchMonitor {
       }
       
     } catch (error) {
-      logger.error({ error }, 'Error checking batch state');
+      this.logger.error({ error }, 'Error checking batch state');
     }
   }
   
@@ -131,10 +161,10 @@ export class BatchMonitor {
    * Called when batch enters revealing state
    */
   private async onBatchRevealing(batchId: number, currentBlock: number): Promise<void> {
-    const batch = db.getBatch(batchId);
+    const batch = await db.getBatch(this.auctionAddress, batchId);
     
     if (!batch) {
-      logger.warn({ batchId }, 'Batch not found in database');
+      this.logger.warn({ batchId }, 'Batch not found in database');
       return;
     }
     
@@ -142,26 +172,51 @@ export class BatchMonitor {
       return; // Already settled
     }
     
+    await this.checkStuck(batchId, currentBlock);
+    
     // Wait for settlement delay blocks
-    const batch Info = await this.getBatchInfo(batchId);
-    const blocksSinceStart = currentBlock - batchInfo.startBlock;
+    const blocksRevealing = currentBlock - this.revealStartBlock(batch.startBlock);
     
-    if (blocksSinceStart >= config.settlementDelayBlocks) {
-      logger.info({ batchId, blocksSinceStart }, 'Batch ready for settlement');
+    if (blocksRevealing >= config.settlementDelayBlocks) {
+      this.logger.info({ batchId, blocksRevealing }, 'Batch ready for settlement');
       // Settlement will be triggered by the main loop
     }
   }
   
+  /**
+   * Alert when a batch stays in Revealing for more than `alertStuckBatchBlocks` blocks
+   */
+  private async checkStuck(batchId: number, currentBlock: number): Promise<void> {
+    // Counted from the first time this monitor saw the batch revealing
+    const since = this.revealingSince.get(batchId) ?? currentBlock;
+    this.revealingSince.set(batchId, since);
+    
+    const blocks = currentBlock - since;
+    
+    if (blocks > config.alertStuckBatchBlocks) {
+      await alerts.raise({
+        type: 'batch_stuck',
+        severity: 'warning',
+        scope: `${this.auctionAddress}:${batchId}`,
+        message: `Batch ${batchId} has been revealing for ${blocks} blocks without settlement`,
+        details: { auction: this.auctionAddress, batchId, revealingSince: since, currentBlock },
+      });
+    }
+  }
+  
   /**
    * Called when batch is settled
    */
   private async onBatchSettled(batchId: number): Promise<void> {
-    const batch = db.getBatch(batchId);
+    const batch = await db.getBatch(this.auctionAddress, batchId);
+    
+    this.revealingSince.delete(batchId);
     
     if (batch && !batch.settled) {
-      logger.info({ batchId }, 'Batch settled externally');
+      this.logger.info({ batchId }, 'Batch settled externally');
       // Mark as settled in database
-      db.markBatchSettled(batchId, '', '0', '');
+      // Details (and the settlement block) are filled in when the BatchSettled log is indexed
+      await db.markBatchSettled(this.auctionAddress, batchId, '', '', '');
     }
   }
   
@@ -176,8 +231,8 @@ export class BatchMonitor {
    * Get batch info by ID
    */
   async getBatchInfo(batchId: number): Promise<BatchInfo> {
-    const state = Number(await this.auction.getBatchState(batchId));
-    const batch = db.getBatch(batchId);
+    const state = await this.getBatchState(batchId);
+    const batch = await db.getBatch(this.auctionAddress, batchId);
     
     return {
       batchId,
@@ -187,19 +242,36 @@ export class BatchMonitor {
   }
   
   /**
-   * Check if batch is ready for settlement
+   * Read a batch's state, with quorum across RPC endpoints when configured
+   */
+  private async getBatchState(batchId: number): Promise<BatchState> {
+    return quorumRead(this.provider, async provider =>
+      Number(await (this.auction.connect(provider) as Contract).getBatchState(batchId))
+    );
+  }
+  
+  /**
+   * First block of a batch's reveal phase under the cached batchDuration
+   * BatchAuction reports Revealing once block.number > lastBatchBlock + batchDuration.
+   */
+  revealStartBlock(startBlock: number): number {
+    return startBlock + this.parameters.get().batchDuration + 1;
+  }
+  
+  /**
+   * Check if batch is ready for settlement: revealing for at least `settlementDelayBlocks` blocks,
+   * which gives traders time to reveal
    */
   async isReadyForSettlement(batchId: number): Promise<boolean> {
-    const info = await this.getBatchInfo(batchId);
+    const startBlock = (await db.getBatch(this.auctionAddress, batchId))?.startBlock || 0;
+    const currentBlock = await this.provider.getBlockNumber();
     
-    if (info.state !== BatchState.Revealing) {
+    // No need to ask the chain about batches still committing
+    if (currentBlock - this.revealStartBlock(startBlock) < config.settlementDelayBlocks) {
       return false;
     }
     
-    const currentBlock = await this.provider.getBlockNumber();
-    const blocksSinceStart = currentBlock - info.startBlock;
-    
-    return blocksSinceStart >= config.settlementDelayBlocks;
+    return (await this.getBatchState(batchId)) === BatchState.Revealing;
   }
   
   /**
@@ -210,7 +282,7 @@ export class BatchMonitor {
       await this.provider.getBlockNumber();
       return true;
     } catch (error) {
-      logger.error({ error }, 'Health check failed');
+      this.logger.error({ error }, 'Health check failed');
       return false;
     }
   }
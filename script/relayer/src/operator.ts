@@ -0,0 +1,331 @@
+import { Contract } from 'ethers';
+import { config } from './config';
+import { db, initializeDatabase, Batch, CleanupSummary, Fill, LeaseRecord, Order, OrderProof, Settlement, SettlementReport, RevealStats } from './db';
+import { createProvider, FailoverProvider } from './provider';
+import { connectRelayer, RelayerConnection } from './runtime';
+import { EventIndexer, checkpointBlock } from './indexer';
+import { OrderAggregator } from './aggregator';
+import { SettlementService } from './settlement';
+import { AuctionPipeline } from './pipeline';
+import { BatchState } from './monitor';
+import { Lease, leaseOwner, LeaseHeldError, RELAYER_LEASE, SETTLEMENT_LEASE } from './lease';
+import { AuctionParameterCache, AuctionParameters, readAuctionParameters } from './parameters';
+
+const BATCH_AUCTION_ABI = [
+  'function getCurrentBatchId() external view returns (uint256)',
+  'function getBatchState(uint256 batchId) external view returns (uint8)',
+];
+
+const PAGE_SIZE = 500;
+
+/**
+ * Thrown for operator requests that cannot be carried out
+ */
+export class OperatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OperatorError';
+  }
+}
+
+export interface AuctionStatus {
+  auction: string;
+  currentBatch: { batchId: number; state: string; startBlock: number | null };
+  parameters: AuctionParameters;
+  indexer: { processedBlock: number | null; lag: number | null };
+  unsettledBatches: number[];
+  pendingSettlements: number[];
+}
+
+export interface RelayerStatus {
+  network: string;
+  chainId: number;
+  headBlock: number;
+  // Leases show whether a relayer is running and whether anything is settling
+  relayer: LeaseRecord | null;
+  settlement: LeaseRecord | null;
+  auctions: AuctionStatus[];
+}
+
+export interface BatchDetail {
+  batch: Batch;
+  state: string;
+  revealStats: RevealStats;
+  orders: Order[];
+  fills: Fill[];
+  settlements: Settlement[];
+}
+
+export interface SettleResult {
+  auction: string;
+  batchId: number;
+  settled: boolean;
+  txHash: string | null;
+}
+
+export interface ReplayResult {
+  auction: string;
+  fromBlock: number;
+  lag: number;
+}
+
+/**
+ * Operations run from the command line, against the same database and chain as the relayer
+ *
+ * Commands that send transactions or rewrite indexed state take the leases the relayer
+ * service holds, so they never race a running relayer.
+ */
+export class RelayerOperator {
+  private owner = leaseOwner('cli');
+  private provider?: FailoverProvider;
+  private connection?: RelayerConnection;
+
+  async open(): Promise<void> {
+    await initializeDatabase();
+  }
+
+  async close(): Promise<void> {
+    (this.connection?.provider ?? this.provider)?.destroy();
+    await db.close();
+  }
+
+  /**
+   * Current batch, indexer lag and pending work of each auction
+   */
+  async status(auction?: string): Promise<RelayerStatus> {
+    const provider = this.getProvider();
+    const headBlock = await provider.getBlockNumber();
+    const auctions: AuctionStatus[] = [];
+
+    for (const address of await this.resolveAuctions(auction)) {
+      const contract = new Contract(address, BATCH_AUCTION_ABI, provider);
+      const batchId = Number(await contract.getCurrentBatchId());
+      const state: number = Number(await contract.getBatchState(batchId));
+      const checkpoint = await db.getCheckpoint(`auction:${address}`);
+      const processedBlock = checkpoint ? checkpointBlock(checkpoint) : null;
+
+      auctions.push({
+        auction: address,
+        currentBatch: {
+          batchId,
+          state: BatchState[state] ?? String(state),
+          startBlock: (await db.getBatch(address, batchId))?.startBlock ?? null,
+        },
+        parameters: await readAuctionParameters(provider, address, headBlock),
+        indexer: {
+          processedBlock,
+          lag: processedBlock === null ? null : Math.max(0, headBlock - processedBlock),
+        },
+        unsettledBatches: (await db.getUnsettledBatches(address)).map(batch => batch.batchId),
+        pendingSettlements: await db.getPendingSettlementBatches(address),
+      });
+    }
+
+    return {
+      network: config.network,
+      chainId: config.chainId,
+      headBlock,
+      relayer: await db.getLease(RELAYER_LEASE),
+      settlement: await db.getLease(SETTLEMENT_LEASE),
+      auctions,
+    };
+  }
+
+  /**
+   * A batch with its on-chain state, orders, fills and settlement attempts
+   */
+  async showBatch(batchId: number, auction?: string): Promise<BatchDetail> {
+    const address = await this.resolveAuction(auction);
+    const batch = await this.getBatch(address, batchId);
+    const contract = new Contract(address, BATCH_AUCTION_ABI, this.getProvider());
+    const state = Number(await contract.getBatchState(batchId));
+
+    return {
+      batch,
+      state: BatchState[state] ?? String(state),
+      revealStats: await db.getRevealStats(address, batchId),
+      orders: await this.listOrders(batchId, address),
+      fills: await this.listAll(page => db.listFills({ auction: address, batchId }, page)),
+      settlements: await this.listAll(page => db.listSettlements({ auction: address, batchId }, page)),
+    };
+  }
+
+  /**
+   * Every order indexed for a batch
+   */
+  async listOrders(batchId: number, auction?: string): Promise<Order[]> {
+    const address = await this.resolveAuction(auction);
+    return this.listAll(page => db.listOrders({ auction: address, batchId }, page));
+  }
+
+  /**
+   * A trader's fills, newest first, across every auction unless one is given
+   */
+  async listFills(trader: string, auction?: string): Promise<Fill[]> {
+    const address = auction ? await this.resolveAuction(auction) : undefined;
+    return this.listAll(page => db.listFills({ auction: address, trader }, page));
+  }
+
+  /**
+   * Merkle proof recorded when an order's batch was settled
+   */
+  async getProof(orderHash: string, auction?: string): Promise<OrderProof> {
+    const matches = await this.listAll(page => db.listOrders({ auction, orderHash }, page));
+
+    if (matches.length === 0) {
+      throw new OperatorError(`Order ${orderHash} not found`);
+    }
+
+    if (matches.length > 1) {
+      throw new OperatorError(`Order ${orderHash} exists in several auctions, pick one with --auction`);
+    }
+
+    const [order] = matches;
+    const proof = await db.getOrderProof(order.auction, order.orderHash);
+
+    if (!proof) {
+      throw new OperatorError(`Order ${orderHash} has no settlement proof`);
+    }
+
+    return proof;
+  }
+
+  /**
+   * Settle a batch now, or with `dryRun` simulate the settlement against the latest block
+   * @throws LeaseHeldError if the relayer is settling at the same time
+   */
+  async settle(batchId: number, options: { auction?: string; dryRun?: boolean } = {}): Promise<SettleResult | SettlementReport> {
+    const address = await this.resolveAuction(options.auction);
+    const connection = await this.connect();
+    const lease = new Lease(SETTLEMENT_LEASE, this.owner);
+    const settlement = await this.createSettlementService(connection, address, lease);
+
+    if (options.dryRun) {
+      return settlement.simulateSettlement(batchId, 'latest', config.dryRunFrom || connection.address);
+    }
+
+    if (config.dryRun) {
+      throw new OperatorError('The relayer is configured for dry runs (DRY_RUN), use settle --dry-run');
+    }
+
+    await this.getBatch(address, batchId);
+
+    // Same account and nonces as the relayer, so never alongside its settlement loop
+    return lease.run(async () => {
+      await settlement.resumePendingSettlements();
+      const txHash = await settlement.settleBatch(batchId);
+
+      return { auction: address, batchId, settled: txHash !== null, txHash };
+    });
+  }
+
+  /**
+   * Delete settled state older than a number of days
+   */
+  async cleanup(olderThanDays: number): Promise<CleanupSummary> {
+    return db.cleanup(olderThanDays);
+  }
+
+  /**
+   * Roll back and re-index auction events from a block
+   * @throws OperatorError while a relayer is running, since it indexes the same auctions
+   */
+  async replay(fromBlock: number, auction?: string): Promise<ReplayResult[]> {
+    const auctions = await this.resolveAuctions(auction);
+    const lease = new Lease(RELAYER_LEASE, this.owner);
+
+    try {
+      await lease.acquireOrThrow();
+    } catch (error) {
+      if (error instanceof LeaseHeldError) {
+        throw new OperatorError(`A relayer is running (${error.holder.owner}), stop it before replaying`);
+      }
+      throw error;
+    }
+
+    try {
+      const connection = await this.connect();
+      const results: ReplayResult[] = [];
+      // Replaying only indexes, so the settlement lease is never taken
+      const settlementLease = new Lease(SETTLEMENT_LEASE, this.owner);
+
+      for (const address of auctions) {
+        const pipeline = new AuctionPipeline(connection.provider, connection.signer, connection.txManager, settlementLease, address);
+        await pipeline.start(fromBlock);
+        await pipeline.stop();
+
+        results.push({ auction: address, fromBlock, lag: pipeline.getIndexerLag(await connection.provider.getBlockNumber()) });
+      }
+
+      return results;
+    } finally {
+      await lease.release();
+    }
+  }
+
+  /**
+   * Auctions a command applies to: the one given, BATCH_AUCTION_ADDRESS, or every known auction
+   */
+  private async resolveAuctions(auction?: string): Promise<string[]> {
+    const selected = auction ?? config.batchAuctionAddress;
+
+    if (selected) {
+      return [selected.toLowerCase()];
+    }
+
+    return (await db.getAuctions()).map(a => a.address);
+  }
+
+  private async resolveAuction(auction?: string): Promise<string> {
+    const auctions = await this.resolveAuctions(auction);
+
+    if (auctions.length !== 1) {
+      throw new OperatorError(auctions.length === 0
+        ? 'No auctions indexed yet, pass --auction'
+        : `${auctions.length} auctions are indexed, pick one with --auction`);
+    }
+
+    return auctions[0];
+  }
+
+  private async getBatch(auction: string, batchId: number): Promise<Batch> {
+    const batch = await db.getBatch(auction, batchId);
+
+    if (!batch) {
+      throw new OperatorError(`Batch ${batchId} of ${auction} not found`);
+    }
+
+    return batch;
+  }
+
+  private async createSettlementService(connection: RelayerConnection, auction: string, lease: Lease): Promise<SettlementService> {
+    // Orders come from the database the relayer indexes into, so the indexer is never started
+    const indexer = new EventIndexer(connection.provider, `auction:${auction}`, auction, { startBlock: 0 });
+    const parameters = new AuctionParameterCache(connection.provider, auction, indexer);
+    await parameters.refresh();
+    const aggregator = new OrderAggregator(connection.provider, auction, indexer, parameters);
+
+    return new SettlementService(connection.provider, connection.signer, auction, aggregator, connection.txManager, parameters, lease);
+  }
+
+  private getProvider(): FailoverProvider {
+    return this.connection?.provider ?? (this.provider ??= createProvider());
+  }
+
+  private async connect(): Promise<RelayerConnection> {
+    return this.connection ??= await connectRelayer();
+  }
+
+  private async listAll<T>(list: (page: { limit: number; offset: number }) => Promise<{ items: T[]; total: number }>): Promise<T[]> {
+    const items: T[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await list({ limit: PAGE_SIZE, offset });
+      items.push(...page.items);
+
+      if (items.length >= page.total || page.items.length === 0) {
+        return items;
+      }
+    }
+  }
+}
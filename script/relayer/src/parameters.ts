@@ -0,0 +1,146 @@
+import { ethers, Contract } from 'ethers';
+import { logger as rootLogger } from './logger';
+import { EventIndexer, IndexedEvent } from './indexer';
+
+// Minimal ABI for BatchAuction parameters
+const BATCH_AUCTION_ABI = [
+  'function batchDuration() external view returns (uint256)',
+  'function minOrderSize() external view returns (uint128)',
+  'function maxPriceDeviationBps() external view returns (uint16)',
+  'function feeBps() external view returns (uint24)',
+  'event ParametersUpdated(uint256 batchDuration, uint128 minOrderSize, uint16 maxPriceDeviationBps, uint24 feeBps)',
+];
+
+/**
+ * Auction parameters governance can change through `updateParameters`
+ */
+export interface AuctionParameters {
+  // Blocks a batch accepts commitments for
+  batchDuration: number;
+  minOrderSize: bigint;
+  // Tolerance between the submitted and the contract's reference clearing price
+  maxPriceDeviationBps: number;
+  feeBps: number;
+  // Block the values were read at
+  blockNumber: number;
+}
+
+/**
+ * Read an auction's parameters, all at one block
+ */
+export async function readAuctionParameters(
+  provider: ethers.Provider,
+  auctionAddress: string,
+  blockTag: ethers.BlockTag = 'latest'
+): Promise<AuctionParameters> {
+  const auction = new Contract(auctionAddress, BATCH_AUCTION_ABI, provider);
+  const blockNumber = typeof blockTag === 'number' ? blockTag : await provider.getBlockNumber();
+  const overrides = { blockTag: blockNumber };
+
+  const [batchDuration, minOrderSize, maxPriceDeviationBps, feeBps] = await Promise.all([
+    auction.batchDuration(overrides),
+    auction.minOrderSize(overrides),
+    auction.maxPriceDeviationBps(overrides),
+    auction.feeBps(overrides),
+  ]);
+
+  return {
+    batchDuration: Number(batchDuration),
+    minOrderSize,
+    maxPriceDeviationBps: Number(maxPriceDeviationBps),
+    feeBps: Number(feeBps),
+    blockNumber,
+  };
+}
+
+/**
+ * JSON-safe view of parameters, for status output
+ */
+export function formatParameters(parameters: AuctionParameters): Record<string, number | string> {
+  return { ...parameters, minOrderSize: parameters.minOrderSize.toString() };
+}
+
+/**
+ * Cached parameters of one auction, refreshed whenever `ParametersUpdated` is indexed
+ */
+export class AuctionParameterCache {
+  private provider: ethers.JsonRpcProvider;
+  private auctionAddress: string;
+  private logger: typeof rootLogger;
+  private indexer: EventIndexer;
+  private parameters: AuctionParameters | null = null;
+
+  constructor(provider: ethers.JsonRpcProvider, auctionAddress: string, indexer: EventIndexer) {
+    this.provider = provider;
+    this.auctionAddress = auctionAddress.toLowerCase();
+    this.logger = rootLogger.child({ auction: this.auctionAddress });
+    this.indexer = indexer;
+  }
+
+  /**
+   * Load the current parameters and follow updates
+   */
+  async start(): Promise<void> {
+    await this.refresh();
+
+    const events = new ethers.Interface(BATCH_AUCTION_ABI);
+    this.indexer.on(events.getEvent('ParametersUpdated')!, this.handleParametersUpdated.bind(this));
+  }
+
+  /**
+   * Currently active parameters
+   * @throws Error before start() has loaded them
+   */
+  get(): AuctionParameters {
+    if (!this.parameters) {
+      throw new Error(`Parameters of auction ${this.auctionAddress} are not loaded`);
+    }
+
+    return this.parameters;
+  }
+
+  /**
+   * Active parameters, or null if they are not loaded yet
+   */
+  peek(): AuctionParameters | null {
+    return this.parameters;
+  }
+
+  /**
+   * Re-read the parameters from the latest block
+   */
+  async refresh(): Promise<AuctionParameters> {
+    const parameters = await readAuctionParameters(this.provider, this.auctionAddress);
+    const previous = this.parameters;
+
+    // Never go back to values read at an older block
+    if (previous && previous.blockNumber > parameters.blockNumber) {
+      return previous;
+    }
+
+    this.parameters = parameters;
+
+    if (!previous || !sameParameters(previous, parameters)) {
+      this.logger.info(formatParameters(parameters), previous ? 'Auction parameters updated' : 'Auction parameters loaded');
+    }
+
+    return parameters;
+  }
+
+  /**
+   * Handle parameters update event
+   */
+  private async handleParametersUpdated({ log }: IndexedEvent): Promise<void> {
+    // Backfilled and confirmed events can be older than the values already cached, so the
+    // event only triggers a read of the latest values instead of providing them
+    this.logger.debug({ blockNumber: log.blockNumber }, 'ParametersUpdated indexed');
+    await this.refresh();
+  }
+}
+
+function sameParameters(a: AuctionParameters, b: AuctionParameters): boolean {
+  return a.batchDuration === b.batchDuration &&
+    a.minOrderSize === b.minOrderSize &&
+    a.maxPriceDeviationBps === b.maxPriceDeviationBps &&
+    a.feeBps === b.feeBps;
+}
@@ -0,0 +1,235 @@
+import { ethers, Contract } from 'ethers';
+import { logger as rootLogger } from './logger';
+import { config } from './config';
+import { db } from './db';
+import { OrderAggregator } from './aggregator';
+import { SettlementPreview, SettlementService } from './settlement';
+import { BatchMonitor } from './monitor';
+import { EventIndexer } from './indexer';
+import { TransactionManager } from './txmanager';
+import { DryRunService } from './dryrun';
+import { RelayerSigner } from './signer';
+import { AuctionParameterCache, AuctionParameters } from './parameters';
+import { Lease } from './lease';
+
+const RELAYER_ROLE = ethers.id('RELAYER_ROLE');
+
+/**
+ * Indexer, aggregator, monitor and settlement service for a single auction
+ */
+export class AuctionPipeline {
+  readonly auctionAddress: string;
+  private provider: ethers.JsonRpcProvider;
+  private signer: RelayerSigner;
+  private txManager: TransactionManager;
+  private settlementLease: Lease;
+  private logger: typeof rootLogger;
+  private indexer!: EventIndexer;
+  private parameters!: AuctionParameterCache;
+  private aggregator!: OrderAggregator;
+  private settlement!: SettlementService;
+  private monitor!: BatchMonitor;
+  private dryRun?: DryRunService;
+  private isRunning: boolean = false;
+
+  constructor(
+    provider: ethers.JsonRpcProvider,
+    signer: RelayerSigner,
+    txManager: TransactionManager,
+    settlementLease: Lease,
+    auctionAddress: string
+  ) {
+    this.provider = provider;
+    this.signer = signer;
+    this.txManager = txManager;
+    this.settlementLease = settlementLease;
+    this.auctionAddress = auctionAddress.toLowerCase();
+    this.logger = rootLogger.child({ auction: this.auctionAddress });
+  }
+
+  /**
+   * Create the components and backfill the auction's events
+   * @param replayFrom Block to process events from again, rolling back state derived from them first
+   */
+  async start(replayFrom?: number): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.indexer = new EventIndexer(this.provider, `auction:${this.auctionAddress}`, this.auctionAddress, {
+      startBlock: await this.getIndexerStartBlock(),
+    });
+    this.parameters = new AuctionParameterCache(this.provider, this.auctionAddress, this.indexer);
+    this.aggregator = new OrderAggregator(this.provider, this.auctionAddress, this.indexer, this.parameters);
+    this.settlement = new SettlementService(this.provider, this.signer, this.auctionAddress, this.aggregator, this.txManager,
+      this.parameters, this.settlementLease);
+    this.monitor = new BatchMonitor(this.provider, this.auctionAddress, this.indexer, this.parameters);
+    
+    if (config.dryRun) {
+      this.dryRun = new DryRunService(this.provider, this.auctionAddress, this.settlement, this.monitor,
+        config.dryRunFrom || await this.signer.getAddress());
+    }
+
+    // Roll back state derived from reorged blocks before they are re-indexed
+    this.indexer.onReorg(async (forkBlock) => {
+      const summary = await db.rollbackFromBlock(this.auctionAddress, forkBlock);
+      this.logger.warn({ forkBlock, ...summary }, 'Rolled back reorged state');
+      
+      // A parameter update may have been reorged out too
+      await this.parameters.refresh();
+    });
+
+    this.isRunning = true;
+
+    try {
+      await this.parameters.start();
+      await this.aggregator.start();
+      await this.monitor.start();
+
+      if (replayFrom !== undefined) {
+        await this.indexer.rewind(replayFrom);
+      }
+
+      // Backfill missed events, then tail new blocks
+      await this.indexer.start();
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    this.logger.info('Auction pipeline started');
+  }
+
+  /**
+   * Stop all components
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+
+    await this.indexer.stop();
+    await this.aggregator.stop();
+    await this.monitor.stop();
+
+    this.logger.info('Auction pipeline stopped');
+  }
+
+  /**
+   * Check for batches ready for settlement and settle them
+   */
+  async checkAndSettleBatches(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    // Fills are only reconciled once the settlement they belong to can no longer be reorged
+    try {
+      await this.aggregator.reconcileFinalSettlements();
+    } catch (error) {
+      this.logger.error({ error }, 'Error reconciling settled fills');
+    }
+
+    // Shadow mode simulates settlements instead of sending them
+    if (this.dryRun) {
+      try {
+        await this.dryRun.run();
+      } catch (error) {
+        this.logger.error({ error }, 'Error in dry run loop');
+      }
+      return;
+    }
+    
+    try {
+      // Transactions left pending by a restart or reorg go first
+      await this.settlement.resumePendingSettlements();
+      
+      // Get unsettled batches from database
+      const unsettledBatches = await db.getUnsettledBatches(this.auctionAddress);
+
+      for (const batch of unsettledBatches) {
+        // Check if batch is ready for settlement
+        const isReady = await this.monitor.isReadyForSettlement(batch.batchId);
+
+        if (isReady) {
+          this.logger.info({ batchId: batch.batchId }, 'Attempting settlement');
+
+          // Attempt settlement
+          const txHash = await this.settlement.settleBatch(batch.batchId);
+
+          if (txHash) {
+            this.logger.info({ batchId: batch.batchId, txHash }, 'Batch settled successfully');
+          } else {
+            this.logger.warn({ batchId: batch.batchId }, 'Settlement failed or skipped');
+          }
+        }
+      }
+
+    } catch (error) {
+      this.logger.error({ error }, 'Error in settlement loop');
+    }
+  }
+
+  /**
+   * Settle one batch now, without waiting for the settlement loop
+   */
+  async settleBatch(batchId: number): Promise<string | null> {
+    if (!this.isRunning) {
+      return null;
+    }
+    
+    await this.settlement.resumePendingSettlements();
+    return this.settlement.settleBatch(batchId);
+  }
+  
+  /**
+   * Clearing data the relayer would settle a batch with right now
+   */
+  async previewSettlement(batchId: number): Promise<SettlementPreview | null> {
+    return this.isRunning ? this.settlement.previewSettlement(batchId) : null;
+  }
+  
+  /**
+   * Auction parameters the pipeline currently schedules, validates and clears with
+   */
+  getParameters(): AuctionParameters | null {
+    return this.isRunning ? this.parameters.peek() : null;
+  }
+  
+  /**
+   * Health check
+   */
+  async healthCheck(): Promise<boolean> {
+    return this.isRunning && this.monitor.healthCheck();
+  }
+  
+  /**
+   * Blocks between a head block and the last block indexed for this auction
+   */
+  getIndexerLag(headBlock: number): number {
+    return Math.max(0, headBlock - this.indexer.getProcessedBlock());
+  }
+  
+  /**
+   * Whether an account holds RELAYER_ROLE on this auction
+   */
+  async hasRelayerRole(account: string): Promise<boolean> {
+    const auction = new Contract(this.auctionAddress, ['function hasRole(bytes32 role, address account) external view returns (bool)'], this.provider);
+    return auction.hasRole(RELAYER_ROLE, account);
+  }
+
+  /**
+   * Block to index from when no checkpoint exists yet
+   */
+  private async getIndexerStartBlock(): Promise<number> {
+    if (config.indexerStartBlock !== undefined) {
+      return config.indexerStartBlock;
+    }
+
+    // Default to the start of the current batch
+    const auction = new Contract(this.auctionAddress, ['function lastBatchBlock() external view returns (uint256)'], this.provider);
+    return Number(await auction.lastBatchBlock());
+  }
+}
@@ -0,0 +1,367 @@
+import { ethers, FetchRequest, JsonRpcPayload, JsonRpcProvider, JsonRpcResult, Network } from 'ethers';
+import { logger } from './logger';
+import { config } from './config';
+import { metrics } from './metrics';
+
+// Number of recent requests the error rate is computed over
+const OUTCOME_WINDOW = 20;
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_ALPHA = 0.2;
+
+// Consecutive failures after which an endpoint is skipped until a probe succeeds
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+// Error rate above which an endpoint counts as unhealthy
+const MAX_ERROR_RATE = 0.5;
+
+export interface FailoverOptions {
+  urls: string[];
+  chainId: number;
+  quorum?: number;
+  maxHeadLag?: number;
+  timeoutMs?: number;
+  probeIntervalMs?: number;
+}
+
+export interface EndpointHealth {
+  index: number;
+  host: string;
+  active: boolean;
+  healthy: boolean;
+  latencyMs: number;
+  errorRate: number;
+  headBlock: number;
+  headLag: number;
+  consecutiveFailures: number;
+  lastError?: string;
+}
+
+interface Endpoint {
+  index: number;
+  host: string;
+  provider: JsonRpcProvider;
+  latencyMs: number;
+  outcomes: boolean[];
+  consecutiveFailures: number;
+  headBlock: number;
+  lastError?: string;
+}
+
+/**
+ * JSON-RPC provider that spreads requests over an ordered list of endpoints
+ *
+ * Requests go to the first healthy endpoint in configuration order and fail over to the
+ * next one on transport errors. Each endpoint is scored on latency, error rate and how far
+ * its head lags behind the best endpoint; a periodic probe keeps the scores fresh and lets
+ * a recovered primary take over again.
+ */
+export class FailoverProvider extends JsonRpcProvider {
+  private endpoints: Endpoint[];
+  private quorum: number;
+  private maxHeadLag: number;
+  private probeTimer?: NodeJS.Timeout;
+  private activeIndex: number = 0;
+
+  constructor(options: FailoverOptions) {
+    if (options.urls.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+
+    // Unbatched, so every request is timed and labelled by its own method
+    super(options.urls[0], undefined, { batchMaxCount: 1 });
+
+    this.quorum = Math.max(1, Math.min(options.quorum ?? 1, options.urls.length));
+    this.maxHeadLag = options.maxHeadLag ?? 5;
+
+    // Endpoints share the expected network so they never issue their own eth_chainId calls
+    const network = Network.from(options.chainId);
+    this.endpoints = options.urls.map((url, index) => {
+      const request = new FetchRequest(url);
+      request.timeout = options.timeoutMs ?? 10000;
+
+      return {
+        index,
+        host: endpointHost(url),
+        provider: new JsonRpcProvider(request, network, { staticNetwork: network, batchMaxCount: 1 }),
+        latencyMs: 0,
+        outcomes: [],
+        consecutiveFailures: 0,
+        headBlock: 0,
+      };
+    });
+
+    const probeIntervalMs = options.probeIntervalMs ?? 0;
+    if (probeIntervalMs > 0) {
+      this.probeTimer = setInterval(() => this.probe(), probeIntervalMs);
+      this.probeTimer.unref();
+    }
+  }
+
+  /**
+   * Send a raw payload through the best endpoint, failing over on transport errors
+   */
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    let lastError: unknown;
+
+    for (const endpoint of this.rankEndpoints()) {
+      const started = Date.now();
+      const labels = { method: payloadMethod(payload), endpoint: endpoint.host };
+
+      try {
+        const result = await endpoint.provider._send(payload);
+        this.recordSuccess(endpoint, Date.now() - started);
+        metrics.rpcDuration.observe({ ...labels, outcome: 'success' }, (Date.now() - started) / 1000);
+        this.setActive(endpoint);
+        return result;
+      } catch (error) {
+        lastError = error;
+        this.recordFailure(endpoint, error);
+        metrics.rpcDuration.observe({ ...labels, outcome: 'error' }, (Date.now() - started) / 1000);
+        logger.warn({ endpoint: endpoint.index, host: endpoint.host, error: errorMessage(error) }, 'RPC endpoint failed, failing over');
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Run a read against several endpoints and only accept a result enough of them agree on
+   * @param read Read to perform with an endpoint's provider
+   * @returns The value returned by at least `quorum` endpoints
+   */
+  async quorumRead<T>(read: (provider: JsonRpcProvider) => Promise<T>): Promise<T> {
+    if (this.quorum <= 1) {
+      return read(this);
+    }
+
+    const candidates = this.rankEndpoints();
+    const votes = new Map<string, { value: T; count: number }>();
+    let lastError: unknown;
+
+    for (const endpoint of candidates) {
+      const started = Date.now();
+
+      try {
+        const value = await read(endpoint.provider);
+        this.recordSuccess(endpoint, Date.now() - started);
+
+        const key = String(value);
+        const vote = votes.get(key) || { value, count: 0 };
+        vote.count++;
+        votes.set(key, vote);
+
+        if (vote.count >= this.quorum) {
+          return vote.value;
+        }
+      } catch (error) {
+        lastError = error;
+        this.recordFailure(endpoint, error);
+      }
+    }
+
+    logger.error({
+      quorum: this.quorum,
+      results: [...votes.values()].map(v => ({ value: String(v.value), count: v.count })),
+    }, 'RPC quorum not reached');
+
+    throw lastError || new Error(`RPC quorum of ${this.quorum} not reached`);
+  }
+
+  /**
+   * Refresh head block, latency and availability of every endpoint
+   */
+  async probe(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const started = Date.now();
+
+      try {
+        endpoint.headBlock = await endpoint.provider.getBlockNumber();
+        this.recordSuccess(endpoint, Date.now() - started);
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+      }
+    }));
+  }
+
+  /**
+   * Current score of every endpoint, in configuration order
+   */
+  getHealth(): EndpointHealth[] {
+    const bestHead = this.getBestHead();
+
+    return this.endpoints.map(endpoint => ({
+      index: endpoint.index,
+      host: endpoint.host,
+      active: endpoint.index === this.activeIndex,
+      healthy: this.isEndpointHealthy(endpoint, bestHead),
+      latencyMs: Math.round(endpoint.latencyMs),
+      errorRate: errorRate(endpoint),
+      headBlock: endpoint.headBlock,
+      headLag: endpoint.headBlock > 0 ? bestHead - endpoint.headBlock : 0,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastError: endpoint.lastError,
+    }));
+  }
+
+  /**
+   * Whether at least one endpoint is usable
+   */
+  isHealthy(): boolean {
+    return this.getHealth().some(endpoint => endpoint.healthy);
+  }
+
+  /**
+   * Stop probing and release every endpoint
+   */
+  destroy(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+
+    super.destroy();
+  }
+
+  /**
+   * Healthy endpoints in configuration order, then the rest from best to worst score
+   */
+  private rankEndpoints(): Endpoint[] {
+    const bestHead = this.getBestHead();
+    const healthy = this.endpoints.filter(endpoint => this.isEndpointHealthy(endpoint, bestHead));
+    const unhealthy = this.endpoints
+      .filter(endpoint => !this.isEndpointHealthy(endpoint, bestHead))
+      .sort((a, b) => score(a, bestHead) - score(b, bestHead));
+
+    return [...healthy, ...unhealthy];
+  }
+
+  private isEndpointHealthy(endpoint: Endpoint, bestHead: number): boolean {
+    if (endpoint.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES || errorRate(endpoint) > MAX_ERROR_RATE) {
+      return false;
+    }
+
+    return endpoint.headBlock === 0 || bestHead - endpoint.headBlock <= this.maxHeadLag;
+  }
+
+  private getBestHead(): number {
+    return Math.max(0, ...this.endpoints.map(endpoint => endpoint.headBlock));
+  }
+
+  private setActive(endpoint: Endpoint): void {
+    if (endpoint.index === this.activeIndex) {
+      return;
+    }
+
+    logger.warn({
+      from: this.endpoints[this.activeIndex].host,
+      to: endpoint.host,
+      endpoint: endpoint.index,
+    }, 'Active RPC endpoint changed');
+
+    this.activeIndex = endpoint.index;
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === 0
+      ? latencyMs
+      : endpoint.latencyMs * (1 - LATENCY_ALPHA) + latencyMs * LATENCY_ALPHA;
+    endpoint.consecutiveFailures = 0;
+    pushOutcome(endpoint, true);
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown): void {
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = errorMessage(error);
+    pushOutcome(endpoint, false);
+  }
+}
+
+/**
+ * Build the relayer's provider from configuration
+ */
+export function createProvider(): FailoverProvider {
+  return new FailoverProvider({
+    urls: config.rpcUrls,
+    chainId: config.chainId,
+    quorum: config.rpcQuorum,
+    maxHeadLag: config.rpcMaxHeadLag,
+    timeoutMs: config.rpcTimeoutMs,
+    probeIntervalMs: config.rpcProbeIntervalMs,
+  });
+}
+
+/**
+ * Perform a critical read with quorum when the provider supports it
+ */
+export async function quorumRead<T>(
+  provider: ethers.Provider,
+  read: (provider: ethers.Provider) => Promise<T>
+): Promise<T> {
+  if (provider instanceof FailoverProvider) {
+    return provider.quorumRead(read);
+  }
+
+  return read(provider);
+}
+
+/**
+ * Method of a request, or "batch" for a batch of several
+ */
+function payloadMethod(payload: JsonRpcPayload | Array<JsonRpcPayload>): string {
+  if (!Array.isArray(payload)) {
+    return payload.method;
+  }
+
+  return payload.length === 1 ? payload[0].method : 'batch';
+}
+
+function pushOutcome(endpoint: Endpoint, success: boolean): void {
+  endpoint.outcomes.push(success);
+
+  if (endpoint.outcomes.length > OUTCOME_WINDOW) {
+    endpoint.outcomes.shift();
+  }
+}
+
+function errorRate(endpoint: Endpoint): number {
+  if (endpoint.outcomes.length === 0) {
+    return 0;
+  }
+
+  return endpoint.outcomes.filter(success => !success).length / endpoint.outcomes.length;
+}
+
+/**
+ * Lower is better: a 5% error rate weighs like a second of latency or ten blocks of lag
+ */
+function score(endpoint: Endpoint, bestHead: number): number {
+  const lag = endpoint.headBlock > 0 ? bestHead - endpoint.headBlock : 0;
+  return errorRate(endpoint) * OUTCOME_WINDOW * 1000 + endpoint.latencyMs + lag * 100;
+}
+
+/**
+ * Readable message of a thrown value, preferring ethers' short message without request details
+ */
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return (error as Error & { shortMessage?: string }).shortMessage || error.message;
+  }
+
+  return String(error);
+}
+
+/**
+ * Host part of an RPC URL, so API keys in paths or query strings never reach logs or metrics
+ */
+function endpointHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid-url';
+  }
+}
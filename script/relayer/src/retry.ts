@@ -98,6 +98,6 @@ function isRetryableError(error: any): boolean {
 /**
  * Sleep for a specified duration
  */
-function sleep(ms: number): Promise<void> {
+export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -0,0 +1,187 @@
+import { ethers, Interface, isError } from 'ethers';
+import { logger } from './logger';
+import { ORDER_TUPLE, OrderStruct, hashCommitment, hashOrder } from './encoding';
+
+const REVEAL_ABI = [
+  `function revealOrder(${ORDER_TUPLE} order, bytes32 salt) external`,
+];
+
+// Order is a static tuple, so revealOrder arguments are always 6 words
+const REVEAL_ARGS_LENGTH = 6 * 32;
+
+// JSON-RPC codes for a method the node does not serve: not found, not supported
+const UNSUPPORTED_METHOD_CODES = [-32601, -32004];
+
+export type RevealSource = 'calldata' | 'embedded' | 'trace';
+
+export interface DecodedReveal {
+  order: OrderStruct;
+  salt: string;
+  commitment: string;
+  orderHash: string;
+  source: RevealSource;
+}
+
+interface CallFrame {
+  to?: string;
+  input?: string;
+  calls?: CallFrame[];
+}
+
+/**
+ * Recovers revealed order contents from the transaction behind an OrderRevealed log
+ */
+export class RevealDecoder {
+  private provider: ethers.JsonRpcProvider;
+  private auctionAddress: string;
+  private iface: Interface;
+  private selector: string;
+  private traceSupported: boolean = true;
+
+  constructor(provider: ethers.JsonRpcProvider, auctionAddress: string) {
+    this.provider = provider;
+    this.auctionAddress = auctionAddress.toLowerCase();
+    this.iface = new Interface(REVEAL_ABI);
+    this.selector = this.iface.getFunction('revealOrder')!.selector;
+  }
+
+  /**
+   * Decode the reveal matching a commitment from a transaction
+   * @param txHash Transaction that emitted OrderRevealed
+   * @param commitment Commitment emitted in the log
+   * @returns Decoded reveal, or null if no matching revealOrder call was found
+   */
+  async decode(txHash: string, commitment: string): Promise<DecodedReveal | null> {
+    const tx = await this.provider.getTransaction(txHash);
+
+    if (!tx) {
+      logger.warn({ txHash }, 'Reveal transaction not found');
+      return null;
+    }
+
+    // Direct call to the auction
+    if (tx.to?.toLowerCase() === this.auctionAddress && tx.data.startsWith(this.selector)) {
+      const reveal = this.tryDecode(tx.data, commitment, 'calldata');
+      if (reveal) return reveal;
+    }
+
+    // Multicalls and contract wallets usually forward the reveal calldata verbatim
+    const embedded = this.scanCalldata(tx.data, commitment);
+    if (embedded) return embedded;
+
+    // Fall back to internal call traces for calldata built on-chain
+    return this.decodeFromTrace(txHash, commitment);
+  }
+
+  /**
+   * Search arbitrary calldata for an embedded revealOrder call
+   */
+  private scanCalldata(data: string, commitment: string): DecodedReveal | null {
+    const hex = data.toLowerCase();
+    const needle = this.selector.slice(2);
+
+    // Skip the outer selector, it was handled by the direct path
+    let position = hex.indexOf(needle, 2 + needle.length);
+
+    while (position !== -1) {
+      // Only byte-aligned matches can be real calldata ("0x" keeps aligned offsets even)
+      if (position % 2 === 0) {
+        const candidate = '0x' + hex.slice(position, position + needle.length + REVEAL_ARGS_LENGTH * 2);
+        const reveal = this.tryDecode(candidate, commitment, 'embedded');
+        if (reveal) return reveal;
+      }
+
+      position = hex.indexOf(needle, position + 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * Walk debug_traceTransaction call frames looking for a revealOrder call to the auction
+   * @throws If the trace request fails for any reason other than the node not serving it
+   */
+  private async decodeFromTrace(txHash: string, commitment: string): Promise<DecodedReveal | null> {
+    if (!this.traceSupported) {
+      return null;
+    }
+
+    let root: CallFrame;
+
+    try {
+      root = await this.provider.send('debug_traceTransaction', [txHash, { tracer: 'callTracer' }]);
+    } catch (error) {
+      // Anything else (a timeout, a pruned node) may succeed when the log is retried
+      if (!isUnsupportedMethod(error)) {
+        throw error;
+      }
+
+      logger.warn({ txHash, error: (error as Error).message }, 'debug_traceTransaction unavailable, reveal decoding limited to calldata');
+      this.traceSupported = false;
+      return null;
+    }
+
+    const frames: CallFrame[] = [root];
+
+    while (frames.length > 0) {
+      const frame = frames.shift()!;
+
+      if (frame.to?.toLowerCase() === this.auctionAddress && frame.input?.startsWith(this.selector)) {
+        const reveal = this.tryDecode(frame.input, commitment, 'trace');
+        if (reveal) return reveal;
+      }
+
+      frames.push(...(frame.calls || []));
+    }
+
+    return null;
+  }
+
+  /**
+   * Decode revealOrder calldata and accept it only if it hashes back to the commitment
+   */
+  private tryDecode(data: string, commitment: string, source: RevealSource): DecodedReveal | null {
+    let decoded: ethers.Result;
+
+    try {
+      decoded = this.iface.decodeFunctionData('revealOrder', data);
+    } catch {
+      return null;
+    }
+
+    const [rawOrder, salt] = decoded;
+    const order: OrderStruct = {
+      nonce: rawOrder.nonce,
+      expiry: rawOrder.expiry,
+      amount: rawOrder.amount,
+      limitPrice: rawOrder.limitPrice,
+      side: Number(rawOrder.side),
+    };
+
+    if (hashCommitment(order, salt).toLowerCase() !== commitment.toLowerCase()) {
+      return null;
+    }
+
+    return {
+      order,
+      salt,
+      commitment,
+      orderHash: hashOrder(order),
+      source,
+    };
+  }
+}
+
+/**
+ * Whether an RPC error means the node does not serve the method at all
+ */
+function isUnsupportedMethod(error: unknown): boolean {
+  if (isError(error, 'UNSUPPORTED_OPERATION')) {
+    return true;
+  }
+
+  const rpcError = isError(error, 'UNKNOWN_ERROR') ? (error.error as { code?: unknown; message?: unknown } | undefined) : undefined;
+
+  return UNSUPPORTED_METHOD_CODES.includes(Number(rpcError?.code))
+    || /method .*(not found|not supported|not available|does not exist)/i.test(String(rpcError?.message ?? ''));
+}
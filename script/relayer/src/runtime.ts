@@ -0,0 +1,59 @@
+import { logger } from './logger';
+import { config } from './config';
+import { createProvider, FailoverProvider } from './provider';
+import { createSigner, RelayerSigner } from './signer';
+import { TransactionManager } from './txmanager';
+
+/**
+ * Everything settlements are sent with
+ */
+export interface RelayerConnection {
+  provider: FailoverProvider;
+  signer: RelayerSigner;
+  address: string;
+  txManager: TransactionManager;
+}
+
+/**
+ * Connect to the configured RPC endpoints and signer, checking both against the configuration
+ * Shared by the relayer service and the CLI, so they always settle from the same account.
+ */
+export async function connectRelayer(): Promise<RelayerConnection> {
+  // Failover across the configured RPC endpoints
+  const provider = createProvider();
+  await provider.probe();
+  logger.info({ endpoints: provider.getHealth() }, 'RPC endpoints probed');
+
+  const signer = await createSigner({
+    type: config.signerType,
+    network: config.network,
+    chainId: config.chainId,
+    privateKey: config.relayerPrivateKey,
+    keystorePath: config.keystorePath,
+    keystorePasswordFile: config.keystorePasswordFile,
+    remoteSignerUrl: config.remoteSignerUrl,
+    remoteSignerPublicKey: config.remoteSignerPublicKey,
+    remoteSignerTimeoutMs: config.rpcTimeoutMs,
+  }, provider);
+  const address = await signer.getAddress();
+
+  if (config.relayerAddress && config.relayerAddress.toLowerCase() !== address.toLowerCase()) {
+    throw new Error(`Signer address ${address} does not match RELAYER_ADDRESS ${config.relayerAddress}`);
+  }
+
+  logger.info({ address, signer: config.signerType }, 'Relayer signer initialized');
+
+  // Verify network
+  const network = await provider.getNetwork();
+  logger.info({
+    chainId: Number(network.chainId),
+    expectedChainId: config.chainId,
+  }, 'Connected to network');
+
+  if (Number(network.chainId) !== config.chainId) {
+    throw new Error(`Chain ID mismatch: expected ${config.chainId}, got ${network.chainId}`);
+  }
+
+  // One transaction manager per signer, shared by every auction
+  return { provider, signer, address, txManager: new TransactionManager(provider, signer) };
+}
@@ -1,16 +1,34 @@
-import { ethers, Contract, Wallet } from 'ethers';
-import { logger } from './logger';
+import { ethers, Contract, isError } from 'ethers';
+import { logger as rootLogger } from './logger';
 import { config } from './config';
-import { db, Order } from './db';
+import { db, Order, SettlementReport } from './db';
 import { OrderAggregator } from './aggregator';
-import { buildMerkleTree, generateAllProofs } from './merkle';
+import { buildMerkleTree, generateProofAt, MerkleTree, OrderLeafInput, orderLeaf } from './merkle';
+import { ClearingResult, computeClearing } from './clearing';
+import { expectedFill } from './fills';
 import { retryWithBackoff } from './retry';
+import { quorumRead } from './provider';
+import { ManagedTransaction, TransactionManager } from './txmanager';
+import { RelayerSigner } from './signer';
+import { metrics } from './metrics';
+import { alerts } from './alerts';
+import { AuctionParameterCache, AuctionParameters, readAuctionParameters } from './parameters';
+import { OrderStruct } from './encoding';
+import { Lease } from './lease';
 
 // Minimal ABI for BatchAuction settlement
 const BATCH_AUCTION_ABI = [
   'function settleBatchWithProof(uint256 batchId, tuple(uint256 clearingPrice, uint256 totalVolume, tuple(uint64 nonce, uint64 expiry, uint128 amount, uint128 limitPrice, uint8 side)[] buyOrders, tuple(uint64 nonce, uint64 expiry, uint128 amount, uint128 limitPrice, uint8 side)[] sellOrders, bytes32[][] buyProofs, bytes32[][] sellProofs) settlement) external',
   'function getBatchState(uint256 batchId) external view returns (uint8)',
   'function getCurrentBatchId() external view returns (uint256)',
+  'error BatchNotRevealing()',
+  'error AlreadySettled()',
+  'error InvalidProof()',
+  'error PriceDeviationTooHigh()',
+  'error InsufficientBalance()',
+  'error OrderAlreadyExecuted()',
+  'error EnforcedPause()',
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
 ];
 
 export interface SettlementData {
@@ -23,22 +41,77 @@ export interface SettlementData {
   sellProofs: string[][];
 }
 
+export interface SettlementPreview {
+  clearingPrice: string;
+  referencePrice: string;
+  deviationBps: string;
+  totalVolume: string;
+  demand: string;
+  supply: string;
+  ordersRoot: string;
+  buyOrders: string[];
+  sellOrders: string[];
+  fills: Record<string, string>;
+}
+
+interface PreparedSettlement {
+  data: SettlementData;
+  clearing: ClearingResult<Order>;
+  ordersRoot: string;
+  // Auction parameters in force at the block the settlement was prepared at
+  parameters: AuctionParameters;
+}
+
+// Orders and proofs as passed to settleBatchWithProof
+type SettledOrders = Pick<SettlementData, 'clearingPrice' | 'buyProofs' | 'sellProofs'> & {
+  buyOrders: OrderLeafInput[];
+  sellOrders: OrderLeafInput[];
+};
+
+// Settlement struct of settleBatchWithProof, in ABI order
+interface SettlementTuple {
+  clearingPrice: bigint;
+  totalVolume: bigint;
+  buyOrders: OrderStruct[];
+  sellOrders: OrderStruct[];
+  buyProofs: string[][];
+  sellProofs: string[][];
+}
+
+interface SubmittedSettlement {
+  txHash: string;
+  blockNumber: number;
+}
+
 export class SettlementService {
   private provider: ethers.JsonRpcProvider;
-  private wallet: Wallet;
+  private auctionAddress: string;
+  private logger: typeof rootLogger;
+  private signer: RelayerSigner;
   private auction: Contract;
   private aggregator: OrderAggregator;
+  private txManager: TransactionManager;
+  private parameters: AuctionParameterCache;
+  private lease: Lease;
   
   constructor(
     provider: ethers.JsonRpcProvider,
-    wallet: Wallet,
+    signer: RelayerSigner,
     auctionAddress: string,
-    aggregator: OrderAggregator
+    aggregator: OrderAggregator,
+    txManager: TransactionManager,
+    parameters: AuctionParameterCache,
+    lease: Lease
   ) {
     this.provider = provider;
-    this.wallet = wallet;
-    this.auction = new Contract(auctionAddress, BATCH_AUCTION_ABI, wallet);
+    this.auctionAddress = auctionAddress.toLowerCase();
+    this.logger = rootLogger.child({ auction: this.auctionAddress });
+    this.signer = signer;
+    this.auction = new Contract(auctionAddress, BATCH_AUCTION_ABI, provider);
     this.aggregator = aggregator;
+    this.txManager = txManager;
+    this.parameters = parameters;
+    this.lease = lease;
   }
   
   /**
@@ -46,94 +119,329 @@ export class SettlementService {
    */
   async settleBatch(batchId: number): Promise<string | null> {
     try {
-      logger.info({ batchId }, 'Starting batch settlement');
+      this.logger.info({ batchId }, 'Starting batch settlement');
       
       // Check if batch is ready for settlement
-      const batchState = await this.auction.getBatchState(batchId);
+      const batchState = await this.getBatchState(batchId);
       if (batchState !== 1) { // 1 = Revealing state
-        logger.info({ batchId, batchState }, 'Batch not ready for settlement');
+        this.logger.info({ batchId, batchState }, 'Batch not ready for settlement');
         return null;
       }
       
       // Check if already settled
-      const batch = db.getBatch(batchId);
+      const batch = await db.getBatch(this.auctionAddress, batchId);
       if (batch?.settled) {
-        logger.info({ batchId }, 'Batch already settled');
+        this.logger.info({ batchId }, 'Batch already settled');
         return null;
       }
       
-      // Fetch and validate orders
-      const orders = await this.aggregator.getRevealedOrders(batchId);
-      const validOrders = this.aggregator.validateOrders(orders);
-      
-      if (validOrders.length === 0) {
-        logger.warn({ batchId }, 'No valid orders to settle');
-        return null;
+      // Earlier submissions (e.g. reorged out) must be resolved before submitting again
+      const pendingTxHash = await this.reconcilePendingSettlements(batchId);
+      if (pendingTxHash) {
+        return pendingTxHash;
       }
       
-      // Separate and sort orders
-      const { buyOrders, sellOrders } = this.aggregator.separateOrders(validOrders);
-      
-      if (buyOrders.length === 0 || sellOrders.length === 0) {
-        logger.warn({ batchId, buyCount: buyOrders.length, sellCount: sellOrders.length }, 
-          'Need both buy and sell orders');
+      const prepared = await this.prepareSettlement(batchId, 'latest', true);
+      if (!prepared) {
         return null;
       }
       
-      // Calculate clearing price
-      const clearingPrice = this.aggregator.calculateClearingPrice(buyOrders, sellOrders);
-      
-      if (clearingPrice === 0n) {
-        logger.warn({ batchId }, 'No clearing price found');
-        return null;
-      }
-      
-      // Build merkle tree and generate proofs
-      const { buyProofs, sellProofs, ordersRoot } = this.buildProofs(buyOrders, sellOrders);
-      
-      // Calculate total volume
-      const totalVolume = this.calculateTotalVolume(buyOrders, sellOrders, clearingPrice);
-      
-      // Prepare settlement data
-      const settlementData: SettlementData = {
-        batchId,
-        clearingPrice,
-        totalVolume,
-        buyOrders,
-        sellOrders,
-        buyProofs,
-        sellProofs,
-      };
-      
-      logger.info({
-        batchId,
-        clearingPrice: clearingPrice.toString(),
-        totalVolume: totalVolume.toString(),
-        buyOrderCount: buyOrders.length,
-        sellOrderCount: sellOrders.length,
-      }, 'Prepared settlement data');
+      const { data: settlementData, ordersRoot } = prepared;
+      const { clearingPrice } = settlementData;
       
       // Submit settlement transaction
-      const txHash = await this.submitSettlement(settlementData);
+      const submitted = await this.submitSettlement(settlementData);
       
-      if (txHash) {
+      if (submitted) {
         // Mark batch as settled in database
-        db.markBatchSettled(batchId, txHash, clearingPrice.toString(), ordersRoot);
+        await db.markBatchSettled(this.auctionAddress, batchId, submitted.txHash, clearingPrice.toString(), ordersRoot, submitted.blockNumber);
+        // Orders are marked executed from their OrderExecuted logs, which the proofs are reconciled with
+        await this.saveProofs(batchId, submitted.txHash, settlementData);
         
-        // Mark orders as executed
-        [...buyOrders, ...sellOrders].forEach(order => {
-          db.markOrderExecuted(order.orderHash);
-        });
+        await alerts.resolve('settlement_failed', `${this.auctionAddress}:${batchId}`);
+      } else {
+        await this.raiseSettlementFailed(batchId, 'Settlement transaction was not confirmed');
       }
       
-      return txHash;
+      return submitted?.txHash ?? null;
       
     } catch (error) {
-      logger.error({ batchId, error }, 'Error settling batch');
+      this.logger.error({ batchId, error }, 'Error settling batch');
+      metrics.settlements.inc({ auction: this.auctionAddress, outcome: 'error' });
+      await this.raiseSettlementFailed(batchId, errorMessage(error));
       return null;
     }
   }
   
+  private async raiseSettlementFailed(batchId: number, reason: string): Promise<void> {
+    await alerts.raise({
+      type: 'settlement_failed',
+      severity: 'critical',
+      scope: `${this.auctionAddress}:${batchId}`,
+      message: `Settlement of batch ${batchId} failed after retries`,
+      details: { auction: this.auctionAddress, batchId, reason },
+    });
+  }
+  
+  /**
+   * Run the full settlement pipeline without broadcasting anything
+   * @param blockTag Block whose state the settlement call is simulated against
+   * @param from Account the call is simulated from; it needs RELAYER_ROLE for the call to succeed
+   */
+  async simulateSettlement(batchId: number, blockTag: ethers.BlockTag, from: string): Promise<SettlementReport> {
+    const report: SettlementReport = {
+      auction: this.auctionAddress,
+      batchId,
+      blockTag: String(blockTag),
+      from,
+      success: false,
+      orderCount: 0,
+      fills: {},
+      createdAt: Date.now(),
+    };
+    
+    const prepared = await this.prepareSettlement(batchId, blockTag);
+    if (!prepared) {
+      report.revert = 'Nothing to settle';
+      return report;
+    }
+    
+    const { data, ordersRoot, parameters } = prepared;
+    report.clearingPrice = data.clearingPrice.toString();
+    report.totalVolume = data.totalVolume.toString();
+    report.ordersRoot = ordersRoot;
+    report.orderCount = data.buyOrders.length + data.sellOrders.length;
+    
+    // What _executeOrders does with the submitted orders at the submitted price
+    for (const order of [...data.buyOrders, ...data.sellOrders]) {
+      const fill = expectedFill(order, data.clearingPrice, parameters.feeBps);
+      if (fill) {
+        report.fills[order.orderHash] = fill.filledAmount.toString();
+      }
+    }
+    
+    try {
+      const settlement = this.formatSettlementData(data);
+      await this.auction.settleBatchWithProof.staticCall(batchId, settlement, { from, blockTag });
+      
+      // eth_estimateGas takes a block tag that ethers does not pass through
+      const request = await this.auction.settleBatchWithProof.populateTransaction(batchId, settlement);
+      const gasEstimate = await this.provider.send('eth_estimateGas', [
+        { from, to: request.to, data: request.data },
+        typeof blockTag === 'number' ? ethers.toQuantity(blockTag) : blockTag,
+      ]);
+      
+      report.success = true;
+      report.gasEstimate = BigInt(gasEstimate).toString();
+    } catch (error) {
+      report.revert = this.decodeRevert(error);
+    }
+    
+    return report;
+  }
+  
+  /**
+   * Compute the settlement the relayer would send for a batch right now
+   * @returns Clearing data, or null if there is nothing to settle
+   */
+  async previewSettlement(batchId: number): Promise<SettlementPreview | null> {
+    const prepared = await this.prepareSettlement(batchId);
+    
+    if (!prepared) {
+      return null;
+    }
+    
+    const { data, clearing, ordersRoot } = prepared;
+    
+    return {
+      clearingPrice: clearing.clearingPrice.toString(),
+      referencePrice: clearing.referencePrice.toString(),
+      deviationBps: clearing.deviationBps.toString(),
+      totalVolume: clearing.matchedVolume.toString(),
+      demand: clearing.demand.toString(),
+      supply: clearing.supply.toString(),
+      ordersRoot,
+      buyOrders: data.buyOrders.map(order => order.orderHash),
+      sellOrders: data.sellOrders.map(order => order.orderHash),
+      fills: Object.fromEntries([...clearing.fills].map(([orderHash, fill]) => [orderHash, fill.toString()])),
+    };
+  }
+  
+  /**
+   * Aggregate, validate and clear a batch's orders and build their proofs
+   * @param blockTag Block whose contract state orders are validated and cleared against
+   * @param recordExclusions Store why orders were left out (only for settlements actually sent)
+   * @returns Settlement call data, or null if there is nothing to settle
+   */
+  private async prepareSettlement(
+    batchId: number,
+    blockTag: ethers.BlockTag = 'latest',
+    recordExclusions: boolean = false
+  ): Promise<PreparedSettlement | null> {
+    // Every contract read is pinned to one block, so 'latest' cannot move between them
+    const block = await this.provider.getBlock(blockTag);
+    if (!block) {
+      throw new Error(`Block ${blockTag} not found`);
+    }
+    
+    // The cache follows the head; a past block is settled under the parameters in force at it
+    const parameters = blockTag === 'latest'
+      ? this.parameters.get()
+      : await readAuctionParameters(this.provider, this.auctionAddress, block.number);
+    
+    // Fetch and validate orders; at a past block, orders executed since were still pending and
+    // validation at that block tells which were already executed
+    const orders = await this.aggregator.getRevealedOrders(batchId, blockTag !== 'latest');
+    const validOrders = await this.aggregator.validateOrders(orders, block, recordExclusions, parameters);
+    
+    if (validOrders.length === 0) {
+      this.logger.warn({ batchId }, 'No valid orders to settle');
+      return null;
+    }
+    
+    // Separate and sort orders
+    const { buyOrders, sellOrders } = this.aggregator.separateOrders(validOrders);
+    
+    if (buyOrders.length === 0 || sellOrders.length === 0) {
+      this.logger.warn({ batchId, buyCount: buyOrders.length, sellCount: sellOrders.length }, 
+        'Need both buy and sell orders');
+      return null;
+    }
+    
+    // Run the clearing engine within the tolerance the contract enforces
+    const clearing = computeClearing(buyOrders, sellOrders, parameters.maxPriceDeviationBps);
+    
+    if (!clearing) {
+      this.logger.warn({ batchId }, 'No clearing price found');
+      return null;
+    }
+    
+    const { clearingPrice, matchedVolume: totalVolume } = clearing;
+    
+    // Only the orders the contract fills in full are submitted; the rest stay out of the tree
+    const { buyProofs, sellProofs, ordersRoot } = this.buildProofs(clearing.buyOrders, clearing.sellOrders);
+    
+    // Prepare settlement data
+    const data: SettlementData = {
+      batchId,
+      clearingPrice,
+      totalVolume,
+      buyOrders: clearing.buyOrders,
+      sellOrders: clearing.sellOrders,
+      buyProofs,
+      sellProofs,
+    };
+    
+    this.logger.info({
+      batchId,
+      clearingPrice: clearingPrice.toString(),
+      referencePrice: clearing.referencePrice.toString(),
+      deviationBps: clearing.deviationBps.toString(),
+      totalVolume: totalVolume.toString(),
+      buyOrderCount: clearing.buyOrders.length,
+      sellOrderCount: clearing.sellOrders.length,
+      unmatchedOrderCount: validOrders.length - clearing.buyOrders.length - clearing.sellOrders.length,
+    }, 'Prepared settlement data');
+    
+    return { data, clearing, ordersRoot, parameters };
+  }
+  
+  /**
+   * See every settlement left pending through, including those of batches that were settled
+   * by someone else, so a stuck transaction never blocks the nonces after it
+   */
+  async resumePendingSettlements(): Promise<void> {
+    await this.updatePendingAge();
+    
+    for (const batchId of await db.getPendingSettlementBatches(this.auctionAddress)) {
+      try {
+        await this.reconcilePendingSettlements(batchId);
+      } catch (error) {
+        this.logger.error({ batchId, error }, 'Failed to resume pending settlement');
+      }
+    }
+  }
+  
+  /**
+   * Report how long the oldest pending settlement transaction has been waiting
+   */
+  private async updatePendingAge(): Promise<void> {
+    const createdAt: number[] = [];
+    
+    for (const batchId of await db.getPendingSettlementBatches(this.auctionAddress)) {
+      for (const settlement of await db.getPendingSettlements(this.auctionAddress, batchId)) {
+        createdAt.push(settlement.createdAt);
+      }
+    }
+    
+    const oldest = Math.min(...createdAt);
+    
+    metrics.pendingTransactionAge.set(
+      { auction: this.auctionAddress },
+      Number.isFinite(oldest) ? (Date.now() - oldest) / 1000 : 0
+    );
+  }
+  
+  /**
+   * See settlements left pending (by a restart or a reorg) through before submitting again
+   * @returns Hash of the settlement that was mined, or null to (re)submit
+   */
+  private async reconcilePendingSettlements(batchId: number): Promise<string | null> {
+    for (const pending of await this.txManager.resume(this.auctionAddress, batchId)) {
+      this.logger.info({ batchId, nonce: pending.nonce }, 'Resuming pending settlement transaction');
+      
+      const settled = await this.awaitSettlement(pending);
+      if (settled) {
+        // Every version of a settlement carries the same calldata, whichever one was mined
+        const orders = pending.request?.data ? this.decodeSettlement(pending.request.data) : null;
+        const ordersRoot = orders ? buildOrdersTree(orders.buyOrders, orders.sellOrders).root : '';
+        
+        await db.markBatchSettled(this.auctionAddress, batchId, settled.txHash, orders?.clearingPrice.toString() ?? '', ordersRoot, settled.blockNumber);
+        
+        if (orders) {
+          await this.saveProofs(batchId, settled.txHash, orders);
+        }
+        return settled.txHash;
+      }
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Wait for a settlement transaction, cancelling it if the batch gets settled by someone else
+   */
+  private async awaitSettlement(tx: ManagedTransaction): Promise<SubmittedSettlement | null> {
+    const outcome = await this.txManager.waitFor(
+      tx,
+      async () => (await this.getBatchState(tx.batchId)) === 2 // 2 = Settled
+    );
+    
+    metrics.settlements.inc({ auction: this.auctionAddress, outcome: outcome.status });
+    
+    // A cancellation's receipt is a plain transfer, not a settlement
+    if (outcome.receipt && outcome.status !== 'cancelled') {
+      metrics.settlementGasUsed.observe({ auction: this.auctionAddress }, Number(outcome.receipt.gasUsed));
+    }
+    
+    if (outcome.status !== 'confirmed') {
+      this.logger.warn({ batchId: tx.batchId, txHash: outcome.txHash, status: outcome.status },
+        'Settlement transaction not confirmed');
+      return null;
+    }
+    
+    return { txHash: outcome.txHash, blockNumber: outcome.receipt!.blockNumber };
+  }
+  
+  /**
+   * Read a batch's state, with quorum across RPC endpoints when configured
+   */
+  private async getBatchState(batchId: number): Promise<number> {
+    return quorumRead(this.provider, async provider =>
+      Number(await (this.auction.connect(provider) as Contract).getBatchState(batchId))
+    );
+  }
+  
   /**
    * Build merkle tree and generate proofs for orders
    */
@@ -142,25 +450,11 @@ export class SettlementService {
     sellProofs: string[][];
     ordersRoot: string;
   } {
-    // Create leaf hashes for all orders
-    const buyLeaves = buyOrders.map(o => o.orderHash);
-    const sellLeaves = sellOrders.map(o => o.orderHash);
-    const allLeaves = [...buyLeaves, ...sellLeaves];
-    
-    // Build merkle tree
-    const tree = buildMerkleTree(allLeaves);
-    
-    // Generate proofs for buy orders
-    const buyProofs = buyLeaves.map(leaf => {
-      const proof = generateAllProofs(tree).find(p => p.leaf === leaf);
-      return proof?.proof || [];
-    });
+    const tree = buildOrdersTree(buyOrders, sellOrders);
     
-    // Generate proofs for sell orders
-    const sellProofs = sellLeaves.map(leaf => {
-      const proof = generateAllProofs(tree).find(p => p.leaf === leaf);
-      return proof?.proof || [];
-    });
+    // Proofs are addressed by position so duplicate leaves still get their own proof
+    const buyProofs = buyOrders.map((_, i) => generateProofAt(tree, i).proof);
+    const sellProofs = sellOrders.map((_, i) => generateProofAt(tree, buyOrders.length + i).proof);
     
     return {
       buyProofs,
@@ -170,121 +464,166 @@ export class SettlementService {
   }
   
   /**
-   * Calculate total volume that will be executed
+   * Persist each settled order's proof, so traders get exactly what was verified on chain
    */
-  private calculateTotalVolume(
-    buyOrders: Order[],
-    sellOrders: Order[],
-    clearingPrice: bigint
-  ): bigint {
-    // Sum buy volume at or above clearing price
-    const buyVolume = buyOrders
-      .filter(o => BigInt(o.limitPrice) >= clearingPrice)
-      .reduce((sum, o) => sum + BigInt(o.amount), 0n);
-    
-    // Sum sell volume at or below clearing price
-    const sellVolume = sellOrders
-      .filter(o => BigInt(o.limitPrice) <= clearingPrice)
-      .reduce((sum, o) => sum + BigInt(o.amount), 0n);
-    
-    // Total volume is the minimum of buy and sell
-    return buyVolume < sellVolume ? buyVolume : sellVolume;
+  private async saveProofs(batchId: number, txHash: string, orders: SettledOrders): Promise<void> {
+    const root = buildOrdersTree(orders.buyOrders, orders.sellOrders).root;
+    const proofs = [...orders.buyProofs, ...orders.sellProofs];
+    const createdAt = Date.now();
+    
+    // The contract keys executions by the leaf, keccak256(abi.encode(order)), so it is the order hash
+    await db.saveOrderProofs(this.auctionAddress, batchId, [...orders.buyOrders, ...orders.sellOrders].map((order, i) => {
+      const leaf = orderLeaf(order);
+      return { auction: this.auctionAddress, orderHash: leaf, batchId, leafIndex: i, leaf, proof: proofs[i], root, txHash, createdAt };
+    }));
+  }
+  
+  /**
+   * Read the orders and proofs back from settleBatchWithProof calldata
+   */
+  private decodeSettlement(data: string): SettledOrders {
+    const [, decoded] = this.auction.interface.decodeFunctionData('settleBatchWithProof', data);
+    const settlement = decoded as SettlementTuple;
+    // uint8 fields decode as bigint
+    const toOrder = (order: OrderStruct): OrderLeafInput => ({
+      nonce: order.nonce,
+      expiry: order.expiry,
+      amount: order.amount,
+      limitPrice: order.limitPrice,
+      side: Number(order.side),
+    });
+    
+    return {
+      clearingPrice: settlement.clearingPrice,
+      buyOrders: settlement.buyOrders.map(toOrder),
+      sellOrders: settlement.sellOrders.map(toOrder),
+      buyProofs: settlement.buyProofs.map(proof => [...proof]),
+      sellProofs: settlement.sellProofs.map(proof => [...proof]),
+    };
   }
   
   /**
    * Submit settlement transaction to blockchain
    */
-  private async submitSettlement(data: SettlementData): Promise<string | null> {
-    return retryWithBackoff(async () => {
+  private async submitSettlement(data: SettlementData): Promise<SubmittedSettlement | null> {
+    const started = Date.now();
+    const populated = await retryWithBackoff(async () => {
       // Estimate gas
       const gasEstimate = await this.auction.settleBatchWithProof.estimateGas(
         data.batchId,
-        this.formatSettlementData(data)
+        this.formatSettlementData(data),
+        { from: await this.signer.getAddress() }
       );
       
-      logger.info({ batchId: data.batchId, gasEstimate: gasEstimate.toString() }, 
+      this.logger.info({ batchId: data.batchId, gasEstimate: gasEstimate.toString() }, 
         'Gas estimated');
       
-      // Get gas price
-      const feeData = await this.provider.getFeeData();
-      const maxFeePerGas = feeData.maxFeePerGas || ethers.parseUnits(config.maxGasPriceGwei.toString(), 'gwei');
-      const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || ethers.parseUnits(config.maxPriorityFeeGwei.toString(), 'gwei');
-      
-      // Check gas price limit
-      if (maxFeePerGas > ethers.parseUnits(config.maxGasPriceGwei.toString(), 'gwei')) {
-        throw new Error(`Gas price too high: ${ethers.formatUnits(maxFeePerGas, 'gwei')} gwei`);
-      }
-      
-      // Submit transaction
-      const tx = await this.auction.settleBatchWithProof(
+      const request = await this.auction.settleBatchWithProof.populateTransaction(
         data.batchId,
-        this.formatSettlementData(data),
-        {
-          gasLimit: gasEstimate * 120n / 100n, // 20% buffer
-          maxFeePerGas,
-          maxPriorityFeePerGas,
-        }
+        this.formatSettlementData(data)
       );
       
-      logger.info({
-        batchId: data.batchId,
-        txHash: tx.hash,
-        gasLimit: tx.gasLimit.toString(),
-        maxFeePerGas: ethers.formatUnits(maxFeePerGas, 'gwei'),
-      }, 'Settlement transaction submitted');
-      
-      // Record settlement in database
-      db.insertSettlement({
-        batchId: data.batchId,
-        txHash: tx.hash,
-        status: 'pending',
-        createdAt: Date.now(),
-      });
-      
-      // Wait for confirmation
-      const receipt = await tx.wait();
-      
-      if (receipt.status === 1) {
-        logger.info({
-          batchId: data.batchId,
-          txHash: tx.hash,
-          gasUsed: receipt.gasUsed.toString(),
-          blockNumber: receipt.blockNumber,
-        }, 'Settlement transaction confirmed');
-        
-        db.updateSettlementStatus(tx.hash, 'confirmed', Number(receipt.gasUsed));
-        return tx.hash;
-      } else {
-        logger.error({ batchId: data.batchId, txHash: tx.hash }, 'Settlement transaction failed');
-        db.updateSettlementStatus(tx.hash, 'failed', undefined, 'Transaction reverted');
-        return null;
-      }
+      return { request, gasEstimate };
     }, config.maxRetries);
+    
+    if (!populated) {
+      return null;
+    }
+    
+    const { request, gasEstimate } = populated;
+    
+    // Nonces are shared with whoever holds the settlement lease, which may have lapsed
+    await this.lease.ensureHeld();
+    
+    // Sent once: a failed send may still have been broadcast, and a retry would settle twice.
+    // Nonce, fees and replacement are handled by the transaction manager
+    const tx = await this.txManager.send({
+      auction: this.auctionAddress,
+      batchId: data.batchId,
+      to: request.to,
+      data: request.data,
+      gasLimit: gasEstimate * 120n / 100n, // 20% buffer
+    });
+    
+    const submitted = await this.awaitSettlement(tx);
+    
+    if (submitted) {
+      metrics.settlementDuration.observe({ auction: this.auctionAddress }, (Date.now() - started) / 1000);
+    }
+    
+    return submitted;
+  }
+  
+  /**
+   * Human-readable revert reason of a failed call, decoding the auction's custom errors
+   */
+  private decodeRevert(error: unknown): string {
+    if (isError(error, 'CALL_EXCEPTION') && error.revert) {
+      return `${error.revert.name}(${error.revert.args.map(String).join(', ')})`;
+    }
+    
+    const data = revertData(error);
+    if (data) {
+      const parsed = this.auction.interface.parseError(data);
+      if (parsed) {
+        return `${parsed.name}(${parsed.args.map(String).join(', ')})`;
+      }
+    }
+    
+    return errorMessage(error);
   }
   
   /**
    * Format settlement data for contract call
    */
-  private formatSettlementData(data: SettlementData): any {
+  private formatSettlementData(data: SettlementData): SettlementTuple {
     return {
       clearingPrice: data.clearingPrice,
       totalVolume: data.totalVolume,
-      buyOrders: data.buyOrders.map(o => ({
-        nonce: o.nonce,
-        expiry: o.expiry,
-        amount: BigInt(o.amount),
-        limitPrice: BigInt(o.limitPrice),
-        side: o.side,
-      })),
-      sellOrders: data.sellOrders.map(o => ({
-        nonce: o.nonce,
-        expiry: o.expiry,
-        amount: BigInt(o.amount),
-        limitPrice: BigInt(o.limitPrice),
-        side: o.side,
-      })),
+      buyOrders: data.buyOrders.map(toOrderStruct),
+      sellOrders: data.sellOrders.map(toOrderStruct),
       buyProofs: data.buyProofs,
       sellProofs: data.sellProofs,
     };
   }
 }
+
+function toOrderStruct(order: Order): OrderStruct {
+  return {
+    nonce: BigInt(order.nonce),
+    expiry: BigInt(order.expiry),
+    amount: BigInt(order.amount),
+    limitPrice: BigInt(order.limitPrice),
+    side: order.side,
+  };
+}
+
+/**
+ * Readable message of a thrown value, preferring ethers' short message without request details
+ */
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return (error as Error & { shortMessage?: string }).shortMessage || error.message;
+  }
+  
+  return String(error);
+}
+
+/**
+ * Revert data of a failed call, which providers nest at different depths of the error
+ */
+function revertData(error: unknown): string | undefined {
+  type Nested = { data?: unknown; error?: Nested; info?: { error?: Nested } };
+  const nested: Nested = typeof error === 'object' && error !== null ? error : {};
+  const data = [nested.data, nested.info?.error?.data, nested.error?.data].find(value => typeof value === 'string');
+  
+  return typeof data === 'string' && data.length >= 10 ? data : undefined;
+}
+
+/**
+ * Merkle tree of a settlement's orders
+ * Leaves are keccak256(abi.encode(order)), buy orders first, exactly as BatchAuction rebuilds them.
+ */
+export function buildOrdersTree(buyOrders: OrderLeafInput[], sellOrders: OrderLeafInput[]): MerkleTree {
+  return buildMerkleTree([...buyOrders, ...sellOrders].map(orderLeaf), 'contract');
+}
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import {
+  AbstractSigner,
+  FetchRequest,
+  MessagePrefix,
+  Provider,
+  Signature,
+  Transaction,
+  TransactionLike,
+  TransactionRequest,
+  Wallet,
+  computeAddress,
+  concat,
+  copyRequest,
+  getAddress,
+  hexlify,
+  keccak256,
+  recoverAddress,
+  resolveAddress,
+  resolveProperties,
+  toUtf8Bytes,
+} from 'ethers';
+
+export type SignerType = 'keystore' | 'remote' | 'raw';
+
+// Networks on which a plaintext private key is acceptable
+export const DEV_NETWORKS = ['localhost', 'hardhat', 'anvil', 'devnet'];
+
+// Chain IDs of local development nodes (Hardhat and Anvil, Ganache)
+export const DEV_CHAIN_IDS = [31337, 1337];
+
+/**
+ * What the relayer needs from a signing backend
+ * Transaction senders depend on this rather than on a concrete wallet.
+ */
+export interface RelayerSigner {
+  getAddress(): Promise<string>;
+  populateTransaction(tx: TransactionRequest): Promise<TransactionLike<string>>;
+  signTransaction(tx: TransactionRequest): Promise<string>;
+}
+
+export interface SignerOptions {
+  type: SignerType;
+  network: string;
+  chainId: number;
+  privateKey?: string;
+  keystorePath?: string;
+  keystorePasswordFile?: string;
+  remoteSignerUrl?: string;
+  remoteSignerPublicKey?: string;
+  remoteSignerTimeoutMs?: number;
+}
+
+/**
+ * Signer backed by a remote service speaking the Web3Signer eth1 API
+ *
+ * Keys never leave the remote service: transactions are serialized locally and only their
+ * signing payload is sent to `/api/v1/eth1/sign/{publicKey}`. Every signature is checked to
+ * recover to the expected address before it is used.
+ */
+export class RemoteSigner extends AbstractSigner {
+  readonly url: string;
+  readonly publicKey: string;
+  readonly address: string;
+  private timeoutMs: number;
+
+  constructor(url: string, publicKey: string, provider: Provider | null = null, timeoutMs: number = 10000) {
+    super(provider);
+    this.url = url.replace(/\/+$/, '');
+    this.publicKey = publicKey;
+    this.address = computeAddress(publicKey);
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Connect to a remote signer and select its key
+   * @param publicKey Key to sign with; may be omitted when the signer holds exactly one key
+   */
+  static async connect(
+    url: string,
+    provider: Provider | null,
+    publicKey?: string,
+    timeoutMs: number = 10000
+  ): Promise<RemoteSigner> {
+    const keys = JSON.parse(await remoteRequest(url, 'GET', '/api/v1/eth1/publicKeys', timeoutMs)) as string[];
+
+    if (publicKey) {
+      if (!keys.some(key => key.toLowerCase() === publicKey.toLowerCase())) {
+        throw new Error(`Remote signer does not hold key ${publicKey}`);
+      }
+
+      return new RemoteSigner(url, publicKey, provider, timeoutMs);
+    }
+
+    if (keys.length !== 1) {
+      throw new Error(`Remote signer holds ${keys.length} keys, set REMOTE_SIGNER_PUBLIC_KEY to pick one`);
+    }
+
+    return new RemoteSigner(url, keys[0], provider, timeoutMs);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.publicKey, provider, this.timeoutMs);
+  }
+
+  async signTransaction(tx: TransactionRequest): Promise<string> {
+    tx = copyRequest(tx);
+
+    // Same address handling as ethers' Wallet
+    const { to, from } = await resolveProperties({
+      to: tx.to ? resolveAddress(tx.to, this) : undefined,
+      from: tx.from ? resolveAddress(tx.from, this) : undefined,
+    });
+
+    if (to != null) {
+      tx.to = to;
+    }
+
+    if (from != null && getAddress(from) !== this.address) {
+      throw new Error(`Transaction from ${from} does not match signer ${this.address}`);
+    }
+
+    delete tx.from;
+
+    const btx = Transaction.from(tx as TransactionLike<string>);
+    btx.signature = await this.sign(btx.unsignedSerialized);
+
+    return btx.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === 'string' ? toUtf8Bytes(message) : message;
+    const payload = concat([toUtf8Bytes(MessagePrefix), toUtf8Bytes(String(bytes.length)), bytes]);
+
+    return (await this.sign(hexlify(payload))).serialized;
+  }
+
+  async signTypedData(): Promise<string> {
+    throw new Error('Typed data signing is not supported by the remote signer');
+  }
+
+  /**
+   * Have the remote service sign keccak256(data)
+   */
+  private async sign(data: string): Promise<Signature> {
+    const response = await remoteRequest(this.url, 'POST', `/api/v1/eth1/sign/${this.publicKey}`, this.timeoutMs, { data });
+    const signature = Signature.from(response.trim());
+
+    if (recoverAddress(keccak256(data), signature) !== this.address) {
+      throw new Error('Remote signer returned a signature for a different key');
+    }
+
+    return signature;
+  }
+}
+
+/**
+ * Create the configured signer, connected to the provider
+ */
+export async function createSigner(options: SignerOptions, provider: Provider): Promise<RelayerSigner> {
+  switch (options.type) {
+    case 'keystore':
+      return loadKeystore(options, provider);
+
+    case 'remote':
+      if (!options.remoteSignerUrl) {
+        throw new Error('REMOTE_SIGNER_URL is required for the remote signer');
+      }
+
+      return RemoteSigner.connect(
+        options.remoteSignerUrl,
+        provider,
+        options.remoteSignerPublicKey,
+        options.remoteSignerTimeoutMs
+      );
+
+    case 'raw':
+      // NETWORK defaults to localhost, so the chain ID is checked too
+      if (!DEV_NETWORKS.includes(options.network) || !DEV_CHAIN_IDS.includes(options.chainId)) {
+        throw new Error(
+          `Refusing to use a raw RELAYER_PRIVATE_KEY on network "${options.network}" (chain ${options.chainId}), use a keystore or remote signer`
+        );
+      }
+
+      if (!options.privateKey) {
+        throw new Error('RELAYER_PRIVATE_KEY is required for the raw signer');
+      }
+
+      return new Wallet(options.privateKey, provider);
+
+    default:
+      throw new Error(`Unknown signer type: ${options.type}`);
+  }
+}
+
+/**
+ * Decrypt a JSON keystore with the password kept in a separate file
+ */
+async function loadKeystore(options: SignerOptions, provider: Provider): Promise<RelayerSigner> {
+  if (!options.keystorePath || !options.keystorePasswordFile) {
+    throw new Error('KEYSTORE_PATH and KEYSTORE_PASSWORD_FILE are required for the keystore signer');
+  }
+
+  const json = fs.readFileSync(options.keystorePath, 'utf-8');
+  // Password files usually end with a newline that is not part of the password
+  const password = fs.readFileSync(options.keystorePasswordFile, 'utf-8').replace(/\r?\n$/, '');
+
+  const wallet = await Wallet.fromEncryptedJson(json, password);
+  return wallet.connect(provider);
+}
+
+async function remoteRequest(url: string, method: string, path: string, timeoutMs: number, body?: unknown): Promise<string> {
+  const request = new FetchRequest(url.replace(/\/+$/, '') + path);
+  request.method = method;
+  request.timeout = timeoutMs;
+
+  if (body !== undefined) {
+    request.setHeader('Content-Type', 'application/json');
+    request.body = JSON.stringify(body);
+  }
+
+  const response = await request.send();
+  response.assertOk();
+
+  return response.bodyText;
+}
@@ -0,0 +1,213 @@
+import SQLite from 'better-sqlite3';
+import { Pool, types } from 'pg';
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+/**
+ * Connection to a SQL backend
+ *
+ * Statements are written once, with `?` placeholders and unquoted camelCase identifiers,
+ * in the subset of SQL both backends understand (upserts use `ON CONFLICT`, inserted ids
+ * come from `RETURNING`). Each client adapts them to its backend.
+ */
+export interface SqlClient {
+  readonly dialect: SqlDialect;
+
+  /**
+   * Run a statement that returns rows
+   */
+  query<T = any>(sql: string, params?: unknown[]): Promise<T[]>;
+
+  /**
+   * Run a statement
+   * @returns Number of rows it changed
+   */
+  run(sql: string, params?: unknown[]): Promise<number>;
+
+  /**
+   * Run one or more statements without parameters
+   */
+  exec(sql: string): Promise<void>;
+
+  /**
+   * Run statements in a transaction, committed if `fn` resolves and rolled back if it throws
+   * Statements must go through the client passed to `fn`.
+   */
+  transaction<T>(fn: (tx: SqlClient) => Promise<T>): Promise<T>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * better-sqlite3 behind the async client interface
+ *
+ * The connection is shared, so statements issued while a transaction is open wait for it
+ * to finish instead of becoming part of it.
+ */
+export class SqliteClient implements SqlClient {
+  readonly dialect = 'sqlite';
+  private db: SQLite.Database;
+  private active: Promise<unknown> | null = null;
+
+  constructor(dbPath: string) {
+    this.db = new SQLite(dbPath);
+  }
+
+  query<T = any>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.whenIdle(() => this.db.prepare(sql).all(...params) as T[]);
+  }
+
+  run(sql: string, params: unknown[] = []): Promise<number> {
+    return this.whenIdle(() => this.db.prepare(sql).run(...params).changes);
+  }
+
+  exec(sql: string): Promise<void> {
+    return this.whenIdle(() => void this.db.exec(sql));
+  }
+
+  async transaction<T>(fn: (tx: SqlClient) => Promise<T>): Promise<T> {
+    const db = this.db;
+    const tx: SqlClient = {
+      dialect: this.dialect,
+      query: async (sql, params = []) => db.prepare(sql).all(...params) as any[],
+      run: async (sql, params = []) => db.prepare(sql).run(...params).changes,
+      exec: async sql => void db.exec(sql),
+      transaction: next => next(tx),
+      close: async () => undefined,
+    };
+
+    const run = await this.whenIdle(() => {
+      db.exec('BEGIN IMMEDIATE');
+
+      const result = fn(tx).then(
+        value => {
+          db.exec('COMMIT');
+          return value;
+        },
+        error => {
+          db.exec('ROLLBACK');
+          throw error;
+        }
+      );
+
+      this.active = result.catch(() => undefined).finally(() => (this.active = null));
+      return { result };
+    });
+
+    return run.result;
+  }
+
+  close(): Promise<void> {
+    return this.whenIdle(() => void this.db.close());
+  }
+
+  /**
+   * Run `fn` once no transaction is open; it runs synchronously after the last check
+   */
+  private async whenIdle<T>(fn: () => T): Promise<T> {
+    while (this.active) {
+      await this.active;
+    }
+
+    return fn();
+  }
+}
+
+// BIGINT columns hold block numbers and millisecond timestamps, and COUNT and SUM return
+// BIGINT (AVG returns NUMERIC); all of them fit in a JavaScript number
+const INT8_OID = 20;
+const NUMERIC_OID = 1700;
+
+const PG_TYPES = {
+  getTypeParser: ((oid: number, format?: any) =>
+    oid === INT8_OID || oid === NUMERIC_OID ? (value: string) => Number(value) : types.getTypeParser(oid, format)
+  ) as typeof types.getTypeParser,
+};
+
+/**
+ * PostgreSQL connection pool behind the async client interface
+ *
+ * Postgres folds unquoted identifiers to lowercase, so camelCase identifiers are quoted
+ * before statements are sent, both in the schema and in queries, and rows come back keyed
+ * the same way as from SQLite.
+ */
+export class PostgresClient implements SqlClient {
+  readonly dialect = 'postgres';
+  private pool: Pool;
+
+  constructor(connectionString: string, poolSize: number = 10) {
+    this.pool = new Pool({ connectionString, max: poolSize, types: PG_TYPES });
+  }
+
+  async query<T = any>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return (await this.pool.query(toPostgres(sql), toPostgresParams(params))).rows;
+  }
+
+  async run(sql: string, params: unknown[] = []): Promise<number> {
+    return (await this.pool.query(toPostgres(sql), toPostgresParams(params))).rowCount ?? 0;
+  }
+
+  async exec(sql: string): Promise<void> {
+    await this.pool.query(toPostgres(sql));
+  }
+
+  async transaction<T>(fn: (tx: SqlClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+
+    const tx: SqlClient = {
+      dialect: this.dialect,
+      query: async (sql, params = []) => (await client.query(toPostgres(sql), toPostgresParams(params))).rows,
+      run: async (sql, params = []) => (await client.query(toPostgres(sql), toPostgresParams(params))).rowCount ?? 0,
+      exec: async sql => void await client.query(toPostgres(sql)),
+      transaction: next => next(tx),
+      close: async () => undefined,
+    };
+
+    try {
+      await client.query('BEGIN');
+      const result = await fn(tx);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Client for a database URL: `postgres://` and `postgresql://` URLs open a connection
+ * pool, anything else is taken as a SQLite file path
+ */
+export function createSqlClient(url: string): SqlClient {
+  return /^postgres(ql)?:\/\//.test(url) ? new PostgresClient(url) : new SqliteClient(url);
+}
+
+// String literals and quoted identifiers are copied as they are
+const TOKEN = /'(?:[^']|'')*'|"[^"]*"|\?|\b[a-z][a-z0-9]*[A-Z][A-Za-z0-9]*\b/g;
+
+/**
+ * Number `?` placeholders and quote camelCase identifiers
+ */
+export function toPostgres(sql: string): string {
+  let index = 0;
+
+  return sql.replace(TOKEN, token => {
+    if (token === '?') {
+      return `$${++index}`;
+    }
+
+    return token.startsWith("'") || token.startsWith('"') ? token : `"${token}"`;
+  });
+}
+
+// better-sqlite3 binds undefined as NULL, pg needs it spelled out
+function toPostgresParams(params: unknown[]): unknown[] {
+  return params.map(param => (param === undefined ? null : param));
+}
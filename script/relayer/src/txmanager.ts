@@ -0,0 +1,449 @@
+import { ethers, TransactionReceipt } from 'ethers';
+import { logger } from './logger';
+import { config } from './config';
+import { db, Settlement, SettlementKind } from './db';
+import { sleep } from './retry';
+import { RelayerSigner } from './signer';
+
+// Gas limit of a plain self-transfer used to cancel a pending transaction
+const CANCEL_GAS_LIMIT = 21000n;
+
+export interface TransactionRequest {
+  auction: string;
+  batchId: number;
+  to: string;
+  data: string;
+  gasLimit: bigint;
+}
+
+export type TransactionStatus = 'confirmed' | 'reverted' | 'cancelled' | 'dropped';
+
+export interface TransactionOutcome {
+  status: TransactionStatus;
+  txHash: string;
+  receipt?: TransactionReceipt;
+}
+
+interface TransactionVersion {
+  hash: string;
+  kind: SettlementKind;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  raw?: string;
+}
+
+/**
+ * Every version sent for one nonce: the original and its replacements
+ */
+export interface ManagedTransaction {
+  auction: string;
+  batchId: number;
+  nonce: number;
+  request?: TransactionRequest;
+  versions: TransactionVersion[];
+  lastBroadcastBlock: number;
+}
+
+/**
+ * Sends relayer transactions and sees them through to inclusion
+ *
+ * Nonces come from persisted state so restarts and RPC failover never reuse or skip one.
+ * Pending transactions are replaced with fee-bumped versions every `txReplaceBlocks`
+ * blocks up to `maxGasPriceGwei`, or cancelled when the batch no longer needs settling or
+ * after `txMaxReplacements` bumps. Every version is recorded in the settlements table.
+ */
+export class TransactionManager {
+  private provider: ethers.JsonRpcProvider;
+  private signer: RelayerSigner;
+  private address?: string;
+
+  constructor(provider: ethers.JsonRpcProvider, signer: RelayerSigner) {
+    this.provider = provider;
+    this.signer = signer;
+  }
+
+  /**
+   * Sign and broadcast a transaction with the next nonce
+   */
+  async send(request: TransactionRequest): Promise<ManagedTransaction> {
+    const nonce = await this.allocateNonce();
+    const { maxFeePerGas, maxPriorityFeePerGas } = await this.getInitialFees();
+
+    const version = await this.broadcast(
+      { to: request.to, data: request.data, gasLimit: request.gasLimit },
+      nonce,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      'settlement'
+    );
+
+    // Only a broadcast transaction consumes the nonce
+    await db.saveNextNonce(await this.getAddress(), nonce + 1);
+
+    await db.insertSettlement({
+      auction: request.auction,
+      batchId: request.batchId,
+      txHash: version.hash,
+      status: 'pending',
+      kind: 'settlement',
+      nonce,
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      createdAt: Date.now(),
+    });
+
+    logger.info({
+      auction: request.auction,
+      batchId: request.batchId,
+      txHash: version.hash,
+      nonce,
+      maxFeePerGas: ethers.formatUnits(maxFeePerGas, 'gwei'),
+    }, 'Transaction submitted');
+
+    return {
+      auction: request.auction,
+      batchId: request.batchId,
+      nonce,
+      request,
+      versions: [version],
+      lastBroadcastBlock: await this.provider.getBlockNumber(),
+    };
+  }
+
+  /**
+   * Rebuild managed transactions from settlements still pending in the database
+   */
+  async resume(auction: string, batchId: number): Promise<ManagedTransaction[]> {
+    const byNonce = new Map<number, Settlement[]>();
+
+    for (const settlement of await db.getPendingSettlements(auction, batchId)) {
+      // Rows from before nonce tracking cannot be replaced, only watched
+      const nonce = settlement.nonce ?? -1;
+      byNonce.set(nonce, [...(byNonce.get(nonce) || []), settlement]);
+    }
+
+    const managed: ManagedTransaction[] = [];
+    const block = await this.provider.getBlockNumber();
+
+    for (const [nonce, rows] of byNonce) {
+      const latest = rows[rows.length - 1];
+      const tx = await this.provider.getTransaction(latest.txHash);
+
+      managed.push({
+        auction,
+        batchId,
+        nonce: nonce >= 0 ? nonce : tx?.nonce ?? -1,
+        request: tx?.to && latest.kind !== 'cancellation'
+          ? { auction, batchId, to: tx.to, data: tx.data, gasLimit: tx.gasLimit }
+          : undefined,
+        versions: rows.map(row => ({
+          hash: row.txHash,
+          kind: row.kind || 'settlement',
+          maxFeePerGas: BigInt(row.maxFeePerGas || tx?.maxFeePerGas || 0n),
+          maxPriorityFeePerGas: BigInt(row.maxPriorityFeePerGas || tx?.maxPriorityFeePerGas || 0n),
+        })),
+        // Replace straight away if the transaction is no longer known to the node
+        lastBroadcastBlock: tx ? block : block - config.txReplaceBlocks,
+      });
+    }
+
+    return managed;
+  }
+
+  /**
+   * Wait until one version of a transaction is mined, replacing it while it is stuck
+   * @param tx Transaction to watch
+   * @param shouldCancel Checked before each replacement; true cancels instead of bumping fees
+   * @returns Dropped if not even the cancellation sent after the last bump was mined in time
+   */
+  async waitFor(tx: ManagedTransaction, shouldCancel: () => Promise<boolean>): Promise<TransactionOutcome> {
+    let replacements = 0;
+
+    while (true) {
+      const mined = await this.findReceipt(tx);
+      if (mined) {
+        return this.resolve(tx, mined.version, mined.receipt);
+      }
+
+      // The nonce was used without any of our versions being mined
+      if (tx.nonce >= 0 && await this.provider.getTransactionCount(await this.getAddress(), 'latest') > tx.nonce) {
+        const minedLate = await this.findReceipt(tx);
+        if (minedLate) {
+          return this.resolve(tx, minedLate.version, minedLate.receipt);
+        }
+
+        return this.resolveDropped(tx, 'Nonce used by another transaction');
+      }
+
+      const block = await this.provider.getBlockNumber();
+
+      if (block - tx.lastBroadcastBlock >= config.txReplaceBlocks) {
+        if (replacements > config.txMaxReplacements) {
+          await this.releaseNonce(tx);
+          return this.resolveDropped(tx, `Not mined after ${replacements} replacements`);
+        }
+
+        await this.replace(tx, replacements === config.txMaxReplacements || await shouldCancel());
+        replacements++;
+        tx.lastBroadcastBlock = block;
+      }
+
+      await sleep(config.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Send a fee-bumped replacement, or a cancellation, for the same nonce
+   */
+  private async replace(tx: ManagedTransaction, cancel: boolean): Promise<void> {
+    const current = tx.versions[tx.versions.length - 1];
+
+    if (tx.nonce < 0) {
+      logger.warn({ txHash: current.hash }, 'Pending transaction has no known nonce, cannot replace it');
+      return;
+    }
+
+    // Without the original calldata the only possible replacement is a cancellation
+    const cancelling = cancel || current.kind === 'cancellation' || !tx.request;
+    const fees = await this.getBumpedFees(current);
+
+    if (!fees) {
+      // Already at the fee cap: make sure the last version is still in the mempool
+      if (current.raw) {
+        await this.provider.broadcastTransaction(current.raw).catch(() => undefined);
+      }
+
+      logger.warn({
+        auction: tx.auction,
+        batchId: tx.batchId,
+        txHash: current.hash,
+        maxGasPriceGwei: config.maxGasPriceGwei,
+      }, 'Pending transaction at fee cap, cannot bump further');
+      return;
+    }
+
+    const kind: SettlementKind = cancelling ? 'cancellation' : 'settlement';
+    const request = cancelling
+      ? { to: await this.getAddress(), data: '0x', gasLimit: CANCEL_GAS_LIMIT }
+      : { to: tx.request!.to, data: tx.request!.data, gasLimit: tx.request!.gasLimit };
+
+    let version: TransactionVersion;
+
+    try {
+      version = await this.broadcast(request, tx.nonce, fees.maxFeePerGas, fees.maxPriorityFeePerGas, kind);
+    } catch (error: any) {
+      // A version may have been mined in the meantime; the next poll picks it up
+      logger.warn({ txHash: current.hash, error: error.message }, 'Replacement transaction rejected');
+      return;
+    }
+
+    await db.insertSettlement({
+      auction: tx.auction,
+      batchId: tx.batchId,
+      txHash: version.hash,
+      status: 'pending',
+      kind,
+      nonce: tx.nonce,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      replaces: current.hash,
+      createdAt: Date.now(),
+    });
+    await db.markSettlementReplaced(current.hash, version.hash);
+
+    tx.versions.push(version);
+
+    logger.warn({
+      auction: tx.auction,
+      batchId: tx.batchId,
+      nonce: tx.nonce,
+      replaced: current.hash,
+      txHash: version.hash,
+      kind,
+      maxFeePerGas: ethers.formatUnits(fees.maxFeePerGas, 'gwei'),
+    }, cancelling ? 'Pending transaction cancelled' : 'Pending transaction replaced with higher fees');
+  }
+
+  /**
+   * Sign a transaction and broadcast it
+   */
+  private async broadcast(
+    request: { to: string; data: string; gasLimit: bigint },
+    nonce: number,
+    maxFeePerGas: bigint,
+    maxPriorityFeePerGas: bigint,
+    kind: SettlementKind
+  ): Promise<TransactionVersion> {
+    const populated = await this.signer.populateTransaction({
+      ...request,
+      nonce,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      type: 2,
+    });
+
+    const raw = await this.signer.signTransaction(populated);
+    const response = await this.provider.broadcastTransaction(raw);
+
+    return { hash: response.hash, kind, maxFeePerGas, maxPriorityFeePerGas, raw };
+  }
+
+  private async getAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = await this.signer.getAddress();
+    }
+
+    return this.address;
+  }
+
+  /**
+   * Next nonce: the persisted one unless the chain has moved past it
+   */
+  private async allocateNonce(): Promise<number> {
+    const address = await this.getAddress();
+    const onChain = await this.provider.getTransactionCount(address, 'latest');
+    const persisted = await db.getNextNonce(address);
+
+    return persisted === null ? onChain : Math.max(persisted, onChain);
+  }
+
+  /**
+   * Hand the nonce of a transaction given up on back to the next send if the node no longer holds it,
+   * so later transactions do not queue up behind the gap it would leave
+   */
+  private async releaseNonce(tx: ManagedTransaction): Promise<void> {
+    if (tx.nonce < 0) {
+      return;
+    }
+
+    const address = await this.getAddress();
+    const pending = await this.provider.getTransactionCount(address, 'pending');
+    const persisted = await db.getNextNonce(address);
+
+    // Still in the mempool (or mined meanwhile): the nonce may yet be used
+    if (pending > tx.nonce || persisted === null || persisted <= pending) {
+      return;
+    }
+
+    await db.saveNextNonce(address, pending);
+
+    logger.warn({ auction: tx.auction, batchId: tx.batchId, nonce: tx.nonce, nextNonce: pending }, 'Unused nonce released');
+  }
+
+  /**
+   * Fees for a new transaction, refusing to send above the configured cap
+   */
+  private async getInitialFees(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const cap = ethers.parseUnits(config.maxGasPriceGwei.toString(), 'gwei');
+    const feeData = await this.provider.getFeeData();
+    const maxFeePerGas = feeData.maxFeePerGas || cap;
+    const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || ethers.parseUnits(config.maxPriorityFeeGwei.toString(), 'gwei');
+
+    if (maxFeePerGas > cap) {
+      throw new Error(`Gas price too high: ${ethers.formatUnits(maxFeePerGas, 'gwei')} gwei`);
+    }
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Fees for a replacement: at least `feeBumpPercent` above the current version and no less
+   * than the network currently asks for, capped at `maxGasPriceGwei`
+   * @returns Null if the cap leaves no room for a valid replacement
+   */
+  private async getBumpedFees(current: TransactionVersion): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } | null> {
+    const cap = ethers.parseUnits(config.maxGasPriceGwei.toString(), 'gwei');
+    const feeData = await this.provider.getFeeData();
+    const bump = (value: bigint) => (value * BigInt(100 + config.feeBumpPercent)) / 100n + 1n;
+
+    let maxFeePerGas = max(bump(current.maxFeePerGas), feeData.maxFeePerGas || 0n);
+    let maxPriorityFeePerGas = max(bump(current.maxPriorityFeePerGas), feeData.maxPriorityFeePerGas || 0n);
+
+    if (maxFeePerGas > cap) {
+      maxFeePerGas = cap;
+    }
+
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+
+    // Nodes only accept replacements that raise both fees by at least 10%
+    const minimum = (value: bigint) => (value * 110n) / 100n;
+    if (maxFeePerGas < minimum(current.maxFeePerGas) || maxPriorityFeePerGas < minimum(current.maxPriorityFeePerGas)) {
+      return null;
+    }
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Receipt of whichever version was mined, newest first
+   */
+  private async findReceipt(tx: ManagedTransaction): Promise<{ version: TransactionVersion; receipt: TransactionReceipt } | null> {
+    for (const version of [...tx.versions].reverse()) {
+      const receipt = await this.provider.getTransactionReceipt(version.hash);
+
+      if (receipt) {
+        return { version, receipt };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Record the mined version and mark every other version as replaced
+   */
+  private async resolve(
+    tx: ManagedTransaction,
+    version: TransactionVersion,
+    receipt: TransactionReceipt
+  ): Promise<TransactionOutcome> {
+    const success = receipt.status === 1;
+
+    await db.updateSettlementStatus(
+      version.hash,
+      success ? 'confirmed' : 'failed',
+      Number(receipt.gasUsed),
+      success ? undefined : 'Transaction reverted',
+      receipt.blockNumber,
+      receipt.blockHash
+    );
+
+    for (const other of tx.versions) {
+      if (other.hash !== version.hash) {
+        await db.markSettlementReplaced(other.hash, version.hash);
+      }
+    }
+
+    const status: TransactionStatus = version.kind === 'cancellation' ? 'cancelled' : success ? 'confirmed' : 'reverted';
+
+    logger.info({
+      auction: tx.auction,
+      batchId: tx.batchId,
+      txHash: version.hash,
+      status,
+      gasUsed: receipt.gasUsed.toString(),
+      blockNumber: receipt.blockNumber,
+    }, 'Transaction mined');
+
+    return { status, txHash: version.hash, receipt };
+  }
+
+  /**
+   * Record that no version of the transaction will be mined
+   */
+  private async resolveDropped(tx: ManagedTransaction, reason: string): Promise<TransactionOutcome> {
+    // Earlier versions are already marked as replaced
+    const txHash = tx.versions[tx.versions.length - 1].hash;
+    await db.updateSettlementStatus(txHash, 'failed', undefined, reason);
+
+    logger.warn({ auction: tx.auction, batchId: tx.batchId, txHash, reason }, 'Transaction dropped');
+
+    return { status: 'dropped', txHash };
+  }
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
@@ -0,0 +1,162 @@
+/**
+ * Pre-settlement order validation against contract state
+ *
+ * Checks revealed orders against the auction as of the block a settlement is prepared
+ * at, so orders the contract would reject or could not fund are left out of it
+ * instead of reverting the whole settlement.
+ */
+
+const PRICE_SCALE = 10n ** 18n;
+
+/**
+ * Why an order was left out of a settlement
+ * - `zero_amount` / `zero_price`: nothing to trade
+ * - `expired`: expiry before the block timestamp
+ * - `below_min_order_size`: amount below the auction's current minOrderSize
+ * - `duplicate`: same order hash as an order earlier in the batch, which would execute twice
+ * - `already_executed`: getOrderExecution reports the order executed already
+ * - `insufficient_funds`: neither the trader's locked funds nor what the auction can pull from their
+ *   wallet cover it after their earlier orders
+ */
+export type ExclusionReason =
+  | 'zero_amount'
+  | 'zero_price'
+  | 'expired'
+  | 'below_min_order_size'
+  | 'duplicate'
+  | 'already_executed'
+  | 'insufficient_funds';
+
+export interface ValidationOrder {
+  orderHash: string;
+  trader: string;
+  expiry: number;
+  amount: string | bigint;
+  limitPrice: string | bigint;
+  side: number;
+}
+
+export interface LockedBalance {
+  locked0: bigint;
+  locked1: bigint;
+}
+
+/**
+ * Contract state the orders are validated against, all read at one block
+ */
+export interface AuctionState {
+  blockNumber: number;
+  timestamp: number;
+  minOrderSize: bigint;
+  // By lowercase trader address
+  lockedBalances: Map<string, LockedBalance>;
+  // Lower of each trader's token balance and allowance to the auction, by lowercase trader address;
+  // what the contract can pull with transferFrom when locked funds fall short
+  walletFunds: Map<string, LockedBalance>;
+  // Lowercase hashes of orders getOrderExecution reports executed
+  executed: Set<string>;
+}
+
+export interface Exclusion<T> {
+  order: T;
+  reason: ExclusionReason;
+}
+
+export interface ValidationResult<T> {
+  valid: T[];
+  excluded: Exclusion<T>[];
+}
+
+/**
+ * Funds an order draws from its trader's locked balance when executed at its limit price
+ * Buy orders pay `amount * limitPrice / 1e18` of TOKEN1 (locked1) at most; sell orders deliver `amount` of TOKEN0 (locked0).
+ */
+export function lockedFundsRequired(order: Pick<ValidationOrder, 'amount' | 'limitPrice' | 'side'>): LockedBalance {
+  const amount = BigInt(order.amount);
+
+  return order.side === 0
+    ? { locked0: 0n, locked1: (amount * BigInt(order.limitPrice)) / PRICE_SCALE }
+    : { locked0: amount, locked1: 0n };
+}
+
+/**
+ * Split orders into those a settlement can include and those it must leave out
+ *
+ * Orders keep their input order. Each trader's funds are drawn down by their valid orders
+ * in that order, so the first ones the funds cover are kept. Like the contract, an order
+ * is paid from locked funds when they cover it, and otherwise in full from the wallet.
+ */
+export function validateOrders<T extends ValidationOrder>(orders: T[], state: AuctionState): ValidationResult<T> {
+  const result: ValidationResult<T> = { valid: [], excluded: [] };
+  const seen = new Set<string>();
+  const remaining = new Map<string, Funds>();
+
+  for (const order of orders) {
+    const orderHash = order.orderHash.toLowerCase();
+    const trader = order.trader.toLowerCase();
+    const reason = checkOrder(order, state, seen.has(orderHash));
+    seen.add(orderHash);
+
+    if (reason) {
+      result.excluded.push({ order, reason });
+      continue;
+    }
+
+    const funds = remaining.get(trader) ?? {
+      locked: state.lockedBalances.get(trader) ?? { locked0: 0n, locked1: 0n },
+      wallet: state.walletFunds.get(trader) ?? { locked0: 0n, locked1: 0n },
+    };
+    const left = drawFunds(funds, lockedFundsRequired(order));
+
+    if (!left) {
+      result.excluded.push({ order, reason: 'insufficient_funds' });
+      continue;
+    }
+
+    remaining.set(trader, left);
+    result.valid.push(order);
+  }
+
+  return result;
+}
+
+interface Funds {
+  locked: LockedBalance;
+  wallet: LockedBalance;
+}
+
+/**
+ * Funds left after paying for an order, or null if they cannot pay for it
+ */
+function drawFunds(funds: Funds, required: LockedBalance): Funds | null {
+  const left = { locked: { ...funds.locked }, wallet: { ...funds.wallet } };
+
+  for (const token of ['locked0', 'locked1'] as const) {
+    if (required[token] === 0n) {
+      continue;
+    }
+
+    // _executeOrders never splits a payment between locked funds and transferFrom
+    if (left.locked[token] >= required[token]) {
+      left.locked[token] -= required[token];
+    } else if (left.wallet[token] >= required[token]) {
+      left.wallet[token] -= required[token];
+    } else {
+      return null;
+    }
+  }
+
+  return left;
+}
+
+function checkOrder(order: ValidationOrder, state: AuctionState, duplicate: boolean): ExclusionReason | null {
+  const amount = BigInt(order.amount);
+
+  if (amount === 0n) return 'zero_amount';
+  if (BigInt(order.limitPrice) === 0n) return 'zero_price';
+  if (order.expiry < state.timestamp) return 'expired';
+  if (amount < state.minOrderSize) return 'below_min_order_size';
+  if (duplicate) return 'duplicate';
+  if (state.executed.has(order.orderHash.toLowerCase())) return 'already_executed';
+  return null;
+}
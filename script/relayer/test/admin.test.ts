@@ -0,0 +1,183 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { AdminController, AdminError, createAdminRouter } from '../src/admin';
+import { db } from '../src/db';
+import { SettlementPreview } from '../src/settlement';
+
+const TOKEN = 'secret-token';
+const AUCTION = '0x' + 'aa'.repeat(20);
+
+const PREVIEW: SettlementPreview = {
+  clearingPrice: '100',
+  referencePrice: '100',
+  deviationBps: '0',
+  totalVolume: '10',
+  demand: '15',
+  supply: '10',
+  ordersRoot: '0x' + '01'.repeat(32),
+  buyOrders: ['0xb1', '0xb3'],
+  sellOrders: ['0x51'],
+  fills: { '0xb1': '7', '0xb2': '0', '0xb3': '3', '0x51': '10' },
+};
+
+/**
+ * Controller that records what the routes asked of it
+ */
+class StubController implements AdminController {
+  paused = false;
+  previewed: [string, number][] = [];
+  settle: (auction: string, batchId: number) => Promise<string | null> = async () => '0xt1';
+
+  isPaused() { return this.paused; }
+  pause() { this.paused = true; }
+  resume() { this.paused = false; }
+  getAuctions() { return [AUCTION]; }
+  getAuctionParameters() {
+    return { batchDuration: 10, minOrderSize: 10n ** 18n, maxPriceDeviationBps: 100, feeBps: 30, blockNumber: 90 };
+  }
+  async previewSettlement(auction: string, batchId: number) {
+    this.previewed.push([auction, batchId]);
+    return PREVIEW;
+  }
+  settleBatch(auction: string, batchId: number) { return this.settle(auction, batchId); }
+}
+
+describe('admin routes', () => {
+  let controller: StubController;
+  let server: Server;
+  let baseUrl: string;
+
+  const request = (method: string, path: string, options: { token?: string | null; body?: unknown } = {}) => {
+    const token = options.token === undefined ? TOKEN : options.token;
+
+    return fetch(`${baseUrl}/admin${path}`, {
+      method,
+      headers: {
+        ...(token !== null ? { authorization: `Bearer ${token}` } : {}),
+        ...(options.body !== undefined ? { 'content-type': 'application/json' } : {}),
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+  };
+
+  // Response bodies of GET routes
+  const get = async (path: string): Promise<Record<string, any>> => (await request('GET', path)).json() as Promise<Record<string, any>>;
+
+  beforeAll(async () => {
+    await db.initialize();
+    await db.insertBatch({ auction: AUCTION, batchId: 1, startBlock: 100, settled: false, createdAt: 1 });
+    await db.insertBatch({ auction: AUCTION, batchId: 2, startBlock: 200, settled: false, createdAt: 2 });
+    await db.markBatchSettled(AUCTION, 2, '0xs2', '100', '0xroot', 250);
+
+    controller = new StubController();
+    const app = express();
+    app.use('/admin', createAdminRouter(controller, TOKEN));
+
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await db.close();
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    for (const token of [null, 'wrong', `${TOKEN}x`]) {
+      const response = await request('POST', '/pause', { token });
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'Unauthorized' });
+    }
+
+    expect(controller.paused).toBe(false);
+    expect((await request('GET', '/status', { token: null })).status).toBe(401);
+  });
+
+  it('pauses and resumes the settlement loop', async () => {
+    expect(await (await request('POST', '/pause')).json()).toEqual({ paused: true });
+    expect(controller.paused).toBe(true);
+    expect(await (await request('GET', '/status')).json()).toMatchObject({ paused: true, auctions: [AUCTION] });
+
+    expect(await (await request('POST', '/resume')).json()).toEqual({ paused: false });
+    expect(controller.paused).toBe(false);
+  });
+
+  it('reports status with the parameters each auction is served with', async () => {
+    expect(await (await request('GET', '/status')).json()).toEqual({
+      paused: false,
+      auctions: [AUCTION],
+      parameters: {
+        [AUCTION]: { batchDuration: 10, minOrderSize: (10n ** 18n).toString(), maxPriceDeviationBps: 100, feeBps: 30, blockNumber: 90 },
+      },
+    });
+  });
+
+  it('shows a batch with the settlement the relayer would send for it', async () => {
+    controller.previewed = [];
+
+    const pending = await get(`/batches/${AUCTION.toUpperCase().replace('0X', '0x')}/1`);
+    expect(pending.batch).toMatchObject({ auction: AUCTION, batchId: 1, settled: false });
+    expect(pending.clearing).toEqual(PREVIEW);
+    expect(pending).toMatchObject({ orders: { items: [] }, fills: { items: [] }, settlements: { items: [] } });
+
+    // Settled batches are not cleared again
+    const settled = await get(`/batches/${AUCTION}/2`);
+    expect(settled.clearing).toBeNull();
+    expect(controller.previewed).toEqual([[AUCTION, 1]]);
+  });
+
+  it('validates batch parameters and reports unknown batches', async () => {
+    expect((await request('GET', '/batches/0x1234/1')).status).toBe(400);
+    expect((await request('GET', `/batches/${AUCTION}/one`)).status).toBe(400);
+
+    const missing = await request('GET', `/batches/${AUCTION}/9`);
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ error: `Batch 9 of ${AUCTION} not found` });
+  });
+
+  it('forces settlements and passes controller refusals through', async () => {
+    expect(await (await request('POST', `/batches/${AUCTION}/1/settle`)).json()).toEqual({ settled: true, txHash: '0xt1' });
+
+    controller.settle = async () => null;
+    const unsettled = await request('POST', `/batches/${AUCTION}/1/settle`);
+    expect(unsettled.status).toBe(422);
+    expect(await unsettled.json()).toEqual({ settled: false, txHash: null });
+
+    controller.settle = async () => {
+      throw new AdminError(409, 'Relayer runs in dry-run mode');
+    };
+    const refused = await request('POST', `/batches/${AUCTION}/1/settle`);
+    expect(refused.status).toBe(409);
+    expect(await refused.json()).toEqual({ error: 'Relayer runs in dry-run mode' });
+
+    controller.settle = async () => {
+      throw new Error('boom');
+    };
+    expect((await request('POST', `/batches/${AUCTION}/1/settle`)).status).toBe(500);
+  });
+
+  it('marks and clears skipped batches', async () => {
+    expect(await (await request('POST', `/batches/${AUCTION}/1/skip`, { body: { reason: 'bad prices' } })).json())
+      .toEqual({ skipped: true });
+    expect(await db.getBatch(AUCTION, 1)).toMatchObject({ skipped: true, skipReason: 'bad prices' });
+
+    expect((await get('/batches?skipped=true')).items.map((b: { batchId: number }) => b.batchId)).toEqual([1]);
+
+    expect(await (await request('DELETE', `/batches/${AUCTION}/1/skip`)).json()).toEqual({ skipped: false });
+    expect((await request('POST', `/batches/${AUCTION}/9/skip`)).status).toBe(404);
+  });
+
+  it('filters and pages lists, rejecting malformed filters', async () => {
+    const page = await get(`/batches?auction=${AUCTION}&limit=1`);
+    expect(page.items).toHaveLength(1);
+    expect(page.total).toBe(2);
+
+    expect((await request('GET', '/orders?revealed=yes')).status).toBe(400);
+    expect((await request('GET', '/fills?batchId=-1')).status).toBe(400);
+    expect((await request('GET', '/settlements?status=unknown')).status).toBe(400);
+    expect((await request('GET', '/settlements?status=pending')).status).toBe(200);
+  });
+});
@@ -0,0 +1,250 @@
+import { ethers, Interface, Log } from 'ethers';
+import { OrderAggregator } from '../src/aggregator';
+import { config } from '../src/config';
+import { db, Order } from '../src/db';
+import { ORDER_TUPLE, OrderStruct, hashCommitment, hashOrder } from '../src/encoding';
+import { expectedFill } from '../src/fills';
+import { EventHandler, EventIndexer, IndexedEvent } from '../src/indexer';
+import { AuctionParameterCache } from '../src/parameters';
+
+const E18 = 10n ** 18n;
+const AUCTION = '0x' + 'aa'.repeat(20);
+const TRADER = '0x' + 'dd'.repeat(20);
+const PRICE = 2n * E18;
+
+const PARAMETERS = new Interface([
+  'function batchDuration() external view returns (uint256)',
+  'function minOrderSize() external view returns (uint128)',
+  'function maxPriceDeviationBps() external view returns (uint16)',
+  'function feeBps() external view returns (uint24)',
+]);
+
+const REVEAL = new Interface([`function revealOrder(${ORDER_TUPLE} order, bytes32 salt) external`]);
+
+function order(orderHash: string, batchId: number, side: number): Order {
+  return {
+    auction: AUCTION,
+    orderHash,
+    commitment: orderHash.replace('0x', '0xc'),
+    salt: '0x00',
+    batchId,
+    trader: TRADER,
+    nonce: '1',
+    expiry: 2000,
+    amount: (10n * E18).toString(),
+    limitPrice: PRICE.toString(),
+    side,
+    revealed: true,
+    executed: false,
+    createdAt: 1000,
+  };
+}
+
+function log(txHash: string, blockNumber: number, index: number): Log {
+  return { transactionHash: txHash, blockNumber, index } as Log;
+}
+
+/**
+ * Aggregator over an auction whose fee was 30 bps until block 199 and 50 bps from block 200
+ */
+function aggregator() {
+  const handlers = new Map<string, EventHandler>();
+  const chain = { finalizedBlock: 0 };
+  const transactions = new Map<string, { to: string; data: string }>();
+  // OrderRevealed logs read back when a batch has no pending orders stored
+  const reveals: IndexedEvent[] = [];
+  const indexer = {
+    on: (fragment: ethers.EventFragment, handler: EventHandler) => handlers.set(fragment.name, handler),
+    getFinalizedBlock: () => chain.finalizedBlock,
+    queryEvents: async () => reveals,
+  } as unknown as EventIndexer;
+
+  const provider = {
+    call: async (tx: { data: string; blockTag: number }) => {
+      const { name } = PARAMETERS.parseTransaction({ data: tx.data })!;
+      const value = name === 'feeBps' ? (tx.blockTag < 200 ? 30 : 50) : 1;
+      return PARAMETERS.encodeFunctionResult(name, [value]);
+    },
+    // Reveal transactions are only found once a test adds them
+    getTransaction: async (hash: string) => transactions.get(hash) ?? null,
+  } as unknown as ethers.JsonRpcProvider;
+
+  // The cache already holds the later fee
+  const parameters = {
+    get: () => ({ batchDuration: 10, minOrderSize: 1n, maxPriceDeviationBps: 100, feeBps: 50, blockNumber: 250 }),
+  } as unknown as AuctionParameterCache;
+
+  const instance = new OrderAggregator(provider, AUCTION, indexer, parameters);
+
+  const emit = (name: string, values: unknown[], at: Log) =>
+    handlers.get(name)!({ name, args: ethers.Result.fromItems(values), log: at });
+
+  return { instance, emit, chain, transactions, reveals };
+}
+
+/**
+ * Store a batch as settled by the relayer with two orders and index their execution
+ */
+async function settle(batchId: number, feeBps: number, emit: ReturnType<typeof aggregator>['emit']) {
+  const buy = order(`0x${batchId}b`, batchId, 0);
+  const sell = order(`0x${batchId}5`, batchId, 1);
+  const txHash = `0xt${batchId}`;
+
+  await db.insertBatch({ auction: AUCTION, batchId, startBlock: 100, settled: false, createdAt: 1 });
+  for (const settled of [buy, sell]) {
+    await db.insertOrder(settled);
+  }
+  await db.saveOrderProofs(AUCTION, batchId, [buy, sell].map((o, leafIndex) => ({
+    auction: AUCTION,
+    orderHash: o.orderHash,
+    batchId,
+    leafIndex,
+    leaf: o.orderHash,
+    proof: [],
+    root: '0xroot',
+    txHash,
+    createdAt: 1,
+  })));
+
+  // What the contract emits at the fee in force when the settlement was mined
+  for (const [index, settled] of [buy, sell].entries()) {
+    const fill = expectedFill(settled, PRICE, feeBps)!;
+    await emit('OrderExecuted', [settled.orderHash, TRADER, fill.filledAmount, fill.receivedAmount, PRICE], log(txHash, 150, index));
+  }
+
+  return txHash;
+}
+
+describe('order aggregator', () => {
+  beforeAll(async () => {
+    Object.assign(config, { revealDecodeAttempts: 2 });
+    await db.initialize();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('reconciles fills once the settlement is final, with the fee at its block', async () => {
+    const { instance, emit, chain } = aggregator();
+    await instance.start();
+
+    const txHash = await settle(1, 30, emit);
+    await emit('BatchSettled', [1n, PRICE, 10n * E18], log(txHash, 150, 2));
+
+    // Still within the confirmation depth: a reorg could roll the settlement back
+    chain.finalizedBlock = 149;
+    await instance.reconcileFinalSettlements();
+    expect(await db.getBatch(AUCTION, 1)).toMatchObject({ settled: true, fillsReconciledAt: null });
+
+    chain.finalizedBlock = 150;
+    await instance.reconcileFinalSettlements();
+    expect(await db.getBatch(AUCTION, 1)).toMatchObject({ settled: true, fillMismatches: [] });
+    expect((await db.getFillsByBatch(AUCTION, 1)).map(f => f.orderHash)).toEqual(['0x1b', '0x15']);
+    expect((await db.getOrdersByBatch(AUCTION, 1)).every(o => o.executed)).toBe(true);
+  });
+
+  it('reports fills that differ from the fee in force at the settlement', async () => {
+    const { instance, emit, chain } = aggregator();
+    await instance.start();
+
+    // Executed at 50 bps, but the fee was 30 bps at block 150
+    const txHash = await settle(2, 50, emit);
+    await emit('BatchSettled', [2n, PRICE, 10n * E18], log(txHash, 150, 2));
+    chain.finalizedBlock = 300;
+    await instance.reconcileFinalSettlements();
+
+    const { fillMismatches } = (await db.getBatch(AUCTION, 2))!;
+    expect(fillMismatches).toEqual([{
+      orderHash: '0x2b',
+      kind: 'amount_mismatch',
+      expected: { filledAmount: (10n * E18).toString(), receivedAmount: (20n * E18 - 6n * E18 / 100n).toString() },
+      actual: { filledAmount: (10n * E18).toString(), receivedAmount: (20n * E18 - 10n * E18 / 100n).toString() },
+    }]);
+  });
+
+  it('tracks commitments from commit through reveal and execution', async () => {
+    const { instance, emit, transactions } = aggregator();
+    await instance.start();
+
+    const salt = '0x' + '44'.repeat(32);
+    const orders: OrderStruct[] = [1n, 2n, 3n].map(nonce => ({ nonce, expiry: 2000n, amount: E18, limitPrice: PRICE, side: 0 }));
+    const [first, second, third] = orders.map(o => hashCommitment(o, salt));
+    const executed = hashOrder(orders[0]);
+
+    await db.insertBatch({ auction: AUCTION, batchId: 4, startBlock: 100, settled: false, createdAt: 1 });
+    for (const [index, commitment] of [first, second, third].entries()) {
+      await emit('CommitmentSubmitted', [TRADER, commitment, 4n], log(`0xc${index}`, 100 + index, 0));
+    }
+    // Logs are delivered again after a restart or a reorg
+    await emit('CommitmentSubmitted', [TRADER, first, 4n], log('0xc0', 100, 0));
+
+    for (const [index, commitment] of [first, second].entries()) {
+      transactions.set(`0xr${index}`, { to: AUCTION, data: REVEAL.encodeFunctionData('revealOrder', [orders[index], salt]) });
+      await emit('OrderRevealed', [TRADER, commitment, 4n], log(`0xr${index}`, 110, 0));
+    }
+
+    const stages = async () => (await db.getCommitmentsByBatch(AUCTION, 4)).map(c => c.stage);
+    expect(await stages()).toEqual(['revealed', 'revealed', 'committed']);
+    expect(await db.getRevealStats(AUCTION, 4)).toEqual({ committed: 3, revealed: 2, executed: 0, revealRate: 2 / 3 });
+
+    await emit('OrderExecuted', [executed, TRADER, E18, 2n * E18, PRICE], log('0xt4', 120, 0));
+    await emit('BatchSettled', [4n, PRICE, E18], log('0xt4', 120, 1));
+
+    expect(await stages()).toEqual(['executed', 'unexecuted', 'unrevealed']);
+    expect((await db.getCommitmentsByBatch(AUCTION, 4))[0]).toMatchObject({
+      orderHash: executed,
+      revealTxHash: '0xr0',
+      revealBlock: 110,
+      executionTxHash: '0xt4',
+      executionBlock: 120,
+      filledAmount: E18.toString(),
+      receivedAmount: (2n * E18).toString(),
+    });
+    expect((await db.getUnrevealedCommitments(AUCTION, 4)).map(c => c.commitment)).toEqual([third]);
+    expect(await db.getRevealStats(AUCTION, 4)).toMatchObject({ committed: 3, revealed: 2, executed: 1 });
+  });
+
+  it('returns executed orders only when asked to, and never reads them back over stored rows', async () => {
+    const { instance, transactions, reveals } = aggregator();
+    const salt = '0x' + '55'.repeat(32);
+    const executed: OrderStruct = { nonce: 5n, expiry: 2000n, amount: E18, limitPrice: PRICE, side: 0 };
+    const commitment = hashCommitment(executed, salt);
+
+    await db.insertBatch({ auction: AUCTION, batchId: 5, startBlock: 100, settled: false, createdAt: 1 });
+    await db.insertOrder({ ...order(hashOrder(executed), 5, 0), commitment, nonce: '5', amount: E18.toString(), executed: true });
+
+    // The reveal is still on chain and decodes to the same order
+    transactions.set('0xr5', { to: AUCTION, data: REVEAL.encodeFunctionData('revealOrder', [executed, salt]) });
+    reveals.push({ name: 'OrderRevealed', args: ethers.Result.fromItems([TRADER, commitment, 5n]), log: log('0xr5', 110, 0) });
+
+    expect(await instance.getRevealedOrders(5)).toEqual([]);
+    expect((await instance.getRevealedOrders(5, true)).map(o => [o.orderHash, o.executed])).toEqual([[hashOrder(executed), true]]);
+    expect((await db.getOrdersByBatch(AUCTION, 5, false))[0].executed).toBe(true);
+  });
+
+  it('retries reveals it cannot decode, then records them as undecodable so the indexer moves on', async () => {
+    const { instance, emit } = aggregator();
+    await instance.start();
+
+    const commitment = '0x' + 'c3'.repeat(32);
+    await emit('CommitmentSubmitted', [TRADER, commitment, 3n], log('0xc3', 140, 0));
+
+    await expect(emit('OrderRevealed', [TRADER, commitment, 3n], log('0xt3', 150, 0)))
+      .rejects.toThrow(`No revealOrder call matching commitment ${commitment} in 0xt3`);
+    expect(await db.getAlert(`reveal_undecodable:${AUCTION}:${commitment}`)).toBeNull();
+
+    // The last attempt resolves, so the checkpoint advances past the log
+    await emit('OrderRevealed', [TRADER, commitment, 3n], log('0xt3', 150, 0));
+
+    expect(await db.getOrdersByBatch(AUCTION, 3)).toEqual([]);
+    expect((await db.getCommitmentsByBatch(AUCTION, 3))[0]).toMatchObject({
+      stage: 'undecodable',
+      revealed: true,
+      orderHash: null,
+      revealTxHash: '0xt3',
+      revealError: `No revealOrder call matching commitment ${commitment} in 0xt3`,
+    });
+    expect(await db.getAlert(`reveal_undecodable:${AUCTION}:${commitment}`)).toMatchObject({ status: 'firing', severity: 'critical' });
+  });
+});
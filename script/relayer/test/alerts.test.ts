@@ -0,0 +1,111 @@
+import { AlertManager, AlertNotification, AlertSink } from '../src/alerts';
+import { db } from '../src/db';
+
+const MINUTE = 60_000;
+
+/**
+ * Sink that records what it was sent
+ */
+class RecordingSink implements AlertSink {
+  readonly name = 'recording';
+  sent: AlertNotification[] = [];
+
+  async send(notification: AlertNotification): Promise<void> {
+    this.sent.push(notification);
+  }
+}
+
+describe('alert manager', () => {
+  let now: number;
+  let sink: RecordingSink;
+  let manager: AlertManager;
+
+  beforeAll(async () => {
+    await db.initialize();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    sink = new RecordingSink();
+    manager = new AlertManager([sink], { repeatIntervalMs: 10 * MINUTE, maxPerMinute: 2 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sent = () => sink.sent.map(({ status, alert }) => `${status} ${alert.key} x${alert.count}`);
+
+  it('announces a firing alert once per repeat interval', async () => {
+    await manager.raise({ type: 'rpc_down', severity: 'critical', message: 'RPC down' });
+    now += MINUTE;
+    await manager.raise({ type: 'rpc_down', severity: 'critical', message: 'RPC down' });
+    now += 9 * MINUTE;
+    await manager.raise({ type: 'rpc_down', severity: 'critical', message: 'RPC down' });
+    await manager.flush();
+
+    expect(sent()).toEqual(['firing rpc_down x1', 'firing rpc_down x3']);
+    expect(await db.getAlert('rpc_down')).toMatchObject({ count: 3, firstSeenAt: 1_000_000, lastNotifiedAt: now });
+  });
+
+  it('keeps alerts of one type with different scopes apart', async () => {
+    await manager.raise({ type: 'batch_stuck', severity: 'warning', scope: 'a:1', message: 'Stuck' });
+    await manager.raise({ type: 'batch_stuck', severity: 'warning', scope: 'a:2', message: 'Stuck' });
+    await manager.flush();
+
+    expect(sent()).toEqual(['firing batch_stuck:a:1 x1', 'firing batch_stuck:a:2 x1']);
+  });
+
+  it('rate limits notifications and sends the held back ones on a later raise', async () => {
+    for (const type of ['first', 'second', 'third']) {
+      await manager.raise({ type, severity: 'warning', message: type });
+    }
+    await manager.flush();
+    expect(sent()).toEqual(['firing first x1', 'firing second x1']);
+
+    // The limit applies per minute; the third alert was never announced, so it is due at once
+    now += MINUTE;
+    await manager.raise({ type: 'third', severity: 'warning', message: 'third' });
+    await manager.flush();
+    expect(sent()).toEqual(['firing first x1', 'firing second x1', 'firing third x2']);
+  });
+
+  it('sends resolutions only for announced alerts', async () => {
+    await manager.raise({ type: 'announced', severity: 'warning', message: 'Announced' });
+    await manager.raise({ type: 'limited', severity: 'warning', message: 'Limited' });
+    await manager.raise({ type: 'silent', severity: 'warning', message: 'Silent' });
+
+    await manager.resolve('announced');
+    await manager.resolve('silent');
+    await manager.resolve('never_raised');
+    await manager.flush();
+
+    expect(sent()).toEqual(['firing announced x1', 'firing limited x1', 'resolved announced x1']);
+    expect(await db.getAlert('silent')).toMatchObject({ status: 'resolved', resolvedAt: now });
+  });
+
+  it('starts a new count when a resolved alert fires again', async () => {
+    await manager.raise({ type: 'relapse', severity: 'warning', message: 'Relapse' });
+    await manager.resolve('relapse');
+    now += MINUTE;
+    await manager.raise({ type: 'relapse', severity: 'warning', message: 'Relapse' });
+    await manager.flush();
+
+    expect(sent()).toEqual(['firing relapse x1', 'resolved relapse x1', 'firing relapse x1']);
+  });
+
+  it('keeps raising when a sink fails to deliver', async () => {
+    const failing: AlertSink = { name: 'failing', send: async () => { throw new Error('unreachable'); } };
+    manager = new AlertManager([failing, sink], { repeatIntervalMs: 10 * MINUTE, maxPerMinute: 2 });
+
+    await manager.raise({ type: 'delivery', severity: 'warning', message: 'Delivery' });
+    await manager.flush();
+
+    expect(sent()).toEqual(['firing delivery x1']);
+  });
+});
@@ -0,0 +1,187 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { ethers, Interface } from 'ethers';
+import { createApiRouter } from '../src/api';
+import { db, Order } from '../src/db';
+import { generateProofAt, orderLeaf, verifyProof } from '../src/merkle';
+import { buildOrdersTree } from '../src/settlement';
+
+const E18 = 10n ** 18n;
+const AUCTION = '0x' + 'aa'.repeat(20);
+const OTHER_AUCTION = '0x' + 'bb'.repeat(20);
+const TRADER = '0x' + 'dd'.repeat(20);
+
+const EXECUTION = new Interface([
+  'function getOrderExecution(bytes32 orderHash) external view returns (tuple(bool executed, uint128 filledAmount, uint128 receivedAmount) execution)',
+]);
+
+function order(nonce: number, side: number, auction: string = AUCTION): Order {
+  const fields = { nonce: String(nonce), expiry: 2000, amount: (5n * E18).toString(), limitPrice: (2n * E18).toString(), side };
+
+  return {
+    ...fields,
+    auction,
+    orderHash: orderLeaf(fields),
+    commitment: ethers.id(`commitment:${nonce}`),
+    salt: '0x00',
+    batchId: 1,
+    trader: TRADER,
+    revealed: true,
+    executed: true,
+    createdAt: 1000,
+  };
+}
+
+const BUY = order(1, 0);
+const SELL = order(2, 1);
+const UNSETTLED = order(3, 0);
+// The same order revealed in two auctions
+const SHARED = order(4, 0);
+
+describe('public API', () => {
+  let server: Server;
+  let baseUrl: string;
+  let chainDown = false;
+
+  const get = async (path: string) => {
+    const res = await fetch(baseUrl + path);
+    return { status: res.status, body: await res.json() as Record<string, any> };
+  };
+
+  beforeAll(async () => {
+    await db.initialize();
+
+    await db.insertBatch({ auction: AUCTION, batchId: 1, startBlock: 100, settled: false, createdAt: 1 });
+    await db.markBatchSettled(AUCTION, 1, '0xt1', (2n * E18).toString(), '', 150);
+    await db.setBatchSkipped(AUCTION, 1, true, 'Operator note');
+    for (const revealed of [BUY, SELL, UNSETTLED, SHARED, { ...SHARED, auction: OTHER_AUCTION }]) {
+      await db.insertOrder(revealed);
+    }
+
+    // Proofs as saved when the relayer sent the settlement, buy orders first
+    const tree = buildOrdersTree([BUY], [SELL]);
+    await db.saveOrderProofs(AUCTION, 1, [BUY, SELL].map((settled, i) => ({
+      auction: AUCTION,
+      orderHash: settled.orderHash,
+      batchId: 1,
+      leafIndex: i,
+      leaf: tree.leaves[i],
+      proof: generateProofAt(tree, i).proof,
+      root: tree.root,
+      txHash: '0xt1',
+      createdAt: 2,
+    })));
+
+    await db.insertFill({
+      auction: AUCTION,
+      orderHash: BUY.orderHash,
+      batchId: 1,
+      trader: TRADER,
+      filledAmount: (5n * E18).toString(),
+      receivedAmount: (2n * E18).toString(),
+      clearingPrice: (2n * E18).toString(),
+      txHash: '0xt1',
+      blockNumber: 150,
+      logIndex: 0,
+      createdAt: 3,
+    });
+
+    // Only the buy order was executed on chain
+    const provider = {
+      call: async ({ data }: { data: string }) => {
+        if (chainDown) {
+          throw new Error('connection refused');
+        }
+        const [orderHash] = EXECUTION.decodeFunctionData('getOrderExecution', data);
+        const executed = orderHash === BUY.orderHash;
+        return EXECUTION.encodeFunctionResult('getOrderExecution', [[executed, executed ? 5n * E18 : 0n, executed ? 2n * E18 : 0n]]);
+      },
+    } as unknown as ethers.Provider;
+
+    const app = express();
+    app.use('/', createApiRouter(provider));
+
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await db.close();
+  });
+
+  afterEach(() => {
+    chainDown = false;
+  });
+
+  it('serves a settled batch with its orders in leaf order, without operator notes', async () => {
+    const { status, body } = await get(`/batches/${AUCTION.toUpperCase().replace('0X', '0x')}/1`);
+
+    expect(status).toBe(200);
+    expect(body.batch).toMatchObject({ auction: AUCTION, batchId: 1, settled: true, txHash: '0xt1', settledBlock: 150 });
+    expect(body.batch).not.toHaveProperty('skipReason');
+    expect(body.orders).toEqual([BUY.orderHash, SELL.orderHash]);
+  });
+
+  it('serves an order with its execution read from the chain', async () => {
+    const { status, body } = await get(`/orders/${BUY.orderHash}`);
+
+    expect(status).toBe(200);
+    expect(body.order).toMatchObject({ auction: AUCTION, orderHash: BUY.orderHash, nonce: '1' });
+    expect(body.execution).toEqual({ executed: true, filledAmount: (5n * E18).toString(), receivedAmount: (2n * E18).toString() });
+  });
+
+  it('serves the proof sent on chain, which verifies against the batch root', async () => {
+    const { status, body } = await get(`/orders/${SELL.orderHash}/proof`);
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ leaf: SELL.orderHash, leafIndex: 1, txHash: '0xt1', execution: { executed: false } });
+    expect(verifyProof({ leaf: body.leaf, proof: body.proof, index: body.leafIndex }, body.root)).toBe(true);
+    expect(body.root).toBe(buildOrdersTree([BUY], [SELL]).root);
+  });
+
+  it('lists the fills of a trader', async () => {
+    const { status, body } = await get(`/traders/${TRADER}/fills?auction=${AUCTION}&limit=10`);
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ total: 1, limit: 10, offset: 0 });
+    expect(body.items.map((fill: { orderHash: string }) => fill.orderHash)).toEqual([BUY.orderHash]);
+  });
+
+  it('answers with a JSON error for requests it cannot serve', async () => {
+    const cases: [string, number, string][] = [
+      [`/batches/${AUCTION}/2`, 404, `Batch 2 of ${AUCTION} not found`],
+      [`/batches/not-an-address/1`, 400, 'auction must be an address'],
+      [`/batches/${AUCTION}/-1`, 400, 'batchId must be a non-negative integer'],
+      ['/orders/0x1234', 400, 'orderHash must be a 32-byte hex string'],
+      [`/orders/${ethers.id('unknown')}`, 404, `Order ${ethers.id('unknown')} not found`],
+      [`/orders/${UNSETTLED.orderHash}/proof`, 404, `Order ${UNSETTLED.orderHash} has no settlement proof`],
+      [`/orders/${SHARED.orderHash}`, 409, `Order ${SHARED.orderHash} exists in 2 auctions, pass ?auction=`],
+      ['/traders/0x12/fills', 400, 'trader must be an address'],
+    ];
+
+    for (const [path, status, error] of cases) {
+      expect({ path, ...(await get(path)) }).toEqual({ path, status, body: { error } });
+    }
+
+    expect((await get(`/orders/${SHARED.orderHash}?auction=${OTHER_AUCTION}`)).body.order.auction).toBe(OTHER_AUCTION);
+  });
+
+  it('answers 502 when the execution cannot be read from the chain', async () => {
+    chainDown = true;
+
+    expect(await get(`/orders/${BUY.orderHash}`)).toEqual({
+      status: 502,
+      body: { error: 'Order execution could not be read from the chain' },
+    });
+  });
+
+  it('allows calls from any origin', async () => {
+    const res = await fetch(`${baseUrl}/orders/${BUY.orderHash}`);
+
+    expect(res.headers.get('access-control-allow-origin')).toBe('*');
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  ClearingOrder,
+  computeClearing,
+  priceDeviationBps,
+  referenceClearingPrice,
+} from '../src/clearing';
+
+const E18 = 10n ** 18n;
+
+function order(orderHash: string, side: number, amount: bigint, price: bigint): ClearingOrder {
+  return { orderHash, side, amount: amount.toString(), limitPrice: (price * E18).toString() };
+}
+
+describe('clearing', () => {
+  it('replicates the contract reference price and deviation', () => {
+    const buys = [order('0x01', 0, 1n, 110n), order('0x02', 0, 1n, 100n)];
+    const sells = [order('0x03', 1, 1n, 90n), order('0x04', 1, 1n, 95n)];
+
+    expect(referenceClearingPrice(buys, sells)).toBe(100n * E18);
+    expect(referenceClearingPrice([order('0x01', 0, 1n, 80n)], sells)).toBe(0n);
+    expect(priceDeviationBps(101n, 100n)).toBe(100n);
+    expect(priceDeviationBps(100n, 101n)).toBe(100n);
+  });
+
+  it('picks the price that maximises matched volume', () => {
+    const buys = [
+      order('0x01', 0, 10n, 120n),
+      order('0x02', 0, 10n, 105n),
+      order('0x03', 0, 10n, 90n),
+    ];
+    const sells = [
+      order('0x11', 1, 10n, 80n),
+      order('0x12', 1, 10n, 100n),
+      order('0x13', 1, 10n, 115n),
+    ];
+
+    const result = computeClearing(buys, sells, 10000)!;
+
+    // 20 units clear anywhere in [100, 105]; ties resolve towards the contract midpoint (100)
+    expect(result.matchedVolume).toBe(20n);
+    expect(result.clearingPrice).toBe(100n * E18);
+    expect(result.fills.get('0x03')).toBe(0n);
+    expect(result.fills.get('0x13')).toBe(0n);
+    expect([...result.fills.values()].filter(f => f > 0n)).toHaveLength(4);
+    expect(result.buyOrders.map(o => o.orderHash)).toEqual(['0x01', '0x02']);
+    expect(result.sellOrders.map(o => o.orderHash)).toEqual(['0x11', '0x12']);
+  });
+
+  it('leaves out orders that cannot be filled in full', () => {
+    const buys = [
+      order('0x01', 0, 7n, 100n),
+      order('0x02', 0, 5n, 100n),
+      order('0x03', 0, 3n, 100n),
+    ];
+    const sells = [order('0x11', 1, 10n, 100n)];
+
+    const result = computeClearing(buys, sells, 0)!;
+
+    expect(result.matchedVolume).toBe(10n);
+    expect(result.buyOrders.map(o => o.orderHash)).toEqual(['0x01', '0x03']);
+    expect(result.sellOrders.map(o => o.orderHash)).toEqual(['0x11']);
+    expect(['0x01', '0x02', '0x03', '0x11'].map(h => result.fills.get(h))).toEqual([7n, 0n, 3n, 10n]);
+  });
+
+  it('takes better-priced orders first', () => {
+    const buys = [order('0x01', 0, 4n, 110n), order('0x02', 0, 4n, 100n), order('0x03', 0, 4n, 100n)];
+    const sells = [order('0x11', 1, 8n, 100n)];
+
+    const result = computeClearing(buys, sells, 10000)!;
+
+    expect(result.clearingPrice).toBe(100n * E18);
+    expect(result.referencePrice).toBe(105n * E18);
+    expect(['0x01', '0x02', '0x03'].map(h => result.fills.get(h))).toEqual([4n, 4n, 0n]);
+  });
+
+  it('leaves out orders that move the contract reference out of maxPriceDeviationBps', () => {
+    // With every order the contract midpoint is (300 + 99) / 2, far above the 101 all of them cross at
+    const buys = [order('0x01', 0, 10n, 300n), order('0x02', 0, 10n, 101n)];
+    const sells = [order('0x11', 1, 10n, 100n), order('0x12', 1, 10n, 99n)];
+
+    const unrestricted = computeClearing(buys, sells, 10000)!;
+    const restricted = computeClearing(buys, sells, 100)!;
+
+    expect(unrestricted.matchedVolume).toBe(20n);
+    expect(unrestricted.clearingPrice).toBe(101n * E18);
+    expect(restricted.matchedVolume).toBe(10n);
+    expect(restricted.clearingPrice).toBe(100n * E18);
+    expect(restricted.deviationBps).toBeLessThanOrEqual(100n);
+    expect(restricted.buyOrders.map(o => o.orderHash)).toEqual(['0x02']);
+    expect(restricted.sellOrders.map(o => o.orderHash)).toEqual(['0x12']);
+  });
+
+  it('is deterministic regardless of input order', () => {
+    const buys = [order('0x02', 0, 5n, 100n), order('0x01', 0, 5n, 100n)];
+    const sells = [order('0x11', 1, 5n, 100n)];
+
+    const a = computeClearing(buys, sells, 0)!;
+    const b = computeClearing([...buys].reverse(), sells, 0)!;
+
+    expect([...a.fills.entries()].sort()).toEqual([...b.fills.entries()].sort());
+    expect(a.fills.get('0x01')).toBe(5n);
+    expect(a.fills.get('0x02')).toBe(0n);
+  });
+
+  it('fills exactly what BatchAuction executes for the submitted orders', () => {
+    const random = lcg(42);
+    const tolerance = 200n;
+    let settled = 0;
+
+    for (let book = 0; book < 200; book++) {
+      const orders = Array.from({ length: 2 + (random() % 10) }, (_, i) =>
+        order(`0x${book}-${i}`, random() % 2, BigInt(1 + (random() % 5)), 95n + BigInt(random() % 11))
+      );
+      const buys = orders.filter(o => o.side === 0);
+      const sells = orders.filter(o => o.side === 1);
+
+      const result = computeClearing(buys, sells, tolerance);
+      if (!result) continue;
+      settled++;
+
+      const executed = executeOnChain(result.buyOrders, result.sellOrders, result.clearingPrice, tolerance);
+      for (const o of orders) {
+        expect(result.fills.get(o.orderHash)).toBe(executed.fills.get(o.orderHash) ?? 0n);
+      }
+      expect(executed.buyVolume).toBe(executed.sellVolume);
+      expect(result.matchedVolume).toBe(executed.totalVolume);
+    }
+
+    expect(settled).toBeGreaterThan(50);
+  });
+
+  it('returns null when no whole orders balance', () => {
+    const buys = [order('0x01', 0, 4n, 100n), order('0x02', 0, 4n, 100n)];
+    const sells = [order('0x11', 1, 6n, 100n)];
+
+    expect(computeClearing(buys, sells, 10000)).toBeNull();
+  });
+
+  it('returns null when the book does not cross', () => {
+    expect(computeClearing([order('0x01', 0, 1n, 90n)], [order('0x11', 1, 1n, 100n)], 100)).toBeNull();
+    expect(computeClearing([], [order('0x11', 1, 1n, 100n)], 100)).toBeNull();
+  });
+});
+
+/**
+ * BatchAuction.settleBatchWithProof on the submitted orders: reference price and deviation check,
+ * then _executeOrders, which fills every crossing order in full
+ */
+function executeOnChain(buys: ClearingOrder[], sells: ClearingOrder[], price: bigint, tolerance: bigint) {
+  const maxBuy = buys.reduce((max, o) => (BigInt(o.limitPrice) > max ? BigInt(o.limitPrice) : max), 0n);
+  const minSell = sells.reduce((min, o) => (BigInt(o.limitPrice) < min ? BigInt(o.limitPrice) : min), 2n ** 256n - 1n);
+  const reference = maxBuy >= minSell ? (maxBuy + minSell) / 2n : 0n;
+
+  if (price !== reference) {
+    const deviation = price > reference ? ((price - reference) * 10000n) / reference : ((reference - price) * 10000n) / price;
+    if (deviation > tolerance) throw new Error('PriceDeviationTooHigh');
+  }
+
+  const fills = new Map<string, bigint>();
+  let buyVolume = 0n;
+  let sellVolume = 0n;
+
+  for (const o of buys) {
+    if (BigInt(o.limitPrice) >= price) {
+      fills.set(o.orderHash, BigInt(o.amount));
+      buyVolume += BigInt(o.amount);
+    }
+  }
+  for (const o of sells) {
+    if (BigInt(o.limitPrice) <= price) {
+      fills.set(o.orderHash, BigInt(o.amount));
+      sellVolume += BigInt(o.amount);
+    }
+  }
+
+  return { fills, buyVolume, sellVolume, totalVolume: buyVolume > sellVolume ? sellVolume : buyVolume };
+}
+
+function lcg(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return state;
+  };
+}
@@ -0,0 +1,25 @@
+import { parseArgs, parseDays, run, UsageError } from '../src/cli';
+
+describe('cli', () => {
+  it('separates command words, options and flags', () => {
+    expect(parseArgs(['settle', '12', '--dry-run', '--auction', '0xabc', '--network=sepolia'])).toEqual({
+      command: ['settle', '12'],
+      options: { 'dry-run': 'true', auction: '0xabc', network: 'sepolia' },
+    });
+    expect(() => parseArgs(['replay', '--from-block'])).toThrow(UsageError);
+  });
+
+  it('reads ages in days', () => {
+    expect(parseDays('30')).toBe(30);
+    expect(parseDays('7d')).toBe(7);
+    expect(() => parseDays('2w')).toThrow(UsageError);
+    expect(() => parseDays(undefined)).toThrow(UsageError);
+  });
+
+  it('rejects unknown commands and malformed arguments before touching the database', async () => {
+    await expect(run([])).rejects.toThrow('No command given');
+    await expect(run(['batch', 'drop', '1'])).rejects.toThrow('Unknown command: batch drop 1');
+    await expect(run(['orders', 'latest'])).rejects.toThrow('Batch id must be a non-negative integer');
+    await expect(run(['replay'])).rejects.toThrow('--from-block must be a non-negative integer');
+  });
+});
@@ -0,0 +1,179 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, envName, loadConfig, redactConfig } from '../src/configuration';
+
+const FACTORY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relayer-config-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeFile(name: string, contents: string): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, contents);
+    return file;
+  }
+
+  function issues(load: () => unknown): string[] {
+    try {
+      load();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      return (error as ConfigError).issues.map(i => `${i.field} (${i.source})`);
+    }
+
+    throw new Error('Expected a ConfigError');
+  }
+
+  it('parses environment variables named after the fields', () => {
+    const config = loadConfig({
+      env: {
+        FACTORY_ADDRESS: FACTORY,
+        POLL_INTERVAL_MS: '6000',
+        DRY_RUN: 'true',
+        MAX_GAS_PRICE_GWEI: '2.5',
+        RPC_URLS: 'http://a:8545, http://b:8545',
+        BACKUP_RPC_URL: '',
+      },
+    });
+
+    expect(config).toMatchObject({
+      network: 'localhost',
+      chainId: 31337,
+      pollIntervalMs: 6000,
+      dryRun: true,
+      maxGasPriceGwei: 2.5,
+      rpcUrls: ['http://a:8545', 'http://b:8545'],
+      signerType: 'raw',
+      feeBumpPercent: 15,
+    });
+    expect(config.backupRpcUrl).toBeUndefined();
+    expect(envName('alertRateLimitPerMinute')).toBe('ALERT_RATE_LIMIT_PER_MINUTE');
+  });
+
+  it('layers the network profile, the file, its network section and the environment', () => {
+    const file = writeFile('relayer.yaml', [
+      'network: sepolia',
+      `factoryAddress: "${FACTORY}"`,
+      'confirmations: 6',
+      'logChunkSize: 500',
+      'networks:',
+      '  sepolia:',
+      '    confirmations: 3',
+      '    keystorePath: ./keystore.json',
+      '  mainnet:',
+      '    confirmations: 64',
+    ].join('\n'));
+
+    const config = loadConfig({ file, env: { LOG_CHUNK_SIZE: '100' } });
+
+    expect(config).toMatchObject({
+      network: 'sepolia',
+      chainId: 11155111,
+      confirmations: 3,
+      logChunkSize: 100,
+      signerType: 'keystore',
+      rpcUrls: ['http://localhost:8545'],
+    });
+    expect(loadConfig({ file, network: 'mainnet', env: {} })).toMatchObject({ chainId: 1, confirmations: 64 });
+    expect(loadConfig({ file, env: { NETWORK: 'mainnet' } })).toMatchObject({ network: 'mainnet', chainId: 1 });
+  });
+
+  it('reads JSON files', () => {
+    const file = writeFile('relayer.json', JSON.stringify({ factoryAddress: FACTORY, rpcUrls: ['https://rpc.example'] }));
+
+    expect(loadConfig({ env: { CONFIG_FILE: file } }).rpcUrls).toEqual(['https://rpc.example']);
+  });
+
+  it('reports every invalid field with where it was set', () => {
+    const file = writeFile('invalid.yaml', [
+      `factoryAddress: "${FACTORY}"`,
+      'pollIntervalMS: 100',
+      'networks:',
+      '  localhost:',
+      '    feeBumpPercent: 5',
+      '    rpcUrls: [http://localhost:8545, not-a-url]',
+    ].join('\n'));
+
+    expect(issues(() => loadConfig({ file, env: { POLL_INTERVAL_MS: '12s', LOG_LEVEL: 'verbose' } }))).toEqual([
+      `pollIntervalMS (${file})`,
+      `rpcUrls[1] (${file} networks.localhost)`,
+      `feeBumpPercent (${file} networks.localhost)`,
+      'logLevel (LOG_LEVEL)',
+      'pollIntervalMs (POLL_INTERVAL_MS)',
+    ]);
+  });
+
+  it('requires a factory address', () => {
+    expect(issues(() => loadConfig({ network: 'nowhere', env: {} }))).toEqual(['factoryAddress (FACTORY_ADDRESS)']);
+  });
+
+  it('rejects files that are not a settings object', () => {
+    const file = writeFile('list.yaml', '- a\n- b\n');
+    const networks = writeFile('networks.yaml', 'networks:\n  localhost:\n    - a\n');
+
+    expect(issues(() => loadConfig({ file, env: {} }))).toEqual([`(file) (${file})`]);
+    expect(issues(() => loadConfig({ file: networks, env: {} }))).toEqual([`(file) (${networks})`]);
+  });
+
+  it('never echoes secrets in errors', () => {
+    try {
+      loadConfig({ env: { FACTORY_ADDRESS: FACTORY, RELAYER_PRIVATE_KEY: '0xsecret' } });
+      throw new Error('Expected a ConfigError');
+    } catch (error) {
+      expect((error as Error).message).toContain('relayerPrivateKey (RELAYER_PRIVATE_KEY)');
+      expect((error as Error).message).not.toContain('0xsecret');
+    }
+
+    try {
+      loadConfig({
+        env: {
+          FACTORY_ADDRESS: FACTORY,
+          DATABASE_URL: 'mysql://relayer:hunter2@db:3306/relayer',
+          RPC_URLS: 'https://eth.example/v2/apikey,not a url',
+          SLACK_WEBHOOK_URL: 'hooks.slack.com/services/T000/B000/token',
+        },
+      });
+      throw new Error('Expected a ConfigError');
+    } catch (error) {
+      const { message } = error as Error;
+      expect(message).toContain('databaseUrl (DATABASE_URL): Expected a postgres:// URL (got "mysql://relayer:[redacted]@db:3306/relayer")');
+      expect(message).toContain('(got "https://eth.example/[redacted],[redacted]")');
+      expect(message).not.toMatch(/hunter2|apikey|token/);
+    }
+  });
+});
+
+describe('redactConfig', () => {
+  it('hides keys, tokens, passwords and URL paths that carry API keys', () => {
+    const config = loadConfig({
+      env: {
+        FACTORY_ADDRESS: FACTORY,
+        RELAYER_PRIVATE_KEY: '0x' + '11'.repeat(32),
+        ADMIN_API_TOKEN: 'token',
+        RPC_URLS: 'http://localhost:8545,https://eth.example/v2/apikey?x=1',
+        SLACK_WEBHOOK_URL: 'https://hooks.slack.com/services/T0/B0/secret',
+        DATABASE_URL: 'postgres://relayer:hunter2@db:5432/relayer',
+      },
+    });
+
+    expect(redactConfig(config)).toMatchObject({
+      relayerPrivateKey: '[redacted]',
+      adminApiToken: '[redacted]',
+      rpcUrl: 'http://localhost:8545',
+      rpcUrls: ['http://localhost:8545', 'https://eth.example/[redacted]'],
+      slackWebhookUrl: 'https://hooks.slack.com/[redacted]',
+      databaseUrl: 'postgres://relayer:[redacted]@db:5432/relayer',
+      factoryAddress: FACTORY,
+    });
+    expect(JSON.stringify(redactConfig(config))).not.toMatch(/apikey|secret|hunter2|1111/);
+  });
+});
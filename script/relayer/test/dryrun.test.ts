@@ -0,0 +1,210 @@
+import { ethers } from 'ethers';
+import { Order, SettlementReport } from '../src/database';
+import { compareSettlement } from '../src/dryrun';
+import { OrderAggregator, separateOrders } from '../src/aggregator';
+import { Lease } from '../src/lease';
+import { AuctionParameterCache } from '../src/parameters';
+import { RelayerSigner } from '../src/signer';
+import { SettlementService } from '../src/settlement';
+import { TransactionManager } from '../src/txmanager';
+
+const E18 = 10n ** 18n;
+const AUCTION = '0x' + 'aa'.repeat(20);
+const RELAYER = '0x' + 'cc'.repeat(20);
+
+const PARAMETERS = new ethers.Interface([
+  'function batchDuration() external view returns (uint256)',
+  'function minOrderSize() external view returns (uint128)',
+  'function maxPriceDeviationBps() external view returns (uint16)',
+  'function feeBps() external view returns (uint24)',
+]);
+
+const CACHED = {
+  get: () => ({ batchDuration: 10, minOrderSize: 1n, maxPriceDeviationBps: 100, feeBps: 30, blockNumber: 90 }),
+} as unknown as AuctionParameterCache;
+
+function order(orderHash: string, side: number, amount: bigint, price: bigint): Order {
+  return {
+    auction: AUCTION,
+    orderHash,
+    commitment: orderHash.replace('0x', '0xc'),
+    salt: '0x00',
+    batchId: 1,
+    trader: '0x' + 'dd'.repeat(20),
+    nonce: String(parseInt(orderHash.slice(2), 16)),
+    expiry: 2000,
+    amount: amount.toString(),
+    limitPrice: (price * E18).toString(),
+    side,
+    revealed: true,
+    executed: false,
+    createdAt: 1000,
+  };
+}
+
+function report(overrides: Partial<SettlementReport> = {}): SettlementReport {
+  return {
+    auction: AUCTION,
+    batchId: 1,
+    blockTag: '99',
+    from: RELAYER,
+    success: true,
+    clearingPrice: (100n * E18).toString(),
+    totalVolume: '10',
+    ordersRoot: '0x' + '01'.repeat(32),
+    orderCount: 3,
+    fills: { '0xb1': '7', '0xb3': '3', '0x51': '10' },
+    createdAt: 1000,
+    ...overrides,
+  };
+}
+
+/**
+ * Settlement service over a fixed book, with a node that accepts the simulated call
+ * Parameter reads are answered with the values the cache holds, and their block tags recorded.
+ */
+function service(orders: Order[], call: () => Promise<string> = async () => '0x', parameters = CACHED, reads: unknown[] = []) {
+  const provider = {
+    getBlock: async () => ({ number: 99, timestamp: 1500 }),
+    call: async (tx: { data: string; blockTag: unknown }) => {
+      const read = PARAMETERS.parseTransaction({ data: tx.data });
+      if (!read) {
+        return call();
+      }
+
+      reads.push(tx.blockTag);
+      return PARAMETERS.encodeFunctionResult(read.name, [CACHED.get()[read.name as 'feeBps']]);
+    },
+    send: async (method: string) => (method === 'eth_estimateGas' ? '0x30d40' : null),
+  } as unknown as ethers.JsonRpcProvider;
+
+  const aggregator = {
+    getRevealedOrders: async () => orders,
+    validateOrders: async (revealed: Order[]) => revealed,
+    separateOrders,
+  } as unknown as OrderAggregator;
+
+  return new SettlementService(
+    provider,
+    {} as RelayerSigner,
+    AUCTION,
+    aggregator,
+    {} as TransactionManager,
+    parameters,
+    {} as Lease
+  );
+}
+
+describe('dry run', () => {
+  it('reports the fills the contract executes for the submitted orders', async () => {
+    const book = [
+      order('0xb1', 0, 7n, 100n),
+      order('0xb2', 0, 5n, 100n),
+      order('0xb3', 0, 3n, 100n),
+      order('0x51', 1, 10n, 100n),
+    ];
+
+    const result = await service(book).simulateSettlement(1, 99, RELAYER);
+
+    expect(result).toMatchObject({
+      success: true,
+      clearingPrice: (100n * E18).toString(),
+      totalVolume: '10',
+      orderCount: 3,
+      gasEstimate: '200000',
+      // 0xb2 cannot be filled in full, so it is not submitted and does not execute
+      fills: { '0xb1': '7', '0xb3': '3', '0x51': '10' },
+    });
+    expect(result.revert).toBeUndefined();
+  });
+
+  it('previews the same settlement for operators, with left-out orders at 0', async () => {
+    const book = [
+      order('0xb1', 0, 7n, 100n),
+      order('0xb2', 0, 5n, 100n),
+      order('0xb3', 0, 3n, 100n),
+      order('0x51', 1, 10n, 100n),
+    ];
+
+    const preview = (await service(book).previewSettlement(1))!;
+    const simulated = await service(book).simulateSettlement(1, 99, RELAYER);
+
+    expect(preview).toMatchObject({
+      clearingPrice: simulated.clearingPrice,
+      totalVolume: simulated.totalVolume,
+      ordersRoot: simulated.ordersRoot,
+      buyOrders: ['0xb1', '0xb3'],
+      sellOrders: ['0x51'],
+      fills: { '0xb1': '7', '0xb2': '0', '0xb3': '3', '0x51': '10' },
+    });
+  });
+
+  it('simulates a past block under the parameters read at it, not the cached ones', async () => {
+    const reads: unknown[] = [];
+    const unloaded = {
+      get: () => {
+        throw new Error('Auction parameters are not loaded');
+      },
+    } as unknown as AuctionParameterCache;
+
+    const result = await service([order('0xb1', 0, 5n, 100n), order('0x51', 1, 5n, 100n)], undefined, unloaded, reads)
+      .simulateSettlement(1, 99, RELAYER);
+
+    expect(result).toMatchObject({ success: true, fills: { '0xb1': '5', '0x51': '5' } });
+    expect(reads).toEqual([99, 99, 99, 99]);
+  });
+
+  it('records the decoded revert when the simulated call fails', async () => {
+    const iface = new ethers.Interface(['error PriceDeviationTooHigh()']);
+    const revert = async () => {
+      throw Object.assign(new Error('execution reverted'), { data: iface.encodeErrorResult('PriceDeviationTooHigh', []) });
+    };
+
+    const result = await service([order('0xb1', 0, 5n, 100n), order('0x51', 1, 5n, 100n)], revert)
+      .simulateSettlement(1, 99, RELAYER);
+
+    expect(result.success).toBe(false);
+    expect(result.revert).toBe('PriceDeviationTooHigh()');
+    expect(result.fills).toEqual({ '0xb1': '5', '0x51': '5' });
+  });
+
+  it('finds no mismatch when the chain executed the simulated settlement', () => {
+    const simulated = report();
+
+    const comparison = compareSettlement(simulated, {
+      txHash: '0xt1',
+      clearingPrice: simulated.clearingPrice!,
+      totalVolume: '10',
+      ordersRoot: simulated.ordersRoot!,
+      fills: { '0xb1': '7', '0xb3': '3', '0x51': '10' },
+    });
+
+    expect(comparison).toEqual({
+      onChainTxHash: '0xt1',
+      onChainClearingPrice: simulated.clearingPrice,
+      onChainTotalVolume: '10',
+      onChainOrdersRoot: simulated.ordersRoot,
+      onChainFills: { '0xb1': '7', '0xb3': '3', '0x51': '10' },
+      mismatches: [],
+    });
+  });
+
+  it('reports differing fields and fills, with orders missing on either side as 0', () => {
+    const comparison = compareSettlement(report({ ordersRoot: undefined }), {
+      txHash: '0xt1',
+      clearingPrice: (101n * E18).toString(),
+      totalVolume: '12',
+      ordersRoot: '0x' + '02'.repeat(32),
+      fills: { '0xb1': '7', '0xb2': '5', '0x51': '12' },
+    });
+
+    expect(comparison.mismatches).toEqual([
+      `clearingPrice: simulated ${100n * E18}, on chain ${101n * E18}`,
+      'totalVolume: simulated 10, on chain 12',
+      `ordersRoot: simulated none, on chain 0x${'02'.repeat(32)}`,
+      'fill 0xb3: simulated 3, on chain 0',
+      'fill 0x51: simulated 10, on chain 12',
+      'fill 0xb2: simulated 0, on chain 5',
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { ethers, Interface } from 'ethers';
+import { Auction, db } from '../src/db';
+import { AuctionDiscovery } from '../src/factory';
+import { EventIndexer } from '../src/indexer';
+
+const FACTORY = '0x' + 'fa'.repeat(20);
+const TOKEN0 = '0x' + '01'.repeat(20);
+const TOKEN1 = '0x' + '02'.repeat(20);
+const EVENTS = new Interface(['event AuctionCreated(address indexed token0, address indexed token1, address auction)']);
+
+/**
+ * Factory whose AuctionCreated logs are served by block
+ */
+class StubFactory {
+  head = 50;
+  created: { blockNumber: number; auction: string }[] = [];
+
+  provider(): ethers.JsonRpcProvider {
+    return {
+      getBlockNumber: async () => this.head,
+      getBlock: async (blockNumber: number) => ({ number: blockNumber, hash: ethers.id(`block:${blockNumber}`) }),
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+        this.created
+          .filter(c => c.blockNumber >= fromBlock && c.blockNumber <= toBlock)
+          .map(c => ({
+            ...EVENTS.encodeEventLog('AuctionCreated', [TOKEN0, TOKEN1, c.auction]),
+            address: FACTORY,
+            blockNumber: c.blockNumber,
+            blockHash: ethers.id(`block:${c.blockNumber}`),
+            index: 0,
+            transactionHash: ethers.id(`tx:${c.auction}`),
+            removed: false,
+          })),
+    } as unknown as ethers.JsonRpcProvider;
+  }
+}
+
+let runs = 0;
+
+/**
+ * Discovery over a fresh factory indexer, recording the auctions it hands to its handler
+ */
+function discovery(factory: StubFactory, name: string) {
+  const discovered: Auction[] = [];
+  const indexer = new EventIndexer(factory.provider(), name, FACTORY, { startBlock: 1, pollIntervalMs: 60_000, confirmations: 5 });
+  const instance = new AuctionDiscovery(factory.provider(), FACTORY, indexer);
+
+  instance.onAuction(async auction => {
+    discovered.push(auction);
+  });
+
+  // Each run backfills to the head and stops, like a restart
+  const run = async () => {
+    await instance.start();
+    await indexer.start();
+    await indexer.stop();
+  };
+
+  return { instance, indexer, discovered, run };
+}
+
+describe('auction discovery', () => {
+  beforeAll(async () => {
+    await db.initialize();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('stores every auction the factory created and hands each one over once', async () => {
+    const factory = new StubFactory();
+    const name = `factory:${++runs}`;
+    const first = '0x' + 'A1'.repeat(20);
+    const second = '0x' + 'a2'.repeat(20);
+    factory.created = [{ blockNumber: 30, auction: second }, { blockNumber: 10, auction: first }];
+
+    const run = discovery(factory, name);
+    await run.run();
+
+    expect(run.discovered.map(({ address, createdBlock }) => ({ address, createdBlock }))).toEqual([
+      { address: first.toLowerCase(), createdBlock: 10 },
+      { address: second, createdBlock: 30 },
+    ]);
+    expect(run.discovered[0]).toMatchObject({ token0: TOKEN0, token1: TOKEN1, txHash: ethers.id(`tx:${first}`) });
+    expect((await db.getAuctions()).map(a => a.address)).toEqual(expect.arrayContaining([first.toLowerCase(), second]));
+
+    // A restart resumes after the factory checkpoint, so known auctions come from the database
+    const third = '0x' + 'a3'.repeat(20);
+    factory.created.push({ blockNumber: 55, auction: third });
+    factory.head = 60;
+
+    const restarted = discovery(factory, name);
+    await restarted.run();
+
+    expect(restarted.discovered.map(a => a.address)).toEqual([third]);
+  });
+
+  it('keeps recording auctions but hands none over once stopped', async () => {
+    const factory = new StubFactory();
+    const auction = '0x' + 'b1'.repeat(20);
+    factory.created = [{ blockNumber: 20, auction }];
+
+    const { instance, indexer, discovered } = discovery(factory, `factory:${++runs}`);
+
+    await instance.start();
+    await instance.stop();
+    await indexer.start();
+    await indexer.stop();
+
+    expect(discovered).toEqual([]);
+    expect((await db.getAuctions()).map(a => a.address)).toContain(auction);
+  });
+});
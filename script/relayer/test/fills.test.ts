@@ -0,0 +1,62 @@
+import { expectedFill, reconcileFills, SettledOrder } from '../src/fills';
+
+const E18 = 10n ** 18n;
+
+function order(orderHash: string, overrides: Partial<SettledOrder> = {}): SettledOrder {
+  return {
+    orderHash,
+    amount: (10n * E18).toString(),
+    limitPrice: (2n * E18).toString(),
+    side: 0,
+    ...overrides,
+  };
+}
+
+describe('fills', () => {
+  it('fills crossing orders in full at the clearing price, less the fee on buys', () => {
+    // 10 at 1.5 is 15 of TOKEN1; 30 bps of it is 0.045
+    expect(expectedFill(order('0x01'), 3n * E18 / 2n, 30)).toEqual({
+      orderHash: '0x01', filledAmount: 10n * E18, receivedAmount: 15n * E18 - 45n * E18 / 1000n,
+    });
+    expect(expectedFill(order('0x02', { side: 1, limitPrice: E18.toString() }), 3n * E18 / 2n, 30)).toEqual({
+      orderHash: '0x02', filledAmount: 10n * E18, receivedAmount: 15n * E18,
+    });
+  });
+
+  it('does not fill orders that do not cross the clearing price', () => {
+    expect(expectedFill(order('0x01', { limitPrice: E18.toString() }), 2n * E18, 30)).toBeNull();
+    expect(expectedFill(order('0x02', { side: 1, limitPrice: (3n * E18).toString() }), 2n * E18, 30)).toBeNull();
+    // Limit prices equal to the clearing price cross on both sides
+    expect(expectedFill(order('0x03'), 2n * E18, 0)).not.toBeNull();
+    expect(expectedFill(order('0x04', { side: 1 }), 2n * E18, 0)).not.toBeNull();
+  });
+
+  it('reports missing, unexpected and differing fills by order hash', () => {
+    const expected = [
+      { orderHash: '0x0A', filledAmount: 10n, receivedAmount: 20n },
+      { orderHash: '0x0b', filledAmount: 10n, receivedAmount: 20n },
+      { orderHash: '0x0c', filledAmount: 10n, receivedAmount: 20n },
+    ];
+    const actual = [
+      { orderHash: '0x0a', filledAmount: '10', receivedAmount: '20' },
+      { orderHash: '0x0c', filledAmount: '10', receivedAmount: '19' },
+      { orderHash: '0x0d', filledAmount: '5', receivedAmount: '5' },
+    ];
+
+    expect(reconcileFills(expected, actual)).toEqual([
+      { orderHash: '0x0b', kind: 'missing', expected: { filledAmount: '10', receivedAmount: '20' }, actual: null },
+      {
+        orderHash: '0x0c',
+        kind: 'amount_mismatch',
+        expected: { filledAmount: '10', receivedAmount: '20' },
+        actual: { filledAmount: '10', receivedAmount: '19' },
+      },
+      { orderHash: '0x0d', kind: 'unexpected', expected: null, actual: { filledAmount: '5', receivedAmount: '5' } },
+    ]);
+  });
+
+  it('finds nothing to report when every fill matches', () => {
+    const fills = [order('0x01'), order('0x02', { side: 1 })].map(o => expectedFill(o, 2n * E18, 25)!);
+    expect(reconcileFills(fills, fills.map(f => ({ ...f, filledAmount: f.filledAmount.toString() })))).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import net from 'net';
+import { HealthServer } from '../src/health';
+
+/**
+ * Port nothing listens on, for servers that only take a port number
+ */
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+describe('health server', () => {
+  let health: HealthServer;
+  let url: string;
+
+  beforeEach(async () => {
+    const port = await freePort();
+    health = new HealthServer(50);
+    await health.start(port);
+    url = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await health.stop();
+  });
+
+  const get = async (path: string) => {
+    const res = await fetch(url + path);
+    return { status: res.status, body: await res.json() };
+  };
+
+  it('reports live whatever the components say', async () => {
+    health.register('rpc', async () => ({ ok: false, message: 'down' }));
+
+    const { status, body } = await get('/livez');
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ status: 'ok', uptime: expect.any(Number) });
+  });
+
+  it('is ready once every component check passes', async () => {
+    health.register('rpc', async () => ({ ok: true, healthyEndpoints: 2 }));
+    health.register('database', async () => ({ ok: true }));
+
+    expect(await get('/readyz')).toEqual({
+      status: 200,
+      body: {
+        status: 'ready',
+        ready: true,
+        components: { rpc: { ok: true, healthyEndpoints: 2 }, database: { ok: true } },
+      },
+    });
+  });
+
+  it('answers 503 with the failing components', async () => {
+    health.register('rpc', async () => ({ ok: true }));
+    health.register('balance', async () => ({ ok: false, message: 'Balance below minimum', balance: '0.01' }));
+    health.register('chainId', async () => {
+      throw Object.assign(new Error('could not detect network (request details)'), { shortMessage: 'could not detect network' });
+    });
+    health.register('database', () => new Promise(() => undefined));
+
+    const { status, body } = await get('/readyz');
+
+    expect(status).toBe(503);
+    expect(body).toEqual({
+      status: 'not ready',
+      ready: false,
+      components: {
+        rpc: { ok: true },
+        balance: { ok: false, message: 'Balance below minimum', balance: '0.01' },
+        chainId: { ok: false, message: 'could not detect network' },
+        database: { ok: false, message: 'Check timed out after 50ms' },
+      },
+    });
+  });
+
+  it('is not ready before any component is registered', async () => {
+    expect(await health.checkReadiness()).toEqual({ ready: false, components: {} });
+    expect((await get('/readyz')).status).toBe(503);
+  });
+});
@@ -0,0 +1,260 @@
+import { ethers, Interface } from 'ethers';
+import { db } from '../src/db';
+import { EventIndexer, IndexerOptions } from '../src/indexer';
+
+const CONTRACT = '0x' + 'aa'.repeat(20);
+const EVENTS = new Interface(['event Ping(uint256 value)']);
+const PING = EVENTS.getEvent('Ping')!;
+
+interface ChainLog {
+  blockNumber: number;
+  index: number;
+  value: number;
+}
+
+/**
+ * Chain of blocks with Ping logs, whose blocks from a height can be replaced by a fork
+ * Ranges of getLogs requests are recorded, and those wider than `maxRange` rejected.
+ */
+class StubChain {
+  head = 0;
+  logs: ChainLog[] = [];
+  maxRange = Infinity;
+  requests: [number, number][] = [];
+  private forks: { fromBlock: number; id: number }[] = [];
+
+  hash(blockNumber: number): string {
+    const fork = this.forks.filter(f => blockNumber >= f.fromBlock).map(f => f.id).pop() ?? 0;
+    return ethers.id(`${fork}:${blockNumber}`);
+  }
+
+  /**
+   * Replace every block from a height with a different chain and its logs
+   */
+  reorg(fromBlock: number, logs: ChainLog[]): void {
+    this.forks.push({ fromBlock, id: this.forks.length + 1 });
+    this.logs = [...this.logs.filter(l => l.blockNumber < fromBlock), ...logs];
+  }
+
+  provider(): ethers.JsonRpcProvider {
+    return {
+      getBlockNumber: async () => this.head,
+      getBlock: async (blockNumber: number) =>
+        blockNumber <= this.head ? { number: blockNumber, hash: this.hash(blockNumber) } : null,
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+        this.requests.push([fromBlock, toBlock]);
+        if (toBlock - fromBlock + 1 > this.maxRange) {
+          throw new Error(`query exceeds max block range ${this.maxRange}`);
+        }
+
+        return this.logs
+          .filter(l => l.blockNumber >= fromBlock && l.blockNumber <= toBlock)
+          .map(l => ({
+            ...EVENTS.encodeEventLog(PING, [l.value]),
+            address: CONTRACT,
+            blockNumber: l.blockNumber,
+            blockHash: this.hash(l.blockNumber),
+            index: l.index,
+            transactionHash: ethers.id(`tx:${l.blockNumber}:${l.index}`),
+            removed: false,
+          }));
+      },
+    } as unknown as ethers.JsonRpcProvider;
+  }
+}
+
+let indexers = 0;
+
+/**
+ * Indexer that records the Ping values it handles and the fork blocks it rolls back from
+ * Handling a value in `failing` throws, as a handler does when its RPC calls fail.
+ */
+function indexer(chain: StubChain, options: Partial<IndexerOptions> = {}) {
+  const name = `test:${++indexers}`;
+  const seen: number[] = [];
+  const rollbacks: number[] = [];
+  const failing = new Set<number>();
+
+  const create = () => {
+    const instance = new EventIndexer(chain.provider(), name, CONTRACT, {
+      startBlock: 1,
+      chunkSize: 100,
+      pollIntervalMs: 60_000,
+      confirmations: 5,
+      ...options,
+    });
+    instance.on(PING, async ({ args }) => {
+      if (failing.has(Number(args.value))) {
+        throw new Error(`Handler failed on ${args.value}`);
+      }
+      seen.push(Number(args.value));
+    });
+    instance.onReorg(async forkBlock => {
+      rollbacks.push(forkBlock);
+    });
+    return instance;
+  };
+
+  // Each run backfills to the head and stops, like a restart
+  const run = async () => {
+    const instance = create();
+    await instance.start();
+    await instance.stop();
+    return instance;
+  };
+
+  return { run, seen, rollbacks, failing };
+}
+
+describe('event indexer', () => {
+  beforeAll(async () => {
+    await db.initialize();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('backfills in chunks and resumes from the checkpoint after a restart', async () => {
+    const chain = new StubChain();
+    chain.head = 35;
+    chain.logs = [
+      { blockNumber: 3, index: 0, value: 3 },
+      { blockNumber: 14, index: 2, value: 142 },
+      { blockNumber: 14, index: 1, value: 141 },
+      { blockNumber: 30, index: 0, value: 30 },
+    ];
+    const { run, seen } = indexer(chain, { chunkSize: 10 });
+
+    const first = await run();
+    expect(chain.requests).toEqual([[1, 10], [11, 20], [21, 30], [31, 35]]);
+    expect(seen).toEqual([3, 141, 142, 30]);
+    expect(first.getProcessedBlock()).toBe(35);
+
+    chain.requests = [];
+    chain.head = 40;
+    chain.logs.push({ blockNumber: 38, index: 0, value: 38 });
+
+    await run();
+    expect(chain.requests).toEqual([[36, 40]]);
+    expect(seen).toEqual([3, 141, 142, 30, 38]);
+  });
+
+  it('resumes in the middle of a block without handling a log twice', async () => {
+    const chain = new StubChain();
+    chain.head = 20;
+    chain.logs = [
+      { blockNumber: 12, index: 0, value: 120 },
+      { blockNumber: 12, index: 1, value: 121 },
+      { blockNumber: 15, index: 0, value: 150 },
+    ];
+    const { run, seen, failing } = indexer(chain);
+
+    failing.add(121);
+    const first = await run();
+    expect(seen).toEqual([120]);
+    expect(first.getProcessedBlock()).toBe(11);
+
+    failing.clear();
+    const second = await run();
+    expect(seen).toEqual([120, 121, 150]);
+    expect(second.getProcessedBlock()).toBe(20);
+  });
+
+  it('halves the chunk size when the node rejects a range and grows it back', async () => {
+    const chain = new StubChain();
+    chain.head = 100;
+    chain.maxRange = 30;
+    chain.logs = [
+      { blockNumber: 5, index: 0, value: 5 },
+      { blockNumber: 60, index: 0, value: 60 },
+      { blockNumber: 99, index: 0, value: 99 },
+    ];
+    const { run, seen } = indexer(chain);
+
+    const instance = await run();
+
+    expect(chain.requests).toEqual([
+      [1, 100], [1, 50], [1, 25],
+      [26, 75], [26, 50],
+      [51, 100], [51, 75],
+      [76, 100],
+    ]);
+    expect(seen).toEqual([5, 60, 99]);
+    expect(instance.getProcessedBlock()).toBe(100);
+  });
+
+  it('reads past logs of an event in chunks without moving the checkpoint', async () => {
+    const chain = new StubChain();
+    chain.head = 100;
+    chain.maxRange = 30;
+    chain.logs = [
+      { blockNumber: 20, index: 0, value: 20 },
+      { blockNumber: 70, index: 1, value: 71 },
+      { blockNumber: 70, index: 0, value: 70 },
+    ];
+    const instance = new EventIndexer(chain.provider(), `test:${++indexers}`, CONTRACT, { startBlock: 1, chunkSize: 100 });
+
+    const events = await instance.queryEvents(PING, 10);
+
+    expect(events.map(({ name, args }) => [name, Number(args.value)])).toEqual([['Ping', 20], ['Ping', 70], ['Ping', 71]]);
+    expect(chain.requests).toEqual([[10, 100], [10, 59], [10, 34], [35, 84], [35, 59], [60, 100], [60, 84], [85, 100]]);
+    expect(instance.getProcessedBlock()).toBe(0);
+  });
+
+  it('rolls back to the newest canonical block and re-indexes the fork', async () => {
+    const chain = new StubChain();
+    chain.head = 30;
+    chain.logs = [
+      { blockNumber: 10, index: 0, value: 10 },
+      { blockNumber: 20, index: 0, value: 20 },
+      { blockNumber: 26, index: 0, value: 26 },
+      { blockNumber: 28, index: 0, value: 28 },
+    ];
+    const { run, seen, rollbacks } = indexer(chain);
+
+    const first = await run();
+    expect(seen).toEqual([10, 20, 26, 28]);
+    expect(first.getProcessedBlock()).toBe(30);
+    expect(first.getFinalizedBlock()).toBe(25);
+
+    // Blocks from 27 are replaced; 26 is the newest tracked block still canonical
+    chain.reorg(27, [{ blockNumber: 28, index: 0, value: 281 }, { blockNumber: 29, index: 1, value: 291 }]);
+    chain.head = 31;
+
+    await run();
+    expect(rollbacks).toEqual([27]);
+    expect(seen).toEqual([10, 20, 26, 28, 281, 291]);
+  });
+
+  it('leaves state alone when the tracked blocks are unchanged', async () => {
+    const chain = new StubChain();
+    chain.head = 20;
+    chain.logs = [{ blockNumber: 18, index: 0, value: 18 }];
+    const { run, seen, rollbacks } = indexer(chain);
+
+    await run();
+    chain.head = 22;
+    chain.logs.push({ blockNumber: 21, index: 0, value: 21 });
+    await run();
+
+    expect(rollbacks).toEqual([]);
+    expect(seen).toEqual([18, 21]);
+  });
+
+  it('rolls back the whole window when the reorg reaches past every tracked block', async () => {
+    const chain = new StubChain();
+    chain.head = 30;
+    chain.logs = [{ blockNumber: 27, index: 0, value: 27 }];
+    const { run, seen, rollbacks } = indexer(chain);
+
+    await run();
+
+    // Tracked blocks are 27 and the tip 30, both replaced; untracked 26 is within the window too
+    chain.reorg(26, [{ blockNumber: 26, index: 0, value: 261 }]);
+    await run();
+
+    expect(rollbacks).toEqual([26]);
+    expect(seen).toEqual([27, 261]);
+  });
+});
@@ -0,0 +1,78 @@
+import { db } from '../src/db';
+import { Lease, LeaseHeldError } from '../src/lease';
+
+const TTL = 30_000;
+
+describe('lease', () => {
+  beforeAll(async () => {
+    await db.initialize();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_000_000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stays held while it is renewed in the background', async () => {
+    const first = new Lease('renewed', 'first', TTL);
+    const second = new Lease('renewed', 'second', TTL);
+
+    expect(await first.acquire()).toBe(true);
+    await jest.advanceTimersByTimeAsync(3 * TTL);
+
+    expect(first.isHeld()).toBe(true);
+    expect(await second.acquire()).toBe(false);
+    expect(second.isHeld()).toBe(false);
+
+    await first.release();
+    expect(first.isHeld()).toBe(false);
+    expect(await second.acquire()).toBe(true);
+    await second.release();
+  });
+
+  it('is lost to another owner once it expires without renewal', async () => {
+    const first = new Lease('contended', 'first', TTL);
+    const second = new Lease('contended', 'second', TTL);
+
+    expect(await first.acquire()).toBe(true);
+
+    // The first owner stalls past its TTL without renewing, and the second takes over
+    jest.setSystemTime(Date.now() + TTL);
+    expect(first.isHeld()).toBe(false);
+    expect(await second.acquire()).toBe(true);
+
+    await expect(first.ensureHeld()).rejects.toThrow(LeaseHeldError);
+    await expect(first.ensureHeld()).rejects.toMatchObject({ holder: { owner: 'second' } });
+
+    // Background renewal does not win it back either
+    await jest.advanceTimersByTimeAsync(TTL);
+    expect(first.isHeld()).toBe(false);
+    expect(second.isHeld()).toBe(true);
+    expect(await db.getLease('contended')).toMatchObject({ owner: 'second' });
+
+    // Releasing a lost lease leaves the new holder alone
+    await first.release();
+    expect(await db.getLease('contended')).toMatchObject({ owner: 'second' });
+    await second.release();
+  });
+
+  it('is taken again when it lapsed and nobody claimed it', async () => {
+    const lease = new Lease('lapsed', 'first', TTL);
+
+    expect(await lease.acquire()).toBe(true);
+    jest.setSystemTime(Date.now() + TTL);
+    expect(lease.isHeld()).toBe(false);
+
+    await lease.ensureHeld();
+    expect(lease.isHeld()).toBe(true);
+    expect(await db.getLease('lapsed')).toMatchObject({ owner: 'first', expiresAt: Date.now() + TTL });
+    await lease.release();
+  });
+});
@@ -0,0 +1,75 @@
+import vectors from './fixtures/merkle-vectors.json';
+import {
+  buildMerkleTree,
+  computeRoot,
+  generateAllProofs,
+  generateProof,
+  generateProofAt,
+  orderLeaf,
+  verifyProof,
+} from '../src/merkle';
+
+// Generated from the Solidity side by script/GenerateRelayerFixtures.s.sol
+describe('merkle (contract flavour)', () => {
+  for (const vector of vectors.vectors) {
+    const name = `${vector.buyCount} buy / ${vector.sellCount} sell`;
+    const orders = [
+      ...vectors.buyOrders.slice(0, vector.buyCount),
+      ...vectors.sellOrders.slice(0, vector.sellCount),
+    ];
+
+    it(`encodes leaves like BatchAuction (${name})`, () => {
+      expect(orders.map(orderLeaf)).toEqual(vector.leaves);
+    });
+
+    it(`matches MerkleProof.computeRoot (${name})`, () => {
+      expect(computeRoot(vector.leaves, 'contract')).toBe(vector.root);
+    });
+
+    it(`produces the same proofs (${name})`, () => {
+      const tree = buildMerkleTree(vector.leaves, 'contract');
+
+      vector.leaves.forEach((leaf, i) => {
+        const proof = generateProofAt(tree, i);
+        expect(proof.proof).toEqual(vector.proofs[i]);
+        expect(verifyProof(proof, vector.root)).toBe(true);
+      });
+    });
+  }
+
+  it('keeps leaf order instead of sorting', () => {
+    const leaves = vectors.vectors[vectors.vectors.length - 1].leaves;
+
+    expect(buildMerkleTree(leaves, 'contract').leaves).toEqual(leaves);
+    expect(computeRoot(leaves, 'sorted')).not.toBe(computeRoot(leaves, 'contract'));
+  });
+
+  it('gives duplicate leaves their own proofs', () => {
+    const leaf = vectors.vectors[1].leaves[0];
+    const other = vectors.vectors[1].leaves[1];
+    const tree = buildMerkleTree([leaf, other, leaf], 'contract');
+
+    expect(generateProofAt(tree, 2).proof).not.toEqual(generateProofAt(tree, 0).proof);
+    expect(verifyProof(generateProofAt(tree, 2), tree.root)).toBe(true);
+  });
+});
+
+describe('merkle (sorted flavour)', () => {
+  it('builds the same root regardless of input order', () => {
+    const leaves = vectors.vectors[vectors.vectors.length - 1].leaves;
+    const reversed = [...leaves].reverse();
+
+    expect(computeRoot(leaves)).toBe(computeRoot(reversed));
+    generateAllProofs(buildMerkleTree(reversed)).forEach(proof => {
+      expect(verifyProof(proof, computeRoot(leaves))).toBe(true);
+    });
+  });
+
+  it('rejects unknown leaves and tampered proofs', () => {
+    const [a, b, c] = vectors.vectors[2].leaves;
+    const tree = buildMerkleTree([a, b]);
+
+    expect(() => generateProof(tree, c)).toThrow('Leaf not found in tree');
+    expect(verifyProof({ ...generateProof(tree, a), proof: [c] }, tree.root)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { db } from '../src/db';
+import { MetricsCollector } from '../src/metrics';
+import { EndpointHealth, FailoverProvider } from '../src/provider';
+
+const AUCTION = '0x' + 'aa'.repeat(20);
+
+function endpoint(index: number, overrides: Partial<EndpointHealth> = {}): EndpointHealth {
+  return {
+    index,
+    host: `rpc-${index}.example.com`,
+    active: index === 0,
+    healthy: true,
+    latencyMs: 40,
+    errorRate: 0,
+    headBlock: 100,
+    headLag: 0,
+    consecutiveFailures: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Value of one series in a registry, by metric name and labels
+ */
+async function value(collector: MetricsCollector, name: string, labels: Record<string, string> = {}) {
+  const metric = collector.registry.getSingleMetric(name);
+  const { values } = await metric!.get();
+
+  return values.find(v => Object.entries(labels).every(([key, label]) => v.labels[key] === label))?.value;
+}
+
+describe('metrics registry', () => {
+  beforeAll(async () => {
+    await db.initialize();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('exposes labelled relayer series next to the process metrics', async () => {
+    const collector = new MetricsCollector();
+
+    collector.settlements.inc({ auction: AUCTION, outcome: 'confirmed' });
+    collector.settlements.inc({ auction: AUCTION, outcome: 'confirmed' });
+    collector.settlements.inc({ auction: AUCTION, outcome: 'dropped' });
+    collector.settlementGasUsed.observe({ auction: AUCTION }, 150_000);
+
+    const text = await collector.registry.metrics();
+
+    expect(text).toContain(`relayer_settlements_total{auction="${AUCTION}",outcome="confirmed"} 2`);
+    expect(text).toContain(`relayer_settlements_total{auction="${AUCTION}",outcome="dropped"} 1`);
+    expect(text).toContain(`relayer_settlement_gas_used_bucket{le="100000",auction="${AUCTION}"} 0`);
+    expect(text).toContain(`relayer_settlement_gas_used_bucket{le="200000",auction="${AUCTION}"} 1`);
+    expect(text).toContain('process_cpu_user_seconds_total');
+    expect(collector.registry.contentType).toContain('text/plain');
+  });
+
+  it('keeps the series of each collector in its own registry', async () => {
+    const first = new MetricsCollector();
+    const second = new MetricsCollector();
+
+    first.headLag.set({ auction: AUCTION }, 12);
+
+    expect(await value(first, 'relayer_head_lag_blocks', { auction: AUCTION })).toBe(12);
+    expect(await value(second, 'relayer_head_lag_blocks', { auction: AUCTION })).toBeUndefined();
+  });
+
+  it('reads auctions and RPC endpoint health at scrape time', async () => {
+    const collector = new MetricsCollector();
+    let health = [endpoint(0), endpoint(1, { healthy: false, errorRate: 0.5, headLag: 7 })];
+    collector.setProvider({ getHealth: () => health } as unknown as FailoverProvider);
+
+    await db.insertAuction({ address: AUCTION, token0: '0x01', token1: '0x02', createdBlock: 1, txHash: '0xt', createdAt: 1 });
+
+    expect(await value(collector, 'relayer_auctions')).toBe(1);
+    expect(await value(collector, 'relayer_rpc_active', { endpoint: '0', host: 'rpc-0.example.com' })).toBe(1);
+    expect(await value(collector, 'relayer_rpc_healthy', { endpoint: '1' })).toBe(0);
+    expect(await value(collector, 'relayer_rpc_error_rate', { endpoint: '1' })).toBe(0.5);
+    expect(await value(collector, 'relayer_rpc_head_lag_blocks', { endpoint: '1' })).toBe(7);
+
+    // Series of endpoints that are gone are dropped, not left at their last value
+    health = [endpoint(0)];
+    expect((await collector.registry.getSingleMetric('relayer_rpc_healthy')!.get()).values).toHaveLength(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { getSchemaVersion, migrate, Migration, MigrationError, MIGRATIONS } from '../src/migrations';
+import { SqliteClient } from '../src/sql';
+
+const LATEST = Math.max(...MIGRATIONS.map(m => m.version));
+
+async function names(db: SqliteClient, type: 'table' | 'index'): Promise<string[]> {
+  const rows = await db.query<{ name: string }>(
+    `SELECT name FROM sqlite_master WHERE type = ? AND name NOT LIKE 'sqlite_%' ORDER BY name`,
+    [type]
+  );
+
+  return rows.map(row => row.name);
+}
+
+describe('migrate', () => {
+  let db: SqliteClient;
+
+  beforeEach(() => {
+    db = new SqliteClient(':memory:');
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('builds the latest schema from an empty database', async () => {
+    expect(await getSchemaVersion(db)).toBe(0);
+
+    const result = await migrate(db);
+
+    expect(result).toMatchObject({ from: 0, to: LATEST });
+    expect(result.applied.map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(await getSchemaVersion(db)).toBe(LATEST);
+
+    expect(await names(db, 'table')).toEqual([
+      'alerts',
+      'auctions',
+      'batches',
+      'checkpoints',
+      'commitments',
+      'fills',
+      'indexed_blocks',
+      'leases',
+      'nonces',
+      'order_proofs',
+      'orders',
+      'schema_version',
+      'settlement_reports',
+      'settlements',
+    ]);
+    expect(await names(db, 'index')).toEqual(expect.arrayContaining([
+      'idx_orders_batch',
+      'idx_batches_settled',
+      'idx_settlements_status',
+      'idx_commitments_order',
+    ]));
+  });
+
+  it('is a no-op on an up-to-date database', async () => {
+    await migrate(db);
+    const result = await migrate(db);
+
+    expect(result).toEqual({ from: LATEST, to: LATEST, applied: [] });
+    expect(await db.query('SELECT COUNT(*) as count FROM schema_version')).toEqual([{ count: MIGRATIONS.length }]);
+  });
+
+  it('adopts a database created before schema versioning', async () => {
+    await db.exec(`
+      CREATE TABLE auctions (
+        address TEXT PRIMARY KEY,
+        token0 TEXT NOT NULL,
+        token1 TEXT NOT NULL,
+        createdBlock INTEGER NOT NULL,
+        txHash TEXT NOT NULL,
+        createdAt INTEGER NOT NULL
+      )
+    `);
+    await db.run(`INSERT INTO auctions VALUES ('0xa', '0xb', '0xc', 1, '0xd', 2)`);
+
+    await migrate(db);
+
+    expect(await getSchemaVersion(db)).toBe(LATEST);
+    expect(await db.query('SELECT address FROM auctions')).toEqual([{ address: '0xa' }]);
+  });
+
+  it('refuses a database from a newer relayer', async () => {
+    await migrate(db);
+    await db.run(
+      'INSERT INTO schema_version (version, description, appliedAt) VALUES (?, ?, ?)',
+      [LATEST + 1, 'From the future', Date.now()]
+    );
+
+    await expect(migrate(db)).rejects.toThrow(MigrationError);
+    await expect(migrate(db)).rejects.toThrow(`version ${LATEST + 1} is newer`);
+  });
+
+  it('applies pending migrations in version order', async () => {
+    const migrations: Migration[] = [
+      { version: 2, description: 'Add b', up: 'ALTER TABLE a ADD COLUMN b TEXT' },
+      { version: 1, description: 'Create a', up: 'CREATE TABLE a (id INTEGER PRIMARY KEY)' },
+    ];
+
+    await migrate(db, migrations.slice(1));
+    const result = await migrate(db, migrations);
+
+    expect(result.from).toBe(1);
+    expect(result.applied.map(m => m.description)).toEqual(['Add b']);
+    expect(await db.query('SELECT name FROM pragma_table_info(?)', ['a'])).toEqual([{ name: 'id' }, { name: 'b' }]);
+  });
+
+  it('rolls back a failing migration', async () => {
+    const migrations: Migration[] = [
+      { version: 1, description: 'Create a', up: 'CREATE TABLE a (id INTEGER PRIMARY KEY)' },
+      { version: 2, description: 'Broken', up: 'CREATE TABLE b (id INTEGER); CREATE TABLE a (id INTEGER)' },
+    ];
+
+    await expect(migrate(db, migrations)).rejects.toThrow('Migration 2 (Broken) failed');
+
+    expect(await getSchemaVersion(db)).toBe(1);
+    expect(await names(db, 'table')).toEqual(['a', 'schema_version']);
+  });
+});
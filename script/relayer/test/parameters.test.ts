@@ -0,0 +1,120 @@
+import { ethers, EventFragment, Interface } from 'ethers';
+import { EventHandler, EventIndexer, IndexedEvent } from '../src/indexer';
+import { AuctionParameterCache, readAuctionParameters } from '../src/parameters';
+
+const AUCTION = '0x' + 'aa'.repeat(20);
+
+const ABI = new Interface([
+  'function batchDuration() external view returns (uint256)',
+  'function minOrderSize() external view returns (uint128)',
+  'function maxPriceDeviationBps() external view returns (uint16)',
+  'function feeBps() external view returns (uint24)',
+  'event ParametersUpdated(uint256 batchDuration, uint128 minOrderSize, uint16 maxPriceDeviationBps, uint24 feeBps)',
+]);
+
+type Values = { batchDuration: number; minOrderSize: bigint; maxPriceDeviationBps: number; feeBps: number };
+
+/**
+ * Auction whose parameters change at given blocks, answering calls at the block they ask for
+ */
+class StubAuction {
+  head = 100;
+  blockTags: unknown[] = [];
+  private history: [number, Values][] = [[0, { batchDuration: 10, minOrderSize: 1000n, maxPriceDeviationBps: 500, feeBps: 30 }]];
+
+  update(block: number, values: Partial<Values>): void {
+    this.history.push([block, { ...this.at(block), ...values }]);
+  }
+
+  provider(): ethers.JsonRpcProvider {
+    return {
+      getBlockNumber: async () => this.head,
+      call: async ({ data, blockTag }: { data: string; blockTag: number }) => {
+        this.blockTags.push(blockTag);
+        const fragment = ABI.parseTransaction({ data })!.fragment;
+        return ABI.encodeFunctionResult(fragment, [this.at(blockTag)[fragment.name as keyof Values]]);
+      },
+    } as unknown as ethers.JsonRpcProvider;
+  }
+
+  private at(block: number): Values {
+    return this.history.filter(([from]) => from <= block).pop()![1];
+  }
+}
+
+/**
+ * Indexer that only records subscriptions, so tests deliver events themselves
+ */
+function indexer() {
+  const handlers = new Map<string, EventHandler>();
+  const instance = {
+    on: (fragment: EventFragment, handler: EventHandler) => void handlers.set(fragment.name, handler),
+  } as unknown as EventIndexer;
+
+  const deliver = (blockNumber: number) =>
+    handlers.get('ParametersUpdated')!({ name: 'ParametersUpdated', args: [] as unknown as ethers.Result, log: { blockNumber } } as IndexedEvent);
+
+  return { instance, deliver };
+}
+
+describe('readAuctionParameters', () => {
+  it('reads every value at the same block', async () => {
+    const auction = new StubAuction();
+    auction.update(50, { feeBps: 25 });
+
+    expect(await readAuctionParameters(auction.provider(), AUCTION)).toEqual({
+      batchDuration: 10,
+      minOrderSize: 1000n,
+      maxPriceDeviationBps: 500,
+      feeBps: 25,
+      blockNumber: 100,
+    });
+    expect(auction.blockTags).toEqual([100, 100, 100, 100]);
+  });
+
+  it('reads at an older block when asked to', async () => {
+    const auction = new StubAuction();
+    auction.update(50, { feeBps: 25 });
+
+    expect(await readAuctionParameters(auction.provider(), AUCTION, 40)).toMatchObject({ feeBps: 30, blockNumber: 40 });
+  });
+});
+
+describe('AuctionParameterCache', () => {
+  it('refuses reads before the parameters are loaded', () => {
+    const cache = new AuctionParameterCache(new StubAuction().provider(), AUCTION, indexer().instance);
+
+    expect(cache.peek()).toBeNull();
+    expect(() => cache.get()).toThrow('are not loaded');
+  });
+
+  it('re-reads the latest parameters when ParametersUpdated is indexed', async () => {
+    const auction = new StubAuction();
+    const { instance, deliver } = indexer();
+    const cache = new AuctionParameterCache(auction.provider(), AUCTION, instance);
+
+    await cache.start();
+    expect(cache.get()).toMatchObject({ batchDuration: 10, feeBps: 30, blockNumber: 100 });
+
+    auction.update(105, { batchDuration: 20, maxPriceDeviationBps: 200 });
+    auction.head = 110;
+
+    // An older event still leads to the values at the head
+    await deliver(105);
+    expect(cache.get()).toEqual({ batchDuration: 20, minOrderSize: 1000n, maxPriceDeviationBps: 200, feeBps: 30, blockNumber: 110 });
+  });
+
+  it('keeps the values of a newer block when a lagging node answers', async () => {
+    const auction = new StubAuction();
+    const cache = new AuctionParameterCache(auction.provider(), AUCTION, indexer().instance);
+
+    auction.head = 120;
+    await cache.start();
+
+    auction.update(115, { feeBps: 10 });
+    auction.head = 110;
+
+    expect(await cache.refresh()).toMatchObject({ feeBps: 30, blockNumber: 120 });
+    expect(cache.get().blockNumber).toBe(120);
+  });
+});
@@ -0,0 +1,186 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { FailoverProvider, quorumRead } from '../src/provider';
+
+const CHAIN_ID = 31337;
+
+/**
+ * JSON-RPC endpoint that serves a head block, or fails every request while it is down
+ */
+class StubEndpoint {
+  head = 100;
+  down = false;
+  requests = 0;
+  methods: string[] = [];
+  url = '';
+  private server?: http.Server;
+
+  async start(): Promise<this> {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        this.requests++;
+
+        if (this.down) {
+          res.statusCode = 503;
+          res.end();
+          return;
+        }
+
+        const payload = JSON.parse(body);
+        const answer = ({ id, method }: { id: number; method: string }) => {
+          this.methods.push(method);
+          const result = method === 'eth_chainId' ? ethers.toQuantity(CHAIN_ID) : ethers.toQuantity(this.head);
+          return { jsonrpc: '2.0', id, result };
+        };
+
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(Array.isArray(payload) ? payload.map(answer) : answer(payload)));
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v3/secret-key`;
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server!.close(resolve));
+  }
+
+  blockNumberCalls(): number {
+    return this.methods.filter(method => method === 'eth_blockNumber').length;
+  }
+}
+
+describe('failover provider', () => {
+  let endpoints: StubEndpoint[];
+  let provider: FailoverProvider;
+
+  // Requests go through send: ethers re-checks the chain id before each of its own reads
+  const blockNumber = async () => Number(await provider.send('eth_blockNumber', []));
+
+  // Connected once the network is detected, which takes a request of its own
+  const connect = async (options: { quorum?: number; maxHeadLag?: number } = {}) => {
+    provider = new FailoverProvider({ urls: endpoints.map(e => e.url), chainId: CHAIN_ID, timeoutMs: 2000, ...options });
+    await provider.send('eth_chainId', []);
+  };
+
+  beforeEach(async () => {
+    endpoints = await Promise.all([new StubEndpoint().start(), new StubEndpoint().start(), new StubEndpoint().start()]);
+  });
+
+  afterEach(async () => {
+    provider?.destroy();
+    await Promise.all(endpoints.map(endpoint => endpoint.stop()));
+  });
+
+  it('fails over to the next endpoint and back once the primary recovers', async () => {
+    const [primary, backup] = endpoints;
+    backup.head = 120;
+    await connect();
+    primary.down = true;
+
+    expect(await blockNumber()).toBe(120);
+    expect(provider.getHealth()[0]).toMatchObject({ active: false, healthy: true, consecutiveFailures: 1 });
+    expect(provider.getHealth()[0].lastError).toBe('server response 503 Service Unavailable');
+    expect(provider.getHealth()[1]).toMatchObject({ active: true, healthy: true });
+
+    // After three failures in a row the primary is no longer tried first
+    await blockNumber();
+    await blockNumber();
+    expect(provider.getHealth()[0]).toMatchObject({ healthy: false, consecutiveFailures: 3, errorRate: 3 / 5 });
+
+    const tried = primary.requests;
+    expect(await blockNumber()).toBe(120);
+    expect(primary.requests).toBe(tried);
+
+    // Probes keep scoring it, so once it answers again it takes over
+    primary.down = false;
+    primary.head = 120;
+    await provider.probe();
+    expect(provider.getHealth()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0, errorRate: 0.5 });
+
+    await blockNumber();
+    expect(primary.blockNumberCalls()).toBe(2);
+    expect(provider.getHealth()[0].active).toBe(true);
+  });
+
+  it('throws the last error when every endpoint fails', async () => {
+    await connect();
+    endpoints.forEach(endpoint => (endpoint.down = true));
+
+    await expect(blockNumber()).rejects.toThrow('server response 503');
+    expect(provider.isHealthy()).toBe(true);
+
+    await expect(blockNumber()).rejects.toThrow('server response 503');
+    await expect(blockNumber()).rejects.toThrow('server response 503');
+    expect(provider.isHealthy()).toBe(false);
+    expect(provider.getHealth().map(endpoint => endpoint.consecutiveFailures)).toEqual([3, 3, 3]);
+  });
+
+  it('scores endpoints whose head lags behind the best one as unhealthy', async () => {
+    const [primary, backup, third] = endpoints;
+    primary.head = 100;
+    backup.head = 110;
+    third.head = 106;
+    await connect({ maxHeadLag: 5 });
+
+    await provider.probe();
+
+    expect(provider.getHealth().map(({ healthy, headBlock, headLag }) => ({ healthy, headBlock, headLag }))).toEqual([
+      { healthy: false, headBlock: 100, headLag: 10 },
+      { healthy: true, headBlock: 110, headLag: 0 },
+      { healthy: true, headBlock: 106, headLag: 4 },
+    ]);
+
+    // Healthy endpoints are tried in configuration order
+    expect(await blockNumber()).toBe(110);
+    expect(primary.blockNumberCalls()).toBe(1);
+  });
+
+  it('keeps host names only, so API keys in URLs never reach health reports', async () => {
+    await connect();
+
+    expect(provider.getHealth().map(endpoint => endpoint.host)).toEqual(endpoints.map(e => new URL(e.url).host));
+    expect(JSON.stringify(provider.getHealth())).not.toContain('secret-key');
+  });
+
+  it('returns a quorum read only once enough endpoints agree', async () => {
+    const [primary, backup, third] = endpoints;
+    primary.head = 100;
+    backup.head = 101;
+    third.head = 100;
+    await connect({ quorum: 2 });
+
+    expect(await quorumRead(provider, p => p.getBlockNumber())).toBe(100);
+    expect(endpoints.map(endpoint => endpoint.blockNumberCalls())).toEqual([1, 1, 1]);
+  });
+
+  it('fails a quorum read when not enough endpoints agree', async () => {
+    const [primary, backup, third] = endpoints;
+    primary.head = 100;
+    backup.head = 101;
+    third.down = true;
+    await connect({ quorum: 2 });
+
+    // Provider reads are cached briefly, so each attempt sends its own request
+    const read = (p: ethers.JsonRpcProvider) => p.send('eth_blockNumber', []);
+
+    await expect(provider.quorumRead(read)).rejects.toThrow('server response 503');
+    expect(provider.getHealth()[2].consecutiveFailures).toBe(1);
+
+    third.down = false;
+    third.head = 102;
+    await expect(provider.quorumRead(read)).rejects.toThrow('RPC quorum of 2 not reached');
+  });
+
+  it('reads through a plain provider without quorum', async () => {
+    const plain = new ethers.JsonRpcProvider(endpoints[0].url, CHAIN_ID, { staticNetwork: true });
+
+    expect(await quorumRead(plain, p => p.getBlockNumber())).toBe(100);
+    plain.destroy();
+  });
+});
@@ -0,0 +1,112 @@
+import { ethers, Interface, makeError } from 'ethers';
+import { ORDER_TUPLE, OrderStruct, hashCommitment, hashOrder } from '../src/encoding';
+import { RevealDecoder } from '../src/reveal';
+
+const AUCTION = '0x' + 'aa'.repeat(20);
+const MULTICALL = '0x' + 'bb'.repeat(20);
+const TX_HASH = '0x' + '11'.repeat(32);
+const SALT = '0x' + '22'.repeat(32);
+
+const AUCTION_ABI = new Interface([`function revealOrder(${ORDER_TUPLE} order, bytes32 salt) external`]);
+const MULTICALL_ABI = new Interface(['function multicall(bytes[] data) external']);
+
+const ORDER: OrderStruct = { nonce: 7n, expiry: 2000n, amount: 10n ** 18n, limitPrice: 2n * 10n ** 18n, side: 0 };
+const COMMITMENT = hashCommitment(ORDER, SALT);
+const OTHER: OrderStruct = { ...ORDER, nonce: 8n };
+
+function reveal(order: OrderStruct = ORDER): string {
+  return AUCTION_ABI.encodeFunctionData('revealOrder', [order, SALT]);
+}
+
+/**
+ * Decoder over a node that returns one transaction and answers traces with `trace`
+ */
+function decoder(tx: { to: string; data: string } | null, trace: () => Promise<unknown>) {
+  const traced = jest.fn(trace);
+  const provider = {
+    getTransaction: async () => tx,
+    send: async (method: string) => {
+      expect(method).toBe('debug_traceTransaction');
+      return traced();
+    },
+  } as unknown as ethers.JsonRpcProvider;
+
+  return { decoder: new RevealDecoder(provider, AUCTION.toUpperCase().replace('0X', '0x')), traced };
+}
+
+const unsupported = async () => {
+  throw makeError('unsupported operation', 'UNSUPPORTED_OPERATION', { operation: 'debug_traceTransaction' });
+};
+
+describe('reveal decoder', () => {
+  it('decodes a direct revealOrder call', async () => {
+    const { decoder: instance, traced } = decoder({ to: AUCTION, data: reveal() }, unsupported);
+
+    expect(await instance.decode(TX_HASH, COMMITMENT)).toEqual({
+      order: ORDER,
+      salt: SALT,
+      commitment: COMMITMENT,
+      orderHash: hashOrder(ORDER),
+      source: 'calldata',
+    });
+    expect(traced).not.toHaveBeenCalled();
+  });
+
+  it('finds the matching call embedded in a multicall', async () => {
+    const data = MULTICALL_ABI.encodeFunctionData('multicall', [[reveal(OTHER), reveal()]]);
+    const { decoder: instance } = decoder({ to: MULTICALL, data }, unsupported);
+
+    expect(await instance.decode(TX_HASH, COMMITMENT)).toMatchObject({ order: ORDER, source: 'embedded' });
+  });
+
+  it('falls back to call traces for calldata built on chain', async () => {
+    const trace = async () => ({
+      to: MULTICALL,
+      input: '0x',
+      calls: [
+        { to: '0x' + 'cc'.repeat(20), input: reveal() },
+        { to: AUCTION, input: reveal(OTHER) },
+        { to: MULTICALL, input: '0x', calls: [{ to: AUCTION, input: reveal() }] },
+      ],
+    });
+    const { decoder: instance } = decoder({ to: MULTICALL, data: '0x12345678' }, trace);
+
+    expect(await instance.decode(TX_HASH, COMMITMENT)).toMatchObject({ order: ORDER, source: 'trace' });
+  });
+
+  it('stops tracing once the node reports the method is not served', async () => {
+    const notFound = async () => {
+      throw makeError('could not coalesce error', 'UNKNOWN_ERROR', { error: { code: -32601, message: 'Method not found' } });
+    };
+
+    for (const trace of [unsupported, notFound]) {
+      const { decoder: instance, traced } = decoder({ to: MULTICALL, data: '0x12345678' }, trace);
+
+      expect(await instance.decode(TX_HASH, COMMITMENT)).toBeNull();
+      expect(await instance.decode(TX_HASH, COMMITMENT)).toBeNull();
+      expect(traced).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('keeps tracing after other trace failures, which are left to the caller to retry', async () => {
+    const timeout = jest.fn()
+      .mockRejectedValueOnce(makeError('request timeout', 'TIMEOUT', { operation: 'debug_traceTransaction' }))
+      .mockResolvedValue({ to: AUCTION, input: reveal() });
+    const { decoder: instance } = decoder({ to: MULTICALL, data: '0x12345678' }, timeout);
+
+    await expect(instance.decode(TX_HASH, COMMITMENT)).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(await instance.decode(TX_HASH, COMMITMENT)).toMatchObject({ source: 'trace' });
+  });
+
+  it('rejects calls that do not hash back to the commitment', async () => {
+    const { decoder: instance } = decoder({ to: AUCTION, data: reveal(OTHER) }, async () => ({ to: AUCTION, input: reveal(OTHER) }));
+
+    expect(await instance.decode(TX_HASH, COMMITMENT)).toBeNull();
+  });
+
+  it('returns null when the transaction is unknown', async () => {
+    const { decoder: instance } = decoder(null, unsupported);
+
+    expect(await instance.decode(TX_HASH, COMMITMENT)).toBeNull();
+  });
+});
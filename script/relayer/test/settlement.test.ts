@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+import { OrderAggregator, separateOrders } from '../src/aggregator';
+import { config } from '../src/config';
+import { db, Order } from '../src/db';
+import { Lease } from '../src/lease';
+import { AuctionParameterCache } from '../src/parameters';
+import { RelayerSigner } from '../src/signer';
+import { SettlementService } from '../src/settlement';
+import { TransactionManager, TransactionRequest } from '../src/txmanager';
+
+const E18 = 10n ** 18n;
+const AUCTION = '0x' + 'aa'.repeat(20);
+const RELAYER = '0x' + 'cc'.repeat(20);
+
+const STATE = new ethers.Interface(['function getBatchState(uint256 batchId) external view returns (uint8)']);
+
+function order(orderHash: string, side: number): Order {
+  return {
+    auction: AUCTION,
+    orderHash,
+    commitment: orderHash.replace('0x', '0xc'),
+    salt: '0x00',
+    batchId: 1,
+    trader: '0x' + 'dd'.repeat(20),
+    nonce: String(parseInt(orderHash.slice(2), 16)),
+    expiry: 2000,
+    amount: (5n * E18).toString(),
+    limitPrice: (100n * E18).toString(),
+    side,
+    revealed: true,
+    executed: false,
+    createdAt: 1000,
+  };
+}
+
+/**
+ * Settlement service for a revealing batch with a crossing buy and sell, recording what it sends
+ */
+function service(lease: Lease, options: { estimateGas?: () => Promise<bigint>; sendError?: Error } = {}) {
+  const sent: TransactionRequest[] = [];
+
+  const provider = {
+    getBlock: async () => ({ number: 99, timestamp: 1500 }),
+    call: async () => STATE.encodeFunctionResult('getBatchState', [1]), // Revealing
+    estimateGas: options.estimateGas ?? (async () => 200_000n),
+  } as unknown as ethers.JsonRpcProvider;
+
+  const aggregator = {
+    getRevealedOrders: async () => [order('0xb1', 0), order('0x51', 1)],
+    validateOrders: async (revealed: Order[]) => revealed,
+    separateOrders,
+  } as unknown as OrderAggregator;
+
+  const parameters = {
+    get: () => ({ batchDuration: 10, minOrderSize: 1n, maxPriceDeviationBps: 100, feeBps: 30, blockNumber: 90 }),
+  } as unknown as AuctionParameterCache;
+
+  const txManager = {
+    resume: async () => [],
+    send: async (request: TransactionRequest) => {
+      sent.push(request);
+      if (options.sendError) {
+        throw options.sendError;
+      }
+      return { auction: AUCTION, batchId: 1, nonce: 0, request, versions: [], lastBroadcastBlock: 99 };
+    },
+    waitFor: async () => ({ status: 'dropped', txHash: '0xt1' }),
+  } as unknown as TransactionManager;
+
+  const signer = { getAddress: async () => RELAYER } as RelayerSigner;
+
+  return {
+    settlement: new SettlementService(provider, signer, AUCTION, aggregator, txManager, parameters, lease),
+    sent,
+  };
+}
+
+describe('settlement service', () => {
+  beforeAll(async () => {
+    await db.initialize();
+    Object.assign(config, { maxRetries: 3, retryDelayMs: 1 });
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends nothing once the settlement lease was taken over', async () => {
+    jest.useFakeTimers({ now: 1_000_000, doNotFake: ['setTimeout'] });
+    const lease = new Lease('settlement:lost', 'relayer', 30_000);
+    const other = new Lease('settlement:lost', 'cli', 30_000);
+    const { settlement, sent } = service(lease);
+
+    expect(await lease.acquire()).toBe(true);
+    jest.setSystemTime(Date.now() + 30_000);
+    expect(await other.acquire()).toBe(true);
+
+    expect(await settlement.settleBatch(1)).toBeNull();
+    expect(sent).toEqual([]);
+    expect(await db.getAlert(`settlement_failed:${AUCTION}:1`)).toMatchObject({ status: 'firing' });
+
+    await lease.release();
+    await other.release();
+  });
+
+  it('sends while the settlement lease is held', async () => {
+    const lease = new Lease('settlement:held', 'relayer', 30_000);
+    const { settlement, sent } = service(lease);
+
+    expect(await lease.acquire()).toBe(true);
+    await settlement.settleBatch(1);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ auction: AUCTION, batchId: 1, to: AUCTION, gasLimit: 240_000n });
+
+    await lease.release();
+  });
+
+  it('retries gas estimation but never a send that failed', async () => {
+    const lease = new Lease('settlement:retry', 'relayer', 30_000);
+    const estimateGas = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('timeout'), { code: 'TIMEOUT' }))
+      .mockResolvedValue(200_000n);
+    const sendError = Object.assign(new Error('connection reset after broadcast'), { code: 'NETWORK_ERROR' });
+    const { settlement, sent } = service(lease, { estimateGas, sendError });
+
+    expect(await lease.acquire()).toBe(true);
+
+    expect(await settlement.settleBatch(1)).toBeNull();
+    expect(estimateGas).toHaveBeenCalledTimes(2);
+    expect(sent).toHaveLength(1);
+
+    await lease.release();
+  });
+});
@@ -0,0 +1,7 @@
+// Modules that use the config, logger and db singletons load them at import: give them a
+// factory address, a throwaway SQLite database and no log output
+process.env.FACTORY_ADDRESS ??= '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+process.env.DATABASE_PATH = ':memory:';
+process.env.LOG_LEVEL ??= 'silent';
+delete process.env.DATABASE_URL;
+delete process.env.CONFIG_FILE;
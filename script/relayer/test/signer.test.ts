@@ -0,0 +1,176 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { encryptKeystoreJsonSync, keccak256, SigningKey, Transaction, verifyMessage, Wallet } from 'ethers';
+import { createSigner, RemoteSigner } from '../src/signer';
+
+const KEY = new SigningKey('0x' + '42'.repeat(32));
+const OTHER_KEY = new SigningKey('0x' + '43'.repeat(32));
+
+/**
+ * Minimal stand-in for Web3Signer's eth1 API
+ */
+function startStandIn(keys: SigningKey[], signWith?: SigningKey): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url === '/api/v1/eth1/publicKeys') {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(keys.map(key => key.publicKey)));
+      return;
+    }
+
+    const match = req.url?.match(/^\/api\/v1\/eth1\/sign\/(0x[0-9a-fA-F]+)$/);
+    const key = keys.find(k => k.publicKey === match?.[1]);
+
+    if (req.method !== 'POST' || !key) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { data } = JSON.parse(body);
+      res.setHeader('Content-Type', 'text/plain');
+      res.end((signWith || key).sign(keccak256(data)).serialized);
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function urlOf(server: http.Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+const TX = {
+  type: 2,
+  chainId: 31337,
+  nonce: 7,
+  to: '0x' + '11'.repeat(20),
+  data: '0x1234',
+  gasLimit: 100000n,
+  maxFeePerGas: 2000000000n,
+  maxPriorityFeePerGas: 1000000000n,
+};
+
+describe('RemoteSigner', () => {
+  it('signs transactions and messages through the eth1 API', async () => {
+    const server = await startStandIn([KEY]);
+
+    try {
+      const signer = await RemoteSigner.connect(urlOf(server), null);
+      const expected = new Wallet(KEY);
+
+      expect(await signer.getAddress()).toBe(expected.address);
+
+      const raw = await signer.signTransaction(TX);
+      expect(raw).toBe(await expected.signTransaction(TX));
+      expect(Transaction.from(raw).from).toBe(expected.address);
+
+      const signature = await signer.signMessage('hello');
+      expect(verifyMessage('hello', signature)).toBe(expected.address);
+    } finally {
+      await close(server);
+    }
+  });
+
+  it('selects a key by public key and requires one when several are held', async () => {
+    const server = await startStandIn([KEY, OTHER_KEY]);
+
+    try {
+      await expect(RemoteSigner.connect(urlOf(server), null)).rejects.toThrow('REMOTE_SIGNER_PUBLIC_KEY');
+
+      const signer = await RemoteSigner.connect(urlOf(server), null, OTHER_KEY.publicKey);
+      expect(await signer.getAddress()).toBe(new Wallet(OTHER_KEY).address);
+
+      await expect(
+        RemoteSigner.connect(urlOf(server), null, new SigningKey('0x' + '44'.repeat(32)).publicKey)
+      ).rejects.toThrow('does not hold key');
+    } finally {
+      await close(server);
+    }
+  });
+
+  it('rejects signatures from a different key', async () => {
+    const server = await startStandIn([KEY], OTHER_KEY);
+
+    try {
+      const signer = await RemoteSigner.connect(urlOf(server), null);
+      await expect(signer.signTransaction(TX)).rejects.toThrow('different key');
+    } finally {
+      await close(server);
+    }
+  });
+
+  it('refuses transactions from another address', async () => {
+    const signer = new RemoteSigner('http://127.0.0.1:1', KEY.publicKey);
+    await expect(signer.signTransaction({ ...TX, from: new Wallet(OTHER_KEY).address })).rejects.toThrow('does not match');
+  });
+});
+
+describe('createSigner', () => {
+  const provider = null as any;
+  const wallet = new Wallet(KEY);
+  let dir: string;
+  let keystorePath: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relayer-signer-'));
+    keystorePath = path.join(dir, 'keystore.json');
+
+    // Cheap scrypt parameters keep the test fast
+    fs.writeFileSync(keystorePath, encryptKeystoreJsonSync(wallet, 'secret', { scrypt: { N: 1 << 4 } }));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('decrypts a keystore with the password file', async () => {
+    const passwordFile = path.join(dir, 'password');
+    fs.writeFileSync(passwordFile, 'secret\n');
+
+    const signer = await createSigner({
+      type: 'keystore',
+      network: 'mainnet',
+      chainId: 1,
+      keystorePath,
+      keystorePasswordFile: passwordFile,
+    }, provider);
+
+    expect(await signer.getAddress()).toBe(wallet.address);
+  });
+
+  it('fails on a wrong keystore password', async () => {
+    const passwordFile = path.join(dir, 'wrong');
+    fs.writeFileSync(passwordFile, 'not-the-password');
+
+    await expect(createSigner({
+      type: 'keystore',
+      network: 'mainnet',
+      chainId: 1,
+      keystorePath,
+      keystorePasswordFile: passwordFile,
+    }, provider)).rejects.toThrow();
+  });
+
+  it('only allows a raw key on dev networks', async () => {
+    const privateKey = KEY.privateKey;
+
+    await expect(createSigner({ type: 'raw', network: 'sepolia', chainId: 11155111, privateKey }, provider))
+      .rejects.toThrow('Refusing to use a raw RELAYER_PRIVATE_KEY');
+    // NETWORK left at its localhost default while CHAIN_ID points at mainnet
+    await expect(createSigner({ type: 'raw', network: 'localhost', chainId: 1, privateKey }, provider))
+      .rejects.toThrow('Refusing to use a raw RELAYER_PRIVATE_KEY on network "localhost" (chain 1)');
+
+    const signer = await createSigner({ type: 'raw', network: 'localhost', chainId: 31337, privateKey }, provider);
+    expect(await signer.getAddress()).toBe(wallet.address);
+  });
+});
@@ -0,0 +1,470 @@
+import { Database, Fill, Order } from '../src/database';
+import { MIGRATIONS } from '../src/migrations';
+import { PostgresClient, SqlClient, SqliteClient, toPostgres } from '../src/sql';
+
+// A throwaway database: every test starts by dropping its public schema
+const POSTGRES_URL = process.env.TEST_POSTGRES_URL;
+
+const BACKENDS: [string, (() => SqlClient) | undefined][] = [
+  ['SQLite', () => new SqliteClient(':memory:')],
+  ['PostgreSQL', POSTGRES_URL ? () => new PostgresClient(POSTGRES_URL, 2) : undefined],
+];
+
+const AUCTION = '0x' + 'aa'.repeat(20);
+const OTHER_AUCTION = '0x' + 'bb'.repeat(20);
+const TRADER = '0x' + 'Cc'.repeat(20);
+
+function fill(overrides: Partial<Fill> = {}): Fill {
+  return {
+    auction: AUCTION,
+    orderHash: '0x01',
+    batchId: null,
+    trader: TRADER,
+    filledAmount: '1000',
+    receivedAmount: '1994',
+    clearingPrice: '2000',
+    txHash: '0xs1',
+    blockNumber: 158,
+    logIndex: 0,
+    createdAt: 1000,
+    ...overrides,
+  };
+}
+
+function order(overrides: Partial<Order> = {}): Order {
+  return {
+    auction: AUCTION,
+    orderHash: '0x01',
+    commitment: '0xc1',
+    salt: '0x00',
+    batchId: 1,
+    trader: TRADER,
+    nonce: '0',
+    expiry: 2000000000,
+    amount: '1000',
+    limitPrice: '2000',
+    side: 0,
+    revealed: true,
+    executed: false,
+    revealTxHash: '0xr1',
+    revealBlock: 110,
+    createdAt: 1000,
+    ...overrides,
+  };
+}
+
+async function reset(client: SqlClient): Promise<void> {
+  if (client.dialect === 'postgres') {
+    await client.exec('DROP SCHEMA public CASCADE; CREATE SCHEMA public');
+  }
+}
+
+for (const [name, connect] of BACKENDS) {
+  (connect ? describe : describe.skip)(`Database on ${name}`, () => {
+    let db: Database;
+
+    beforeEach(async () => {
+      const client = connect!();
+      await reset(client);
+
+      db = new Database(client);
+      await db.initialize();
+    });
+
+    afterEach(async () => {
+      await db.close();
+    });
+
+    it('migrates once', async () => {
+      expect(await db.initialize()).toEqual({ from: MIGRATIONS.length, to: MIGRATIONS.length, applied: [] });
+      await expect(db.checkWritable()).resolves.toBeUndefined();
+    });
+
+    it('records auctions and forgets reorged ones', async () => {
+      const auction = { address: AUCTION.toUpperCase().replace('0X', '0x'), token0: '0x1', token1: '0x2', txHash: '0xt' };
+      await db.insertAuction({ ...auction, createdBlock: 10, createdAt: 1 });
+      await db.insertAuction({ ...auction, createdBlock: 99, createdAt: 2 });
+      await db.insertAuction({ ...auction, address: OTHER_AUCTION, createdBlock: 20, createdAt: 3 });
+
+      expect((await db.getAuctions()).map(a => [a.address, a.createdBlock])).toEqual([[AUCTION, 10], [OTHER_AUCTION, 20]]);
+      expect(await db.deleteAuctionsFrom(15)).toEqual([OTHER_AUCTION]);
+      expect(await db.getAuctions()).toHaveLength(1);
+    });
+
+    it('stores, filters and pages orders', async () => {
+      await db.insertOrder(order());
+      await db.insertOrder(order({ orderHash: '0x02', revealed: false, revealTxHash: undefined, revealBlock: undefined }));
+      await db.insertOrder(order({ orderHash: '0x03', batchId: 2, trader: '0x' + 'dd'.repeat(20) }));
+      await db.insertOrder(order({ amount: '1500' }));
+
+      const [stored] = await db.getOrdersByBatch(AUCTION.toUpperCase().replace('0X', '0x'), 1);
+      expect(stored).toEqual(order({ amount: '1500', exclusionReason: null, validatedBlock: null }));
+      expect(await db.getOrdersByBatch(AUCTION, 1, false)).toHaveLength(2);
+
+      await db.markOrderExecuted(AUCTION, '0x01');
+      expect(await db.getOrdersByBatch(AUCTION, 1)).toEqual([]);
+
+      const page = await db.listOrders({ trader: TRADER.toLowerCase() }, { limit: 1, offset: 1 });
+      expect(page.total).toBe(2);
+      expect(page.items.map(o => o.orderHash)).toEqual(['0x02']);
+
+      const executed = await db.listOrders({ auction: AUCTION, executed: true }, { limit: 10, offset: 0 });
+      expect(executed.items.map(o => [o.orderHash, o.executed])).toEqual([['0x01', true]]);
+    });
+
+    it('records why validation left orders out', async () => {
+      await db.insertOrder(order());
+      await db.insertOrder(order({ orderHash: '0x02' }));
+
+      await db.recordOrderValidation(AUCTION, 150, [
+        { orderHash: '0x01', exclusionReason: null },
+        { orderHash: '0x02', exclusionReason: 'insufficient_funds' },
+      ]);
+
+      const orders = await db.getOrdersByBatch(AUCTION, 1);
+      expect(orders.map(o => [o.orderHash, o.exclusionReason, o.validatedBlock])).toEqual([
+        ['0x01', null, 150],
+        ['0x02', 'insufficient_funds', 150],
+      ]);
+
+      // Re-indexing the reveal keeps the outcome
+      await db.insertOrder(order({ orderHash: '0x02' }));
+      expect((await db.listOrders({ orderHash: '0x02' }, { limit: 1, offset: 0 })).items[0].exclusionReason)
+        .toBe('insufficient_funds');
+    });
+
+    it('keeps the proofs a batch was settled with', async () => {
+      const proof = (orderHash: string, leafIndex: number) => ({
+        auction: AUCTION, orderHash, batchId: 1, leafIndex, leaf: orderHash, proof: ['0xp1', '0xp2'], root: '0xroot', txHash: '0xs1', createdAt: 1,
+      });
+      await db.saveOrderProofs(AUCTION, 1, [proof('0x0B', 1), proof('0x0a', 0)]);
+      await db.saveOrderProofs(AUCTION, 2, [{ ...proof('0x0c', 0), batchId: 2 }]);
+
+      expect(await db.getOrderProof(AUCTION.toUpperCase(), '0x0b')).toEqual({ ...proof('0x0b', 1), leaf: '0x0B' });
+      expect((await db.getOrderProofs(AUCTION, 1)).map(p => p.orderHash)).toEqual(['0x0a', '0x0b']);
+
+      // Settled again (e.g. after a reorg) with different orders
+      await db.saveOrderProofs(AUCTION, 1, [proof('0x0a', 0)]);
+      expect(await db.getOrderProof(AUCTION, '0x0b')).toBeNull();
+      expect(await db.getOrderProofs(AUCTION, 2)).toHaveLength(1);
+    });
+
+    it('indexes fills and links them to the batch their settlement settled', async () => {
+      await db.insertBatch({ auction: AUCTION, batchId: 1, startBlock: 100, settled: false, createdAt: 1 });
+      await db.insertOrder(order());
+      await db.insertOrder(order({ orderHash: '0x02', side: 1 }));
+      await db.saveOrderProofs(AUCTION, 1, ['0x02', '0x01'].map((orderHash, leafIndex) => ({
+        auction: AUCTION, orderHash, batchId: 1, leafIndex, leaf: orderHash, proof: [], root: '0xroot', txHash: '0xs1', createdAt: 1,
+      })));
+
+      await db.insertFill(fill());
+      await db.insertFill(fill({ orderHash: '0x02', logIndex: 1 }));
+      await db.insertFill(fill({ orderHash: '0x03', auction: OTHER_AUCTION, trader: '0x' + 'dd'.repeat(20), blockNumber: 170 }));
+
+      expect(await db.getFillsByBatch(AUCTION, 1)).toEqual([]);
+      expect(await db.linkFillsToBatch(AUCTION, '0xs1', 1)).toBe(2);
+      expect(await db.getFillsByBatch(AUCTION, 1)).toEqual([
+        fill({ batchId: 1, trader: TRADER.toLowerCase() }),
+        fill({ orderHash: '0x02', batchId: 1, trader: TRADER.toLowerCase(), logIndex: 1 }),
+      ]);
+
+      // A trader's history, newest first, whatever case the address is given in
+      const history = await db.listFills({ trader: TRADER.toUpperCase().replace('0X', '0x') }, { limit: 10, offset: 0 });
+      expect(history.total).toBe(2);
+      expect(history.items.map(f => f.orderHash)).toEqual(['0x02', '0x01']);
+      expect((await db.listFills({ auction: OTHER_AUCTION }, { limit: 10, offset: 0 })).items[0].batchId).toBeNull();
+
+      expect((await db.getSettledOrders(AUCTION, 1)).map(o => o.orderHash)).toEqual(['0x02', '0x01']);
+      expect(await db.getSettledOrders(AUCTION, 2)).toEqual([]);
+
+      const mismatch = { orderHash: '0x02', kind: 'missing' as const, expected: { filledAmount: '1000', receivedAmount: '2000' }, actual: null };
+      await db.saveFillReconciliation(AUCTION, 1, [mismatch]);
+      expect(await db.getBatch(AUCTION, 1)).toMatchObject({ fillMismatches: [mismatch], fillsReconciledAt: expect.any(Number) });
+    });
+
+    it('tracks batch settlement and skip marks', async () => {
+      await db.insertBatch({ auction: AUCTION, batchId: 1, startBlock: 100, settled: false, createdAt: 1 });
+      await db.insertBatch({ auction: AUCTION, batchId: 2, startBlock: 200, settled: false, createdAt: 2 });
+      await db.insertBatch({ auction: AUCTION, batchId: 3, startBlock: 300, settled: false, createdAt: 3 });
+
+      expect(await db.setBatchSkipped(AUCTION, 2, true, 'bad prices')).toBe(true);
+      expect(await db.setBatchSkipped(AUCTION, 9, true)).toBe(false);
+
+      await db.markBatchSettled(AUCTION, 1, '0xs1', '2000', '0xroot', 150);
+      await db.markBatchSettled(AUCTION, 1, '', '', '');
+
+      expect(await db.getBatch(AUCTION, 1)).toMatchObject({
+        settled: true,
+        skipped: false,
+        txHash: '0xs1',
+        clearingPrice: '2000',
+        ordersRoot: '0xroot',
+        settledBlock: 150,
+      });
+      expect(await db.getBatch(AUCTION, 2)).toMatchObject({ settled: false, skipped: true, skipReason: 'bad prices' });
+      expect(await db.getBatch(AUCTION, 4)).toBeNull();
+      expect((await db.getUnsettledBatches(AUCTION)).map(b => b.batchId)).toEqual([3]);
+
+      const listed = await db.listBatches({ settled: false }, { limit: 10, offset: 0 });
+      expect(listed.items.map(b => b.batchId)).toEqual([3, 2]);
+    });
+
+    it('follows settlement transactions through replacement and confirmation', async () => {
+      const base = { auction: AUCTION, batchId: 1, status: 'pending' as const, nonce: 4, createdAt: 1 };
+      const first = await db.insertSettlement({ ...base, txHash: '0xt1' });
+      const second = await db.insertSettlement({ ...base, txHash: '0xt2', replaces: '0xt1', createdAt: 2 });
+
+      expect(second).toBeGreaterThan(first);
+      expect((await db.getPendingSettlements(AUCTION, 1)).map(s => s.txHash)).toEqual(['0xt1', '0xt2']);
+      expect(await db.getPendingSettlementBatches(AUCTION)).toEqual([1]);
+
+      await db.markSettlementReplaced('0xt1', '0xt2');
+      await db.updateSettlementStatus('0xt2', 'confirmed', 210000, undefined, 150, '0xblock');
+      await db.markSettlementReplaced('0xt2', '0xt3');
+
+      expect(await db.getPendingSettlements(AUCTION, 1)).toEqual([]);
+
+      const { items, total } = await db.listSettlements({ status: 'confirmed' }, { limit: 10, offset: 0 });
+      expect(total).toBe(1);
+      expect(items[0]).toMatchObject({ id: second, txHash: '0xt2', gasUsed: 210000, blockNumber: 150, kind: 'settlement' });
+    });
+
+    it('compares dry run reports with the settlement on chain', async () => {
+      await db.insertBatch({ auction: AUCTION, batchId: 1, startBlock: 100, settled: false, createdAt: 1 });
+      await db.insertBatch({ auction: AUCTION, batchId: 2, startBlock: 200, settled: false, createdAt: 2 });
+
+      const report = {
+        auction: AUCTION,
+        batchId: 1,
+        blockTag: '120',
+        from: '0xrelayer',
+        success: true,
+        clearingPrice: '2000',
+        orderCount: 2,
+        fills: { '0x01': '1000' },
+        createdAt: 5,
+      };
+
+      await db.saveSettlementReport(report);
+      expect((await db.getUnreportedBatches(AUCTION)).map(b => b.batchId)).toEqual([2]);
+      expect(await db.getUncomparedReports(AUCTION)).toEqual([]);
+
+      await db.markBatchSettled(AUCTION, 1, '0xs1', '2000', '0xroot', 150);
+      expect(await db.getUncomparedReports(AUCTION)).toHaveLength(1);
+
+      await db.saveReportComparison(AUCTION, 1, {
+        onChainTxHash: '0xs1',
+        onChainClearingPrice: '2000',
+        onChainTotalVolume: '1000',
+        onChainOrdersRoot: '0xroot',
+        onChainFills: { '0x01': '1000' },
+        mismatches: [],
+      });
+
+      expect(await db.getSettlementReport(AUCTION, 1)).toMatchObject({
+        ...report,
+        onChainFills: { '0x01': '1000' },
+        mismatches: [],
+      });
+      expect(await db.getUncomparedReports(AUCTION)).toEqual([]);
+
+      // A new report replaces the comparison of the old one
+      await db.saveSettlementReport({ ...report, success: false, revert: 'NoOrders()' });
+      expect(await db.getSettlementReport(AUCTION, 1)).toMatchObject({ success: false, revert: 'NoOrders()', mismatches: undefined });
+    });
+
+    it('derives the commitment lifecycle stage', async () => {
+      const base = { auction: AUCTION, batchId: 1, trader: TRADER, txHash: '0xc', revealed: false, executed: false };
+      await db.insertBatch({ auction: AUCTION, batchId: 1, startBlock: 100, settled: false, createdAt: 1 });
+      await db.insertCommitment({ ...base, commitment: '0xc1', blockNumber: 101, createdAt: 1 });
+      await db.insertCommitment({ ...base, commitment: '0xc2', blockNumber: 102, createdAt: 2 });
+      await db.insertCommitment({ ...base, commitment: '0xc3', blockNumber: 103, createdAt: 3 });
+      await db.insertCommitment({ ...base, commitment: '0xc1', blockNumber: 999, createdAt: 4 });
+
+      await db.markCommitmentRevealed(AUCTION, '0xc1', '0x01', '0xr1', 110);
+      await db.markCommitmentRevealed(AUCTION, '0xc2', '0x02', '0xr2', 111);
+      await db.markCommitmentExecuted(AUCTION, '0x01', { txHash: '0xs1', blockNumber: 150, filledAmount: '10', receivedAmount: '20' });
+      await db.markBatchSettled(AUCTION, 1, '0xs1', '2000', '0xroot', 150);
+
+      const stages = (await db.getCommitmentsByTrader(TRADER.toUpperCase().replace('0X', '0x')))
+        .map(c => [c.commitment, c.stage]);
+      expect(stages).toEqual([['0xc3', 'unrevealed'], ['0xc2', 'unexecuted'], ['0xc1', 'executed']]);
+
+      expect((await db.getUnrevealedCommitments(AUCTION, 1)).map(c => c.commitment)).toEqual(['0xc3']);
+      expect((await db.getCommitmentsByBatch(AUCTION, 1))[0]).toMatchObject({ blockNumber: 101, filledAmount: '10', executed: true });
+      expect(await db.getRevealStats(AUCTION, 1)).toEqual({ committed: 3, revealed: 2, executed: 1, revealRate: 2 / 3 });
+      expect(await db.getRevealStats(OTHER_AUCTION)).toEqual({ committed: 0, revealed: 0, executed: 0, revealRate: 0 });
+    });
+
+    it('keeps nonces, alerts and indexer checkpoints', async () => {
+      expect(await db.getNextNonce('0xAB')).toBeNull();
+      await db.saveNextNonce('0xAB', 5);
+      await db.saveNextNonce('0xab', 6);
+      expect(await db.getNextNonce('0xab')).toBe(6);
+
+      const alert = {
+        key: 'low_balance',
+        type: 'low_balance',
+        severity: 'warning' as const,
+        status: 'firing' as const,
+        message: 'Low',
+        details: { balance: '0.001' },
+        count: 1,
+        firstSeenAt: 1,
+        lastSeenAt: 1,
+      };
+      await db.saveAlert(alert);
+      await db.saveAlert({ ...alert, count: 2, lastSeenAt: 2, lastNotifiedAt: 2 });
+      expect(await db.getAlert('low_balance')).toEqual({ ...alert, count: 2, lastSeenAt: 2, lastNotifiedAt: 2 });
+      expect(await db.getFiringAlerts()).toHaveLength(1);
+
+      await db.saveCheckpoint('factory', 100, 3);
+      await db.saveCheckpoint('factory', 120, 7);
+      expect(await db.getCheckpoint('factory')).toMatchObject({ blockNumber: 120, logIndex: 7 });
+
+      for (const block of [100, 101, 102]) {
+        await db.saveIndexedBlock('factory', block, `0xh${block}`);
+      }
+      await db.saveIndexedBlock('factory', 102, '0xh102b');
+      await db.deleteIndexedBlocksFrom('factory', 102);
+      await db.pruneIndexedBlocks('factory', 101);
+      expect(await db.getIndexedBlocks('factory')).toEqual([{ name: 'factory', blockNumber: 101, blockHash: '0xh101' }]);
+    });
+
+    it('grants a lease to one owner until it is released or expires', async () => {
+      expect(await db.acquireLease('settlement', 'relayer@a:1', 1000, 100)).toBe(true);
+      expect(await db.acquireLease('settlement', 'cli@b:2', 1000, 500)).toBe(false);
+      expect(await db.acquireLease('settlement', 'relayer@a:1', 1000, 600)).toBe(true);
+      expect(await db.getLease('settlement', 700)).toEqual({
+        name: 'settlement', owner: 'relayer@a:1', acquiredAt: 100, expiresAt: 1600,
+      });
+
+      await db.releaseLease('settlement', 'cli@b:2');
+      expect(await db.acquireLease('settlement', 'cli@b:2', 1000, 1500)).toBe(false);
+      expect(await db.getLease('settlement', 1600)).toBeNull();
+      expect(await db.acquireLease('settlement', 'cli@b:2', 1000, 1600)).toBe(true);
+
+      await db.releaseLease('settlement', 'cli@b:2');
+      expect(await db.getLease('settlement', 1700)).toBeNull();
+      expect(await db.acquireLease('settlement', 'relayer@a:1', 1000, 1700)).toBe(true);
+    });
+
+    it('rolls back state derived from reorged blocks', async () => {
+      await db.insertBatch({ auction: AUCTION, batchId: 1, startBlock: 100, settled: false, createdAt: 1 });
+      await db.insertBatch({ auction: AUCTION, batchId: 2, startBlock: 160, settled: false, createdAt: 2 });
+      await db.insertOrder(order());
+      await db.insertOrder(order({ orderHash: '0x02', revealBlock: 155 }));
+      await db.markOrderExecuted(AUCTION, '0x01');
+      await db.markBatchSettled(AUCTION, 1, '0xs1', '2000', '0xroot', 158);
+      await db.insertSettlement({ auction: AUCTION, batchId: 1, txHash: '0xs1', status: 'pending', createdAt: 1 });
+      await db.updateSettlementStatus('0xs1', 'confirmed', 1, undefined, 158, '0xb');
+      await db.saveOrderProofs(AUCTION, 1, [{
+        auction: AUCTION, orderHash: '0x01', batchId: 1, leafIndex: 0, leaf: '0x01', proof: [], root: '0xroot', txHash: '0xs1', createdAt: 1,
+      }]);
+      await db.insertFill(fill({ batchId: 1 }));
+      await db.saveFillReconciliation(AUCTION, 1, []);
+
+      const summary = await db.rollbackFromBlock(AUCTION, 150);
+
+      expect(summary).toEqual({ orders: 1, commitments: 0, batches: 1, unsettledBatches: [1], settlements: 1, fills: 1 });
+      expect(await db.getBatch(AUCTION, 1)).toMatchObject({
+        settled: false, txHash: null, settledBlock: null, fillMismatches: null, fillsReconciledAt: null,
+      });
+      expect(await db.getBatch(AUCTION, 2)).toBeNull();
+      expect((await db.getOrdersByBatch(AUCTION, 1)).map(o => o.orderHash)).toEqual(['0x01']);
+      expect(await db.getPendingSettlementBatches(AUCTION)).toEqual([1]);
+      expect(await db.getOrderProofs(AUCTION, 1)).toEqual([]);
+      expect(await db.getFillsByBatch(AUCTION, 1)).toEqual([]);
+    });
+
+    it('aggregates metrics per auction', async () => {
+      await db.insertAuction({ address: AUCTION, token0: '0x1', token1: '0x2', createdBlock: 1, txHash: '0xt', createdAt: 1 });
+      await db.insertBatch({ auction: AUCTION, batchId: 1, startBlock: 100, settled: false, createdAt: 1 });
+      await db.markBatchSettled(AUCTION, 1, '0xs1', '2000', '0xroot', 150);
+      await db.insertOrder(order());
+      await db.insertOrder(order({ orderHash: '0x02', auction: OTHER_AUCTION }));
+      await db.markOrderExecuted(AUCTION, '0x01');
+
+      for (const [txHash, gasUsed] of [['0xs1', 100000], ['0xs2', 300000]] as const) {
+        await db.insertSettlement({ auction: AUCTION, batchId: 1, txHash, status: 'pending', createdAt: Date.now() - 4000 });
+        await db.updateSettlementStatus(txHash, 'confirmed', gasUsed);
+      }
+      await db.insertSettlement({ auction: AUCTION, batchId: 1, txHash: '0xs3', status: 'pending', createdAt: 1 });
+
+      const stats = await db.getAuctionStats();
+      expect(stats).toHaveLength(2);
+      expect(stats.find(s => s.auction === AUCTION)).toEqual({
+        auction: AUCTION,
+        totalSettlements: 3,
+        successfulSettlements: 2,
+        failedSettlements: 0,
+        pendingSettlements: 1,
+        totalOrders: 1,
+        executedOrders: 1,
+        totalBatches: 1,
+        settledBatches: 1,
+      });
+      expect(stats.find(s => s.auction === OTHER_AUCTION)).toMatchObject({ totalOrders: 1, executedOrders: 0 });
+
+      const averages = await db.getSettlementAverages();
+      expect(averages.gasUsed).toBe(200000);
+      expect(averages.settlementTimeMs).toBeGreaterThanOrEqual(4000);
+    });
+
+    it('deletes old settled state', async () => {
+      const old = Date.now() - 40 * 24 * 60 * 60 * 1000;
+      await db.insertOrder(order({ createdAt: old }));
+      await db.insertOrder(order({ orderHash: '0x02', createdAt: old }));
+      await db.markOrderExecuted(AUCTION, '0x01');
+      await db.insertFill(fill({ createdAt: old }));
+
+      expect(await db.cleanup(30)).toEqual({ orders: 1, proofs: 0, batches: 0, settlements: 0, commitments: 0, fills: 1, alerts: 0 });
+      expect((await db.getOrdersByBatch(AUCTION, 1, false)).map(o => o.orderHash)).toEqual(['0x02']);
+    });
+  });
+}
+
+(POSTGRES_URL ? describe : describe.skip)('migrate on PostgreSQL', () => {
+  it('applies each migration once when replicas start together', async () => {
+    const replicas = [new PostgresClient(POSTGRES_URL!, 2), new PostgresClient(POSTGRES_URL!, 2)];
+
+    try {
+      await reset(replicas[0]);
+
+      const results = await Promise.all(replicas.map(client => new Database(client).initialize()));
+
+      expect(results.flatMap(result => result.applied)).toHaveLength(MIGRATIONS.length);
+      expect(await replicas[0].query('SELECT COUNT(*) as count FROM schema_version')).toEqual([{ count: MIGRATIONS.length }]);
+    } finally {
+      await Promise.all(replicas.map(client => client.close()));
+    }
+  });
+
+  it('stores block numbers, batch ids and timestamps as BIGINT', async () => {
+    const client = new PostgresClient(POSTGRES_URL!, 1);
+
+    try {
+      await reset(client);
+      await new Database(client).initialize();
+
+      const columns = await client.query<{ name: string; type: string }>(
+        `SELECT table_name || '.' || column_name as name, data_type as type FROM information_schema.columns
+         WHERE table_schema = 'public' AND (column_name LIKE '%Block' OR column_name LIKE '%At' OR column_name = 'batchId')`
+      );
+
+      expect(columns.length).toBeGreaterThan(0);
+      expect(columns.filter(column => column.type !== 'bigint')).toEqual([]);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe('toPostgres', () => {
+  it('numbers placeholders and quotes camelCase identifiers outside literals', () => {
+    expect(toPostgres(`SELECT * FROM orders WHERE batchId = ? AND status = 'isPending?' AND "from" = ? AND x = ?`))
+      .toBe(`SELECT * FROM orders WHERE "batchId" = $1 AND status = 'isPending?' AND "from" = $2 AND x = $3`);
+    expect(toPostgres('UPDATE t SET settledAt = COALESCE(settledAt, excluded.settledAt)'))
+      .toBe('UPDATE t SET "settledAt" = COALESCE("settledAt", excluded."settledAt")');
+  });
+});
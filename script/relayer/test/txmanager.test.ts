@@ -0,0 +1,215 @@
+import { ethers, TransactionRequest as SignerRequest } from 'ethers';
+import { config } from '../src/config';
+import { db } from '../src/db';
+import { RelayerSigner } from '../src/signer';
+import { TransactionManager, TransactionRequest } from '../src/txmanager';
+
+const AUCTION = '0x' + 'aa'.repeat(20);
+const GWEI = 10n ** 9n;
+
+interface Broadcast {
+  hash: string;
+  nonce: number;
+  to: string;
+  data: string;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Node that advances a block on every block number read and mines only what it is told to
+ */
+class StubNode {
+  block = 100;
+  minedNonce = 0;
+  // Next nonce counting the mempool, when the node still holds unmined transactions
+  pendingNonce?: number;
+  fees = { maxFeePerGas: 20n * GWEI, maxPriorityFeePerGas: 2n * GWEI };
+  broadcasts: Broadcast[] = [];
+  onBroadcast: (tx: Broadcast) => void = () => undefined;
+  private receipts = new Map<string, { status: number; gasUsed: bigint; blockNumber: number; blockHash: string }>();
+
+  mine(hash: string): void {
+    this.receipts.set(hash, { status: 1, gasUsed: 21000n, blockNumber: this.block, blockHash: ethers.id(`block:${this.block}`) });
+    this.minedNonce++;
+  }
+
+  provider(): ethers.JsonRpcProvider {
+    return {
+      getBlockNumber: async () => ++this.block,
+      getTransactionCount: async (_: string, blockTag: string) =>
+        blockTag === 'pending' ? this.pendingNonce ?? this.minedNonce : this.minedNonce,
+      getFeeData: async () => this.fees,
+      getTransactionReceipt: async (hash: string) => this.receipts.get(hash) ?? null,
+      broadcastTransaction: async (raw: string) => {
+        const tx = JSON.parse(raw, (key, value) => (['gasLimit', 'maxFeePerGas', 'maxPriorityFeePerGas'].includes(key) ? BigInt(value) : value));
+        const broadcast = { ...tx, hash: ethers.id(raw) };
+        this.broadcasts.push(broadcast);
+        this.onBroadcast(broadcast);
+        return { hash: broadcast.hash };
+      },
+    } as unknown as ethers.JsonRpcProvider;
+  }
+}
+
+/**
+ * Signer whose "signed" transactions are their JSON, which the stub node reads back
+ */
+function signer(address: string): RelayerSigner {
+  return {
+    getAddress: async () => address,
+    populateTransaction: async (tx: SignerRequest) => tx as ethers.TransactionLike<string>,
+    signTransaction: async (tx: SignerRequest) =>
+      JSON.stringify(tx, (_, value) => (typeof value === 'bigint' ? value.toString() : value)),
+  };
+}
+
+function request(batchId: number): TransactionRequest {
+  return { auction: AUCTION, batchId, to: AUCTION, data: '0x1234', gasLimit: 300_000n };
+}
+
+const bump = (value: bigint) => (value * 115n) / 100n + 1n;
+
+async function settlements(batchId: number) {
+  const { items } = await db.listSettlements({ auction: AUCTION, batchId }, { limit: 10, offset: 0 });
+  return items.reverse().map(({ txHash, status, kind, nonce, replacedBy }) => ({ txHash, status, kind, nonce, replacedBy }));
+}
+
+describe('transaction manager', () => {
+  beforeAll(async () => {
+    await db.initialize();
+    Object.assign(config, { pollIntervalMs: 0, txReplaceBlocks: 3, txMaxReplacements: 2, feeBumpPercent: 15, maxGasPriceGwei: 100 });
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('allocates nonces from persisted state unless the chain has moved past it', async () => {
+    const node = new StubNode();
+    const manager = new TransactionManager(node.provider(), signer('0x' + '01'.repeat(20)));
+    node.minedNonce = 5;
+
+    expect((await manager.send(request(1))).nonce).toBe(5);
+    // The first is still pending, so the chain count lags the persisted nonce
+    expect((await manager.send(request(1))).nonce).toBe(6);
+
+    node.minedNonce = 9;
+    expect((await manager.send(request(1))).nonce).toBe(9);
+    expect(await db.getNextNonce('0x' + '01'.repeat(20))).toBe(10);
+
+    // A failed broadcast does not use up its nonce
+    node.onBroadcast = () => {
+      throw new Error('rejected');
+    };
+    await expect(manager.send(request(1))).rejects.toThrow('rejected');
+    expect(await db.getNextNonce('0x' + '01'.repeat(20))).toBe(10);
+  });
+
+  it('replaces a stuck transaction with bumped fees until a version is mined', async () => {
+    const node = new StubNode();
+    const manager = new TransactionManager(node.provider(), signer('0x' + '02'.repeat(20)));
+    node.onBroadcast = tx => {
+      if (node.broadcasts.length === 3) {
+        node.mine(tx.hash);
+      }
+    };
+
+    const tx = await manager.send(request(2));
+    const outcome = await manager.waitFor(tx, async () => false);
+
+    const [original, first, second] = node.broadcasts;
+    expect(outcome).toMatchObject({ status: 'confirmed', txHash: second.hash });
+    expect([first.nonce, second.nonce]).toEqual([original.nonce, original.nonce]);
+    expect(second).toMatchObject({ to: AUCTION, data: '0x1234', gasLimit: 300_000n });
+    expect(first).toMatchObject({ maxFeePerGas: bump(20n * GWEI), maxPriorityFeePerGas: bump(2n * GWEI) });
+    expect(second).toMatchObject({ maxFeePerGas: bump(bump(20n * GWEI)), maxPriorityFeePerGas: bump(bump(2n * GWEI)) });
+
+    expect(await settlements(2)).toEqual([
+      { txHash: original.hash, status: 'replaced', kind: 'settlement', nonce: 0, replacedBy: first.hash },
+      { txHash: first.hash, status: 'replaced', kind: 'settlement', nonce: 0, replacedBy: second.hash },
+      { txHash: second.hash, status: 'confirmed', kind: 'settlement', nonce: 0, replacedBy: null },
+    ]);
+  });
+
+  it('bumps to what the network asks for when that is higher, and never above the cap', async () => {
+    const node = new StubNode();
+    const manager = new TransactionManager(node.provider(), signer('0x' + '03'.repeat(20)));
+    node.onBroadcast = tx => {
+      if (node.broadcasts.length === 3) {
+        node.mine(tx.hash);
+      }
+    };
+
+    const tx = await manager.send(request(3));
+    node.fees = { maxFeePerGas: 90n * GWEI, maxPriorityFeePerGas: 3n * GWEI };
+    await manager.waitFor(tx, async () => false);
+
+    const [, first, second] = node.broadcasts;
+    expect(first).toMatchObject({ maxFeePerGas: 90n * GWEI, maxPriorityFeePerGas: 3n * GWEI });
+    expect(second).toMatchObject({ maxFeePerGas: 100n * GWEI, maxPriorityFeePerGas: bump(3n * GWEI) });
+  });
+
+  it('cancels instead of replacing when the batch no longer needs settling', async () => {
+    const address = '0x' + '04'.repeat(20);
+    const node = new StubNode();
+    const manager = new TransactionManager(node.provider(), signer(address));
+    node.onBroadcast = tx => {
+      if (tx.data === '0x') {
+        node.mine(tx.hash);
+      }
+    };
+
+    const tx = await manager.send(request(4));
+    const outcome = await manager.waitFor(tx, async () => true);
+
+    const [original, cancellation] = node.broadcasts;
+    expect(outcome).toMatchObject({ status: 'cancelled', txHash: cancellation.hash });
+    expect(cancellation).toMatchObject({ to: address, data: '0x', gasLimit: 21000n, nonce: original.nonce });
+    expect((await settlements(4)).map(s => [s.kind, s.status])).toEqual([['settlement', 'replaced'], ['cancellation', 'confirmed']]);
+  });
+
+  it('cancels after the last bump and gives up when not even the cancellation is mined', async () => {
+    const node = new StubNode();
+    const manager = new TransactionManager(node.provider(), signer('0x' + '05'.repeat(20)));
+    const shouldCancel = jest.fn(async () => false);
+
+    const tx = await manager.send(request(5));
+    const outcome = await manager.waitFor(tx, shouldCancel);
+
+    const last = node.broadcasts[node.broadcasts.length - 1];
+    expect(outcome).toEqual({ status: 'dropped', txHash: last.hash });
+    expect(node.broadcasts.map(b => (b.data === '0x' ? 'cancellation' : 'settlement')))
+      .toEqual(['settlement', 'settlement', 'settlement', 'cancellation']);
+    expect(shouldCancel).toHaveBeenCalledTimes(2);
+    expect((await settlements(5)).map(s => s.status)).toEqual(['replaced', 'replaced', 'replaced', 'failed']);
+
+    // The node no longer holds the nonce, so the next transaction reuses it instead of leaving a gap
+    expect((await manager.send(request(5))).nonce).toBe(tx.nonce);
+  });
+
+  it('keeps the nonce of a transaction given up on while the node still holds it', async () => {
+    const address = '0x' + '07'.repeat(20);
+    const node = new StubNode();
+    const manager = new TransactionManager(node.provider(), signer(address));
+
+    const tx = await manager.send(request(7));
+    node.pendingNonce = 1;
+
+    expect(await manager.waitFor(tx, async () => false)).toMatchObject({ status: 'dropped' });
+    expect(await db.getNextNonce(address)).toBe(1);
+    expect((await manager.send(request(7))).nonce).toBe(1);
+  });
+
+  it('reports a transaction as dropped when another one used its nonce', async () => {
+    const node = new StubNode();
+    const manager = new TransactionManager(node.provider(), signer('0x' + '06'.repeat(20)));
+
+    const tx = await manager.send(request(6));
+    node.minedNonce = 1;
+
+    expect(await manager.waitFor(tx, async () => false)).toEqual({ status: 'dropped', txHash: tx.versions[0].hash });
+    expect(node.broadcasts).toHaveLength(1);
+  });
+});
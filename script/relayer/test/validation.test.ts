@@ -0,0 +1,117 @@
+import { AuctionState, lockedFundsRequired, validateOrders, ValidationOrder } from '../src/validation';
+
+const E18 = 10n ** 18n;
+const ALICE = '0x' + 'aa'.repeat(20);
+const BOB = '0x' + 'bb'.repeat(20);
+
+function order(orderHash: string, overrides: Partial<ValidationOrder> = {}): ValidationOrder {
+  return {
+    orderHash,
+    trader: ALICE,
+    expiry: 2000,
+    amount: (10n * E18).toString(),
+    limitPrice: (2n * E18).toString(),
+    side: 1,
+    ...overrides,
+  };
+}
+
+function state(overrides: Partial<AuctionState> = {}): AuctionState {
+  return {
+    blockNumber: 100,
+    timestamp: 1000,
+    minOrderSize: E18,
+    lockedBalances: new Map([[ALICE, { locked0: 100n * E18, locked1: 100n * E18 }]]),
+    walletFunds: new Map(),
+    executed: new Set(),
+    ...overrides,
+  };
+}
+
+function reasons(orders: ValidationOrder[], auction: AuctionState) {
+  const { valid, excluded } = validateOrders(orders, auction);
+  return {
+    valid: valid.map(o => o.orderHash),
+    excluded: excluded.map(({ order, reason }) => [order.orderHash, reason]),
+  };
+}
+
+describe('validation', () => {
+  it('locks quote tokens at the limit price for buys and the base amount for sells', () => {
+    expect(lockedFundsRequired({ amount: 3n * E18, limitPrice: 2n * E18, side: 0 })).toEqual({ locked0: 0n, locked1: 6n * E18 });
+    expect(lockedFundsRequired({ amount: 3n * E18, limitPrice: 2n * E18, side: 1 })).toEqual({ locked0: 3n * E18, locked1: 0n });
+  });
+
+  it('checks each order against the contract state at the settlement block', () => {
+    const orders = [
+      order('0x01'),
+      order('0x02', { amount: '0' }),
+      order('0x03', { limitPrice: '0' }),
+      order('0x04', { expiry: 999 }),
+      order('0x05', { amount: (E18 - 1n).toString() }),
+      order('0x06'),
+      order('0x07', { trader: BOB }),
+      order('0x08', { expiry: 1000 }),
+    ];
+
+    expect(reasons(orders, state({ executed: new Set(['0x06']) }))).toEqual({
+      valid: ['0x01', '0x08'],
+      excluded: [
+        ['0x02', 'zero_amount'],
+        ['0x03', 'zero_price'],
+        ['0x04', 'expired'],
+        ['0x05', 'below_min_order_size'],
+        ['0x06', 'already_executed'],
+        ['0x07', 'insufficient_funds'],
+      ],
+    });
+  });
+
+  it('keeps the first of orders with the same hash', () => {
+    expect(reasons([order('0xAB'), order('0xab')], state())).toEqual({
+      valid: ['0xAB'],
+      excluded: [['0xab', 'duplicate']],
+    });
+  });
+
+  it('draws each trader\'s locked balance down in order', () => {
+    const locked = new Map([[ALICE, { locked0: 15n * E18, locked1: 25n * E18 }]]);
+    const orders = [
+      order('0x01'),
+      order('0x02'),
+      order('0x03', { side: 0 }),
+      order('0x04', { side: 0 }),
+      order('0x05', { amount: (5n * E18).toString() }),
+    ];
+
+    // Sells take 10 of 15 locked TOKEN0, buys 20 of 25 locked TOKEN1 at the limit price
+    expect(reasons(orders, state({ lockedBalances: locked }))).toEqual({
+      valid: ['0x01', '0x03', '0x05'],
+      excluded: [['0x02', 'insufficient_funds'], ['0x04', 'insufficient_funds']],
+    });
+  });
+
+  it('falls back to what the auction can pull from the wallet when locked funds fall short', () => {
+    const locked = new Map([[ALICE, { locked0: 5n * E18, locked1: 15n * E18 }]]);
+    const wallet = new Map([[ALICE, { locked0: 12n * E18, locked1: 0n }], [BOB, { locked0: 0n, locked1: 20n * E18 }]]);
+    const orders = [
+      order('0x01', { amount: (3n * E18).toString() }),
+      order('0x02'),
+      order('0x03'),
+      order('0x04', { amount: (2n * E18).toString() }),
+      order('0x05', { side: 0 }),
+      order('0x06', { side: 0, trader: BOB }),
+    ];
+
+    // A payment is never split: 0x02 needs 10 TOKEN0, more than the 2 still locked, so it is pulled from the wallet
+    expect(reasons(orders, state({ lockedBalances: locked, walletFunds: wallet }))).toEqual({
+      valid: ['0x01', '0x02', '0x04', '0x06'],
+      excluded: [['0x03', 'insufficient_funds'], ['0x05', 'insufficient_funds']],
+    });
+  });
+
+  it('does not charge excluded orders against the balance', () => {
+    const locked = new Map([[ALICE, { locked0: 10n * E18, locked1: 0n }]]);
+    expect(reasons([order('0x01', { expiry: 1 }), order('0x02')], state({ lockedBalances: locked })).valid).toEqual(['0x02']);
+  });
+});
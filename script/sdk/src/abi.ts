@@ -0,0 +1,33 @@
+import { BATCH_AUCTION_ERRORS } from './errors';
+import { ORDER_TUPLE } from './encoding';
+
+/**
+ * The parts of BatchAuction a trader uses
+ */
+export const BATCH_AUCTION_ABI = [
+  'function commitOrder(bytes32 commitment) external',
+  'function commitOrderWithLock(bytes32 commitment, uint256 amount, bool isBuyOrder) external',
+  `function revealOrder(${ORDER_TUPLE} order, bytes32 salt) external`,
+  'function getCurrentBatchId() external view returns (uint256)',
+  'function getBatchState(uint256 batchId) external view returns (uint8)',
+  'function getBatch(uint256 batchId) external view returns (tuple(uint256 startBlock, uint256 endBlock, bytes32 ordersRoot, uint256 clearingPrice, uint256 totalVolume, uint256 buyVolume, uint256 sellVolume, bool settled))',
+  'function getOrderExecution(bytes32 orderHash) external view returns (tuple(bool executed, uint128 filledAmount, uint128 receivedAmount))',
+  'function commitments(bytes32 commitment) external view returns (bool)',
+  'function revealed(bytes32 commitment) external view returns (bool)',
+  'function userBalances(address user) external view returns (uint256 locked0, uint256 locked1)',
+  'function batchDuration() external view returns (uint256)',
+  'function lastBatchBlock() external view returns (uint256)',
+  'function minOrderSize() external view returns (uint128)',
+  'function TOKEN0() external view returns (address)',
+  'function TOKEN1() external view returns (address)',
+  'event CommitmentSubmitted(address indexed user, bytes32 commitment, uint256 batchId)',
+  'event OrderRevealed(address indexed user, bytes32 commitment, uint256 batchId)',
+  'event BatchStarted(uint256 indexed batchId, uint256 startBlock)',
+  ...BATCH_AUCTION_ERRORS,
+];
+
+export const ERC20_ABI = [
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'function allowance(address owner, address spender) external view returns (uint256)',
+  'function balanceOf(address account) external view returns (uint256)',
+];
@@ -0,0 +1,286 @@
+import { Contract, ContractRunner, ContractTransactionResponse, Provider } from 'ethers';
+import { BATCH_AUCTION_ABI, ERC20_ABI } from './abi';
+import { createOrder, hashCommitment, hashOrder, lockRequirement, randomSalt } from './encoding';
+import { rethrowDecoded } from './errors';
+import { BatchState, CommittedOrder, LockRequirement, OrderExecution, OrderInput, OrderSide, RevealedOrder } from './types';
+
+export interface CommitOptions {
+  // Defaults to a random salt; store it, the order cannot be revealed without it
+  salt?: string;
+}
+
+export interface CommitWithLockOptions extends CommitOptions {
+  // Defaults to lockRequirement(order).amount
+  lockAmount?: bigint;
+}
+
+export interface WaitOptions {
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+export interface CurrentBatch {
+  batchId: bigint;
+  state: BatchState;
+  // Last block of the commit phase; revealing starts the block after
+  commitEndBlock: bigint;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 4000;
+
+/**
+ * Trader-side client for one BatchAuction
+ *
+ * Write methods need a runner that can send transactions (a Signer); reads work with a Provider.
+ * Reverts carrying a BatchAuction custom error are thrown as BatchAuctionError.
+ */
+export class BatchAuctionClient {
+  readonly address: string;
+  private contract: Contract;
+  private runner: ContractRunner;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.address = address;
+    this.runner = runner;
+    this.contract = new Contract(address, BATCH_AUCTION_ABI, runner);
+  }
+
+  /*//////////////////////////////////////////////////////////////
+                              TRADING
+  //////////////////////////////////////////////////////////////*/
+
+  /**
+   * Commit to an order in the current batch without locking funds
+   * @returns The order, salt and commitment to keep for the reveal
+   */
+  async commit(order: OrderInput, options: CommitOptions = {}): Promise<CommittedOrder> {
+    const normalized = createOrder(order);
+    const salt = options.salt ?? randomSalt();
+    const commitment = hashCommitment(normalized, salt);
+
+    const tx = await this.contract.commitOrder(commitment).catch(rethrowDecoded);
+    return this.committed(tx, normalized, salt, commitment);
+  }
+
+  /**
+   * Commit to an order and lock the funds it needs, so it can be executed at settlement
+   * The auction must be approved to pull the locked token first (see approveLock).
+   */
+  async commitWithLock(order: OrderInput, options: CommitWithLockOptions = {}): Promise<CommittedOrder> {
+    const normalized = createOrder(order);
+    const salt = options.salt ?? randomSalt();
+    const commitment = hashCommitment(normalized, salt);
+    const amount = options.lockAmount ?? lockRequirement(normalized).amount;
+
+    const tx = await this.contract
+      .commitOrderWithLock(commitment, amount, normalized.side === OrderSide.Buy)
+      .catch(rethrowDecoded);
+    return this.committed(tx, normalized, salt, commitment);
+  }
+
+  /**
+   * Approve the auction to pull the funds commitWithLock locks for an order
+   * @returns Null if the current allowance already covers them
+   */
+  async approveLock(order: OrderInput, owner: string): Promise<LockRequirement | null> {
+    const requirement = lockRequirement(order);
+    const tokenAddress = requirement.token === 'token0' ? await this.contract.TOKEN0() : await this.contract.TOKEN1();
+    const token = new Contract(tokenAddress, ERC20_ABI, this.runner);
+
+    if ((await token.allowance(owner, this.address)) >= requirement.amount) {
+      return null;
+    }
+
+    const tx: ContractTransactionResponse = await token.approve(this.address, requirement.amount).catch(rethrowDecoded);
+    await tx.wait();
+    return requirement;
+  }
+
+  /**
+   * Reveal a committed order; only possible while its batch is in the reveal phase
+   */
+  async reveal(order: OrderInput, salt: string): Promise<RevealedOrder> {
+    const normalized = createOrder(order);
+    const commitment = hashCommitment(normalized, salt);
+
+    const tx: ContractTransactionResponse = await this.contract.revealOrder(normalized, salt).catch(rethrowDecoded);
+    const receipt = (await tx.wait().catch(rethrowDecoded))!;
+    const event = this.findEvent(receipt.logs, 'OrderRevealed');
+
+    return {
+      commitment,
+      orderHash: hashOrder(normalized),
+      batchId: event.args.batchId,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    };
+  }
+
+  /*//////////////////////////////////////////////////////////////
+                              BATCHES
+  //////////////////////////////////////////////////////////////*/
+
+  /**
+   * Current batch, its state and when its commit phase ends
+   */
+  async getCurrentBatch(): Promise<CurrentBatch> {
+    const batchId: bigint = await this.contract.getCurrentBatchId();
+    const [state, lastBatchBlock, batchDuration] = await Promise.all([
+      this.getBatchState(batchId),
+      this.contract.lastBatchBlock() as Promise<bigint>,
+      this.contract.batchDuration() as Promise<bigint>,
+    ]);
+
+    return { batchId, state, commitEndBlock: lastBatchBlock + batchDuration };
+  }
+
+  async getBatchState(batchId: bigint | number): Promise<BatchState> {
+    return Number(await this.contract.getBatchState(batchId));
+  }
+
+  /**
+   * Poll until a batch reaches a state (or a later one)
+   * @throws Error if `timeoutMs` passes first
+   */
+  async waitForBatchState(batchId: bigint | number, state: BatchState, options: WaitOptions = {}): Promise<BatchState> {
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const deadline = options.timeoutMs === undefined ? Infinity : Date.now() + options.timeoutMs;
+
+    for (;;) {
+      const current = await this.getBatchState(batchId);
+
+      if (current >= state) {
+        return current;
+      }
+
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new Error(`Timed out waiting for batch ${batchId} to reach ${BatchState[state]} (still ${BatchState[current]})`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  /**
+   * Blocks left before the current batch stops accepting commitments (0 once it has)
+   */
+  async blocksUntilReveal(): Promise<bigint> {
+    const { commitEndBlock } = await this.getCurrentBatch();
+    const block = BigInt(await this.provider().getBlockNumber());
+
+    return block > commitEndBlock ? 0n : commitEndBlock - block + 1n;
+  }
+
+  /**
+   * Timestamp of the latest block, which `revealOrder` checks order expiry against
+   */
+  async getBlockTimestamp(): Promise<bigint> {
+    const block = await this.provider().getBlock('latest');
+
+    if (!block) {
+      throw new Error('The provider returned no latest block');
+    }
+
+    return BigInt(block.timestamp);
+  }
+
+  /**
+   * Call `listener` whenever a batch is settled and the next one starts
+   * @returns A function that removes the listener
+   */
+  onBatchStarted(listener: (batchId: bigint, startBlock: bigint) => void): () => void {
+    const handler = (batchId: bigint, startBlock: bigint) => listener(batchId, startBlock);
+    void this.contract.on('BatchStarted', handler);
+
+    return () => {
+      void this.contract.off('BatchStarted', handler);
+    };
+  }
+
+  /*//////////////////////////////////////////////////////////////
+                              ORDERS
+  //////////////////////////////////////////////////////////////*/
+
+  /**
+   * Whether a commitment was made and whether it was revealed
+   */
+  async getCommitmentStatus(commitment: string): Promise<{ committed: boolean; revealed: boolean }> {
+    const [committed, revealed] = await Promise.all([
+      this.contract.commitments(commitment) as Promise<boolean>,
+      this.contract.revealed(commitment) as Promise<boolean>,
+    ]);
+
+    return { committed, revealed };
+  }
+
+  /**
+   * Fill of an order at settlement; `executed` stays false until its batch is settled with it
+   */
+  async getOrderExecution(order: OrderInput | string): Promise<OrderExecution> {
+    const orderHash = typeof order === 'string' ? order : hashOrder(order);
+    const execution = await this.contract.getOrderExecution(orderHash);
+
+    return {
+      executed: execution.executed,
+      filledAmount: execution.filledAmount,
+      receivedAmount: execution.receivedAmount,
+    };
+  }
+
+  /**
+   * Funds a trader has locked in the auction
+   */
+  async getLockedBalances(trader: string): Promise<{ locked0: bigint; locked1: bigint }> {
+    const [locked0, locked1] = await this.contract.userBalances(trader);
+    return { locked0, locked1 };
+  }
+
+  async getMinOrderSize(): Promise<bigint> {
+    return this.contract.minOrderSize();
+  }
+
+  private async committed(
+    tx: ContractTransactionResponse,
+    order: CommittedOrder['order'],
+    salt: string,
+    commitment: string
+  ): Promise<CommittedOrder> {
+    const receipt = (await tx.wait().catch(rethrowDecoded))!;
+    const event = this.findEvent(receipt.logs, 'CommitmentSubmitted');
+
+    return {
+      order,
+      salt,
+      commitment,
+      orderHash: hashOrder(order),
+      batchId: event.args.batchId,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    };
+  }
+
+  private findEvent(logs: readonly { address: string; topics: readonly string[]; data: string }[], name: string) {
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) {
+        continue;
+      }
+
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === name) {
+        return parsed;
+      }
+    }
+
+    throw new Error(`Transaction emitted no ${name} event`);
+  }
+
+  private provider(): Provider {
+    const provider = this.runner.provider ?? (this.runner as Provider);
+
+    if (typeof provider.getBlockNumber !== 'function') {
+      throw new Error('The runner has no provider');
+    }
+
+    return provider;
+  }
+}
@@ -0,0 +1,97 @@
+import { AbiCoder, hexlify, isHexString, keccak256, randomBytes } from 'ethers';
+import { LockRequirement, Order, OrderInput, OrderSide } from './types';
+
+/**
+ * ABI type of IBatchAuction.Order
+ */
+export const ORDER_TUPLE = 'tuple(uint64 nonce, uint64 expiry, uint128 amount, uint128 limitPrice, uint8 side)';
+
+// Prices are quote per base, scaled by 1e18
+const PRICE_SCALE = 10n ** 18n;
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+const MAX_UINT128 = 2n ** 128n - 1n;
+
+const coder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Validate order fields and convert them to the types the contract takes
+ * @throws RangeError if a field does not fit its Solidity type or the side is unknown
+ */
+export function createOrder(input: OrderInput): Order {
+  const side = Number(input.side);
+
+  if (side !== OrderSide.Buy && side !== OrderSide.Sell) {
+    throw new RangeError(`Order side must be 0 (buy) or 1 (sell), got ${input.side}`);
+  }
+
+  return {
+    nonce: toUint(input.nonce, MAX_UINT64, 'nonce'),
+    expiry: toUint(input.expiry, MAX_UINT64, 'expiry'),
+    amount: toUint(input.amount, MAX_UINT128, 'amount'),
+    limitPrice: toUint(input.limitPrice, MAX_UINT128, 'limitPrice'),
+    side,
+  };
+}
+
+/**
+ * Random 32-byte salt for a commitment
+ */
+export function randomSalt(): string {
+  return hexlify(randomBytes(32));
+}
+
+/**
+ * Computes the commitment for an order, matching CompactEncoding.hashOrder
+ * @param order Order details
+ * @param salt Salt used when committing
+ * @returns keccak256(abi.encode(order, salt))
+ */
+export function hashCommitment(order: OrderInput, salt: string): string {
+  if (!isHexString(salt, 32)) {
+    throw new RangeError('Salt must be a 32-byte hex string');
+  }
+
+  return keccak256(coder.encode([ORDER_TUPLE, 'bytes32'], [toTuple(createOrder(order)), salt]));
+}
+
+/**
+ * Computes the order hash used by BatchAuction for execution tracking and merkle leaves
+ * @param order Order details
+ * @returns keccak256(abi.encode(order))
+ */
+export function hashOrder(order: OrderInput): string {
+  return keccak256(coder.encode([ORDER_TUPLE], [toTuple(createOrder(order))]));
+}
+
+/**
+ * Funds to lock for an order to be executable at any clearing price within its limit
+ * Buy orders pay `amount * limitPrice / 1e18` of TOKEN1 at most; sell orders deliver `amount` of TOKEN0.
+ */
+export function lockRequirement(order: OrderInput): LockRequirement {
+  const { amount, limitPrice, side } = createOrder(order);
+
+  return side === OrderSide.Buy
+    ? { token: 'token1', amount: (amount * limitPrice) / PRICE_SCALE }
+    : { token: 'token0', amount };
+}
+
+function toUint(value: OrderInput['nonce'], max: bigint, field: string): bigint {
+  let result: bigint;
+
+  try {
+    result = BigInt(value);
+  } catch {
+    throw new RangeError(`Order ${field} is not an integer: ${value}`);
+  }
+
+  if (result < 0n || result > max) {
+    throw new RangeError(`Order ${field} out of range: ${result}`);
+  }
+
+  return result;
+}
+
+function toTuple(order: Order): [bigint, bigint, bigint, bigint, number] {
+  return [order.nonce, order.expiry, order.amount, order.limitPrice, order.side];
+}
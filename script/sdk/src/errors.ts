@@ -0,0 +1,116 @@
+import { Interface } from 'ethers';
+
+/**
+ * Custom errors BatchAuction and the OpenZeppelin code it uses can revert with
+ */
+export const BATCH_AUCTION_ERRORS = [
+  'error BatchNotOpen()',
+  'error BatchNotRevealing()',
+  'error AlreadySettled()',
+  'error InvalidCommitment()',
+  'error AlreadyRevealed()',
+  'error OrderExpired()',
+  'error OrderTooSmall()',
+  'error InvalidProof()',
+  'error PriceDeviationTooHigh()',
+  'error InsufficientBalance()',
+  'error OrderAlreadyExecuted()',
+  'error EnforcedPause()',
+  'error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)',
+  'error SafeERC20FailedOperation(address token)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+];
+
+const ERROR_MESSAGES: Record<string, string> = {
+  BatchNotOpen: 'The current batch is no longer accepting commitments; commit in the next batch',
+  BatchNotRevealing: 'The current batch is not in its reveal phase',
+  AlreadySettled: 'The batch is already settled',
+  InvalidCommitment: 'No commitment in the current batch matches this order and salt',
+  AlreadyRevealed: 'This order was already revealed',
+  OrderExpired: 'The order expired before it was revealed',
+  OrderTooSmall: 'The order amount is below the auction\'s minOrderSize',
+  InvalidProof: 'A settlement proof does not match the orders root',
+  PriceDeviationTooHigh: 'The clearing price deviates too far from the reference price',
+  InsufficientBalance: 'The trader has not locked or approved enough funds',
+  OrderAlreadyExecuted: 'The order was already executed',
+  EnforcedPause: 'The auction is paused',
+  AccessControlUnauthorizedAccount: 'The sender lacks the role this call requires',
+  SafeERC20FailedOperation: 'The token transfer failed',
+  ERC20InsufficientAllowance: 'The token allowance is too low; approve the auction first',
+  ERC20InsufficientBalance: 'The token balance is too low',
+};
+
+const errorInterface = new Interface(BATCH_AUCTION_ERRORS);
+
+/**
+ * A BatchAuction revert, decoded from its custom error
+ */
+export class BatchAuctionError extends Error {
+  // Solidity error name, e.g. `BatchNotOpen`
+  readonly reason: string;
+  readonly args: Record<string, unknown>;
+  readonly cause: unknown;
+
+  constructor(reason: string, args: Record<string, unknown>, cause: unknown) {
+    super(`${reason}: ${ERROR_MESSAGES[reason] ?? 'Transaction reverted'}`);
+    this.name = 'BatchAuctionError';
+    this.reason = reason;
+    this.args = args;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Decode a BatchAuction custom error from an ethers error or raw revert data
+ * @returns The decoded error, or null if the revert carries none of the known errors
+ */
+export function decodeBatchAuctionError(error: unknown): BatchAuctionError | null {
+  const data = revertData(error);
+
+  if (!data) {
+    return null;
+  }
+
+  try {
+    const parsed = errorInterface.parseError(data);
+
+    if (!parsed) {
+      return null;
+    }
+
+    const args = Object.fromEntries(parsed.fragment.inputs.map((input, i) => [input.name, parsed.args[i]]));
+    return new BatchAuctionError(parsed.name, args, error);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rethrow a failed call as a BatchAuctionError when it reverted with a known error
+ */
+export function rethrowDecoded(error: unknown): never {
+  throw decodeBatchAuctionError(error) ?? error;
+}
+
+/**
+ * Revert data wherever ethers and the node put it
+ */
+function revertData(error: any): string | null {
+  if (typeof error === 'string') {
+    return error.startsWith('0x') ? error : null;
+  }
+
+  for (const candidate of [error?.data, error?.info?.error?.data, error?.error?.data, error?.revert?.data]) {
+    if (typeof candidate === 'string' && candidate.startsWith('0x') && candidate.length >= 10) {
+      return candidate;
+    }
+
+    // Some nodes nest the data one level further
+    if (typeof candidate?.data === 'string' && candidate.data.startsWith('0x')) {
+      return candidate.data;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,7 @@
+export * from './types';
+export * from './encoding';
+export * from './errors';
+export * from './abi';
+export * from './auction';
+export * from './vault';
+export * from './keeper';
@@ -0,0 +1,233 @@
+#!/usr/bin/env node
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { BatchAuctionClient } from './auction';
+import { createOrder, randomSalt } from './encoding';
+import { BatchAuctionError } from './errors';
+import { RevealKeeper } from './keeper';
+import { OrderSide } from './types';
+import { OrderVault, VaultError, VaultOrder, VaultOrderStatus } from './vault';
+
+const USAGE = `Usage: dex-keeper <command> [options]
+
+Commands:
+  run                       Reveal vaulted orders as their batches enter the reveal phase, until stopped
+  commit                    Commit to an order and store it in the vault
+      --side <buy|sell> --amount <n> --limit-price <n> --expiry <unix seconds> [--nonce <n>] [--lock]
+  list [--status <status>]  Vaulted orders (committing, pending, revealed, expired, missed or failed)
+  report                    Orders whose commit was not confirmed, or that expired, missed their batch or
+                            could not be revealed
+
+Options:
+  --vault <file>      Encrypted order vault (default: VAULT_PATH, then orders.vault)
+  --rpc-url <url>     JSON-RPC endpoint (default: RPC_URL)
+  --auction <addr>    BatchAuction address (default: AUCTION_ADDRESS)
+
+The trader key is read from PRIVATE_KEY and the vault passphrase from VAULT_PASSPHRASE.`;
+
+// Options that take no value
+const FLAGS = new Set(['lock']);
+
+const STATUSES: VaultOrderStatus[] = ['committing', 'pending', 'revealed', 'expired', 'missed', 'failed'];
+
+export class UsageError extends Error {}
+
+interface ParsedArgs {
+  command: string[];
+  options: Record<string, string>;
+}
+
+/**
+ * Split arguments into the command words, `--name value` options and flags
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const command: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith('--')) {
+      command.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    const value = inline ?? (FLAGS.has(name) ? 'true' : argv[++i]);
+
+    if (value === undefined) {
+      throw new UsageError(`Option --${name} needs a value`);
+    }
+
+    options[name] = value;
+  }
+
+  return { command, options };
+}
+
+function required(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`${name} is required`);
+  }
+
+  return value;
+}
+
+function integerArg(value: string | undefined, name: string): bigint {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new UsageError(`${name} must be a non-negative integer`);
+  }
+
+  return BigInt(value);
+}
+
+function sideArg(value: string | undefined): OrderSide {
+  if (value === 'buy') return OrderSide.Buy;
+  if (value === 'sell') return OrderSide.Sell;
+  throw new UsageError('--side must be buy or sell');
+}
+
+function print(result: unknown): void {
+  console.log(JSON.stringify(result, (_key, value) => typeof value === 'bigint' ? value.toString() : value, 2));
+}
+
+// Salts stay in the vault
+function describe(order: VaultOrder) {
+  const { salt: _salt, ...rest } = order;
+  return rest;
+}
+
+function openVault(options: Record<string, string>): Promise<OrderVault> {
+  const path = options.vault ?? process.env.VAULT_PATH ?? 'orders.vault';
+  return OrderVault.open(path, required(process.env.VAULT_PASSPHRASE, 'VAULT_PASSPHRASE'));
+}
+
+function connect(options: Record<string, string>): { client: BatchAuctionClient; wallet: Wallet } {
+  const provider = new JsonRpcProvider(required(options['rpc-url'] ?? process.env.RPC_URL, '--rpc-url or RPC_URL'));
+  const wallet = new Wallet(required(process.env.PRIVATE_KEY, 'PRIVATE_KEY'), provider);
+  const auction = required(options.auction ?? process.env.AUCTION_ADDRESS, '--auction or AUCTION_ADDRESS');
+
+  return { client: new BatchAuctionClient(auction, wallet), wallet };
+}
+
+async function keep(options: Record<string, string>): Promise<number> {
+  const vault = await openVault(options);
+  const { client, wallet } = connect(options);
+  const keeper = new RevealKeeper(client, vault, wallet.address);
+
+  const log = (event: string) => (order: VaultOrder) =>
+    console.log(`${event} ${order.commitment} (batch ${order.batchId})${order.lastError ? `: ${order.lastError}` : ''}`);
+
+  for (const event of ['revealed', 'expired', 'missed', 'failed']) {
+    keeper.on(event, log(event));
+  }
+
+  keeper.on('retry', (order: VaultOrder) => console.log(`retry ${order.commitment} (attempt ${order.attempts}): ${order.lastError}`));
+  keeper.on('error', error => console.error(`Keeper pass failed: ${error instanceof Error ? error.message : error}`));
+
+  await keeper.start();
+  console.log(`Keeping ${wallet.address}'s orders on ${client.address}: ${JSON.stringify(keeper.summary())}`);
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+
+  await keeper.stop();
+  return 0;
+}
+
+async function commit(options: Record<string, string>): Promise<number> {
+  const order = createOrder({
+    nonce: options.nonce === undefined ? BigInt(Date.now()) : integerArg(options.nonce, '--nonce'),
+    expiry: integerArg(options.expiry, '--expiry'),
+    amount: integerArg(options.amount, '--amount'),
+    limitPrice: integerArg(options['limit-price'], '--limit-price'),
+    side: sideArg(options.side),
+  });
+
+  // The vault is opened first so a wrong passphrase fails before anything is sent
+  const vault = await openVault(options);
+  const { client, wallet } = connect(options);
+
+  if (options.lock === 'true') {
+    await client.approveLock(order, wallet.address);
+  }
+
+  // The salt is vaulted before the commit is sent, so it survives a receipt that never arrives
+  const stored = await vault.prepare(client.address, wallet.address, order, randomSalt());
+  const commitOptions = { salt: stored.salt };
+
+  try {
+    const committed = options.lock === 'true'
+      ? await client.commitWithLock(order, commitOptions)
+      : await client.commit(order, commitOptions);
+    print(describe(await vault.confirm(committed)));
+    return 0;
+  } catch (error) {
+    if (error instanceof BatchAuctionError) {
+      // Reverted, so nothing was committed
+      await vault.remove(stored.commitment);
+    } else {
+      await vault.update(stored.commitment, { lastError: error instanceof Error ? error.message : String(error) });
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Run a command and return the process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  const { command, options } = parseArgs(argv);
+
+  switch (command.join(' ')) {
+    case 'run':
+      return keep(options);
+
+    case 'commit':
+      return commit(options);
+
+    case 'list': {
+      const status = options.status as VaultOrderStatus | undefined;
+
+      if (status !== undefined && !STATUSES.includes(status)) {
+        throw new UsageError(`--status must be one of ${STATUSES.join(', ')}`);
+      }
+
+      const vault = await openVault(options);
+      print(vault.list({ status }).map(describe));
+      return 0;
+    }
+
+    case 'report': {
+      const vault = await openVault(options);
+      print({
+        committing: vault.list({ status: 'committing' }).map(describe),
+        expired: vault.list({ status: 'expired' }).map(describe),
+        missed: vault.list({ status: 'missed' }).map(describe),
+        failed: vault.list({ status: 'failed' }).map(describe),
+      });
+      return 0;
+    }
+  }
+
+  throw new UsageError(command.length > 0 ? `Unknown command: ${command.join(' ')}` : 'No command given');
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+      if (error instanceof UsageError) {
+        console.error(`${error.message}\n\n${USAGE}`);
+        process.exit(2);
+      }
+
+      // Vault and contract errors carry a readable message
+      const expected = error instanceof VaultError || error instanceof BatchAuctionError;
+      console.error(expected ? error.message : error);
+      process.exit(1);
+    }
+  );
+}
@@ -0,0 +1,221 @@
+import { EventEmitter } from 'events';
+import { getAddress } from 'ethers';
+import { BatchAuctionClient } from './auction';
+import { BatchAuctionError } from './errors';
+import { BatchState } from './types';
+import { OrderVault, VaultOrder, VaultOrderStatus } from './vault';
+
+export interface KeeperOptions {
+  // How often to check the batch state; the reveal phase starts without an event
+  pollIntervalMs?: number;
+  // Wait before retrying a reveal that failed
+  retryDelayMs?: number;
+}
+
+/**
+ * The parts of BatchAuctionClient the keeper uses
+ */
+export type KeeperClient = Pick<
+  BatchAuctionClient,
+  'address' | 'getCurrentBatch' | 'getBlockTimestamp' | 'getCommitmentStatus' | 'reveal' | 'onBatchStarted'
+>;
+
+/**
+ * Orders whose status changed during one pass
+ */
+export interface KeeperReport {
+  revealed: VaultOrder[];
+  expired: VaultOrder[];
+  missed: VaultOrder[];
+  failed: VaultOrder[];
+}
+
+export type KeeperSummary = Record<VaultOrderStatus, number>;
+
+const DEFAULT_POLL_INTERVAL_MS = 4000;
+const DEFAULT_RETRY_DELAY_MS = 10000;
+
+// Reverts retrying cannot fix
+const PERMANENT_ERRORS = new Set(['InvalidCommitment', 'OrderTooSmall']);
+
+/**
+ * Reveals a trader's vaulted orders as soon as their batch enters the reveal phase
+ *
+ * `revealOrder` must come from the committing address, so the keeper only handles orders the client's
+ * signer committed. Emits `revealed`, `expired`, `missed` and `failed` with the order as it changes,
+ * and `retry` with the order and error when a reveal fails but may still succeed. Orders still committing
+ * are left alone, since their batch is unknown.
+ */
+export class RevealKeeper extends EventEmitter {
+  private client: KeeperClient;
+  private vault: OrderVault;
+  private trader: string;
+  private pollIntervalMs: number;
+  private retryDelayMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private running: Promise<KeeperReport> | null = null;
+  // Earliest time each failed reveal may be retried, by commitment
+  private retryAt = new Map<string, number>();
+
+  constructor(client: KeeperClient, vault: OrderVault, trader: string, options: KeeperOptions = {}) {
+    super();
+    this.client = client;
+    this.vault = vault;
+    this.trader = getAddress(trader);
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  /**
+   * Run a pass now, then on every poll and every `BatchStarted`
+   */
+  async start(): Promise<KeeperReport> {
+    if (this.timer) {
+      throw new Error('Keeper already started');
+    }
+
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.unsubscribe = this.client.onBatchStarted(() => this.poll());
+    return this.tick();
+  }
+
+  /**
+   * Stop polling and wait for a pass in progress
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * Check every pending order once: reveal it, or record that it expired or missed its batch
+   * Concurrent calls share the pass in progress.
+   */
+  tick(): Promise<KeeperReport> {
+    if (!this.running) {
+      this.running = this.pass().finally(() => {
+        this.running = null;
+      });
+    }
+
+    return this.running;
+  }
+
+  /**
+   * Number of this trader's vaulted orders in each status
+   */
+  summary(): KeeperSummary {
+    const summary: KeeperSummary = { committing: 0, pending: 0, revealed: 0, expired: 0, missed: 0, failed: 0 };
+
+    for (const order of this.orders()) {
+      summary[order.status]++;
+    }
+
+    return summary;
+  }
+
+  private poll(): void {
+    this.tick().catch(error => this.emit('error', error));
+  }
+
+  private orders(status?: VaultOrderStatus): VaultOrder[] {
+    return this.vault.list({ status, auction: this.client.address, trader: this.trader });
+  }
+
+  private async pass(): Promise<KeeperReport> {
+    const report: KeeperReport = { revealed: [], expired: [], missed: [], failed: [] };
+    const pending = this.orders('pending');
+
+    if (pending.length === 0) {
+      return report;
+    }
+
+    const [batch, timestamp] = await Promise.all([this.client.getCurrentBatch(), this.client.getBlockTimestamp()]);
+
+    for (const order of pending) {
+      // Pending orders always have their batch
+      const batchId = order.batchId!;
+
+      if (batchId < batch.batchId) {
+        // A reveal sent before a restart may have landed without being recorded
+        const { revealed } = await this.client.getCommitmentStatus(order.commitment);
+
+        if (revealed) {
+          await this.record(report, order, 'revealed', null);
+        } else {
+          await this.record(report, order, 'missed', `Batch ${order.batchId} was settled before the order was revealed`);
+        }
+      } else if (order.order.expiry < timestamp) {
+        await this.record(report, order, 'expired', `Order expired at ${order.order.expiry}`);
+      } else if (batchId === batch.batchId && batch.state === BatchState.Revealing) {
+        await this.reveal(report, order);
+      }
+    }
+
+    return report;
+  }
+
+  private async reveal(report: KeeperReport, order: VaultOrder): Promise<void> {
+    if ((this.retryAt.get(order.commitment) ?? 0) > Date.now()) {
+      return;
+    }
+
+    try {
+      const status = await this.client.getCommitmentStatus(order.commitment);
+
+      if (status.revealed) {
+        await this.record(report, order, 'revealed', null);
+        return;
+      }
+
+      if (!status.committed) {
+        await this.record(report, order, 'failed', 'The auction has no such commitment');
+        return;
+      }
+
+      const revealed = await this.client.reveal(order.order, order.salt);
+      await this.record(report, order, 'revealed', null, revealed.txHash);
+    } catch (error) {
+      const reason = error instanceof BatchAuctionError ? error.reason : null;
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (reason === 'AlreadyRevealed') {
+        await this.record(report, order, 'revealed', null);
+      } else if (reason === 'OrderExpired') {
+        await this.record(report, order, 'expired', message);
+      } else if (reason && PERMANENT_ERRORS.has(reason)) {
+        await this.record(report, order, 'failed', message);
+      } else {
+        // Includes BatchNotRevealing: the next pass finds out whether the batch was settled meanwhile
+        this.retryAt.set(order.commitment, Date.now() + this.retryDelayMs);
+        const updated = await this.vault.update(order.commitment, { attempts: order.attempts + 1, lastError: message });
+        this.emit('retry', updated, error);
+      }
+    }
+  }
+
+  private async record(
+    report: KeeperReport,
+    order: VaultOrder,
+    status: Exclude<VaultOrderStatus, 'committing' | 'pending'>,
+    error: string | null,
+    revealTxHash: string | null = null
+  ): Promise<void> {
+    this.retryAt.delete(order.commitment);
+    const updated = await this.vault.update(order.commitment, {
+      status,
+      revealTxHash,
+      lastError: error,
+    });
+
+    report[status].push(updated);
+    this.emit(status, updated);
+  }
+}
@@ -0,0 +1,76 @@
+import { BigNumberish } from 'ethers';
+
+export enum OrderSide {
+  Buy = 0,
+  Sell = 1,
+}
+
+/**
+ * Mirrors IBatchAuction.BatchState
+ */
+export enum BatchState {
+  Open = 0,
+  Revealing = 1,
+  Settled = 2,
+}
+
+/**
+ * IBatchAuction.Order, with every field in range for its Solidity type
+ */
+export interface Order {
+  nonce: bigint;
+  expiry: bigint;
+  amount: bigint;
+  limitPrice: bigint;
+  side: OrderSide;
+}
+
+/**
+ * Order fields as a caller may hold them (numbers, decimal strings, bigints)
+ */
+export interface OrderInput {
+  nonce: BigNumberish;
+  expiry: BigNumberish;
+  amount: BigNumberish;
+  limitPrice: BigNumberish;
+  side: OrderSide | number;
+}
+
+/**
+ * Everything needed to reveal an order later; keep it until the batch settles
+ */
+export interface CommittedOrder {
+  order: Order;
+  salt: string;
+  commitment: string;
+  orderHash: string;
+  batchId: bigint;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface RevealedOrder {
+  commitment: string;
+  orderHash: string;
+  batchId: bigint;
+  txHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Funds `commitOrderWithLock` pulls from the trader
+ */
+export interface LockRequirement {
+  // TOKEN1 (quote) for buy orders, TOKEN0 (base) for sell orders
+  token: 'token0' | 'token1';
+  amount: bigint;
+}
+
+/**
+ * BatchAuction.OrderExecution
+ */
+export interface OrderExecution {
+  executed: boolean;
+  filledAmount: bigint;
+  receivedAmount: bigint;
+}
@@ -0,0 +1,283 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, ScryptOptions } from 'crypto';
+import { promises as fs } from 'fs';
+import { getAddress } from 'ethers';
+import { createOrder, hashCommitment, hashOrder } from './encoding';
+import { CommittedOrder, Order } from './types';
+
+/**
+ * Where an order is in its commit-reveal lifecycle
+ * - `committing`: stored before its commit was sent; its batch is unknown until the receipt is read
+ * - `pending`: committed, waiting for its batch to enter the reveal phase
+ * - `revealed`: revealed on-chain
+ * - `expired`: its expiry passed before it could be revealed
+ * - `missed`: its batch was settled before it was revealed
+ * - `failed`: the reveal reverted for a reason retrying cannot fix
+ */
+export type VaultOrderStatus = 'committing' | 'pending' | 'revealed' | 'expired' | 'missed' | 'failed';
+
+export interface VaultOrder {
+  auction: string;
+  // Only this address can reveal the order
+  trader: string;
+  order: Order;
+  salt: string;
+  commitment: string;
+  orderHash: string;
+  // Null while committing
+  batchId: bigint | null;
+  commitTxHash: string | null;
+  status: VaultOrderStatus;
+  revealTxHash: string | null;
+  // Failed reveal attempts and the last error, while pending or once failed
+  attempts: number;
+  lastError: string | null;
+  updatedAt: number;
+}
+
+export type VaultOrderUpdate = Partial<
+  Pick<VaultOrder, 'status' | 'batchId' | 'commitTxHash' | 'revealTxHash' | 'attempts' | 'lastError'>
+>;
+
+export class VaultError extends Error {}
+
+interface VaultFile {
+  version: number;
+  kdf: { salt: string; N: number; r: number; p: number };
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+const VERSION = 1;
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Committed orders and their salts, kept in a passphrase-encrypted file (scrypt + AES-256-GCM)
+ *
+ * The salt is the only way to reveal an order, so losing this file before the reveal loses the order.
+ * Every change is written to a temporary file and renamed over the vault.
+ */
+export class OrderVault {
+  readonly path: string;
+  private orders: Map<string, VaultOrder>;
+  private key: Buffer;
+  private kdf: VaultFile['kdf'];
+  private writing: Promise<void> = Promise.resolve();
+
+  private constructor(path: string, key: Buffer, kdf: VaultFile['kdf'], orders: VaultOrder[]) {
+    this.path = path;
+    this.key = key;
+    this.kdf = kdf;
+    this.orders = new Map(orders.map(order => [order.commitment, order]));
+  }
+
+  /**
+   * Open a vault, creating an empty one if the file does not exist
+   * @throws VaultError if the passphrase is wrong or the file is not a vault
+   */
+  static async open(path: string, passphrase: string): Promise<OrderVault> {
+    if (!passphrase) {
+      throw new VaultError('The vault passphrase must not be empty');
+    }
+
+    let contents: string;
+
+    try {
+      contents = await fs.readFile(path, 'utf8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+
+      const kdf = { salt: randomBytes(16).toString('hex'), ...KDF_PARAMS };
+      const vault = new OrderVault(path, await deriveKey(passphrase, kdf), kdf, []);
+      await vault.save();
+      return vault;
+    }
+
+    let file: VaultFile;
+
+    try {
+      file = JSON.parse(contents);
+    } catch {
+      throw new VaultError(`${path} is not an order vault`);
+    }
+
+    if (file.version !== VERSION) {
+      throw new VaultError(`${path} has unsupported vault version ${file.version}`);
+    }
+
+    const key = await deriveKey(passphrase, file.kdf);
+    let plaintext: string;
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'hex'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'hex'));
+      plaintext = Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'hex')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new VaultError(`Cannot decrypt ${path}: wrong passphrase or corrupted vault`);
+    }
+
+    return new OrderVault(path, key, file.kdf, JSON.parse(plaintext).map(fromStored));
+  }
+
+  /**
+   * Store a freshly committed order as pending
+   * @throws VaultError if the commitment is already stored
+   */
+  async add(auction: string, trader: string, committed: CommittedOrder): Promise<VaultOrder> {
+    return this.insert({
+      ...this.entry(auction, trader, committed.order, committed.salt),
+      batchId: committed.batchId,
+      commitTxHash: committed.txHash,
+      status: 'pending',
+    });
+  }
+
+  /**
+   * Store an order and its salt as committing, before its commit is sent
+   * @throws VaultError if the commitment is already stored
+   */
+  async prepare(auction: string, trader: string, order: Order, salt: string): Promise<VaultOrder> {
+    return this.insert(this.entry(auction, trader, order, salt));
+  }
+
+  /**
+   * Record the batch and transaction of a committing order from its commit receipt, making it pending
+   * @throws VaultError if the commitment is not stored as committing
+   */
+  async confirm(committed: CommittedOrder): Promise<VaultOrder> {
+    if (this.orders.get(committed.commitment)?.status !== 'committing') {
+      throw new VaultError(`Commitment ${committed.commitment} is not committing`);
+    }
+
+    return this.update(committed.commitment, {
+      status: 'pending',
+      batchId: committed.batchId,
+      commitTxHash: committed.txHash,
+      lastError: null,
+    });
+  }
+
+  get(commitment: string): VaultOrder | undefined {
+    return this.orders.get(commitment);
+  }
+
+  /**
+   * Stored orders in commit order, optionally filtered
+   */
+  list(filter: { status?: VaultOrderStatus; auction?: string; trader?: string } = {}): VaultOrder[] {
+    return [...this.orders.values()].filter(order =>
+      (!filter.status || order.status === filter.status) &&
+      (!filter.auction || order.auction === getAddress(filter.auction)) &&
+      (!filter.trader || order.trader === getAddress(filter.trader))
+    );
+  }
+
+  async update(commitment: string, changes: VaultOrderUpdate): Promise<VaultOrder> {
+    const order = this.orders.get(commitment);
+
+    if (!order) {
+      throw new VaultError(`Commitment ${commitment} is not in the vault`);
+    }
+
+    Object.assign(order, changes, { updatedAt: Date.now() });
+    await this.save();
+    return order;
+  }
+
+  /**
+   * Drop an order, e.g. once its batch is settled and it no longer needs to be kept
+   */
+  async remove(commitment: string): Promise<boolean> {
+    const removed = this.orders.delete(commitment);
+
+    if (removed) {
+      await this.save();
+    }
+
+    return removed;
+  }
+
+  private entry(auction: string, trader: string, order: Order, salt: string): VaultOrder {
+    const normalized = createOrder(order);
+
+    return {
+      auction: getAddress(auction),
+      trader: getAddress(trader),
+      order: normalized,
+      salt,
+      commitment: hashCommitment(normalized, salt),
+      orderHash: hashOrder(normalized),
+      batchId: null,
+      commitTxHash: null,
+      status: 'committing',
+      revealTxHash: null,
+      attempts: 0,
+      lastError: null,
+      updatedAt: Date.now(),
+    };
+  }
+
+  private async insert(order: VaultOrder): Promise<VaultOrder> {
+    if (this.orders.has(order.commitment)) {
+      throw new VaultError(`Commitment ${order.commitment} is already in the vault`);
+    }
+
+    this.orders.set(order.commitment, order);
+    await this.save();
+    return order;
+  }
+
+  private save(): Promise<void> {
+    // Writes are queued so a slow one cannot overwrite a newer one
+    const write = this.writing.then(() => this.write());
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  private async write(): Promise<void> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const plaintext = JSON.stringify([...this.orders.values()].map(toStored));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    const file: VaultFile = {
+      version: VERSION,
+      kdf: this.kdf,
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('hex'),
+    };
+
+    const temporary = `${this.path}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(file), { mode: 0o600 });
+    await fs.rename(temporary, this.path);
+  }
+}
+
+function deriveKey(passphrase: string, kdf: VaultFile['kdf']): Promise<Buffer> {
+  const options: ScryptOptions = { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r };
+
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, Buffer.from(kdf.salt, 'hex'), 32, options, (error, key) => error ? reject(error) : resolve(key));
+  });
+}
+
+function toStored(order: VaultOrder) {
+  return {
+    ...order,
+    order: {
+      nonce: order.order.nonce.toString(),
+      expiry: order.order.expiry.toString(),
+      amount: order.order.amount.toString(),
+      limitPrice: order.order.limitPrice.toString(),
+      side: order.order.side,
+    },
+    batchId: order.batchId === null ? null : order.batchId.toString(),
+  };
+}
+
+function fromStored(stored: ReturnType<typeof toStored>): VaultOrder {
+  return { ...stored, order: createOrder(stored.order), batchId: stored.batchId === null ? null : BigInt(stored.batchId) };
+}
@@ -0,0 +1,75 @@
+import { solidityPacked, keccak256 } from 'ethers';
+import vectors from './fixtures/hash-vectors.json';
+import { createOrder, hashCommitment, hashOrder, lockRequirement, randomSalt } from '../src/encoding';
+import { OrderSide } from '../src/types';
+
+// Generated from the Solidity side by script/GenerateRelayerFixtures.s.sol
+describe('commitment hashing', () => {
+  vectors.vectors.forEach((vector, i) => {
+    it(`matches CompactEncoding.hashOrder (vector ${i})`, () => {
+      expect(hashCommitment(vector.order, vector.salt)).toBe(vector.commitment);
+    });
+
+    it(`matches the BatchAuction order hash (vector ${i})`, () => {
+      expect(hashOrder(vector.order)).toBe(vector.orderHash);
+    });
+  });
+
+  it('differs from a packed encoding of the same fields', () => {
+    const { order, salt, commitment } = vectors.vectors[0];
+    const packed = keccak256(
+      solidityPacked(
+        ['uint64', 'uint64', 'uint128', 'uint128', 'uint8', 'bytes32'],
+        [order.nonce, order.expiry, order.amount, order.limitPrice, order.side, salt]
+      )
+    );
+
+    expect(packed).not.toBe(commitment);
+  });
+
+  it('depends on the salt', () => {
+    const { order } = vectors.vectors[0];
+    expect(hashCommitment(order, randomSalt())).not.toBe(hashCommitment(order, randomSalt()));
+  });
+
+  it('rejects salts that are not 32 bytes', () => {
+    const { order } = vectors.vectors[0];
+    expect(() => hashCommitment(order, '0x1234')).toThrow(RangeError);
+  });
+});
+
+describe('createOrder', () => {
+  it('converts fields to the contract types', () => {
+    expect(createOrder({ nonce: 1, expiry: '2', amount: 3n, limitPrice: '0x04', side: OrderSide.Sell })).toEqual({
+      nonce: 1n,
+      expiry: 2n,
+      amount: 3n,
+      limitPrice: 4n,
+      side: OrderSide.Sell,
+    });
+  });
+
+  it('rejects values that overflow their Solidity type', () => {
+    expect(() => createOrder({ nonce: 2n ** 64n, expiry: 0, amount: 0, limitPrice: 0, side: 0 })).toThrow(/nonce out of range/);
+    expect(() => createOrder({ nonce: 0, expiry: 0, amount: -1, limitPrice: 0, side: 0 })).toThrow(/amount out of range/);
+    expect(() => createOrder({ nonce: 0, expiry: 0, amount: 0, limitPrice: 0, side: 2 })).toThrow(/side/);
+  });
+});
+
+describe('lockRequirement', () => {
+  const price = 2000n * 10n ** 18n;
+
+  it('locks quote tokens at the limit price for buys', () => {
+    expect(lockRequirement({ nonce: 0, expiry: 0, amount: 10n ** 18n, limitPrice: price, side: OrderSide.Buy })).toEqual({
+      token: 'token1',
+      amount: 2000n * 10n ** 18n,
+    });
+  });
+
+  it('locks the base amount for sells', () => {
+    expect(lockRequirement({ nonce: 0, expiry: 0, amount: 5n, limitPrice: price, side: OrderSide.Sell })).toEqual({
+      token: 'token0',
+      amount: 5n,
+    });
+  });
+});
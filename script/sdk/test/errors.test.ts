@@ -0,0 +1,46 @@
+import { Interface } from 'ethers';
+import { BATCH_AUCTION_ERRORS, BatchAuctionError, decodeBatchAuctionError, rethrowDecoded } from '../src/errors';
+
+const errors = new Interface(BATCH_AUCTION_ERRORS);
+
+describe('decodeBatchAuctionError', () => {
+  it('decodes raw revert data', () => {
+    const decoded = decodeBatchAuctionError(errors.encodeErrorResult('BatchNotOpen', []));
+
+    expect(decoded).toBeInstanceOf(BatchAuctionError);
+    expect(decoded!.reason).toBe('BatchNotOpen');
+    expect(decoded!.message).toMatch(/^BatchNotOpen: .*next batch/);
+  });
+
+  it('finds the data where ethers and nodes put it', () => {
+    const data = errors.encodeErrorResult('OrderTooSmall', []);
+
+    for (const error of [
+      { data },
+      { info: { error: { data } } },
+      { error: { data: { data } } },
+      { revert: { data } },
+    ]) {
+      expect(decodeBatchAuctionError(error)?.reason).toBe('OrderTooSmall');
+    }
+  });
+
+  it('keeps error arguments', () => {
+    const spender = '0x' + '11'.repeat(20);
+    const data = errors.encodeErrorResult('ERC20InsufficientAllowance', [spender, 1n, 2n]);
+    const decoded = decodeBatchAuctionError({ data })!;
+
+    expect(decoded.args).toEqual({ spender: spender, allowance: 1n, needed: 2n });
+  });
+
+  it('returns null for unknown or missing revert data', () => {
+    expect(decodeBatchAuctionError({ data: '0xdeadbeef' })).toBeNull();
+    expect(decodeBatchAuctionError(new Error('network down'))).toBeNull();
+  });
+
+  it('rethrows undecodable errors unchanged', () => {
+    const error = new Error('network down');
+    expect(() => rethrowDecoded(error)).toThrow(error);
+    expect(() => rethrowDecoded({ data: errors.encodeErrorResult('OrderExpired', []) })).toThrow(BatchAuctionError);
+  });
+});
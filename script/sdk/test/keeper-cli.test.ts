@@ -0,0 +1,19 @@
+import { parseArgs, run, UsageError } from '../src/keeper-cli';
+
+describe('keeper cli', () => {
+  it('separates command words, options and flags', () => {
+    expect(parseArgs(['commit', '--side', 'buy', '--lock', '--amount=5'])).toEqual({
+      command: ['commit'],
+      options: { side: 'buy', lock: 'true', amount: '5' },
+    });
+    expect(() => parseArgs(['list', '--status'])).toThrow(UsageError);
+  });
+
+  it('rejects unknown commands and malformed arguments before opening the vault', async () => {
+    await expect(run([])).rejects.toThrow('No command given');
+    await expect(run(['reveal'])).rejects.toThrow('Unknown command: reveal');
+    await expect(run(['list', '--status', 'lost'])).rejects.toThrow('--status must be one of');
+    await expect(run(['commit', '--side', 'buy', '--amount', '1e18'])).rejects.toThrow('--expiry must be a non-negative integer');
+    await expect(run(['commit', '--side', 'short', '--amount', '1', '--limit-price', '1', '--expiry', '1'])).rejects.toThrow('--side must be buy or sell');
+  });
+});
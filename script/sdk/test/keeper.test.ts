@@ -0,0 +1,174 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Interface } from 'ethers';
+import { createOrder, hashCommitment, hashOrder, randomSalt } from '../src/encoding';
+import { BATCH_AUCTION_ERRORS, decodeBatchAuctionError } from '../src/errors';
+import { KeeperClient, RevealKeeper } from '../src/keeper';
+import { BatchState, CommittedOrder, OrderSide } from '../src/types';
+import { OrderVault } from '../src/vault';
+
+const AUCTION = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TRADER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_TRADER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const NOW = 1700000000n;
+
+const errors = new Interface(BATCH_AUCTION_ERRORS);
+
+function revert(name: string) {
+  return decodeBatchAuctionError(errors.encodeErrorResult(name, []))!;
+}
+
+function committed(nonce: number, batchId: bigint, expiry = NOW + 3600n): CommittedOrder {
+  const order = createOrder({ nonce, expiry, amount: 10n ** 18n, limitPrice: 2000n * 10n ** 18n, side: OrderSide.Sell });
+  const salt = randomSalt();
+
+  return {
+    order,
+    salt,
+    commitment: hashCommitment(order, salt),
+    orderHash: hashOrder(order),
+    batchId,
+    txHash: '0x' + 'ab'.repeat(32),
+    blockNumber: 1,
+  };
+}
+
+/**
+ * In-memory stand-in for the auction: one current batch, and the commitments made to it
+ */
+class FakeAuction implements KeeperClient {
+  readonly address = AUCTION;
+  batchId = 1n;
+  state = BatchState.Open;
+  committed = new Set<string>();
+  revealed = new Set<string>();
+  failures: Error[] = [];
+  reveals = 0;
+
+  async getCurrentBatch() {
+    return { batchId: this.batchId, state: this.state, commitEndBlock: 0n };
+  }
+
+  async getBlockTimestamp() {
+    return NOW;
+  }
+
+  async getCommitmentStatus(commitment: string) {
+    return { committed: this.committed.has(commitment), revealed: this.revealed.has(commitment) };
+  }
+
+  async reveal(order: CommittedOrder['order'], salt: string) {
+    this.reveals++;
+    const failure = this.failures.shift();
+
+    if (failure) {
+      throw failure;
+    }
+
+    const commitment = hashCommitment(order, salt);
+    this.revealed.add(commitment);
+    return { commitment, orderHash: hashOrder(order), batchId: this.batchId, txHash: '0x' + 'cd'.repeat(32), blockNumber: 2 };
+  }
+
+  onBatchStarted() {
+    return () => undefined;
+  }
+}
+
+describe('RevealKeeper', () => {
+  let dir: string;
+  let vault: OrderVault;
+  let auction: FakeAuction;
+
+  async function store(order: CommittedOrder, trader = TRADER) {
+    auction.committed.add(order.commitment);
+    await vault.add(AUCTION, trader, order);
+    return order;
+  }
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'keeper-'));
+    vault = await OrderVault.open(join(dir, 'orders.vault'), 'passphrase');
+    auction = new FakeAuction();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reveals the trader\'s orders once their batch enters the reveal phase', async () => {
+    const order = await store(committed(1, 1n));
+    const other = await store(committed(2, 1n), OTHER_TRADER);
+    const keeper = new RevealKeeper(auction, vault, TRADER);
+
+    expect((await keeper.tick()).revealed).toHaveLength(0);
+
+    auction.state = BatchState.Revealing;
+    const report = await keeper.tick();
+
+    expect(report.revealed.map(o => o.commitment)).toEqual([order.commitment]);
+    expect(vault.get(order.commitment)).toMatchObject({ status: 'revealed', revealTxHash: '0x' + 'cd'.repeat(32) });
+    expect(vault.get(other.commitment)!.status).toBe('pending');
+    expect(keeper.summary()).toEqual({ committing: 0, pending: 0, revealed: 1, expired: 0, missed: 0, failed: 0 });
+  });
+
+  it('retries failed reveals after the retry delay', async () => {
+    const order = await store(committed(1, 1n));
+    const keeper = new RevealKeeper(auction, vault, TRADER, { retryDelayMs: 0 });
+    const retries: number[] = [];
+    keeper.on('retry', o => retries.push(o.attempts));
+
+    auction.state = BatchState.Revealing;
+    auction.failures.push(new Error('nonce too low'), revert('EnforcedPause'));
+
+    await keeper.tick();
+    await keeper.tick();
+    expect(vault.get(order.commitment)).toMatchObject({ status: 'pending', attempts: 2, lastError: expect.stringMatching(/paused/) });
+
+    await keeper.tick();
+    expect(vault.get(order.commitment)).toMatchObject({ status: 'revealed', lastError: null });
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it('waits out the retry delay', async () => {
+    await store(committed(1, 1n));
+    const keeper = new RevealKeeper(auction, vault, TRADER, { retryDelayMs: 60000 });
+
+    auction.state = BatchState.Revealing;
+    auction.failures.push(new Error('timeout'));
+
+    await keeper.tick();
+    await keeper.tick();
+    expect(auction.reveals).toBe(1);
+  });
+
+  it('reports orders that expired or missed their batch', async () => {
+    const expired = await store(committed(1, 1n, NOW - 1n));
+    const missed = await store(committed(2, 0n));
+    const revealedBeforeRestart = await store(committed(3, 0n));
+    auction.revealed.add(revealedBeforeRestart.commitment);
+
+    const report = await new RevealKeeper(auction, vault, TRADER).tick();
+
+    expect(report.expired.map(o => o.commitment)).toEqual([expired.commitment]);
+    expect(report.missed.map(o => o.commitment)).toEqual([missed.commitment]);
+    expect(report.revealed.map(o => o.commitment)).toEqual([revealedBeforeRestart.commitment]);
+    expect(vault.get(missed.commitment)!.lastError).toMatch(/Batch 0 was settled/);
+  });
+
+  it('classifies reverts it cannot retry', async () => {
+    const tooSmall = await store(committed(1, 1n));
+    const expired = await store(committed(2, 1n));
+    const unknown = committed(3, 1n);
+    await vault.add(AUCTION, TRADER, unknown);
+
+    auction.state = BatchState.Revealing;
+    auction.failures.push(revert('OrderTooSmall'), revert('OrderExpired'));
+    const report = await new RevealKeeper(auction, vault, TRADER).tick();
+
+    expect(report.failed.map(o => o.commitment)).toEqual([tooSmall.commitment, unknown.commitment]);
+    expect(report.expired.map(o => o.commitment)).toEqual([expired.commitment]);
+    expect(vault.get(unknown.commitment)!.lastError).toBe('The auction has no such commitment');
+  });
+});
@@ -0,0 +1,93 @@
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createOrder, hashCommitment, hashOrder, randomSalt } from '../src/encoding';
+import { CommittedOrder, OrderSide } from '../src/types';
+import { OrderVault, VaultError } from '../src/vault';
+
+const AUCTION = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+const TRADER = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8';
+
+function committed(nonce: number): CommittedOrder {
+  const order = createOrder({ nonce, expiry: 1700000000, amount: 10n ** 18n, limitPrice: 2000n * 10n ** 18n, side: OrderSide.Buy });
+  const salt = randomSalt();
+
+  return {
+    order,
+    salt,
+    commitment: hashCommitment(order, salt),
+    orderHash: hashOrder(order),
+    batchId: 3n,
+    txHash: '0x' + 'ab'.repeat(32),
+    blockNumber: 100,
+  };
+}
+
+describe('OrderVault', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'vault-'));
+    path = join(dir, 'orders.vault');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps orders and salts across reopening', async () => {
+    const vault = await OrderVault.open(path, 'correct horse');
+    const first = committed(1);
+    const stored = await vault.add(AUCTION, TRADER, first);
+
+    expect(stored).toMatchObject({ status: 'pending', attempts: 0, revealTxHash: null, batchId: 3n });
+    expect(stored.trader).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+
+    await vault.update(first.commitment, { status: 'revealed', revealTxHash: '0x01' });
+    await vault.add(AUCTION, TRADER, committed(2));
+
+    const reopened = await OrderVault.open(path, 'correct horse');
+    expect(reopened.list()).toEqual(vault.list());
+    expect(reopened.get(first.commitment)).toMatchObject({ salt: first.salt, order: first.order, status: 'revealed' });
+    expect(reopened.list({ status: 'pending', auction: AUCTION, trader: TRADER })).toHaveLength(1);
+  });
+
+  it('keeps a salt stored before the commit was sent until its receipt confirms it', async () => {
+    const vault = await OrderVault.open(path, 'correct horse');
+    const order = committed(1);
+    const stored = await vault.prepare(AUCTION, TRADER, order.order, order.salt);
+
+    expect(stored).toMatchObject({ status: 'committing', commitment: order.commitment, batchId: null, commitTxHash: null });
+    expect((await OrderVault.open(path, 'correct horse')).get(order.commitment)).toMatchObject({ salt: order.salt, batchId: null });
+
+    expect(await vault.confirm(order)).toMatchObject({ status: 'pending', batchId: 3n, commitTxHash: order.txHash });
+    await expect(vault.confirm(order)).rejects.toThrow('is not committing');
+    await expect(vault.prepare(AUCTION, TRADER, order.order, order.salt)).rejects.toThrow('already in the vault');
+  });
+
+  it('encrypts the file and keeps it private to its owner', async () => {
+    const vault = await OrderVault.open(path, 'correct horse');
+    const order = committed(1);
+    await vault.add(AUCTION, TRADER, order);
+
+    const contents = readFileSync(path, 'utf8');
+    expect(contents).not.toContain(order.salt.slice(2));
+    expect(contents).not.toContain(order.commitment.slice(2));
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects a wrong passphrase', async () => {
+    await OrderVault.open(path, 'correct horse');
+    await expect(OrderVault.open(path, 'battery staple')).rejects.toThrow(VaultError);
+  });
+
+  it('refuses to store a commitment twice', async () => {
+    const vault = await OrderVault.open(path, 'correct horse');
+    const order = committed(1);
+    await vault.add(AUCTION, TRADER, order);
+
+    await expect(vault.add(AUCTION, TRADER, order)).rejects.toThrow('already in the vault');
+    await expect(vault.update('0x' + '00'.repeat(32), { status: 'missed' })).rejects.toThrow('not in the vault');
+  });
+});
@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import {Test} from "forge-std/Test.sol";
+import {IBatchAuction} from "../contracts/interfaces/IBatchAuction.sol";
+import {MerkleProof} from "../contracts/libraries/MerkleProof.sol";
+import {GenerateRelayerFixtures} from "../script/GenerateRelayerFixtures.s.sol";
+
+/// @notice Ensures the fixtures committed for the relayer still match the contract libraries
+/// @dev If this fails, regenerate with: forge script script/GenerateRelayerFixtures.s.sol
+contract RelayerFixturesTest is Test {
+    GenerateRelayerFixtures generator;
+    string json;
+    string hashJson;
+
+    function setUp() public {
+        generator = new GenerateRelayerFixtures();
+        json = vm.readFile("script/relayer/test/fixtures/merkle-vectors.json");
+        hashJson = vm.readFile("script/sdk/test/fixtures/hash-vectors.json");
+    }
+
+    function test_MerkleVectorsMatchContract() public view {
+        (IBatchAuction.Order[] memory buyOrders, IBatchAuction.Order[] memory sellOrders) = generator.fixtureOrders();
+
+        uint256 checked = 0;
+        for (uint256 i = 0; vm.keyExistsJson(json, string.concat(".vectors[", vm.toString(i), "]")); i++) {
+            string memory key = string.concat(".vectors[", vm.toString(i), "]");
+            uint256 buyCount = vm.parseJsonUint(json, string.concat(key, ".buyCount"));
+            uint256 sellCount = vm.parseJsonUint(json, string.concat(key, ".sellCount"));
+
+            bytes32[] memory leaves = generator.fixtureLeaves(buyOrders, sellOrders, buyCount, sellCount);
+            bytes32[] memory expectedLeaves = vm.parseJsonBytes32Array(json, string.concat(key, ".leaves"));
+            assertEq(leaves, expectedLeaves, "leaf encoding drifted");
+
+            bytes32[] memory copy = new bytes32[](leaves.length);
+            for (uint256 j = 0; j < leaves.length; j++) {
+                copy[j] = leaves[j];
+            }
+            bytes32 root = MerkleProof.computeRoot(copy);
+            assertEq(root, vm.parseJsonBytes32(json, string.concat(key, ".root")), "root drifted");
+
+            for (uint256 j = 0; j < leaves.length; j++) {
+                bytes32[] memory proof = vm.parseJsonBytes32Array(
+                    json,
+                    string.concat(key, ".proofs[", vm.toString(j), "]")
+                );
+                assertTrue(MerkleProof.verify(proof, root, leaves[j]), "proof rejected");
+            }
+
+            checked++;
+        }
+
+        assertGt(checked, 0);
+    }
+
+    function test_HashVectorsMatchContract() public view {
+        (IBatchAuction.Order[] memory orders, bytes32[] memory salts) = generator.hashFixtureOrders();
+
+        for (uint256 i = 0; i < orders.length; i++) {
+            string memory key = string.concat(".vectors[", vm.toString(i), "]");
+
+            assertEq(vm.parseJsonBytes32(hashJson, string.concat(key, ".salt")), salts[i], "salt drifted");
+            assertEq(
+                vm.parseJsonBytes32(hashJson, string.concat(key, ".commitment")),
+                generator.fixtureCommitment(orders[i], salts[i]),
+                "commitment encoding drifted"
+            );
+            assertEq(
+                vm.parseJsonBytes32(hashJson, string.concat(key, ".orderHash")),
+                keccak256(abi.encode(orders[i])),
+                "order hash drifted"
+            );
+        }
+
+        assertFalse(vm.keyExistsJson(hashJson, string.concat(".vectors[", vm.toString(orders.length), "]")));
+    }
+}